@@ -0,0 +1,28 @@
+import { checkShadowTables, parseKeepOld } from '../modules/atomic';
+import { BackupManifest } from '../types';
+
+describe('atomic restore checks', () => {
+  const table = (name: string) => ({ schema: 'shop', name, approxRows: 0, dataSize: 0, indexSize: 0 });
+  const chunk = (name: string, rows: number) => ({ key: `shop/${name}.sql.gz`, schema: 'shop', table: name, rows, uncompressedSize: 0, size: 0, sha256: '' });
+  const manifest = {
+    schemas: ['shop'],
+    tables: [table('orders'), table('users')],
+    chunks: [chunk('orders', 10), chunk('users', 3), { key: 'shop/objects.sql.gz', schema: 'shop', uncompressedSize: 0, size: 0, sha256: '' }]
+  } as unknown as BackupManifest;
+
+  it('should report missing tables and row counts that differ from the chunks', () => {
+    expect(checkShadowTables(manifest, { orders: 10, users: 3 })).toEqual([]);
+    expect(checkShadowTables(manifest, { orders: 9 })).toEqual(['orders has 9 rows, the backup has 10', 'users is missing']);
+  });
+
+  it('should only expect the selected tables, under their new names', () => {
+    expect(checkShadowTables(manifest, { orders_restored: undefined }, { include: ['orders'], renameSuffix: '_restored' })).toEqual([]);
+  });
+
+  it('should parse --keep-old hours', () => {
+    expect(parseKeepOld(undefined)).toBe(24);
+    expect(parseKeepOld('0')).toBe(0);
+    expect(parseKeepOld('1.5')).toBe(1.5);
+    expect(() => parseKeepOld('soon')).toThrow('Invalid --keep-old value \'soon\'');
+  });
+});
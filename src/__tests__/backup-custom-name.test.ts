@@ -1,13 +1,19 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
 import * as fs from 'fs';
+import { PassThrough } from 'stream';
 import { backupCommand } from '../commands/backup';
 import { ConfigManager } from '../modules/config';
 import { MySQLManager } from '../modules/mysql';
+import { createNativeBackupStream } from '../modules/nativedump';
+import { createParallelBackup } from '../modules/parallel';
 import { S3Manager } from '../modules/s3';
+import { BackupDigest, BackupInfo, BackupManifest, BackupStreamOptions, ParsedBackupKey, ServerSnapshot } from '../types';
 
 // Mock dependencies
 jest.mock('../modules/mysql');
 jest.mock('../modules/s3');
+jest.mock('../modules/parallel');
+jest.mock('../modules/nativedump');
 jest.mock('../modules/progress', () => ({
   progressTracker: {
     createStreamProgressBar: jest.fn(() => jest.fn()),
@@ -32,9 +38,12 @@ jest.mock('fs', () => {
 jest.mock('chalk', () => {
   const mockChalk = {
     blue: jest.fn((str: string) => str),
-    green: jest.fn((str: string) => str),
+    green: Object.assign(jest.fn((str: string) => str), {
+      bold: jest.fn((str: string) => str)
+    }),
     gray: jest.fn((str: string) => str),
     red: jest.fn((str: string) => str),
+    yellow: jest.fn((str: string) => str),
     cyan: jest.fn((str: string) => str),
     bold: {
       green: jest.fn((str: string) => str)
@@ -73,16 +82,27 @@ describe('Backup Command - Custom Name', () => {
     // Mock MySQLManager
     mockMySQLManager = new MySQLManager({} as any) as jest.Mocked<MySQLManager>;
     mockMySQLManager.testConnection = jest.fn<() => Promise<void>>().mockResolvedValue(undefined);
-    mockMySQLManager.createBackup = jest.fn<(outputPath: string, progressCallback?: any) => Promise<void>>()
-      .mockImplementation(async () => {
-        // Mock implementation
-      });
+    mockMySQLManager.createBackup = jest.fn<(outputPath: string, progressCallback?: any, options?: any) => Promise<BackupDigest>>()
+      .mockResolvedValue({ size: 1572864, sha256: 'abc123' });
+    mockMySQLManager.createBackupStream = jest.fn<(options?: any) => any>().mockReturnValue({});
+    mockMySQLManager.getServerSnapshot = jest.fn<() => Promise<ServerSnapshot>>().mockResolvedValue({
+      serverVersion: '8.0.36',
+      schemas: ['testdb'],
+      tables: [{ schema: 'testdb', name: 'users', approxRows: 10, dataSize: 16384, indexSize: 0 }],
+      binlog: { file: 'binlog.000042', position: 157 },
+      hasReloadPrivilege: false
+    });
+    mockMySQLManager.getDumpFlags = jest.fn<() => string[]>().mockReturnValue(['--single-transaction', 'testdb']);
     (MySQLManager as jest.MockedClass<typeof MySQLManager>).mockImplementation(() => mockMySQLManager);
     
     // Mock S3Manager
     mockS3Manager = new S3Manager({} as any) as jest.Mocked<S3Manager>;
     mockS3Manager.formatFileSize = jest.fn<(bytes: number) => string>().mockReturnValue('1.5 MB');
-    mockS3Manager.uploadFile = jest.fn<(filePath: string, key: string, progressCallback?: any) => Promise<void>>()
+    mockS3Manager.uploadFile = jest.fn<(filePath: string, key: string, progressCallback?: any, options?: any) => Promise<void>>()
+      .mockResolvedValue(undefined);
+    mockS3Manager.uploadStream = jest.fn<(body: any, key: string, progressCallback?: any, options?: any) => Promise<BackupDigest>>()
+      .mockResolvedValue({ size: 1572864, sha256: 'abc123' });
+    mockS3Manager.uploadManifest = jest.fn<(backupKey: string, manifest: BackupManifest) => Promise<void>>()
       .mockResolvedValue(undefined);
     (S3Manager as jest.MockedClass<typeof S3Manager>).mockImplementation(() => mockS3Manager);
     
@@ -116,10 +136,11 @@ describe('Backup Command - Custom Name', () => {
     });
     
     // Verify the S3 upload was called with the custom name
-    expect(mockS3Manager.uploadFile).toHaveBeenCalledWith(
-      expect.any(String),
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
       `${customName}.sql.gz`,
-      expect.any(Function)
+      expect.any(Function),
+      expect.objectContaining({ metadata: { compression: 'gzip' } })
     );
   });
 
@@ -129,10 +150,11 @@ describe('Backup Command - Custom Name', () => {
     });
     
     // Verify the S3 upload was called with a timestamp-based name
-    expect(mockS3Manager.uploadFile).toHaveBeenCalledWith(
-      expect.any(String),
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
       expect.stringMatching(/^testdb-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.sql\.gz$/),
-      expect.any(Function)
+      expect.any(Function),
+      expect.objectContaining({ metadata: { compression: 'gzip' } })
     );
   });
 
@@ -148,10 +170,11 @@ describe('Backup Command - Custom Name', () => {
     });
     
     // Verify the S3 upload was called with the prefixed name
-    expect(mockS3Manager.uploadFile).toHaveBeenCalledWith(
-      expect.any(String),
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
       expect.stringMatching(/^my-prefix-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.sql\.gz$/),
-      expect.any(Function)
+      expect.any(Function),
+      expect.objectContaining({ metadata: { compression: 'gzip' } })
     );
     
     delete process.env.S3_KEY;
@@ -172,10 +195,11 @@ describe('Backup Command - Custom Name', () => {
     });
     
     // Verify the custom name was used, not the S3_KEY
-    expect(mockS3Manager.uploadFile).toHaveBeenCalledWith(
-      expect.any(String),
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
       `${customName}.sql.gz`,
-      expect.any(Function)
+      expect.any(Function),
+      expect.objectContaining({ metadata: { compression: 'gzip' } })
     );
     
     delete process.env.S3_KEY;
@@ -190,10 +214,11 @@ describe('Backup Command - Custom Name', () => {
     });
     
     // Verify the S3 upload was called with the custom name preserved
-    expect(mockS3Manager.uploadFile).toHaveBeenCalledWith(
-      expect.any(String),
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
       `${customName}.sql.gz`,
-      expect.any(Function)
+      expect.any(Function),
+      expect.objectContaining({ metadata: { compression: 'gzip' } })
     );
   });
 
@@ -206,10 +231,11 @@ describe('Backup Command - Custom Name', () => {
     });
     
     // Verify the S3 upload was called with the custom name even in verbose mode
-    expect(mockS3Manager.uploadFile).toHaveBeenCalledWith(
-      expect.any(String),
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
       `${customName}.sql.gz`,
-      expect.any(Function)
+      expect.any(Function),
+      expect.objectContaining({ metadata: { compression: 'gzip' } })
     );
   });
 
@@ -220,10 +246,11 @@ describe('Backup Command - Custom Name', () => {
     });
     
     // Verify the S3 upload was called with a schema-based name
-    expect(mockS3Manager.uploadFile).toHaveBeenCalledWith(
-      expect.any(String),
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
       expect.stringMatching(/^schema1-schema2-schema3-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.sql\.gz$/),
-      expect.any(Function)
+      expect.any(Function),
+      expect.objectContaining({ metadata: { compression: 'gzip' } })
     );
   });
 
@@ -237,10 +264,479 @@ describe('Backup Command - Custom Name', () => {
     });
     
     // Verify the custom name was used instead of schema-based name
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
+      `${customName}.sql.gz`,
+      expect.any(Function),
+      expect.objectContaining({ metadata: { compression: 'gzip' } })
+    );
+  });
+
+  it('should buffer the dump in a temp file when requested', async () => {
+    const customName = 'temp-file-backup';
+
+    await backupCommand({
+      name: customName,
+      tempFile: true,
+      verbose: false
+    });
+
+    expect(mockMySQLManager.createBackup).toHaveBeenCalled();
     expect(mockS3Manager.uploadFile).toHaveBeenCalledWith(
       expect.any(String),
       `${customName}.sql.gz`,
-      expect.any(Function)
+      expect.any(Function),
+      expect.objectContaining({ metadata: { compression: 'gzip', sha256: 'abc123' } })
     );
+    expect(mockS3Manager.uploadStream).not.toHaveBeenCalled();
+    expect(fs.unlinkSync).toHaveBeenCalled();
+  });
+
+  it('should stream the dump to S3 by default', async () => {
+    await backupCommand({
+      name: 'streamed-backup',
+      verbose: false
+    });
+
+    expect(mockMySQLManager.createBackupStream).toHaveBeenCalled();
+    expect(mockMySQLManager.createBackup).not.toHaveBeenCalled();
+    expect(mockS3Manager.uploadFile).not.toHaveBeenCalled();
+    expect(fs.unlinkSync).not.toHaveBeenCalled();
+  });
+
+  it('should use the extension and metadata of the selected codec', async () => {
+    await backupCommand({
+      name: 'zstd-backup',
+      compression: 'zstd',
+      compressionLevel: '10',
+      verbose: false
+    });
+
+    expect(mockMySQLManager.createBackupStream).toHaveBeenCalledWith(expect.objectContaining({
+      compression: { codec: 'zstd', level: 10 }
+    }));
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
+      'zstd-backup.sql.zst',
+      expect.any(Function),
+      { contentType: 'application/zstd', metadata: { compression: 'zstd' } }
+    );
+  });
+
+  it('should fail on an invalid compression level', async () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    await backupCommand({
+      compression: 'gzip',
+      compressionLevel: '42',
+      verbose: false
+    });
+
+    expect(console.error).toHaveBeenCalledWith(
+      '✗ Backup failed:',
+      "Invalid gzip compression level '42' (expected 1-9)"
+    );
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(mockS3Manager.uploadStream).not.toHaveBeenCalled();
+  });
+
+  it('should encrypt the backup when a passphrase is configured', async () => {
+    process.env.ENCRYPTION_PASSPHRASE = 'secret';
+    ConfigManager.getInstance().reset();
+
+    await backupCommand({
+      name: 'encrypted-backup',
+      verbose: false
+    });
+
+    expect(mockMySQLManager.createBackupStream).toHaveBeenCalledWith(
+      expect.objectContaining({ encryption: expect.objectContaining({ passphrase: 'secret' }) })
+    );
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(
+      expect.anything(),
+      'encrypted-backup.sql.gz.enc',
+      expect.any(Function),
+      {
+        contentType: 'application/octet-stream',
+        metadata: { compression: 'gzip', encryption: 'aes-256-gcm' }
+      }
+    );
+
+    delete process.env.ENCRYPTION_PASSPHRASE;
+  });
+
+  it('should write a manifest next to the backup', async () => {
+    await backupCommand({
+      name: 'manifest-backup',
+      verbose: false
+    });
+
+    expect(mockS3Manager.uploadManifest).toHaveBeenCalledWith('manifest-backup.sql.gz', expect.objectContaining({
+      formatVersion: 1,
+      backupKey: 'manifest-backup.sql.gz',
+      serverVersion: '8.0.36',
+      schemas: ['testdb'],
+      tables: [{ schema: 'testdb', name: 'users', approxRows: 10, dataSize: 16384, indexSize: 0 }],
+      mysqldumpFlags: ['--single-transaction', 'testdb'],
+      compression: { codec: 'gzip', level: 6 },
+      encrypted: false,
+      compressedSize: 1572864,
+      sha256: 'abc123',
+      binlog: { file: 'binlog.000042', position: 157 }
+    }));
+  });
+
+  it('should record the binlog position mysqldump reports for its snapshot', async () => {
+    (mockMySQLManager.getServerSnapshot as jest.Mock<() => Promise<ServerSnapshot>>).mockResolvedValue({
+      serverVersion: '8.0.36',
+      schemas: ['testdb'],
+      tables: [],
+      binlog: { file: 'binlog.000042', position: 157 },
+      hasReloadPrivilege: true
+    });
+    (mockMySQLManager.createBackupStream as jest.Mock<(options?: any) => any>).mockImplementation((options: BackupStreamOptions) => {
+      options.binlog!.onPosition({ file: 'binlog.000042', position: 2048, gtidExecuted: 'uuid:1-7', exact: true });
+      return {};
+    });
+
+    await backupCommand({
+      name: 'manifest-backup',
+      verbose: false
+    });
+
+    expect(mockMySQLManager.createBackupStream).toHaveBeenCalledWith(expect.objectContaining({
+      binlog: expect.objectContaining({ serverVersion: '8.0.36' })
+    }));
+    expect(mockS3Manager.uploadManifest).toHaveBeenCalledWith('manifest-backup.sql.gz', expect.objectContaining({
+      binlog: { file: 'binlog.000042', position: 2048, gtidExecuted: 'uuid:1-7', exact: true }
+    }));
+    expect(console.log).toHaveBeenCalledWith('  Binlog: binlog.000042:2048, GTID uuid:1-7');
+  });
+
+  it('should warn when the binlog position can only be read before the dump', async () => {
+    await backupCommand({
+      name: 'manifest-backup',
+      verbose: false
+    });
+
+    expect(mockMySQLManager.createBackupStream).toHaveBeenCalledWith(expect.not.objectContaining({ binlog: expect.anything() }));
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('⚠ Recorded the binlog position from just before the dump'));
+  });
+
+  it('should only warn when the manifest upload fails', async () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    mockS3Manager.uploadManifest.mockRejectedValue(new Error('Failed to upload backup manifest: Access denied'));
+
+    await backupCommand({
+      name: 'manifest-backup',
+      verbose: false
+    });
+
+    expect(console.log).toHaveBeenCalledWith('⚠ Failed to upload backup manifest: Access denied');
+    expect(exitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should dump with the native engine when configured', async () => {
+    process.env.DUMP_ENGINE = 'native';
+    const nativeDump = new PassThrough();
+    (createNativeBackupStream as jest.Mock<typeof createNativeBackupStream>).mockReturnValue(nativeDump);
+
+    try {
+      await backupCommand({
+        name: 'native-backup',
+        verbose: false
+      });
+    } finally {
+      delete process.env.DUMP_ENGINE;
+    }
+
+    expect(createNativeBackupStream).toHaveBeenCalledWith(mockMySQLManager, expect.objectContaining({ serverVersion: '8.0.36' }), expect.anything());
+    expect(mockMySQLManager.createBackupStream).not.toHaveBeenCalled();
+    expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(nativeDump, 'native-backup.sql.gz', expect.any(Function), expect.anything());
+    expect(mockS3Manager.uploadManifest).toHaveBeenCalledWith('native-backup.sql.gz', expect.objectContaining({
+      engine: 'native',
+      mysqldumpFlags: [],
+      sha256: 'abc123'
+    }));
+  });
+
+  it('should dump filtered tables with the native engine and record their filters', async () => {
+    const configManager = ConfigManager.getInstance();
+    const loadConfig = configManager.loadConfig.bind(configManager);
+    jest.spyOn(configManager, 'loadConfig').mockImplementation((...args) => {
+      const config = loadConfig(...args);
+      config.database.tableFilters = { events: 'created_at > NOW() - INTERVAL 90 DAY' };
+      return config;
+    });
+    const events = { schema: 'testdb', name: 'events', approxRows: 500, dataSize: 0, indexSize: 0, where: 'created_at > NOW() - INTERVAL 90 DAY' };
+    mockMySQLManager.getServerSnapshot.mockResolvedValue({
+      serverVersion: '8.0.36',
+      schemas: ['testdb'],
+      tables: [events],
+      hasReloadPrivilege: true
+    });
+    const nativeDump = new PassThrough();
+    (createNativeBackupStream as jest.Mock<typeof createNativeBackupStream>).mockReturnValue(nativeDump);
+
+    await backupCommand({ name: 'dev-snapshot', verbose: false });
+
+    expect(createNativeBackupStream).toHaveBeenCalledWith(mockMySQLManager, expect.objectContaining({ tables: [events] }), expect.anything());
+    expect(mockMySQLManager.createBackupStream).not.toHaveBeenCalled();
+    expect(mockS3Manager.uploadManifest).toHaveBeenCalledWith('dev-snapshot.sql.gz', expect.objectContaining({ engine: 'native', tables: [events] }));
+    expect(console.log).toHaveBeenCalledWith('  Filtered: testdb.events WHERE created_at > NOW() - INTERVAL 90 DAY');
+  });
+
+  it('should record the tables the table filters left out in the manifest', async () => {
+    mockMySQLManager.getServerSnapshot.mockResolvedValue({
+      serverVersion: '8.0.36',
+      schemas: ['testdb'],
+      tables: [{ schema: 'testdb', name: 'users', approxRows: 10, dataSize: 16384, indexSize: 0 }],
+      hasReloadPrivilege: true,
+      excludedTables: [{ schema: 'testdb', name: 'sessions' }]
+    });
+
+    await backupCommand({ name: 'no-sessions', verbose: false });
+
+    expect(mockMySQLManager.createBackupStream).toHaveBeenCalledWith(expect.objectContaining({ ignoreTables: [{ schema: 'testdb', name: 'sessions' }] }));
+    expect(mockS3Manager.uploadManifest).toHaveBeenCalledWith('no-sessions.sql.gz', expect.objectContaining({
+      excludedTables: [{ schema: 'testdb', name: 'sessions' }]
+    }));
+  });
+
+  it('should mark schema-only backups in the key and manifest and record no binlog position', async () => {
+    await backupCommand({ mode: 'schema', verbose: false });
+
+    const key = mockS3Manager.uploadStream.mock.calls[0][1];
+    expect(key).toMatch(/^testdb-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.schema\.sql\.gz$/);
+    expect(mockMySQLManager.createBackupStream).toHaveBeenCalledWith(expect.objectContaining({ mode: 'schema' }));
+    expect(mockS3Manager.uploadManifest).toHaveBeenCalledWith(key, expect.objectContaining({ mode: 'schema', binlog: undefined }));
+    expect(console.log).toHaveBeenCalledWith('  Mode: schema only');
   });
-});
\ No newline at end of file
+
+  it('should mask a backup with --mask and store it under a sanitized key', async () => {
+    const configManager = ConfigManager.getInstance();
+    const loadConfig = configManager.loadConfig.bind(configManager);
+    jest.spyOn(configManager, 'loadConfig').mockImplementation((...args) => {
+      const config = loadConfig(...args);
+      config.masking = { salt: 'pepper', profiles: { staging: { columns: { 'users.email': 'email' } } } };
+      return config;
+    });
+
+    await backupCommand({ mask: 'staging', verbose: false });
+
+    const key = mockS3Manager.uploadStream.mock.calls[0][1];
+    expect(key).toMatch(/^testdb-sanitized-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.sql\.gz$/);
+    expect(mockMySQLManager.createBackupStream).toHaveBeenCalledWith(expect.objectContaining({
+      masking: { profile: 'staging', salt: 'pepper', columns: [{ key: 'users.email', table: 'users', column: 'email', rule: { strategy: 'email' } }] }
+    }));
+    expect(mockS3Manager.uploadManifest).toHaveBeenCalledWith(key, expect.objectContaining({ masking: { profile: 'staging', columns: ['users.email'] } }));
+    expect(console.log).toHaveBeenCalledWith('  Masked: staging (users.email: email)');
+  });
+
+  it('should label a custom name with --subset and --mask', async () => {
+    const configManager = ConfigManager.getInstance();
+    const loadConfig = configManager.loadConfig.bind(configManager);
+    jest.spyOn(configManager, 'loadConfig').mockImplementation((...args) => ({
+      ...loadConfig(...args),
+      masking: { salt: 'pepper', profiles: { staging: { columns: { 'users.email': 'email' } } } },
+      subsets: { laptop: { roots: { users: '5%' } } }
+    }));
+    (createNativeBackupStream as jest.Mock<typeof createNativeBackupStream>).mockReturnValue(new PassThrough());
+
+    await backupCommand({ name: 'nightly', mask: 'staging', verbose: false });
+    await backupCommand({ name: 'nightly', subset: 'laptop', mask: 'staging', verbose: false });
+
+    expect(mockS3Manager.uploadStream.mock.calls.map(call => call[1])).toEqual(['nightly-sanitized.sql.gz', 'nightly-subset-sanitized.sql.gz']);
+  });
+
+  it('should reject an unknown masking profile', async () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    await backupCommand({ mask: 'staging', verbose: false });
+
+    expect(console.error).toHaveBeenCalledWith('✗ Backup failed:', 'Unknown masking profile \'staging\'; no masking profiles are configured');
+    expect(exitSpy).toHaveBeenCalledWith(1);
+    expect(mockS3Manager.uploadStream).not.toHaveBeenCalled();
+  });
+
+  it('should take a subset with the native engine and store it under a subset key', async () => {
+    const configManager = ConfigManager.getInstance();
+    const loadConfig = configManager.loadConfig.bind(configManager);
+    jest.spyOn(configManager, 'loadConfig').mockImplementation((...args) => {
+      const config = loadConfig(...args);
+      config.subsets = { laptop: { roots: { customers: '5%' }, referencing: true } };
+      return config;
+    });
+    (createNativeBackupStream as jest.Mock<typeof createNativeBackupStream>).mockImplementation((_mysqlManager, _snapshot, options) => {
+      options!.subset!.onSelected!({ 'testdb.customers': 40, 'testdb.orders': 120 });
+      return new PassThrough();
+    });
+
+    await backupCommand({ subset: 'laptop', verbose: false });
+
+    const key = mockS3Manager.uploadStream.mock.calls[0][1];
+    expect(key).toMatch(/^testdb-subset-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.sql\.gz$/);
+    expect(mockMySQLManager.createBackupStream).not.toHaveBeenCalled();
+    expect(createNativeBackupStream).toHaveBeenCalledWith(mockMySQLManager, expect.anything(), expect.objectContaining({
+      subset: { plan: { profile: 'laptop', roots: { customers: '5%' }, referencing: true, maxRows: 1000000 }, onSelected: expect.any(Function) }
+    }));
+    expect(mockS3Manager.uploadManifest).toHaveBeenCalledWith(key, expect.objectContaining({
+      engine: 'native',
+      subset: { profile: 'laptop', roots: { customers: '5%' }, referencing: true, rows: { 'testdb.customers': 40, 'testdb.orders': 120 } }
+    }));
+    expect(console.log).toHaveBeenCalledWith('  Subset: laptop (customers: 5%; with referencing rows), 160 rows from 2 tables');
+  });
+
+  it('should refuse to take a subset of a schema-only backup', async () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    const configManager = ConfigManager.getInstance();
+    const loadConfig = configManager.loadConfig.bind(configManager);
+    jest.spyOn(configManager, 'loadConfig').mockImplementation((...args) => ({ ...loadConfig(...args), subsets: { laptop: { roots: { customers: '5%' } } } }));
+
+    await backupCommand({ subset: 'laptop', mode: 'schema', verbose: false });
+
+    expect(console.error).toHaveBeenCalledWith('✗ Backup failed:', '--subset has no rows to select in a schema-only backup');
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should buffer a native dump in a temp file when requested', async () => {
+    process.env.DUMP_ENGINE = 'native';
+    const nativeDump = new PassThrough();
+    (createNativeBackupStream as jest.Mock<typeof createNativeBackupStream>).mockReturnValue(nativeDump);
+
+    try {
+      await backupCommand({
+        name: 'native-backup',
+        tempFile: true,
+        verbose: false
+      });
+    } finally {
+      delete process.env.DUMP_ENGINE;
+    }
+
+    expect(mockMySQLManager.createBackup).toHaveBeenCalledWith(expect.any(String), expect.any(Function), expect.anything(), nativeDump);
+  });
+
+  it('should dump tables into chunks with --parallel', async () => {
+    const chunk = {
+      key: 'parallel-backup.parallel/testdb/users.sql.gz',
+      schema: 'testdb',
+      table: 'users',
+      rows: 10,
+      uncompressedSize: 4096,
+      size: 1024,
+      sha256: 'abc123'
+    };
+    (createParallelBackup as jest.Mock<typeof createParallelBackup>).mockResolvedValue({
+      chunks: [chunk],
+      binlog: { file: 'binlog.000042', position: 2048, exact: true },
+      uncompressedSize: 4096,
+      compressedSize: 1024
+    });
+
+    await backupCommand({
+      name: 'parallel-backup',
+      parallel: '4',
+      verbose: false
+    });
+
+    expect(createParallelBackup).toHaveBeenCalledWith(mockMySQLManager, mockS3Manager, 'parallel-backup.parallel', expect.anything(), expect.objectContaining({
+      connections: 4
+    }));
+    expect(mockMySQLManager.createBackupStream).not.toHaveBeenCalled();
+    expect(mockS3Manager.uploadManifest).toHaveBeenCalledWith('parallel-backup.parallel', expect.objectContaining({
+      engine: 'parallel',
+      chunks: [chunk],
+      mysqldumpFlags: [],
+      sha256: undefined,
+      binlog: { file: 'binlog.000042', position: 2048, exact: true }
+    }));
+    expect(console.log).toHaveBeenCalledWith('  Chunks: 1 (4 connections)');
+  });
+
+  it('should delete the chunks when the manifest of a parallel backup cannot be written', async () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+    (createParallelBackup as jest.Mock<typeof createParallelBackup>).mockResolvedValue({
+      chunks: [],
+      uncompressedSize: 0,
+      compressedSize: 0
+    });
+    mockS3Manager.deleteBackups = jest.fn<(keys: string[]) => Promise<void>>().mockResolvedValue(undefined);
+    mockS3Manager.uploadManifest.mockRejectedValue(new Error('Failed to upload backup manifest: Access denied'));
+
+    await backupCommand({
+      name: 'parallel-backup',
+      parallel: '2',
+      verbose: false
+    });
+
+    expect(mockS3Manager.deleteBackups).toHaveBeenCalledWith(['parallel-backup.parallel']);
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should reject an invalid --parallel value', async () => {
+    const exitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    await backupCommand({
+      name: 'parallel-backup',
+      parallel: '0',
+      verbose: false
+    });
+
+    expect(console.error).toHaveBeenCalledWith('✗ Backup failed:', "Invalid --parallel value '0' (expected a number of connections)");
+    expect(createParallelBackup).not.toHaveBeenCalled();
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should prune old backups of the same name when autoPrune is enabled', async () => {
+    process.env.RETENTION_KEEP_LAST = '2';
+    process.env.RETENTION_AUTO_PRUNE = 'true';
+    const backup = (key: string, date: string): BackupInfo => ({ key, displayName: key, lastModified: new Date(date), size: 1 });
+    mockS3Manager.parseBackupKey = jest.fn<(key: string) => ParsedBackupKey>()
+      .mockImplementation(key => ({ name: key.startsWith('other') ? 'other' : 'shop' }));
+    mockS3Manager.listBackups = jest.fn<(prefix?: string) => Promise<BackupInfo[]>>().mockResolvedValue([
+      backup('shop.sql.gz', '2024-01-03'),
+      backup('shop-old.sql.gz', '2024-01-02'),
+      backup('shop-older.sql.gz', '2024-01-01'),
+      backup('other.sql.gz', '2023-01-01')
+    ]);
+    mockS3Manager.deleteBackups = jest.fn<(keys: string[]) => Promise<void>>().mockResolvedValue(undefined);
+
+    try {
+      await backupCommand({ name: 'shop', verbose: false });
+    } finally {
+      delete process.env.RETENTION_KEEP_LAST;
+      delete process.env.RETENTION_AUTO_PRUNE;
+    }
+
+    expect(mockS3Manager.listBackups).toHaveBeenCalledWith(undefined);
+    expect(mockS3Manager.deleteBackups).toHaveBeenCalledWith(['shop-older.sql.gz']);
+    expect(console.log).toHaveBeenCalledWith('✓ Pruned 1 old backup of shop');
+  });
+
+  it('should prune timestamped schema-only backups of the same name', async () => {
+    process.env.RETENTION_KEEP_LAST = '1';
+    process.env.RETENTION_AUTO_PRUNE = 'true';
+    const { S3Manager: ActualS3Manager } = jest.requireActual<typeof import('../modules/s3')>('../modules/s3');
+    const actualS3Manager = new ActualS3Manager({ bucket: 'test-bucket', region: 'us-east-1' } as any);
+    mockS3Manager.parseBackupKey = jest.fn<(key: string) => ParsedBackupKey>().mockImplementation(key => actualS3Manager.parseBackupKey(key));
+    const backup = (key: string): BackupInfo => ({ key, displayName: key, lastModified: new Date('2024-01-31'), size: 1 });
+    mockS3Manager.listBackups = jest.fn<(prefix?: string) => Promise<BackupInfo[]>>().mockImplementation(async prefix => [
+      backup(mockS3Manager.uploadStream.mock.calls[0][1]),
+      backup('testdb-2024-01-30T02-00-00-000Z.schema.sql.gz'),
+      backup('testdb-2024-01-29T02-00-00-000Z.sql.gz')
+    ].filter(info => info.key.startsWith(prefix ?? '')));
+    mockS3Manager.deleteBackups = jest.fn<(keys: string[]) => Promise<void>>().mockResolvedValue(undefined);
+
+    try {
+      await backupCommand({ mode: 'schema', verbose: false });
+    } finally {
+      delete process.env.RETENTION_KEEP_LAST;
+      delete process.env.RETENTION_AUTO_PRUNE;
+    }
+
+    expect(mockS3Manager.uploadStream.mock.calls[0][1]).toMatch(/^testdb-.*Z\.schema\.sql\.gz$/);
+    expect(mockS3Manager.deleteBackups).toHaveBeenCalledWith(['testdb-2024-01-30T02-00-00-000Z.schema.sql.gz']);
+    expect(console.log).toHaveBeenCalledWith('✓ Pruned 1 old backup of testdb.schema');
+  });
+});
@@ -0,0 +1,121 @@
+import { binlogCommand } from '../commands/binlog';
+import { archiveBinlogs } from '../modules/binlog';
+import { ConfigManager } from '../modules/config';
+import { MySQLManager } from '../modules/mysql';
+import { S3Manager } from '../modules/s3';
+
+jest.mock('../modules/config');
+jest.mock('../modules/mysql');
+jest.mock('../modules/s3');
+jest.mock('../modules/binlog', () => ({
+  ...jest.requireActual('../modules/binlog'),
+  archiveBinlogs: jest.fn()
+}));
+jest.mock('chalk', () => ({
+  blue: jest.fn((str: string) => str),
+  gray: jest.fn((str: string) => str),
+  yellow: jest.fn((str: string) => str),
+  green: jest.fn((str: string) => str),
+  red: jest.fn((str: string) => str)
+}));
+
+describe('binlogCommand', () => {
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockMySQLManager: jest.Mocked<MySQLManager>;
+  let mockS3Manager: jest.Mocked<S3Manager>;
+  let consoleLogSpy: jest.SpyInstance;
+  let consoleErrorSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const mockConfig = {
+    database: { host: 'localhost', port: 3306, user: 'root', password: 'password' },
+    s3: { bucket: 'test-bucket', accessKeyId: 'test-key', secretAccessKey: 'test-secret' }
+  };
+  const binlog = { file: 'binlog.000042', key: 'binlogs/binlog.000042', size: 2048, lastModified: new Date() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    mockConfigManager = {
+      loadConfig: jest.fn().mockReturnValue(mockConfig)
+    } as any;
+    (ConfigManager.getInstance as jest.Mock).mockReturnValue(mockConfigManager);
+
+    mockMySQLManager = {
+      testConnection: jest.fn().mockResolvedValue(undefined)
+    } as any;
+    (MySQLManager as jest.Mock).mockImplementation(() => mockMySQLManager);
+
+    mockS3Manager = {
+      formatFileSize: jest.fn((bytes: number) => `${bytes} Bytes`)
+    } as any;
+    (S3Manager as jest.Mock).mockImplementation(() => mockS3Manager);
+
+    (archiveBinlogs as jest.Mock).mockImplementation(async (_mysql, _s3, _config, options) => {
+      options.onArchived(binlog);
+      return [binlog];
+    });
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    processExitSpy.mockRestore();
+  });
+
+  it('should run a single archive pass by default', async () => {
+    await binlogCommand({ flush: true });
+
+    expect(mockConfigManager.loadConfig).toHaveBeenCalledWith(undefined, { requireDatabase: true, requireS3: true });
+    expect(archiveBinlogs).toHaveBeenCalledTimes(1);
+    expect(archiveBinlogs).toHaveBeenCalledWith(mockMySQLManager, mockS3Manager, mockConfig, expect.objectContaining({ flush: true }));
+    expect(consoleLogSpy).toHaveBeenCalledWith('ℹ Archiving binlogs to s3://test-bucket/binlogs/');
+    expect(consoleLogSpy).toHaveBeenCalledWith('Archived binlog.000042 (2048 Bytes)');
+    expect(consoleLogSpy).toHaveBeenCalledWith('✓ Archived 1 binlog');
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should report when there is nothing new', async () => {
+    (archiveBinlogs as jest.Mock).mockResolvedValueOnce([]);
+
+    await binlogCommand({});
+
+    expect(consoleLogSpy).toHaveBeenCalledWith('No new binlogs to archive');
+  });
+
+  it('should keep archiving with --watch until stopped, surviving failed passes', async () => {
+    (archiveBinlogs as jest.Mock)
+      .mockRejectedValueOnce(new Error('Connection lost'))
+      .mockImplementationOnce(async () => {
+        process.emit('SIGTERM');
+        return [];
+      });
+
+    await binlogCommand({ watch: true, interval: '1' });
+
+    expect(archiveBinlogs).toHaveBeenCalledTimes(2);
+    expect(consoleErrorSpy).toHaveBeenCalledWith('⚠ Archive pass failed: Connection lost');
+    expect(consoleLogSpy).toHaveBeenCalledWith('ℹ Binlog archiver stopped');
+    expect(process.listenerCount('SIGTERM')).toBe(0);
+  });
+
+  it('should reject an invalid interval', async () => {
+    await binlogCommand({ watch: true, interval: 'soon' });
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith("✗ Invalid interval 'soon' (expected a number of seconds)");
+    expect(archiveBinlogs).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should fail when a single pass fails', async () => {
+    (archiveBinlogs as jest.Mock).mockRejectedValueOnce(new Error('mysqlbinlog exited with code 1'));
+
+    await binlogCommand({});
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Binlog archiving failed:', 'mysqlbinlog exited with code 1');
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import { archiveBinlogs, listArchivedBinlogs, replayArchivedBinlogs, selectBinlogs } from '../modules/binlog';
+import { MySQLManager } from '../modules/mysql';
+import { S3Manager } from '../modules/s3';
+import { AppConfig, ArchivedBinlog } from '../types';
+
+describe('binlog archive', () => {
+  const object = (key: string) => ({ Key: key, Size: 10, LastModified: new Date('2026-10-18T10:00:00Z') });
+  const archived = (file: string): ArchivedBinlog => ({
+    file,
+    key: `binlogs/${file}`,
+    size: 10,
+    lastModified: new Date('2026-10-18T10:00:00Z')
+  });
+
+  const readAll = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  describe('listArchivedBinlogs', () => {
+    it('should list binlogs directly under the prefix, oldest first', async () => {
+      const s3Manager = {
+        listObjects: jest.fn().mockResolvedValue([
+          object('binlogs/binlog.000042'),
+          object('binlogs/binlog.000041'),
+          object('binlogs/old/binlog.000001'),
+          object('binlogs/')
+        ])
+      } as unknown as S3Manager;
+
+      const binlogs = await listArchivedBinlogs(s3Manager, 'binlogs/');
+
+      expect(s3Manager.listObjects).toHaveBeenCalledWith('binlogs/');
+      expect(binlogs.map(binlog => binlog.file)).toEqual(['binlog.000041', 'binlog.000042']);
+    });
+  });
+
+  describe('selectBinlogs', () => {
+    const all = ['binlog.000040', 'binlog.000041', 'binlog.000042'].map(archived);
+
+    it('should start at the binlog recorded in the backup', () => {
+      expect(selectBinlogs(all, { file: 'binlog.000041', position: 157 }).map(b => b.file))
+        .toEqual(['binlog.000041', 'binlog.000042']);
+    });
+
+    it('should fail when the start binlog is not archived', () => {
+      expect(() => selectBinlogs(all, { file: 'binlog.000039', position: 4 }))
+        .toThrow('Binlog binlog.000039, where the backup starts, is not in the archive');
+    });
+
+    it('should fail on a gap in the sequence', () => {
+      expect(() => selectBinlogs([all[0], all[2]], { file: 'binlog.000040', position: 4 }))
+        .toThrow('Binlog archive has a gap between binlog.000040 and binlog.000042');
+    });
+  });
+
+  describe('archiveBinlogs', () => {
+    const config = { database: {}, s3: {}, compression: { codec: 'gzip' } } as AppConfig;
+    let mockMySQLManager: jest.Mocked<MySQLManager>;
+    let mockS3Manager: jest.Mocked<S3Manager>;
+    let uploads: Record<string, Buffer>;
+
+    beforeEach(() => {
+      uploads = {};
+      mockMySQLManager = {
+        flushBinaryLogs: jest.fn().mockResolvedValue(undefined),
+        listBinaryLogs: jest.fn().mockResolvedValue([
+          { name: 'binlog.000041', size: 100 },
+          { name: 'binlog.000042', size: 200 },
+          { name: 'binlog.000043', size: 157 }
+        ]),
+        copyBinlog: jest.fn(async (file: string, dir: string) => {
+          const localPath = path.join(dir, file);
+          await fs.promises.writeFile(localPath, `events of ${file}`);
+          return localPath;
+        })
+      } as any;
+      mockS3Manager = {
+        listObjects: jest.fn().mockResolvedValue([object('binlogs/binlog.000041')]),
+        uploadStream: jest.fn(async (body: Readable, key: string) => {
+          uploads[key] = await readAll(body);
+          return { size: uploads[key].length, sha256: 'abc' };
+        })
+      } as any;
+    });
+
+    it('should upload closed binlogs that are not archived yet', async () => {
+      const onArchived = jest.fn();
+
+      const result = await archiveBinlogs(mockMySQLManager, mockS3Manager, config, { onArchived });
+
+      expect(mockMySQLManager.flushBinaryLogs).not.toHaveBeenCalled();
+      expect(mockMySQLManager.copyBinlog).toHaveBeenCalledTimes(1);
+      expect(mockMySQLManager.copyBinlog).toHaveBeenCalledWith('binlog.000042', expect.any(String));
+      expect(mockS3Manager.uploadStream).toHaveBeenCalledWith(expect.anything(), 'binlogs/binlog.000042', undefined, {
+        contentType: 'application/gzip',
+        metadata: { compression: 'gzip' }
+      });
+      expect(zlib.gunzipSync(uploads['binlogs/binlog.000042']).toString()).toBe('events of binlog.000042');
+      expect(result.map(binlog => binlog.file)).toEqual(['binlog.000042']);
+      expect(onArchived).toHaveBeenCalledWith(result[0]);
+
+      // The temp directory is gone afterwards
+      const [, dir] = mockMySQLManager.copyBinlog.mock.calls[0];
+      expect(fs.existsSync(dir)).toBe(false);
+    });
+
+    it('should rotate the current binlog first with flush', async () => {
+      await archiveBinlogs(mockMySQLManager, mockS3Manager, { ...config, binlog: { prefix: 'pitr/' } }, { flush: true });
+
+      expect(mockMySQLManager.flushBinaryLogs).toHaveBeenCalled();
+      expect(mockS3Manager.listObjects).toHaveBeenCalledWith('pitr/');
+      expect(mockS3Manager.uploadStream).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop at the first failed upload', async () => {
+      mockS3Manager.listObjects.mockResolvedValueOnce([]);
+      mockS3Manager.uploadStream.mockRejectedValueOnce(new Error('Failed to upload stream to S3: timeout'));
+
+      await expect(archiveBinlogs(mockMySQLManager, mockS3Manager, config))
+        .rejects.toThrow('Failed to upload stream to S3: timeout');
+      expect(mockS3Manager.uploadStream).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('replayArchivedBinlogs', () => {
+    it('should decode the binlogs into local files and replay them', async () => {
+      const mockS3Manager = {
+        getBackupInfo: jest.fn().mockResolvedValue({ compression: 'gzip', encrypted: false }),
+        getBackupStream: jest.fn(async (key: string) => ({
+          stream: Readable.from([zlib.gzipSync(Buffer.from(`events of ${key}`))]),
+          size: 10
+        }))
+      } as any;
+      const contents: string[] = [];
+      const mockMySQLManager = {
+        replayBinlogs: jest.fn(async (files: string[]) => {
+          for (const file of files) {
+            contents.push(await fs.promises.readFile(file, 'utf8'));
+          }
+        })
+      } as any;
+      const options = { startPosition: 157, stopDatetime: new Date('2026-10-18T14:32:00Z'), database: 'shop' };
+
+      await replayArchivedBinlogs(mockS3Manager, mockMySQLManager, [archived('binlog.000041'), archived('binlog.000042')], 'shop', options);
+
+      expect(mockMySQLManager.replayBinlogs).toHaveBeenCalledWith(
+        [expect.stringMatching(/binlog\.000041$/), expect.stringMatching(/binlog\.000042$/)],
+        'shop',
+        options
+      );
+      expect(contents).toEqual(['events of binlogs/binlog.000041', 'events of binlogs/binlog.000042']);
+    });
+
+    it('should require a key for encrypted binlogs', async () => {
+      const mockS3Manager = {
+        getBackupInfo: jest.fn().mockResolvedValue({ compression: 'gzip', encrypted: true })
+      } as any;
+
+      await expect(replayArchivedBinlogs(mockS3Manager, {} as any, [archived('binlog.000041')], 'shop', {
+        startPosition: 4,
+        stopDatetime: new Date()
+      })).rejects.toThrow('Binlog binlog.000041 is encrypted but no decryption key is configured');
+    });
+  });
+});
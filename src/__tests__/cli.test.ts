@@ -26,12 +26,18 @@ jest.mock('chalk', () => ({
 jest.mock('../commands/backup');
 jest.mock('../commands/list');
 jest.mock('../commands/restore');
+jest.mock('../commands/verify');
+jest.mock('../commands/prune');
+jest.mock('../commands/binlog');
 
 describe('CLI', () => {
   let mockProgram: any;
   let mockBackupCommand: any;
   let mockListCommand: any;
   let mockRestoreCommand: any;
+  let mockVerifyCommand: any;
+  let mockPruneCommand: any;
+  let mockBinlogCommand: any;
   let consoleErrorSpy: jest.SpyInstance;
   let processExitSpy: jest.SpyInstance;
   let processOnSpy: jest.SpyInstance;
@@ -41,7 +47,10 @@ describe('CLI', () => {
   const getCommandModules = () => ({
     backupModule: require('../commands/backup'),
     listModule: require('../commands/list'),
-    restoreModule: require('../commands/restore')
+    restoreModule: require('../commands/restore'),
+    verifyModule: require('../commands/verify'),
+    pruneModule: require('../commands/prune'),
+    binlogModule: require('../commands/binlog')
   });
 
   beforeEach(() => {
@@ -73,6 +82,24 @@ describe('CLI', () => {
       action: jest.fn().mockReturnThis()
     };
 
+    mockVerifyCommand = {
+      description: jest.fn().mockReturnThis(),
+      option: jest.fn().mockReturnThis(),
+      action: jest.fn().mockReturnThis()
+    };
+
+    mockPruneCommand = {
+      description: jest.fn().mockReturnThis(),
+      option: jest.fn().mockReturnThis(),
+      action: jest.fn().mockReturnThis()
+    };
+
+    mockBinlogCommand = {
+      description: jest.fn().mockReturnThis(),
+      option: jest.fn().mockReturnThis(),
+      action: jest.fn().mockReturnThis()
+    };
+
     // Setup main program mock
     mockProgram = {
       name: jest.fn().mockReturnThis(),
@@ -82,6 +109,9 @@ describe('CLI', () => {
         if (name === 'backup') return mockBackupCommand;
         if (name === 'list') return mockListCommand;
         if (name === 'restore') return mockRestoreCommand;
+        if (name === 'verify') return mockVerifyCommand;
+        if (name === 'prune') return mockPruneCommand;
+        if (name === 'binlog') return mockBinlogCommand;
         return mockProgram;
       }),
       parse: jest.fn(),
@@ -118,6 +148,9 @@ describe('CLI', () => {
       expect(mockProgram.command).toHaveBeenCalledWith('backup');
       expect(mockProgram.command).toHaveBeenCalledWith('list');
       expect(mockProgram.command).toHaveBeenCalledWith('restore');
+      expect(mockProgram.command).toHaveBeenCalledWith('verify');
+      expect(mockProgram.command).toHaveBeenCalledWith('prune');
+      expect(mockProgram.command).toHaveBeenCalledWith('binlog');
     });
 
     it('should setup global error handlers', () => {
@@ -143,10 +176,34 @@ describe('CLI', () => {
         '-s, --schemas <schemas>',
         'Comma-separated list of schemas to backup'
       );
+      expect(mockBackupCommand.option).toHaveBeenCalledWith(
+        '--schema-only-tables <patterns>',
+        'Back up the definition but not the rows of these tables (comma-separated patterns)'
+      );
       expect(mockBackupCommand.option).toHaveBeenCalledWith(
         '-n, --name <name>',
         'Custom backup name (without extension)'
       );
+      expect(mockBackupCommand.option).toHaveBeenCalledWith(
+        '--temp-file',
+        'Write the dump to a local temp file before uploading instead of streaming it'
+      );
+      expect(mockBackupCommand.option).toHaveBeenCalledWith(
+        '--compression <codec>',
+        'Compression codec (gzip|zstd|brotli|none)'
+      );
+      expect(mockBackupCommand.option).toHaveBeenCalledWith(
+        '--compression-level <level>',
+        'Compression level (gzip 1-9, zstd 1-19, brotli 0-11)'
+      );
+      expect(mockBackupCommand.option).toHaveBeenCalledWith(
+        '--parallel <connections>',
+        'Dump tables concurrently over this many connections into separate chunk objects'
+      );
+      expect(mockBackupCommand.option).toHaveBeenCalledWith(
+        '--mode <mode>',
+        'What to back up (full|schema|data)'
+      );
       expect(mockBackupCommand.option).toHaveBeenCalledWith(
         '-v, --verbose',
         'Enable verbose output'
@@ -169,6 +226,33 @@ describe('CLI', () => {
 
       expect(backupModule.backupCommand).toHaveBeenCalledWith(options);
     });
+
+    it('should reject an invalid compression codec', async () => {
+      const { backupModule } = getCommandModules();
+      require('../cli');
+
+      const actionHandler = mockBackupCommand.action.mock.calls[0][0];
+      await actionHandler({ compression: 'lzma' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid compression codec. Use one of: gzip, zstd, brotli, none')
+      );
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+      expect(backupModule.backupCommand).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid backup mode', async () => {
+      const { backupModule } = getCommandModules();
+      require('../cli');
+
+      const actionHandler = mockBackupCommand.action.mock.calls[0][0];
+      await actionHandler({ mode: 'ddl' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid backup mode. Use one of: full, schema, data')
+      );
+      expect(backupModule.backupCommand).not.toHaveBeenCalled();
+    });
   });
 
   describe('list command', () => {
@@ -191,6 +275,15 @@ describe('CLI', () => {
         '-v, --verbose',
         'Enable verbose output'
       );
+      expect(mockListCommand.option).toHaveBeenCalledWith(
+        '--name <glob>',
+        'Only include backups whose name matches this glob (* and ?)'
+      );
+      expect(mockListCommand.option).toHaveBeenCalledWith(
+        '--sort <field>',
+        'Sort by name, date or size',
+        'date'
+      );
     });
 
     it('should validate format and call listCommand for valid format', async () => {
@@ -273,6 +366,46 @@ describe('CLI', () => {
         '--force',
         'Skip confirmation prompts'
       );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--temp-file',
+        'Download the backup to a local temp file before restoring instead of streaming it'
+      );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--to-time <time>',
+        'Restore to this point in time by replaying archived binlogs after the backup'
+      );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--as-replica',
+        'Set the target server up as a replica, starting where the backup was taken'
+      );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--parallel <connections>',
+        'Load the chunks of a parallel backup over this many connections (default: 4)'
+      );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--tables <names>',
+        'Only restore these tables (comma-separated)'
+      );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--table-suffix <suffix>',
+        'Restore tables under their name plus this suffix, e.g. _restored'
+      );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--map <pairs>',
+        'Restore schemas under other names, e.g. app=app_staging,billing=billing_staging'
+      );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--atomic',
+        'Restore into a shadow database, check it, then swap its tables into the target at once'
+      );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--snapshot',
+        'Dump the target database to S3 under pre-restore/ first, so a failed restore can be rolled back'
+      );
+      expect(mockRestoreCommand.option).toHaveBeenCalledWith(
+        '--since <date>',
+        'Only include backups created on or after this date'
+      );
       expect(mockRestoreCommand.option).toHaveBeenCalledWith(
         '-v, --verbose',
         'Enable verbose output'
@@ -328,6 +461,106 @@ describe('CLI', () => {
     });
   });
 
+  describe('verify command', () => {
+    it('should configure verify command with correct options', () => {
+      require('../cli');
+
+      expect(mockVerifyCommand.description).toHaveBeenCalledWith(
+        'Check that a backup in S3 is intact and restorable'
+      );
+      expect(mockVerifyCommand.option).toHaveBeenCalledWith(
+        '-b, --backup <key>',
+        'S3 backup key to verify'
+      );
+      expect(mockVerifyCommand.option).toHaveBeenCalledWith(
+        '--restore-test',
+        'Also restore into a scratch database and compare row counts'
+      );
+    });
+
+    it('should call verifyCommand with the parsed options', async () => {
+      const { verifyModule } = getCommandModules();
+      require('../cli');
+
+      const actionHandler = mockVerifyCommand.action.mock.calls[0][0];
+      const options = {
+        backup: 'backup.sql.gz',
+        restoreTest: true,
+        format: 'json'
+      };
+
+      await actionHandler(options);
+
+      expect(verifyModule.verifyCommand).toHaveBeenCalledWith(options);
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prune command', () => {
+    it('should configure prune command with correct options', () => {
+      require('../cli');
+
+      expect(mockPruneCommand.description).toHaveBeenCalledWith(
+        'Delete old backups according to the retention rules'
+      );
+      expect(mockPruneCommand.option).toHaveBeenCalledWith(
+        '--dry-run',
+        'Print the backups that would be deleted without deleting them'
+      );
+    });
+
+    it('should call pruneCommand with the parsed options', async () => {
+      const { pruneModule } = getCommandModules();
+      require('../cli');
+
+      const actionHandler = mockPruneCommand.action.mock.calls[0][0];
+      const options = {
+        prefix: 'shop',
+        dryRun: true
+      };
+
+      await actionHandler(options);
+
+      expect(pruneModule.pruneCommand).toHaveBeenCalledWith(options);
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('binlog command', () => {
+    it('should configure binlog command with correct options', () => {
+      require('../cli');
+
+      expect(mockBinlogCommand.description).toHaveBeenCalledWith(
+        'Archive MySQL binary logs to S3 for point-in-time recovery'
+      );
+      expect(mockBinlogCommand.option).toHaveBeenCalledWith(
+        '--watch',
+        'Keep running and archive new binlogs periodically'
+      );
+      expect(mockBinlogCommand.option).toHaveBeenCalledWith(
+        '--interval <seconds>',
+        'Seconds between archive passes with --watch',
+        '300'
+      );
+    });
+
+    it('should call binlogCommand with the parsed options', async () => {
+      const { binlogModule } = getCommandModules();
+      require('../cli');
+
+      const actionHandler = mockBinlogCommand.action.mock.calls[0][0];
+      const options = {
+        watch: true,
+        interval: '60'
+      };
+
+      await actionHandler(options);
+
+      expect(binlogModule.binlogCommand).toHaveBeenCalledWith(options);
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handlers', () => {
     it('should handle uncaught exceptions', () => {
       require('../cli');
@@ -0,0 +1,165 @@
+import * as zlib from 'zlib';
+import { spawn } from 'child_process';
+import { PassThrough, Readable } from 'stream';
+import {
+  createCompressor,
+  createDecompressor,
+  detectCodecFromKey,
+  getBackupExtension,
+  isBackupKey,
+  normalizeCompressionConfig,
+  resolveCodec
+} from '../modules/compression';
+import { CompressionCodec } from '../types';
+
+jest.mock('child_process');
+
+const collect = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+const roundTrip = async (codec: CompressionCodec, level?: number): Promise<{ compressed: Buffer; restored: Buffer }> => {
+  const input = Buffer.from('INSERT INTO `t` VALUES (1,\'a\'),(2,\'b\');\n'.repeat(1000));
+  const compressor = createCompressor({ codec, level });
+  compressor.end(input);
+  const compressed = await collect(compressor);
+
+  const decompressor = createDecompressor(codec);
+  decompressor.end(compressed);
+  const restored = await collect(decompressor);
+
+  expect(restored.equals(input)).toBe(true);
+  return { compressed, restored };
+};
+
+describe('compression', () => {
+  describe('normalizeCompressionConfig', () => {
+    it('should default to gzip level 6', () => {
+      expect(normalizeCompressionConfig()).toEqual({ codec: 'gzip', level: 6 });
+    });
+
+    it('should fill in the default level of the selected codec', () => {
+      expect(normalizeCompressionConfig({ codec: 'zstd' })).toEqual({ codec: 'zstd', level: 3 });
+      expect(normalizeCompressionConfig({ codec: 'brotli' })).toEqual({ codec: 'brotli', level: 6 });
+    });
+
+    it('should drop the level for uncompressed backups', () => {
+      expect(normalizeCompressionConfig({ codec: 'none', level: 5 })).toEqual({ codec: 'none' });
+    });
+
+    it('should reject unknown codecs', () => {
+      expect(() => normalizeCompressionConfig({ codec: 'lz4' as CompressionCodec }))
+        .toThrow("Invalid compression codec 'lz4' (expected one of: gzip, zstd, brotli, none)");
+    });
+
+    it('should reject out-of-range levels', () => {
+      expect(() => normalizeCompressionConfig({ codec: 'gzip', level: 0 }))
+        .toThrow("Invalid gzip compression level '0' (expected 1-9)");
+      expect(() => normalizeCompressionConfig({ codec: 'zstd', level: 20 }))
+        .toThrow("Invalid zstd compression level '20' (expected 1-19)");
+      expect(() => normalizeCompressionConfig({ codec: 'gzip', level: NaN }))
+        .toThrow('Invalid gzip compression level');
+    });
+  });
+
+  describe('backup keys', () => {
+    it('should map codecs to extensions', () => {
+      expect(getBackupExtension('gzip')).toBe('.sql.gz');
+      expect(getBackupExtension('zstd')).toBe('.sql.zst');
+      expect(getBackupExtension('brotli')).toBe('.sql.br');
+      expect(getBackupExtension('none')).toBe('.sql');
+    });
+
+    it('should detect the codec from the key extension', () => {
+      expect(detectCodecFromKey('db-2023.sql.gz')).toBe('gzip');
+      expect(detectCodecFromKey('path/db-2023.sql.zst')).toBe('zstd');
+      expect(detectCodecFromKey('db-2023.sql.br')).toBe('brotli');
+      expect(detectCodecFromKey('db-2023.sql')).toBe('none');
+      expect(detectCodecFromKey('db-2023.tar.gz')).toBeNull();
+      expect(isBackupKey('notes.txt')).toBe(false);
+    });
+
+    it('should prefer metadata over the key extension and default to gzip', () => {
+      expect(resolveCodec('renamed.sql.gz', { compression: 'zstd' })).toBe('zstd');
+      expect(resolveCodec('db.sql.br', { compression: 'bogus' })).toBe('brotli');
+      expect(resolveCodec('legacy-backup')).toBe('gzip');
+    });
+  });
+
+  describe('codec streams', () => {
+    it('should round-trip gzip with a custom level', async () => {
+      const fast = await roundTrip('gzip', 1);
+      const best = await roundTrip('gzip', 9);
+      expect(best.compressed.length).toBeLessThanOrEqual(fast.compressed.length);
+    });
+
+    it('should round-trip brotli', async () => {
+      await roundTrip('brotli');
+    });
+
+    it('should pass data through unchanged for none', async () => {
+      const { compressed, restored } = await roundTrip('none');
+      expect(compressed.equals(restored)).toBe(true);
+    });
+
+    it('should fail decompression of corrupt data', async () => {
+      const decompressor = createDecompressor('gzip');
+      decompressor.end(Buffer.from('definitely not gzip'));
+      await expect(collect(decompressor)).rejects.toThrow();
+    });
+  });
+
+  describe('zstd without native zlib support', () => {
+    const zlibModule = zlib as unknown as Record<string, unknown>;
+    const nativeCompress = zlibModule.createZstdCompress;
+    let mockProcess: any;
+    let closeHandler: (code: number) => void;
+
+    beforeEach(() => {
+      zlibModule.createZstdCompress = undefined;
+      mockProcess = {
+        stdin: new PassThrough(),
+        stdout: new PassThrough(),
+        stderr: new PassThrough(),
+        on: jest.fn((event: string, handler: (code: number) => void) => {
+          if (event === 'close') {
+            closeHandler = handler;
+          }
+          return mockProcess;
+        }),
+        kill: jest.fn()
+      };
+      (spawn as jest.Mock).mockReturnValue(mockProcess);
+    });
+
+    afterEach(() => {
+      zlibModule.createZstdCompress = nativeCompress;
+    });
+
+    it('should spawn the zstd binary with the configured level', async () => {
+      const compressor = createCompressor({ codec: 'zstd', level: 7 });
+      const output = collect(compressor);
+
+      mockProcess.stdout.end(Buffer.from('zstd-data'));
+      closeHandler(0);
+
+      expect(spawn).toHaveBeenCalledWith('zstd', ['-7', '-T0', '-q', '-c'], expect.anything());
+      expect((await output).toString()).toBe('zstd-data');
+    });
+
+    it('should fail the stream when zstd exits with an error', async () => {
+      const compressor = createCompressor({ codec: 'zstd' });
+      const output = collect(compressor);
+
+      mockProcess.stderr.emit('data', Buffer.from('zstd: error 70 : Write error'));
+      mockProcess.stdout.end();
+      closeHandler(1);
+
+      await expect(output).rejects.toThrow('zstd exited with code 1: zstd: error 70 : Write error');
+    });
+  });
+});
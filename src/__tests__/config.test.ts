@@ -503,6 +503,11 @@ describe('ConfigManager', () => {
       const key = configManager.generateS3Key('testdb', []);
       expect(key).toBe('testdb-2023-12-01T10-30-45-123Z.sql.gz');
     });
+
+    it('should use the given extension', () => {
+      const key = configManager.generateS3Key('testdb', undefined, '.sql.zst');
+      expect(key).toBe('testdb-2023-12-01T10-30-45-123Z.sql.zst');
+    });
   });
 
   describe('verbose configuration', () => {
@@ -532,4 +537,186 @@ describe('ConfigManager', () => {
       expect(config.verbose).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('compression configuration', () => {
+    const fileConfig = {
+      database: { host: 'host', user: 'user', password: 'pass' },
+      s3: { accessKeyId: 'key', secretAccessKey: 'secret', bucket: 'bucket' },
+      compression: { codec: 'brotli', level: 9 }
+    };
+
+    it('should load compression from file config', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(fileConfig));
+
+      const config = configManager.loadConfig('config.json');
+      expect(config.compression).toEqual({ codec: 'brotli', level: 9 });
+    });
+
+    it('should prefer COMPRESSION_ env vars over file config', () => {
+      process.env.COMPRESSION_CODEC = 'zstd';
+      process.env.COMPRESSION_LEVEL = '12';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(fileConfig));
+
+      const config = configManager.loadConfig('config.json');
+      expect(config.compression).toEqual({ codec: 'zstd', level: 12 });
+    });
+
+    it('should reject invalid compression settings', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        ...fileConfig,
+        compression: { codec: 'gzip', level: 12 }
+      }));
+
+      expect(() => configManager.loadConfig('config.json'))
+        .toThrow("Invalid gzip compression level '12' (expected 1-9)");
+    });
+  });
+
+  describe('encryption configuration', () => {
+    const fileConfig = {
+      database: { host: 'host', user: 'user', password: 'pass' },
+      s3: { accessKeyId: 'key', secretAccessKey: 'secret', bucket: 'bucket' },
+      encryption: { keyFile: '/etc/backup.key', previousKeys: [{ passphrase: 'old' }] }
+    };
+
+    it('should replace the file key with a key from the environment', () => {
+      process.env.ENCRYPTION_PASSPHRASE = 'from-env';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(fileConfig));
+
+      const config = configManager.loadConfig('config.json');
+      expect(config.encryption).toEqual({
+        passphrase: 'from-env',
+        previousKeys: [{ passphrase: 'old' }]
+      });
+    });
+
+    it('should reject a passphrase combined with a key file', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        ...fileConfig,
+        encryption: { passphrase: 'secret', keyFile: '/etc/backup.key' }
+      }));
+
+      expect(() => configManager.loadConfig('config.json'))
+        .toThrow('Encryption: configure only one of passphrase, key file or recipients');
+    });
+  });
+
+  describe('retention configuration', () => {
+    const fileConfig = {
+      database: { host: 'host', user: 'user', password: 'pass' },
+      s3: { accessKeyId: 'key', secretAccessKey: 'secret', bucket: 'bucket' },
+      retention: { keepDaily: 7, keepWeekly: 4, autoPrune: true }
+    };
+
+    it('should prefer RETENTION_ env vars over file config', () => {
+      process.env.RETENTION_KEEP_DAILY = '14';
+      process.env.RETENTION_MAX_AGE_DAYS = '365';
+      process.env.RETENTION_AUTO_PRUNE = 'false';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(fileConfig));
+
+      const config = configManager.loadConfig('config.json');
+      expect(config.retention).toEqual({ keepDaily: 14, keepWeekly: 4, maxAgeDays: 365, autoPrune: false });
+    });
+
+    it('should reject invalid retention rules', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        ...fileConfig,
+        retention: { keepDaily: -1 }
+      }));
+
+      expect(() => configManager.loadConfig('config.json'))
+        .toThrow('Retention: keepDaily must be a non-negative integer');
+    });
+  });
+
+  describe('binlog configuration', () => {
+    it('should prefer BINLOG_PREFIX over file config', () => {
+      process.env.BINLOG_PREFIX = 'pitr/';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        database: { host: 'host', user: 'user', password: 'pass' },
+        s3: { accessKeyId: 'key', secretAccessKey: 'secret', bucket: 'bucket' },
+        binlog: { prefix: 'archive/binlogs/' }
+      }));
+
+      const config = configManager.loadConfig('config.json');
+      expect(config.binlog).toEqual({ prefix: 'pitr/' });
+    });
+  });
+
+  describe('replication configuration', () => {
+    it('should prefer REPLICATION_ env vars over file config', () => {
+      process.env.REPLICATION_SOURCE_HOST = 'db-primary';
+      process.env.REPLICATION_PASSWORD = 'secret';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        database: { host: 'host', user: 'user', password: 'pass' },
+        s3: { accessKeyId: 'key', secretAccessKey: 'secret', bucket: 'bucket' },
+        replication: { sourceHost: 'old-primary', sourcePort: 3307, user: 'repl' }
+      }));
+
+      const config = configManager.loadConfig('config.json');
+      expect(config.replication).toEqual({ sourceHost: 'db-primary', sourcePort: 3307, user: 'repl', password: 'secret' });
+    });
+  });
+
+  describe('dump engine configuration', () => {
+    const fileConfig = {
+      database: { host: 'host', user: 'user', password: 'pass' },
+      s3: { accessKeyId: 'key', secretAccessKey: 'secret', bucket: 'bucket' }
+    };
+
+    it('should prefer DUMP_ENGINE over file config', () => {
+      process.env.DUMP_ENGINE = 'native';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ ...fileConfig, dumpEngine: 'mysqldump' }));
+
+      expect(configManager.loadConfig('config.json').dumpEngine).toBe('native');
+    });
+
+    it('should reject an unknown engine', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ ...fileConfig, dumpEngine: 'parallel' }));
+
+      expect(() => configManager.loadConfig('config.json'))
+        .toThrow("Invalid dump engine 'parallel' (expected mysqldump or native)");
+    });
+
+    it('should read the restore engine from RESTORE_ENGINE', () => {
+      process.env.RESTORE_ENGINE = 'native';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(fileConfig));
+
+      expect(configManager.loadConfig('config.json').restoreEngine).toBe('native');
+    });
+
+    it('should reject an unknown restore engine', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ ...fileConfig, restoreEngine: 'mysqlsh' }));
+
+      expect(() => configManager.loadConfig('config.json'))
+        .toThrow("Invalid restore engine 'mysqlsh' (expected mysql or native)");
+    });
+  });
+
+  describe('pre-restore snapshot configuration', () => {
+    it('should let PRE_RESTORE_SNAPSHOT override the file', () => {
+      process.env.PRE_RESTORE_SNAPSHOT = 'false';
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        database: { host: 'host', user: 'user', password: 'pass' },
+        s3: { accessKeyId: 'key', secretAccessKey: 'secret', bucket: 'bucket' },
+        preRestoreSnapshot: true
+      }));
+
+      expect(configManager.loadConfig('config.json').preRestoreSnapshot).toBe(false);
+    });
+  });
+});
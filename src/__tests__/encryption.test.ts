@@ -0,0 +1,197 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import {
+  createDecryptor,
+  createEncryptor,
+  hasDecryptionKey,
+  isEncryptedBackup,
+  validateEncryptionConfig
+} from '../modules/encryption';
+import { EncryptionConfig } from '../types';
+
+const collect = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+const encrypt = async (config: EncryptionConfig, input: Buffer): Promise<Buffer> => {
+  const encryptor = createEncryptor(config);
+  encryptor.end(input);
+  return collect(encryptor);
+};
+
+const decrypt = async (config: EncryptionConfig, input: Buffer): Promise<Buffer> => {
+  const decryptor = createDecryptor(config);
+  // Feed the data in small pieces to exercise header and chunk boundaries
+  return collect(Readable.from(chunk(input, 64 * 1024)).pipe(decryptor));
+};
+
+const chunk = (data: Buffer, size: number): Buffer[] => {
+  const parts: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += size) {
+    parts.push(data.subarray(offset, offset + size));
+  }
+  return parts;
+};
+
+describe('encryption', () => {
+  // Spans several 1MB chunks and ends on a partial chunk
+  const input = Buffer.from('INSERT INTO `t` VALUES (1,\'a\');\n'.repeat(100000));
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'encryption-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeKeyFile = (name: string, content: string): string => {
+    const file = path.join(tempDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  it('should round-trip with a passphrase', async () => {
+    const encrypted = await encrypt({ passphrase: 'correct horse' }, input);
+
+    expect(encrypted.includes(Buffer.from('INSERT INTO'))).toBe(false);
+    expect((await decrypt({ passphrase: 'correct horse' }, encrypted)).equals(input)).toBe(true);
+  });
+
+  it('should round-trip with a key file, ignoring a trailing newline', async () => {
+    const key = 'c2VjcmV0LWtleS1tYXRlcmlhbC1mb3ItdGVzdGluZy0xMjM0NQ==';
+    const encrypted = await encrypt({ keyFile: writeKeyFile('key', key) }, input);
+
+    const restored = await decrypt({ keyFile: writeKeyFile('key-newline', `${key}\n`) }, encrypted);
+    expect(restored.equals(input)).toBe(true);
+  });
+
+  it('should round-trip empty input', async () => {
+    const encrypted = await encrypt({ passphrase: 'secret' }, Buffer.alloc(0));
+    expect((await decrypt({ passphrase: 'secret' }, encrypted)).length).toBe(0);
+  });
+
+  it('should decrypt old backups with a previous key after rotation', async () => {
+    const encrypted = await encrypt({ passphrase: 'old secret' }, input);
+
+    const restored = await decrypt({ passphrase: 'new secret', previousKeys: [{ passphrase: 'old secret' }] }, encrypted);
+    expect(restored.equals(input)).toBe(true);
+  });
+
+  it('should report a wrong passphrase', async () => {
+    const encrypted = await encrypt({ passphrase: 'right' }, input);
+
+    await expect(decrypt({ passphrase: 'wrong' }, encrypted))
+      .rejects.toThrow('wrong passphrase (none of the configured keys match this backup)');
+  });
+
+  it('should detect tampered data', async () => {
+    const encrypted = await encrypt({ passphrase: 'secret' }, input);
+    encrypted[encrypted.length - 100] ^= 0xff;
+
+    await expect(decrypt({ passphrase: 'secret' }, encrypted))
+      .rejects.toThrow('backup data is corrupted or has been tampered with');
+  });
+
+  it('should detect truncation at a chunk boundary', async () => {
+    const encrypted = await encrypt({ passphrase: 'secret' }, input);
+    const headerLength = 12 + encrypted.readUInt32BE(8);
+    const truncated = encrypted.subarray(0, headerLength + 1024 * 1024 + 16);
+
+    await expect(decrypt({ passphrase: 'secret' }, truncated))
+      .rejects.toThrow('backup data is corrupted or has been tampered with');
+  });
+
+  it('should reject data without an encryption header', async () => {
+    await expect(decrypt({ passphrase: 'secret' }, input))
+      .rejects.toThrow('backup is not encrypted (missing encryption header)');
+  });
+
+  it('should fail clearly when the key file is missing', () => {
+    expect(() => createEncryptor({ keyFile: path.join(tempDir, 'missing') }))
+      .toThrow('Failed to read encryption key file');
+  });
+
+  it('should reject short key files', () => {
+    expect(() => createEncryptor({ keyFile: writeKeyFile('short', 'too-short') }))
+      .toThrow('is too short (at least 32 bytes required)');
+  });
+
+  describe('public-key encryption', () => {
+    const generateKeyPair = () => {
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('x25519');
+      return {
+        publicKey: publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+        privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString()
+      };
+    };
+
+    it('should let every recipient decrypt', async () => {
+      const ops = generateKeyPair();
+      const escrow = generateKeyPair();
+      const encrypted = await encrypt({ recipients: [ops.publicKey, writeKeyFile('escrow.pub', escrow.publicKey)] }, input);
+
+      expect((await decrypt({ identities: [ops.privateKey] }, encrypted)).equals(input)).toBe(true);
+      const restored = await decrypt({ identities: [writeKeyFile('escrow.key', escrow.privateKey)] }, encrypted);
+      expect(restored.equals(input)).toBe(true);
+    });
+
+    it('should report a private key that is not a recipient', async () => {
+      const encrypted = await encrypt({ recipients: [generateKeyPair().publicKey] }, input);
+
+      await expect(decrypt({ identities: [generateKeyPair().privateKey] }, encrypted))
+        .rejects.toThrow('wrong private key (none of the configured keys match this backup)');
+    });
+
+    it('should ask for a private key when only a passphrase is configured', async () => {
+      const encrypted = await encrypt({ recipients: [generateKeyPair().publicKey] }, input);
+
+      await expect(decrypt({ passphrase: 'secret' }, encrypted))
+        .rejects.toThrow('wrong private key');
+    });
+
+    it('should refuse a private key as recipient', () => {
+      expect(() => createEncryptor({ recipients: [generateKeyPair().privateKey] }))
+        .toThrow('Invalid encryption public key: got a private key, backup hosts only need the public key');
+    });
+
+    it('should reject keys that are not X25519', () => {
+      const { publicKey } = crypto.generateKeyPairSync('ed25519');
+      const pem = publicKey.export({ format: 'pem', type: 'spki' }).toString();
+
+      expect(() => createEncryptor({ recipients: [pem] }))
+        .toThrow('Invalid encryption public key: expected an X25519 key, got ed25519');
+    });
+  });
+
+  describe('config helpers', () => {
+    it('should reject a passphrase combined with a key file', () => {
+      expect(() => validateEncryptionConfig({ passphrase: 'a', keyFile: '/key' }))
+        .toThrow('Encryption: configure only one of passphrase, key file or recipients');
+    });
+
+    it('should reject incomplete previous keys', () => {
+      expect(() => validateEncryptionConfig({ passphrase: 'a', previousKeys: [{}] }))
+        .toThrow('Encryption: previousKeys[0] must have exactly one of passphrase, key file or identities');
+    });
+
+    it('should accept previous keys without a current key for decryption', () => {
+      expect(hasDecryptionKey({ previousKeys: [{ passphrase: 'old' }] })).toBe(true);
+      expect(hasDecryptionKey({})).toBe(false);
+    });
+
+    it('should prefer object metadata over the key extension', () => {
+      expect(isEncryptedBackup('db.sql.gz.enc')).toBe(true);
+      expect(isEncryptedBackup('db.sql.gz')).toBe(false);
+      expect(isEncryptedBackup('db.sql.gz', { encryption: 'aes-256-gcm' })).toBe(true);
+    });
+  });
+});
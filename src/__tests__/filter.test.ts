@@ -0,0 +1,78 @@
+import { applyBackupFilter, hasBackupFilters, parseBackupFilter } from '../modules/filter';
+import { BackupInfo, ParsedBackupKey } from '../types';
+
+describe('backup filters', () => {
+  const parseKey = (key: string): ParsedBackupKey => ({ name: key.replace(/-\d{4}-\d{2}-\d{2}T.*$/, '') });
+
+  const backup = (key: string, date: string, size: number): BackupInfo => ({
+    key,
+    displayName: key,
+    lastModified: new Date(date),
+    size
+  });
+
+  const backups = [
+    backup('shop-2024-01-03T02-00-00-000Z.sql.gz', '2024-01-03T02:00:00Z', 300),
+    backup('prod/shop-2024-01-02T02-00-00-000Z.sql.gz', '2024-01-02T02:00:00Z', 100),
+    backup('billing-2024-01-01T02-00-00-000Z.sql.gz', '2024-01-01T02:00:00Z', 200)
+  ];
+
+  const keys = (options: Parameters<typeof parseBackupFilter>[0]): string[] =>
+    applyBackupFilter(backups, parseBackupFilter(options), parseKey).map(b => b.key);
+
+  describe('parseBackupFilter', () => {
+    it('should default to newest first without filters', () => {
+      const filter = parseBackupFilter({});
+
+      expect(filter).toEqual({ prefix: undefined, sort: 'date', reverse: false });
+      expect(hasBackupFilters(filter)).toBe(false);
+    });
+
+    it('should include the whole day of a plain --until date', () => {
+      expect(parseBackupFilter({ until: '2024-01-31' }).until).toEqual(new Date('2024-01-31T23:59:59.999Z'));
+      expect(parseBackupFilter({ until: '2024-01-31T12:00:00Z' }).until).toEqual(new Date('2024-01-31T12:00:00Z'));
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => parseBackupFilter({ since: 'yesterday' })).toThrow("Invalid --since date 'yesterday'");
+      expect(() => parseBackupFilter({ since: '2024-02-01', until: '2024-01-01' })).toThrow('--since must be before --until');
+      expect(() => parseBackupFilter({ limit: '0' })).toThrow("Invalid --limit '0' (expected a positive integer)");
+      expect(() => parseBackupFilter({ limit: '2.5' })).toThrow("Invalid --limit '2.5'");
+      expect(() => parseBackupFilter({ sort: 'color' })).toThrow("Invalid sort field 'color'. Use one of: name, date, size");
+    });
+  });
+
+  describe('applyBackupFilter', () => {
+    it('should filter by prefix', () => {
+      expect(keys({ prefix: 'prod/' })).toEqual(['prod/shop-2024-01-02T02-00-00-000Z.sql.gz']);
+    });
+
+    it('should filter by date range', () => {
+      expect(keys({ since: '2024-01-02', until: '2024-01-02' })).toEqual(['prod/shop-2024-01-02T02-00-00-000Z.sql.gz']);
+    });
+
+    it('should match name globs without the directory', () => {
+      expect(keys({ name: 'sh?p' })).toEqual([
+        'shop-2024-01-03T02-00-00-000Z.sql.gz',
+        'prod/shop-2024-01-02T02-00-00-000Z.sql.gz'
+      ]);
+      expect(keys({ name: 'prod/*' })).toEqual(['prod/shop-2024-01-02T02-00-00-000Z.sql.gz']);
+      expect(keys({ name: 'b*g' })).toEqual(['billing-2024-01-01T02-00-00-000Z.sql.gz']);
+      expect(keys({ name: 'shop.' })).toEqual([]);
+    });
+
+    it('should sort by name, date or size and reverse', () => {
+      expect(keys({ sort: 'name' })).toEqual([
+        'billing-2024-01-01T02-00-00-000Z.sql.gz',
+        'prod/shop-2024-01-02T02-00-00-000Z.sql.gz',
+        'shop-2024-01-03T02-00-00-000Z.sql.gz'
+      ]);
+      expect(keys({ sort: 'size' })[0]).toBe('shop-2024-01-03T02-00-00-000Z.sql.gz');
+      expect(keys({ sort: 'date', reverse: true })[0]).toBe('billing-2024-01-01T02-00-00-000Z.sql.gz');
+    });
+
+    it('should limit after sorting', () => {
+      expect(keys({ sort: 'size', reverse: true, limit: '1' })).toEqual(['prod/shop-2024-01-02T02-00-00-000Z.sql.gz']);
+    });
+  });
+});
@@ -69,6 +69,8 @@ describe('listCommand', () => {
 
     mockS3Manager = {
       listBackups: jest.fn(),
+      attachManifests: jest.fn().mockResolvedValue(undefined),
+      parseBackupKey: jest.fn((key: string) => ({ name: key.replace(/-\d{4}-\d{2}-\d{2}T.*$/, '') })),
       formatFileSize: jest.fn((bytes: number) => {
         if (bytes === 1024) return '1 KB';
         if (bytes === 2048) return '2 KB';
@@ -142,6 +144,36 @@ describe('listCommand', () => {
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Configuration loaded successfully'));
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('S3 Bucket: test-bucket'));
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Total size:'));
+      expect(mockS3Manager.attachManifests).toHaveBeenCalledWith(mockBackups);
+    });
+
+    it('should show the manifest summary and binlog position with verbose output', async () => {
+      const backups: BackupInfo[] = [{
+        ...mockBackups[0],
+        manifest: {
+          formatVersion: 1,
+          toolVersion: '1.0.0',
+          backupKey: mockBackups[0].key,
+          serverVersion: '8.0.36',
+          schemas: ['shop'],
+          tables: [{ schema: 'shop', name: 'users', approxRows: 10, dataSize: 16384, indexSize: 0 }],
+          mysqldumpFlags: [],
+          compression: { codec: 'gzip' },
+          encrypted: false,
+          uncompressedSize: 4096,
+          compressedSize: 2048,
+          sha256: 'abc123',
+          startedAt: '2023-12-02T10:00:00.000Z',
+          finishedAt: '2023-12-02T10:01:00.000Z',
+          binlog: { file: 'binlog.000042', position: 157, gtidExecuted: 'uuid:1-5', exact: true }
+        }
+      }];
+      mockS3Manager.listBackups.mockResolvedValue(backups);
+
+      await listCommand({ format: 'table', verbose: true });
+
+      expect(consoleLogSpy).toHaveBeenCalledWith('  MySQL 8.0.36, 1 schema, 1 table, ~10 rows, 4096 Bytes uncompressed');
+      expect(consoleLogSpy).toHaveBeenCalledWith('  Binlog: binlog.000042:157, GTID uuid:1-5');
     });
 
     it('should show verbose output with S3 endpoint when configured', async () => {
@@ -370,4 +402,63 @@ describe('listCommand', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('filters', () => {
+    const backups: BackupInfo[] = [
+      ...mockBackups,
+      {
+        key: 'other-2023-11-15T10-00-00-000Z.sql.gz',
+        displayName: 'other (2023-11-15 10:00:00)',
+        lastModified: new Date('2023-11-15T10:00:00Z'),
+        size: 4096
+      }
+    ];
+
+    const listedKeys = (): string[] => JSON.parse(consoleLogSpy.mock.calls[consoleLogSpy.mock.calls.length - 1][0])
+      .map((backup: { key: string }) => backup.key);
+
+    it('should pass the prefix to S3', async () => {
+      mockS3Manager.listBackups.mockResolvedValue(mockBackups);
+
+      await listCommand({ prefix: 'prod/' });
+
+      expect(mockS3Manager.listBackups).toHaveBeenCalledWith('prod/');
+    });
+
+    it('should filter by name and date range', async () => {
+      mockS3Manager.listBackups.mockResolvedValue(backups);
+
+      await listCommand({ format: 'json', name: 'b*', since: '2023-11-20', until: '2023-12-01' });
+
+      expect(listedKeys()).toEqual(['backup-2023-12-01T10-00-00-000Z.sql.gz']);
+      expect(consoleLogSpy).toHaveBeenCalledWith('✓ Showing 1 backup of 3');
+    });
+
+    it('should sort, reverse and limit', async () => {
+      mockS3Manager.listBackups.mockResolvedValue(backups);
+
+      await listCommand({ format: 'json', sort: 'size', reverse: true, limit: '2' });
+
+      expect(listedKeys()).toEqual([
+        'backup-2023-12-01T10-00-00-000Z.sql.gz',
+        'backup-2023-12-02T10-00-00-000Z.sql.gz'
+      ]);
+    });
+
+    it('should report when no backups match', async () => {
+      mockS3Manager.listBackups.mockResolvedValue(backups);
+
+      await listCommand({ name: 'missing' });
+
+      expect(consoleLogSpy).toHaveBeenCalledWith('⚠ No backups match the filters');
+    });
+
+    it('should reject invalid filter options before listing', async () => {
+      await listCommand({ sort: 'color' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Failed to list backups:', "Invalid sort field 'color'. Use one of: name, date, size");
+      expect(mockS3Manager.listBackups).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import { resolveMaskingPlan, SqlMaskingFilter, SqlMaskingStream, validateMaskingConfig } from '../modules/masking';
+import { SqlStatementSplitter } from '../modules/sqlsplitter';
+import { MaskingConfig, MaskingPlan } from '../types';
+
+describe('masking', () => {
+  const config: MaskingConfig = {
+    salt: 'pepper',
+    profiles: {
+      staging: {
+        columns: {
+          'users.email': 'email',
+          'users.phone': { strategy: 'partial', keep: 2 },
+          'users.notes': 'null',
+          'users.name': 'pseudonym',
+          'users.password_hash': { strategy: 'fixed', value: 'x' },
+          'billing.cards.number': 'hash'
+        }
+      }
+    }
+  };
+  const plan = resolveMaskingPlan(config, 'staging');
+  const hmac = (value: string) => createHmac('sha256', 'pepper').update(value).digest('hex');
+
+  const maskDump = async (dump: string, maskingPlan: MaskingPlan = plan, schema?: string): Promise<string> => {
+    const chunks: Buffer[] = [];
+    // Small chunks, so lines arrive in pieces
+    const parts = Buffer.from(dump).toString('latin1').match(/[\s\S]{1,7}/g)!.map(part => Buffer.from(part, 'latin1'));
+    for await (const chunk of Readable.from(parts).pipe(new SqlMaskingStream(maskingPlan, schema))) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  };
+
+  const maskStatements = async (dump: string, schema?: string): Promise<string[]> => {
+    const statements: string[] = [];
+    const masked = Readable.from([Buffer.from(dump)]).pipe(new SqlStatementSplitter()).pipe(new SqlMaskingFilter(plan, schema));
+    for await (const statement of masked) {
+      statements.push(Buffer.from(statement.sql, 'latin1').toString('utf8'));
+    }
+    return statements;
+  };
+
+  // As mysqldump writes a single database
+  const dump = [
+    '/*!40101 SET NAMES utf8mb4 */;',
+    'CREATE TABLE `users` (',
+    '  `id` int NOT NULL,',
+    '  `name` varchar(64) DEFAULT NULL,',
+    '  `email` varchar(255) NOT NULL,',
+    '  `phone` varchar(32) DEFAULT NULL,',
+    '  `notes` text,',
+    '  `password_hash` char(60) DEFAULT NULL,',
+    '  PRIMARY KEY (`id`),',
+    '  KEY `email` (`email`)',
+    ') ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;',
+    'INSERT INTO `users` VALUES (1,\'Ann, \\\'Nan\\\'\',\'ann@shop.test\',\'555-0101\',\'(private)\',\'$2b$\'),(2,\'Bob\',\'bob@shop.test\',NULL,NULL,NULL);',
+    'INSERT INTO `orders` VALUES (1,\'ann@shop.test\');',
+    'DELIMITER ;;',
+    '/*!50003 CREATE*/ /*!50003 TRIGGER `users_ai` AFTER INSERT ON `users` FOR EACH ROW',
+    'INSERT INTO `users` VALUES (NEW.id, NEW.name, NEW.email, NULL, NULL, NULL) */;;',
+    'DELIMITER ;',
+    '-- Dump completed on 2024-01-31 14:32:00',
+    ''
+  ].join('\n');
+
+  it('should rewrite the masked columns of every row and leave the rest of the dump as it is', async () => {
+    const masked = await maskDump(dump, plan, 'shop');
+    const lines = masked.split('\n');
+
+    expect(lines[11]).toBe(
+      `INSERT INTO \`users\` VALUES (1,'anon-${hmac('Ann, \'Nan\'').slice(0, 16)}','user-${hmac('ann@shop.test').slice(0, 16)}@example.invalid','******01',NULL,'x'),` +
+      `(2,'anon-${hmac('Bob').slice(0, 16)}','user-${hmac('bob@shop.test').slice(0, 16)}@example.invalid',NULL,NULL,NULL);`
+    );
+    expect(masked.replace(lines[11], '')).toEqual(dump.replace(dump.split('\n')[11], ''));
+    expect(masked).toContain('-- Dump completed on 2024-01-31 14:32:00\n');
+  });
+
+  it('should mask the same value alike, and differently under another salt', async () => {
+    const row = ['CREATE TABLE `users` (', '  `email` varchar(255)', ');', 'INSERT INTO `users` VALUES (\'ann@shop.test\');', ''].join('\n');
+    const emails = (salt: string) => resolveMaskingPlan({ salt, profiles: { emails: { columns: { 'users.email': 'email' } } } }, 'emails');
+    const first = await maskDump(row, emails('pepper'));
+    const resalted = await maskDump(row, emails('other'));
+
+    expect(await maskDump(row, emails('pepper'))).toBe(first);
+    expect(resalted).not.toBe(first);
+    expect(first).not.toContain('ann@shop.test');
+  });
+
+  it('should hash binary and hex values by their bytes and keep whole characters when masking partially', async () => {
+    const cards = ['USE `billing`;', 'INSERT INTO `cards` (`id`,`number`) VALUES (1,_binary \'4111\'),(2,0x34313131);', ''].join('\n');
+    const sha = createHmac('sha256', 'pepper').update('4111').digest('hex');
+    expect(await maskDump(cards)).toContain(`VALUES (1,'${sha}'),(2,'${sha}');`);
+
+    const phones = ['INSERT INTO `users` (`phone`) VALUES (\'☎ 555 0101\'),(\'01\');', ''].join('\n');
+    expect(await maskDump(phones)).toContain('VALUES (\'********01\'),(\'**\');');
+  });
+
+  it('should hash without a salt when none is configured', async () => {
+    const unsalted = resolveMaskingPlan({ profiles: { dev: { columns: { 'users.email': 'hash' } } } }, 'dev');
+    const sha = createHash('sha256').update('ann@shop.test').digest('hex');
+    expect(await maskDump('INSERT INTO `users` (`email`) VALUES (\'ann@shop.test\');\n', unsalted)).toContain(`VALUES ('${sha}');`);
+  });
+
+  it('should follow USE and schema-qualified rules in the statements of a restore', async () => {
+    const statements = await maskStatements([
+      'USE `app`;',
+      'INSERT INTO `cards` (`id`,`number`) VALUES (1,\'4111\');',
+      'USE `billing`;',
+      'INSERT INTO `cards` (`id`,`number`) VALUES (1,\'4111\');',
+      ''
+    ].join('\n'));
+
+    expect(statements[1]).toBe('INSERT INTO `cards` (`id`,`number`) VALUES (1,\'4111\')');
+    expect(statements[3]).toBe(`INSERT INTO \`cards\` (\`id\`,\`number\`) VALUES (1,'${hmac('4111')}')`);
+  });
+
+  it('should fail rather than let values through when it cannot tell the columns apart', async () => {
+    await expect(maskStatements('INSERT INTO `users` VALUES (1,\'ann@shop.test\');\n')).rejects.toThrow(
+      'Cannot mask users: the dump has neither its CREATE TABLE nor a column list'
+    );
+    await expect(maskStatements('CREATE TABLE `users` (\n  `id` int,\n  `mail` text\n);\nINSERT INTO `users` VALUES (1,\'ann@shop.test\');\n')).rejects.toThrow(
+      'Masking rule users.email names a column users doesn\'t have'
+    );
+  });
+
+  it('should validate profiles and name the configured ones', () => {
+    expect(() => validateMaskingConfig(config)).not.toThrow();
+    expect(() => validateMaskingConfig({
+      profiles: {
+        broken: { columns: { email: 'email', 'users.name': 'pseudonym', 'users.ssn': 'scramble' as any, 'users.pin': { strategy: 'fixed' } } }
+      }
+    })).toThrow([
+      'Masking: \'email\' in profile \'broken\' must be table.column or schema.table.column',
+      'Masking: \'users.name\' in profile \'broken\' needs a salt for pseudonyms (masking.salt or MASKING_SALT)',
+      'Masking: \'users.ssn\' in profile \'broken\' has unknown strategy \'scramble\' (expected email, hash, null, fixed, partial, pseudonym)',
+      'Masking: \'users.pin\' in profile \'broken\' needs a value for the fixed strategy'
+    ].join('\n'));
+    expect(() => resolveMaskingPlan(config, 'prod')).toThrow('Unknown masking profile \'prod\' (configured: staging)');
+    expect(() => resolveMaskingPlan(undefined, 'prod')).toThrow('no masking profiles are configured');
+  });
+});
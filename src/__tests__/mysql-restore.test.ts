@@ -1,5 +1,6 @@
 import { MySQLManager } from '../modules/mysql';
 import { spawn } from 'child_process';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as zlib from 'zlib';
 import * as path from 'path';
@@ -376,4 +377,224 @@ describe('MySQLManager restore with EPIPE handling', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('streaming restore', () => {
+    const createMysqlProcess = (exitCode: number) => {
+      const mockStdin = new PassThrough();
+      const mockMysqlProcess = {
+        stdin: mockStdin,
+        stderr: new PassThrough(),
+        on: jest.fn(),
+        kill: jest.fn()
+      };
+      mockMysqlProcess.on.mockImplementation((event, handler) => {
+        if (event === 'close') {
+          // Close once mysql has consumed all of its input
+          mockStdin.on('finish', () => handler(exitCode));
+        }
+        return mockMysqlProcess;
+      });
+      return mockMysqlProcess;
+    };
+
+    it('should pipe the decompressed stream into mysql and report progress against the given size', async () => {
+      const testData = 'CREATE TABLE test (id INT);\nINSERT INTO test VALUES (1);\n';
+      const compressed = zlib.gzipSync(Buffer.from(testData));
+      const mockMysqlProcess = createMysqlProcess(0);
+      let received = '';
+      mockMysqlProcess.stdin.on('data', (chunk: Buffer) => { received += chunk.toString(); });
+      (spawn as jest.Mock).mockReturnValue(mockMysqlProcess);
+      const progressCallback = jest.fn();
+
+      const input = new PassThrough();
+      input.end(compressed);
+
+      await expect(mysqlManager.restoreBackupStream(input, compressed.length, 'testdb', progressCallback))
+        .resolves.toBeUndefined();
+
+      expect(received).toBe(testData);
+      expect(progressCallback).toHaveBeenLastCalledWith({
+        loaded: compressed.length,
+        total: compressed.length,
+        percentage: 100
+      });
+    });
+
+    it('should tear down mysql when the input stream fails', async () => {
+      const mockMysqlProcess = createMysqlProcess(0);
+      (spawn as jest.Mock).mockReturnValue(mockMysqlProcess);
+
+      const input = new PassThrough();
+      setTimeout(() => input.destroy(new Error('socket hang up')), 50);
+
+      await expect(mysqlManager.restoreBackupStream(input, 1024, 'testdb'))
+        .rejects.toThrow('Failed to read backup stream: socket hang up');
+      expect(mockMysqlProcess.kill).toHaveBeenCalledWith('SIGTERM');
+    });
+
+    it('should destroy the input stream when mysql fails', async () => {
+      const mockMysqlProcess = createMysqlProcess(1);
+      (spawn as jest.Mock).mockReturnValue(mockMysqlProcess);
+
+      const input = new PassThrough();
+      input.end(zlib.gzipSync(Buffer.from('SELECT 1;')));
+
+      await expect(mysqlManager.restoreBackupStream(input, 100, 'testdb'))
+        .rejects.toThrow('MySQL restore failed (exit code 1)');
+      expect(input.destroyed).toBe(true);
+    });
+
+    it('should finish the restore when the checksum matches', async () => {
+      const compressed = zlib.gzipSync(Buffer.from('SELECT 1;'));
+      const mockMysqlProcess = createMysqlProcess(0);
+      (spawn as jest.Mock).mockReturnValue(mockMysqlProcess);
+
+      const input = new PassThrough();
+      input.end(compressed);
+
+      await expect(mysqlManager.restoreBackupStream(input, compressed.length, 'testdb', undefined, {
+        expectedSha256: createHash('sha256').update(compressed).digest('hex')
+      })).resolves.toBeUndefined();
+    });
+
+    it('should kill mysql before end of input on a checksum mismatch', async () => {
+      const mockMysqlProcess = createMysqlProcess(0);
+      (spawn as jest.Mock).mockReturnValue(mockMysqlProcess);
+
+      const input = new PassThrough();
+      input.end(zlib.gzipSync(Buffer.from('SELECT 1;')));
+
+      await expect(mysqlManager.restoreBackupStream(input, 100, 'testdb', undefined, { expectedSha256: 'deadbeef' }))
+        .rejects.toThrow('Checksum mismatch: expected SHA-256 deadbeef');
+      expect(mockMysqlProcess.kill).toHaveBeenCalledWith('SIGTERM');
+      expect(mockMysqlProcess.stdin.writableEnded).toBe(false);
+    });
+
+    it('should destroy the input stream when database preparation fails', async () => {
+      jest.spyOn(mysqlManager, 'databaseExists').mockRejectedValueOnce(new Error('Connection refused'));
+      const input = new PassThrough();
+
+      await expect(mysqlManager.restoreBackupStream(input, 100, 'testdb'))
+        .rejects.toThrow('Database preparation failed: Connection refused');
+      expect(input.destroyed).toBe(true);
+      expect(spawn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('native restore engine', () => {
+    let connection: { query: jest.Mock; end: jest.Mock; destroy: jest.Mock };
+    let executed: string[];
+
+    const gzipInput = (sql: string) => {
+      const input = new PassThrough();
+      input.end(zlib.gzipSync(Buffer.from(sql)));
+      return input;
+    };
+
+    beforeEach(() => {
+      executed = [];
+      connection = {
+        query: jest.fn(async (sql: string) => {
+          executed.push(sql);
+          return [{}];
+        }),
+        end: jest.fn().mockResolvedValue(undefined),
+        destroy: jest.fn()
+      };
+      (createConnection as jest.Mock).mockResolvedValue(connection);
+      jest.spyOn(mysqlManager, 'databaseExists').mockResolvedValue(true);
+    });
+
+    it('should run the dump statement by statement over a binary connection', async () => {
+      const sql = '-- MySQL dump\n/*!40101 SET NAMES utf8mb4 */;\nCREATE TABLE `t` (id INT);\nINSERT INTO `t` VALUES (1,\'a;b\');\n';
+      const compressed = zlib.gzipSync(Buffer.from(sql));
+      const input = new PassThrough();
+      input.end(compressed);
+      const progressCallback = jest.fn();
+
+      await mysqlManager.restoreBackupStream(input, compressed.length, 'testdb', progressCallback, {
+        engine: 'native',
+        packetSizeRaised: true,
+        expectedSha256: createHash('sha256').update(compressed).digest('hex')
+      });
+
+      expect(spawn).not.toHaveBeenCalled();
+      expect(createConnection).toHaveBeenCalledWith(expect.objectContaining({
+        database: 'testdb',
+        charset: 'BINARY',
+        flags: ['-SESSION_TRACK']
+      }));
+      expect(executed).toEqual([
+        'SET FOREIGN_KEY_CHECKS=0, UNIQUE_CHECKS=0, AUTOCOMMIT=0',
+        '/*!40101 SET NAMES utf8mb4 */',
+        'CREATE TABLE `t` (id INT)',
+        'INSERT INTO `t` VALUES (1,\'a;b\')',
+        'COMMIT'
+      ]);
+      expect(connection.end).toHaveBeenCalled();
+      expect(progressCallback).toHaveBeenLastCalledWith({
+        loaded: compressed.length,
+        total: compressed.length,
+        percentage: 100,
+        statements: 3,
+        tables: 1
+      });
+    });
+
+    it('should report the dump line of a failing statement', async () => {
+      connection.query.mockImplementation(async (sql: string) => {
+        if (sql.startsWith('INSERT')) {
+          throw new Error('Duplicate entry \'1\' for key \'PRIMARY\'');
+        }
+        return [{}];
+      });
+      const input = gzipInput('CREATE TABLE t (id INT);\n\nINSERT INTO t\nVALUES (1);\n');
+
+      await expect(mysqlManager.restoreBackupStream(input, 100, 'testdb', undefined, { engine: 'native', packetSizeRaised: true }))
+        .rejects.toThrow('MySQL restore failed at line 3: Duplicate entry \'1\' for key \'PRIMARY\'');
+      expect(connection.destroy).toHaveBeenCalled();
+      expect(connection.end).not.toHaveBeenCalled();
+      expect(input.destroyed).toBe(true);
+    });
+
+    it('should roll back instead of committing on a checksum mismatch', async () => {
+      await expect(mysqlManager.restoreBackupStream(gzipInput('SELECT 1;'), 100, 'testdb', undefined, {
+        engine: 'native',
+        packetSizeRaised: true,
+        expectedSha256: 'deadbeef'
+      })).rejects.toThrow('Checksum mismatch: expected SHA-256 deadbeef');
+      expect(executed).not.toContain('COMMIT');
+      expect(connection.destroy).toHaveBeenCalled();
+    });
+
+    it('should filter the statements of a table selection, even without the native engine configured', async () => {
+      const input = gzipInput('CREATE TABLE `orders` (id INT);\nINSERT INTO `orders` VALUES (1);\nINSERT INTO `users` VALUES (2);\n');
+
+      await mysqlManager.restoreBackupStream(input, 100, 'testdb', undefined, {
+        packetSizeRaised: true,
+        tables: { include: ['orders'], renameSuffix: '_restored' }
+      });
+
+      expect(spawn).not.toHaveBeenCalled();
+      expect(executed).toEqual([
+        'SET FOREIGN_KEY_CHECKS=0, UNIQUE_CHECKS=0, AUTOCOMMIT=0',
+        'CREATE TABLE `orders_restored` (id INT)',
+        'INSERT INTO `orders_restored` VALUES (1)',
+        'COMMIT'
+      ]);
+    });
+
+    it('should label input and decompression failures', async () => {
+      const input = new PassThrough();
+      input.end(Buffer.from('not gzip'));
+
+      await expect(mysqlManager.restoreBackupStream(input, 100, 'testdb', undefined, { engine: 'native', packetSizeRaised: true }))
+        .rejects.toThrow(/^Decompression failed: /);
+
+      const failing = new PassThrough();
+      setTimeout(() => failing.destroy(new Error('socket hang up')), 50);
+      await expect(mysqlManager.restoreBackupStream(failing, 100, 'testdb', undefined, { engine: 'native', packetSizeRaised: true }))
+        .rejects.toThrow('Failed to read backup stream: socket hang up');
+    });
+  });
+});
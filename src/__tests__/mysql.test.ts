@@ -1,13 +1,17 @@
 import { MySQLManager } from '../modules/mysql';
 import { spawn } from 'child_process';
+import { createHash } from 'crypto';
 import { createConnection, Connection } from 'mysql2/promise';
+import { createConnection as createCoreConnection } from 'mysql2';
 import * as fs from 'fs';
 import * as zlib from 'zlib';
+import { EventEmitter } from 'events';
 import { PassThrough, Readable } from 'stream';
 import { DatabaseConfig } from '../types';
 
 jest.mock('child_process');
 jest.mock('mysql2/promise');
+jest.mock('mysql2');
 jest.mock('fs');
 jest.mock('zlib');
 
@@ -28,11 +32,15 @@ describe('MySQLManager', () => {
     
     mockConnection = {
       execute: jest.fn(),
+      query: jest.fn(),
       end: jest.fn().mockResolvedValue(undefined),
-      ping: jest.fn().mockResolvedValue(undefined)
+      ping: jest.fn().mockResolvedValue(undefined),
+      connect: jest.fn().mockResolvedValue(undefined)
     } as any;
     
     (createConnection as jest.Mock).mockResolvedValue(mockConnection);
+    // Snapshot connections are opened through the callback API and used through its promise wrapper
+    (createCoreConnection as jest.Mock).mockImplementation(() => ({ promise: () => mockConnection }));
     
     mysqlManager = new MySQLManager(mockConfig);
   });
@@ -148,6 +156,373 @@ describe('MySQLManager', () => {
     });
   });
 
+  describe('countTableRows', () => {
+    it('should count the rows of every base table', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ tableName: 'orders' }, { tableName: 'we`ird' }], []] as any)
+        .mockResolvedValueOnce([[{ count: 12 }], []] as any)
+        .mockResolvedValueOnce([[{ count: 0 }], []] as any);
+
+      await expect(mysqlManager.countTableRows('scratch')).resolves.toEqual({ orders: 12, 'we`ird': 0 });
+      expect(mockConnection.execute).toHaveBeenCalledWith(expect.stringContaining('information_schema.TABLES'), ['scratch']);
+      expect(mockConnection.execute).toHaveBeenCalledWith('SELECT COUNT(*) AS count FROM `scratch`.`we``ird`');
+      expect(mockConnection.end).toHaveBeenCalled();
+    });
+  });
+
+  describe('getServerSnapshot', () => {
+    it('should collect version, table statistics and binlog position', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ version: '8.0.36' }], []] as any)
+        .mockResolvedValueOnce([[{ File: 'binlog.000042', Position: 157 }], []] as any)
+        .mockResolvedValueOnce([[{ gtidExecuted: '3e11fa47-71ca-11e1-9e33-c80aa9429562:1-5,\n4e11fa47-71ca-11e1-9e33-c80aa9429562:1-3' }], []] as any);
+      mockConnection.query.mockResolvedValueOnce([[
+        { tableSchema: 'testdb', tableName: 'users', tableRows: 10, dataLength: 16384, indexLength: 0 },
+        { tableSchema: 'testdb', tableName: 'orders', tableRows: null, dataLength: null, indexLength: null }
+      ], []] as any)
+        .mockResolvedValueOnce([[{ 'Grants for backup@%': 'GRANT RELOAD, REPLICATION CLIENT ON *.* TO `backup`@`%`' }], []] as any);
+
+      const snapshot = await mysqlManager.getServerSnapshot();
+
+      expect(snapshot).toEqual({
+        serverVersion: '8.0.36',
+        schemas: ['testdb'],
+        tables: [
+          { schema: 'testdb', name: 'users', approxRows: 10, dataSize: 16384, indexSize: 0 },
+          { schema: 'testdb', name: 'orders', approxRows: 0, dataSize: 0, indexSize: 0 }
+        ],
+        binlog: {
+          file: 'binlog.000042',
+          position: 157,
+          gtidExecuted: '3e11fa47-71ca-11e1-9e33-c80aa9429562:1-5,4e11fa47-71ca-11e1-9e33-c80aa9429562:1-3'
+        },
+        hasReloadPrivilege: true
+      });
+      expect(mockConnection.query).toHaveBeenCalledWith(expect.stringContaining('information_schema.TABLES'), [['testdb']]);
+      expect(mockConnection.end).toHaveBeenCalled();
+    });
+
+    it('should apply the table filters and list the excluded tables', async () => {
+      mysqlManager = new MySQLManager({ ...mockConfig, excludeTables: ['sessions'], schemaOnlyTables: ['audit_*'] });
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ version: '8.0.36' }], []] as any)
+        .mockRejectedValueOnce(new Error('Access denied'))
+        .mockRejectedValueOnce(new Error('Access denied'));
+      mockConnection.query.mockResolvedValueOnce([[
+        { tableSchema: 'testdb', tableName: 'audit_log', tableRows: 10, dataLength: 0, indexLength: 0 },
+        { tableSchema: 'testdb', tableName: 'sessions', tableRows: 10, dataLength: 0, indexLength: 0 }
+      ], []] as any)
+        .mockResolvedValueOnce([[], []] as any);
+
+      const snapshot = await mysqlManager.getServerSnapshot();
+
+      expect(snapshot.tables).toEqual([{ schema: 'testdb', name: 'audit_log', approxRows: 10, dataSize: 0, indexSize: 0, schemaOnly: true }]);
+      expect(snapshot.excludedTables).toEqual([{ schema: 'testdb', name: 'sessions' }]);
+    });
+
+    it('should leave out the binlog position without REPLICATION CLIENT', async () => {
+      mockConnection.execute
+        .mockResolvedValueOnce([[{ version: '8.4.0' }], []] as any)
+        .mockRejectedValueOnce(new Error('You have an error in your SQL syntax'))
+        .mockRejectedValueOnce(new Error('Access denied; you need the REPLICATION CLIENT privilege'));
+      mockConnection.query
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ 'Grants for backup@%': 'GRANT SELECT, RELOAD ON `testdb`.* TO `backup`@`%`' }], []] as any);
+
+      const snapshot = await mysqlManager.getServerSnapshot();
+
+      expect(snapshot.binlog).toBeUndefined();
+      expect(snapshot.hasReloadPrivilege).toBe(false);
+      expect(mockConnection.execute).toHaveBeenCalledWith('SHOW BINARY LOG STATUS');
+    });
+  });
+
+  describe('binlogs', () => {
+    const mockProcess = () => Object.assign(new EventEmitter(), {
+      stdin: new PassThrough(),
+      stdout: new PassThrough(),
+      stderr: new PassThrough(),
+      kill: jest.fn()
+    });
+
+    it('should list the binary logs on the server', async () => {
+      mockConnection.query.mockResolvedValueOnce([[
+        { Log_name: 'binlog.000041', File_size: 1024 },
+        { Log_name: 'binlog.000042', File_size: '157' }
+      ], []] as any);
+
+      await expect(mysqlManager.listBinaryLogs()).resolves.toEqual([
+        { name: 'binlog.000041', size: 1024 },
+        { name: 'binlog.000042', size: 157 }
+      ]);
+      expect(mockConnection.query).toHaveBeenCalledWith('SHOW BINARY LOGS');
+      expect(mockConnection.end).toHaveBeenCalled();
+    });
+
+    it('should copy a binlog with mysqlbinlog from the server', async () => {
+      const mysqlbinlog = mockProcess();
+      (spawn as jest.Mock).mockReturnValueOnce(mysqlbinlog);
+
+      const copied = mysqlManager.copyBinlog('binlog.000041', '/tmp/binlog-x');
+      mysqlbinlog.emit('close', 0);
+
+      await expect(copied).resolves.toBe('/tmp/binlog-x/binlog.000041');
+      expect(spawn).toHaveBeenCalledWith('mysqlbinlog', [
+        '--read-from-remote-server',
+        '--raw',
+        '--result-file=/tmp/binlog-x/',
+        '-h', 'localhost',
+        '-P', '3306',
+        '-u', 'testuser',
+        '-ptestpass',
+        'binlog.000041'
+      ], expect.any(Object));
+    });
+
+    it('should report mysqlbinlog errors when copying', async () => {
+      const mysqlbinlog = mockProcess();
+      (spawn as jest.Mock).mockReturnValueOnce(mysqlbinlog);
+
+      const copied = mysqlManager.copyBinlog('binlog.000041', '/tmp/binlog-x');
+      mysqlbinlog.stderr.emit('data', Buffer.from('Access denied; you need the REPLICATION SLAVE privilege\n'));
+      mysqlbinlog.emit('close', 1);
+
+      await expect(copied).rejects.toThrow(
+        'mysqlbinlog exited with code 1 copying binlog.000041: Access denied; you need the REPLICATION SLAVE privilege'
+      );
+    });
+
+    it('should pipe mysqlbinlog into mysql up to the stop time', async () => {
+      const mysqlbinlog = mockProcess();
+      const mysql = mockProcess();
+      (spawn as jest.Mock).mockReturnValueOnce(mysqlbinlog).mockReturnValueOnce(mysql);
+
+      const replayed = mysqlManager.replayBinlogs(['/tmp/b/binlog.000041', '/tmp/b/binlog.000042'], 'shop_restored', {
+        startPosition: 157,
+        stopDatetime: new Date(2026, 9, 18, 14, 32, 0),
+        database: 'shop'
+      });
+      mysqlbinlog.emit('close', 0);
+      mysql.emit('close', 0);
+
+      await expect(replayed).resolves.toBeUndefined();
+      expect(spawn).toHaveBeenNthCalledWith(1, 'mysqlbinlog', [
+        '--skip-gtids',
+        '--start-position=157',
+        '--stop-datetime=2026-10-18 14:32:00',
+        '--rewrite-db=shop->shop_restored',
+        '--database=shop_restored',
+        '/tmp/b/binlog.000041',
+        '/tmp/b/binlog.000042'
+      ], expect.any(Object));
+      expect(spawn).toHaveBeenNthCalledWith(2, 'mysql', expect.arrayContaining(['shop_restored']), expect.any(Object));
+    });
+
+    it('should fail the replay when mysql fails', async () => {
+      const mysqlbinlog = mockProcess();
+      const mysql = mockProcess();
+      (spawn as jest.Mock).mockReturnValueOnce(mysqlbinlog).mockReturnValueOnce(mysql);
+
+      const replayed = mysqlManager.replayBinlogs(['/tmp/b/binlog.000041'], 'shop', {
+        startPosition: 4,
+        stopDatetime: new Date(2026, 9, 18, 14, 32, 0)
+      });
+      mysql.stderr.emit('data', Buffer.from("ERROR 1146 (42S02) at line 20: Table 'shop.users' doesn't exist"));
+      mysql.emit('close', 1);
+      mysqlbinlog.emit('close', null);
+
+      await expect(replayed).rejects.toThrow("Binlog replay failed (exit code 1): ERROR 1146 (42S02) at line 20: Table 'shop.users' doesn't exist");
+      expect(mysqlbinlog.kill).toHaveBeenCalledWith('SIGTERM');
+      expect((spawn as jest.Mock).mock.calls[0][1]).not.toContain('--database=shop');
+    });
+  });
+
+  describe('replication', () => {
+    const source = { host: 'db-primary', port: 3306, user: 'repl', password: 'secret' };
+    const parseError = Object.assign(new Error('You have an error in your SQL syntax'), { code: 'ER_PARSE_ERROR' });
+
+    it('should point the server at the source by binlog coordinates', async () => {
+      mockConnection.query.mockResolvedValue([[], []] as any);
+
+      await mysqlManager.configureReplication(source, { file: 'binlog.000042', position: 157 }, { autoPosition: false });
+
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        'CHANGE REPLICATION SOURCE TO SOURCE_HOST = ?, SOURCE_PORT = ?, SOURCE_USER = ?, SOURCE_PASSWORD = ?, SOURCE_LOG_FILE = ?, SOURCE_LOG_POS = ?',
+        ['db-primary', 3306, 'repl', 'secret', 'binlog.000042', 157]
+      );
+      expect(mockConnection.end).toHaveBeenCalled();
+    });
+
+    it('should fall back to the old statements on older servers', async () => {
+      mockConnection.query
+        .mockRejectedValueOnce(parseError)
+        .mockResolvedValueOnce([[], []] as any)
+        .mockRejectedValueOnce(parseError)
+        .mockResolvedValueOnce([[], []] as any);
+
+      await mysqlManager.configureReplication(source, { file: 'binlog.000042', position: 157 }, { autoPosition: true, startReplica: true });
+
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        'CHANGE MASTER TO MASTER_HOST = ?, MASTER_PORT = ?, MASTER_USER = ?, MASTER_PASSWORD = ?, MASTER_AUTO_POSITION = ?',
+        ['db-primary', 3306, 'repl', 'secret', 1]
+      );
+      expect(mockConnection.query).toHaveBeenLastCalledWith('START SLAVE');
+    });
+
+    it('should report other replication errors', async () => {
+      mockConnection.query.mockRejectedValueOnce(new Error('This operation cannot be performed with a running replica'));
+
+      await expect(mysqlManager.configureReplication(source, { file: 'binlog.000042', position: 157 }, { autoPosition: false }))
+        .rejects.toThrow('Failed to configure replication: This operation cannot be performed with a running replica');
+      expect(mockConnection.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reset binlogs and GTIDs with the statement the server knows', async () => {
+      mockConnection.query.mockRejectedValueOnce(parseError).mockResolvedValueOnce([[], []] as any);
+
+      await mysqlManager.resetBinaryLogsAndGtids();
+
+      expect(mockConnection.query).toHaveBeenNthCalledWith(1, 'RESET BINARY LOGS AND GTIDS');
+      expect(mockConnection.query).toHaveBeenNthCalledWith(2, 'RESET MASTER');
+    });
+
+    it('should set GTID_PURGED', async () => {
+      mockConnection.query.mockResolvedValue([[], []] as any);
+
+      await mysqlManager.setGtidPurged('3e11fa47-71ca-11e1-9e33-c80aa9429562:1-42');
+
+      expect(mockConnection.query).toHaveBeenCalledWith('SET @@GLOBAL.GTID_PURGED = ?', ['3e11fa47-71ca-11e1-9e33-c80aa9429562:1-42']);
+      expect(mockConnection.end).toHaveBeenCalled();
+    });
+  });
+
+  describe('parallel dump', () => {
+    it('should start every snapshot while the global read lock is held', async () => {
+      const dumpConnections = [mockConnection, { ...mockConnection, query: jest.fn().mockResolvedValue([[], []]) }] as any[];
+      const lock = { query: jest.fn().mockResolvedValue([[], []]), execute: jest.fn(), end: jest.fn().mockResolvedValue(undefined) };
+      const statements: string[] = [];
+      [...dumpConnections, lock].forEach(connection => {
+        connection.query.mockImplementation(async (sql: string) => {
+          statements.push(sql);
+          return [[], []];
+        });
+      });
+      lock.execute
+        .mockResolvedValueOnce([[{ File: 'binlog.000042', Position: 157 }], []])
+        .mockResolvedValueOnce([[{ gtidExecuted: '' }], []]);
+      (createCoreConnection as jest.Mock)
+        .mockReturnValueOnce({ promise: () => dumpConnections[0] })
+        .mockReturnValueOnce({ promise: () => dumpConnections[1] });
+      (createConnection as jest.Mock).mockResolvedValueOnce(lock);
+
+      const { connections, binlog } = await mysqlManager.openSnapshotConnections(2);
+
+      expect(connections).toEqual(dumpConnections);
+      expect(binlog).toEqual({ file: 'binlog.000042', position: 157, exact: true });
+      expect(statements.slice(-4)).toEqual([
+        'FLUSH TABLES WITH READ LOCK',
+        'START TRANSACTION WITH CONSISTENT SNAPSHOT',
+        'START TRANSACTION WITH CONSISTENT SNAPSHOT',
+        'UNLOCK TABLES'
+      ]);
+      expect(lock.end).toHaveBeenCalled();
+      expect(mockConnection.end).not.toHaveBeenCalled();
+    });
+
+    it('should close the connections when the lock cannot be taken', async () => {
+      const lock = { query: jest.fn().mockRejectedValue(new Error('Access denied; you need the RELOAD privilege')), end: jest.fn().mockResolvedValue(undefined) };
+      mockConnection.query.mockResolvedValue([[], []] as any);
+      (createConnection as jest.Mock).mockResolvedValueOnce(lock);
+
+      await expect(mysqlManager.openSnapshotConnections(1))
+        .rejects.toThrow('Failed to open snapshot connections: Access denied; you need the RELOAD privilege');
+      expect(mockConnection.end).toHaveBeenCalled();
+      expect(lock.end).toHaveBeenCalled();
+    });
+
+    it('should start a snapshot without the lock when asked to', async () => {
+      mockConnection.query.mockResolvedValue([[], []] as any);
+
+      const { connections, binlog } = await mysqlManager.openSnapshotConnections(1, { lock: false });
+
+      expect(connections).toEqual([mockConnection]);
+      expect(binlog).toBeUndefined();
+      expect(createCoreConnection).toHaveBeenCalledTimes(1);
+      expect(createConnection).not.toHaveBeenCalled();
+      expect(mockConnection.query).not.toHaveBeenCalledWith('FLUSH TABLES WITH READ LOCK');
+      expect(mockConnection.query).toHaveBeenLastCalledWith('START TRANSACTION WITH CONSISTENT SNAPSHOT');
+    });
+
+    it('should stream rows over the callback connection behind a snapshot connection', async () => {
+      const rows = Readable.from([[1, 'a']]);
+      const stream = jest.fn().mockReturnValue(rows);
+      const core = { promise: () => mockConnection, query: jest.fn().mockReturnValue({ stream }) };
+      (createCoreConnection as jest.Mock).mockReturnValueOnce(core);
+      mockConnection.query.mockResolvedValue([[], []] as any);
+      const { connections: [connection] } = await mysqlManager.openSnapshotConnections(1, { lock: false });
+
+      expect(mysqlManager.streamTableRows(connection, 'shop', 'orders', ['id', 'name'], 'id > 5')).toBe(rows);
+      expect(core.query).toHaveBeenCalledWith({ sql: 'SELECT `id`, `name` FROM `shop`.`orders` WHERE id > 5', rowsAsArray: true });
+      expect(stream).toHaveBeenCalledWith({ highWaterMark: 1000 });
+    });
+
+    it('should refuse to stream rows over other connections', () => {
+      expect(() => mysqlManager.streamTableRows(mockConnection, 'shop', 'orders', ['id']))
+        .toThrow('Table rows can only be streamed over a snapshot connection');
+    });
+
+    it('should list views, routines, triggers and events', async () => {
+      mockConnection.query
+        .mockResolvedValueOnce([[{ name: 'active_users' }], []] as any)
+        .mockResolvedValueOnce([[{ name: 'cleanup', type: 'PROCEDURE' }], []] as any)
+        .mockResolvedValueOnce([[{ name: 'audit' }], []] as any)
+        .mockResolvedValueOnce([[{ name: 'nightly' }], []] as any);
+
+      const objects = await mysqlManager.listSchemaObjects(mockConnection, 'shop');
+
+      expect(objects.map(object => `${object.type} ${object.name}`)).toEqual([
+        'VIEW active_users', 'PROCEDURE cleanup', 'TRIGGER audit', 'EVENT nightly'
+      ]);
+      expect(mockConnection.query).toHaveBeenLastCalledWith(expect.stringContaining('information_schema.EVENTS'), ['shop']);
+    });
+
+    it('should only mark VIRTUAL and STORED columns as generated', async () => {
+      mockConnection.query.mockResolvedValue([[
+        { name: 'id', dataType: 'int', extra: 'auto_increment' },
+        { name: 'created_at', dataType: 'timestamp', extra: 'DEFAULT_GENERATED' },
+        { name: 'full_name', dataType: 'varchar', extra: 'VIRTUAL GENERATED' },
+        { name: 'total', dataType: 'decimal', extra: 'STORED GENERATED' }
+      ], []] as any);
+
+      const columns = await mysqlManager.getTableColumns(mockConnection, 'shop', 'users');
+
+      expect(columns.map(column => column.generated)).toEqual([false, false, true, true]);
+      expect(mockConnection.query).toHaveBeenCalledWith(expect.stringContaining('information_schema.COLUMNS'), ['shop', 'users']);
+    });
+
+    it('should read definitions from SHOW CREATE in the object\'s schema', async () => {
+      mockConnection.query
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ Trigger: 'audit', sql_mode: 'STRICT_TRANS_TABLES', 'SQL Original Statement': 'CREATE TRIGGER `audit` ...' }], []] as any);
+
+      const create = await mysqlManager.getCreateStatement(mockConnection, { type: 'TRIGGER', schema: 'shop', name: 'audit' });
+
+      expect(mockConnection.query).toHaveBeenNthCalledWith(1, 'USE `shop`');
+      expect(mockConnection.query).toHaveBeenNthCalledWith(2, 'SHOW CREATE TRIGGER `audit`');
+      expect(create).toEqual({ statement: 'CREATE TRIGGER `audit` ...', sqlMode: 'STRICT_TRANS_TABLES' });
+    });
+
+    it('should fail when a routine body is hidden', async () => {
+      mockConnection.query
+        .mockResolvedValueOnce([[], []] as any)
+        .mockResolvedValueOnce([[{ Procedure: 'cleanup', 'Create Procedure': null }], []] as any);
+
+      await expect(mysqlManager.getCreateStatement(mockConnection, { type: 'PROCEDURE', schema: 'shop', name: 'cleanup' }))
+        .rejects.toThrow('Cannot read the definition of procedure shop.cleanup');
+    });
+  });
+
   describe('listDatabases', () => {
     it('should list databases excluding system databases', async () => {
       const mockRows = [
@@ -223,7 +598,7 @@ describe('MySQLManager', () => {
         mockOutputStream.emit('finish');
       });
 
-      await expect(backupPromise).resolves.toBeUndefined();
+      await expect(backupPromise).resolves.toEqual({ size: expect.any(Number), sha256: expect.any(String) });
 
       // Verify mysqldump was called with large database optimizations
       expect(spawn).toHaveBeenCalledWith('mysqldump', expect.arrayContaining([
@@ -257,7 +632,7 @@ describe('MySQLManager', () => {
         mockOutputStream.emit('finish');
       });
 
-      await expect(backupPromise).resolves.toBeUndefined();
+      await expect(backupPromise).resolves.toEqual({ size: expect.any(Number), sha256: expect.any(String) });
 
       expect(spawn).toHaveBeenCalledWith('mysqldump', expect.arrayContaining([
         '--databases', 'db1', 'db2', 'db3'
@@ -281,7 +656,7 @@ describe('MySQLManager', () => {
         mockOutputStream.emit('finish');
       });
 
-      await expect(backupPromise).resolves.toBeUndefined();
+      await expect(backupPromise).resolves.toEqual({ size: expect.any(Number), sha256: expect.any(String) });
 
       expect(spawn).toHaveBeenCalledWith('mysqldump', expect.arrayContaining([
         '--all-databases'
@@ -368,7 +743,10 @@ describe('MySQLManager', () => {
         mockOutputStream.emit('finish');
       });
 
-      await expect(backupPromise).resolves.toBeUndefined();
+      await expect(backupPromise).resolves.toEqual({
+        size: 3072,
+        sha256: createHash('sha256').update(Buffer.alloc(3072)).digest('hex')
+      });
 
       expect(progressCallback).toHaveBeenCalledWith(expect.objectContaining({
         loaded: expect.any(Number)
@@ -379,6 +757,161 @@ describe('MySQLManager', () => {
     });
   });
 
+  describe('createBackupStream', () => {
+    let mockMysqldump: any;
+    let closeHandler: (code: number) => void;
+
+    beforeEach(() => {
+      mockMysqldump = {
+        stdout: new PassThrough(),
+        stderr: new PassThrough(),
+        on: jest.fn((event: string, handler: (code: number) => void) => {
+          if (event === 'close') {
+            closeHandler = handler;
+          }
+          return mockMysqldump;
+        }),
+        kill: jest.fn()
+      };
+
+      (zlib.createGzip as jest.Mock).mockImplementation(() => new PassThrough());
+      (spawn as jest.Mock).mockReturnValue(mockMysqldump);
+    });
+
+    it('should only end the stream after mysqldump exits successfully', async () => {
+      const stream = mysqlManager.createBackupStream();
+      const ended = jest.fn();
+      stream.on('end', ended);
+      stream.resume();
+
+      mockMysqldump.stdout.end('-- dump');
+      await new Promise(resolve => setImmediate(resolve));
+      expect(ended).not.toHaveBeenCalled();
+
+      closeHandler(0);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(ended).toHaveBeenCalled();
+    });
+
+    it('should destroy the stream when mysqldump exits with an error', async () => {
+      const stream = mysqlManager.createBackupStream();
+      const errorPromise = new Promise<Error>(resolve => stream.on('error', resolve));
+
+      mockMysqldump.stderr.emit('data', Buffer.from('Access denied'));
+      mockMysqldump.stdout.end('-- partial dump');
+      closeHandler(2);
+
+      const error = await errorPromise;
+      expect(error.message).toBe('mysqldump exited with code 2: Access denied');
+    });
+
+    it('should record the binlog coordinates mysqldump writes for its snapshot', async () => {
+      const onPosition = jest.fn();
+      const stream = mysqlManager.createBackupStream({ binlog: { serverVersion: '8.0.36', onPosition } });
+      stream.resume();
+
+      mockMysqldump.stdout.write("SET @@GLOBAL.GTID_PURGED=/*!80000 '+'*/ '3e11fa47-71ca-11e1-9e33-c80aa9429562:1-5,\n");
+      mockMysqldump.stdout.write("4e11fa47-71ca-11e1-9e33-c80aa9429562:1-3';\n\n");
+      mockMysqldump.stdout.end("-- CHANGE REPLICATION SOURCE TO SOURCE_LOG_FILE='binlog.000042', SOURCE_LOG_POS=157;\n");
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(spawn).toHaveBeenCalledWith('mysqldump', expect.arrayContaining(['--source-data=2']), expect.anything());
+      expect(onPosition).toHaveBeenCalledWith({
+        file: 'binlog.000042',
+        position: 157,
+        gtidExecuted: '3e11fa47-71ca-11e1-9e33-c80aa9429562:1-5,4e11fa47-71ca-11e1-9e33-c80aa9429562:1-3',
+        exact: true
+      });
+    });
+
+    it('should use --master-data for MariaDB and older MySQL servers', () => {
+      const onPosition = jest.fn();
+
+      expect(mysqlManager.getDumpFlags({ binlog: { serverVersion: '10.11.6-MariaDB', onPosition } })).toContain('--master-data=2');
+      expect(mysqlManager.getDumpFlags({ binlog: { serverVersion: '8.0.25', onPosition } })).toContain('--master-data=2');
+      expect(mysqlManager.getDumpFlags({ binlog: { serverVersion: '8.4.0', onPosition } })).toContain('--source-data=2');
+      expect(mysqlManager.getDumpFlags()).not.toEqual(expect.arrayContaining([expect.stringMatching(/-data=2$/)]));
+    });
+
+    it('should ignore excluded tables and dump schema-only tables without rows in a second run', async () => {
+      const schemaOnlyDump = { ...mockMysqldump, stdout: new PassThrough(), stderr: new PassThrough(), on: jest.fn() };
+      let schemaOnlyClose: (code: number) => void = () => undefined;
+      schemaOnlyDump.on.mockImplementation((event: string, handler: (code: number) => void) => {
+        if (event === 'close') {
+          schemaOnlyClose = handler;
+        }
+        return schemaOnlyDump;
+      });
+      (spawn as jest.Mock).mockReturnValueOnce(mockMysqldump).mockReturnValueOnce(schemaOnlyDump);
+      mysqlManager = new MySQLManager({ ...mockConfig, database: undefined, schemas: ['shop'] });
+      const options = {
+        ignoreTables: [{ schema: 'shop', name: 'sessions' }],
+        schemaOnlyTables: [{ schema: 'shop', name: 'audit_log' }]
+      };
+
+      const stream = mysqlManager.createBackupStream(options);
+      const chunks: Buffer[] = [];
+      stream.on('data', chunk => chunks.push(chunk));
+      const ended = new Promise(resolve => stream.on('end', resolve));
+      mockMysqldump.stdout.end('-- main dump\n');
+      await new Promise(resolve => setImmediate(resolve));
+      closeHandler(0);
+      schemaOnlyDump.stdout.end('CREATE TABLE `audit_log` (id int);\n');
+      await new Promise(resolve => setImmediate(resolve));
+      schemaOnlyClose(0);
+      await ended;
+
+      expect(mysqlManager.getDumpFlags(options)).toEqual(expect.arrayContaining([
+        '--ignore-table=shop.sessions',
+        '--ignore-table=shop.audit_log'
+      ]));
+      expect(spawn).toHaveBeenNthCalledWith(2, 'mysqldump', expect.arrayContaining(['--no-data', 'shop', 'audit_log']), expect.anything());
+      expect(Buffer.concat(chunks).toString()).toBe('-- main dump\n\nUSE `shop`;\nCREATE TABLE `audit_log` (id int);\n');
+    });
+
+    it('should dump only definitions or only rows in schema and data mode', () => {
+      const schemaOnlyTables = [{ schema: 'testdb', name: 'audit_log' }];
+
+      const schemaFlags = mysqlManager.getDumpFlags({ mode: 'schema', schemaOnlyTables });
+      expect(schemaFlags).toEqual(expect.arrayContaining(['--no-data', '--routines', '--triggers', '--events', '--skip-dump-date']));
+      expect(schemaFlags).not.toContain('--ignore-table=testdb.audit_log');
+
+      const dataFlags = mysqlManager.getDumpFlags({ mode: 'data', schemaOnlyTables });
+      expect(dataFlags).toEqual(expect.arrayContaining(['--no-create-info', '--no-create-db', '--skip-triggers', '--ignore-table=testdb.audit_log']));
+      expect(dataFlags).not.toContain('--routines');
+      expect(mysqlManager.getDumpFlags()).not.toContain('--no-data');
+    });
+
+    it('should mask mysqldump\'s rows before compressing them and name the columns of masked data-only dumps', async () => {
+      const masking = { profile: 'staging', columns: [{ key: 'users.email', table: 'users', column: 'email', rule: { strategy: 'null' as const } }] };
+      const onDumpData = jest.fn();
+      const stream = mysqlManager.createBackupStream({ masking, onDumpData });
+      const chunks: Buffer[] = [];
+      stream.on('data', chunk => chunks.push(chunk));
+      const ended = new Promise(resolve => stream.on('end', resolve));
+      mockMysqldump.stdout.write('CREATE TABLE `users` (\n  `id` int,\n  `email` text\n);\n');
+      mockMysqldump.stdout.end('INSERT INTO `users` VALUES (1,\'ann@shop.test\');\n');
+      await new Promise(resolve => setImmediate(resolve));
+      closeHandler(0);
+      await ended;
+
+      const dump = Buffer.concat(chunks).toString();
+      expect(dump).toBe('CREATE TABLE `users` (\n  `id` int,\n  `email` text\n);\nINSERT INTO `users` VALUES (1,NULL);\n');
+      expect(onDumpData.mock.calls.reduce((sum, [bytes]) => sum + bytes, 0)).toBe(dump.length);
+      expect(mysqlManager.getDumpFlags({ mode: 'data', masking })).toContain('--complete-insert');
+      expect(mysqlManager.getDumpFlags({ mode: 'data' })).not.toContain('--complete-insert');
+    });
+
+    it('should kill mysqldump when the consumer destroys the stream', async () => {
+      const stream = mysqlManager.createBackupStream();
+
+      stream.destroy();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockMysqldump.kill).toHaveBeenCalledWith('SIGTERM');
+    });
+  });
+
   describe('createDatabase', () => {
     it('should create database successfully', async () => {
       mockConnection.execute.mockResolvedValueOnce([[], []] as any);
@@ -459,6 +992,97 @@ describe('MySQLManager', () => {
     });
   });
 
+  describe('atomic swap', () => {
+    const mockSwapQueries = (options: { renameError?: Error } = {}) => {
+      mockConnection.query.mockImplementation((async (sql: string, values?: unknown[]) => {
+        if (sql.includes('information_schema.TABLES')) {
+          return [values![0] === 'shop_restoring' ? [{ tableName: 'orders' }, { tableName: 'users' }] : [{ tableName: 'orders' }], []];
+        }
+        if (sql.includes('information_schema.TRIGGERS WHERE EVENT_OBJECT_SCHEMA')) {
+          return [[{ name: 'orders_audit' }], []];
+        }
+        if (sql.includes('information_schema.TRIGGERS')) {
+          return [[{ name: 'orders_bi' }], []];
+        }
+        if (sql.startsWith('SHOW CREATE TRIGGER')) {
+          return [[{ 'SQL Original Statement': `CREATE TRIGGER ${sql.split(' ')[3]} BEFORE INSERT ON orders FOR EACH ROW SET @x = 1`, sql_mode: 'STRICT_TRANS_TABLES' }], []];
+        }
+        if (sql.startsWith('RENAME TABLE') && options.renameError) {
+          throw options.renameError;
+        }
+        return [[], []];
+      }) as any);
+    };
+    const queries = () => mockConnection.query.mock.calls.map(([sql]) => sql as unknown as string);
+
+    it('should move all tables in one RENAME TABLE and recreate the triggers in the target', async () => {
+      mockSwapQueries();
+
+      const swap = await mysqlManager.swapTables('shop_restoring', 'shop', 'shop_old');
+
+      expect(swap).toEqual({ tables: 2, replaced: 1 });
+      const sql = queries();
+      expect(sql).toContain('CREATE DATABASE IF NOT EXISTS `shop_old`');
+      expect(sql).toContain('DROP TRIGGER `shop_restoring`.`orders_bi`');
+      expect(sql).toContain('DROP TRIGGER `shop`.`orders_audit`');
+      expect(sql.filter(query => query.startsWith('RENAME TABLE'))).toEqual([
+        'RENAME TABLE `shop`.`orders` TO `shop_old`.`orders`, `shop_restoring`.`orders` TO `shop`.`orders`, `shop_restoring`.`users` TO `shop`.`users`'
+      ]);
+      const recreated = sql.slice(sql.findIndex(query => query.startsWith('RENAME TABLE')) + 1);
+      expect(recreated).toEqual([
+        'USE `shop`',
+        'SET SESSION sql_mode = ?',
+        'DROP TRIGGER IF EXISTS `orders_bi`',
+        'CREATE TRIGGER `orders_bi` BEFORE INSERT ON orders FOR EACH ROW SET @x = 1',
+        'DROP DATABASE `shop_restoring`'
+      ]);
+      expect(mockConnection.end).toHaveBeenCalled();
+    });
+
+    it('should refuse to swap when other tables reference the replaced ones', async () => {
+      mockSwapQueries();
+      const query = mockConnection.query.getMockImplementation()!;
+      mockConnection.query.mockImplementation((async (sql: string, values?: unknown[]) => sql.includes('KEY_COLUMN_USAGE')
+        ? [[
+          // The restored tables' own references move along with them
+          { name: 'fk_user', tableSchema: 'shop', tableName: 'orders', columnName: 'user_id', referencedSchema: 'shop', referencedTable: 'orders', referencedColumn: 'id' },
+          { name: 'fk_order', tableSchema: 'shop', tableName: 'invoices', columnName: 'order_id', referencedSchema: 'shop', referencedTable: 'orders', referencedColumn: 'id' }
+        ], []]
+        : query(sql as any, values as any)) as any);
+
+      await expect(mysqlManager.swapTables('shop_restoring', 'shop', 'shop_old'))
+        .rejects.toThrow('Failed to swap tables into \'shop\': shop.invoices (fk_order) references tables the swap replaces');
+
+      expect(mockConnection.query).toHaveBeenCalledWith(expect.stringContaining('REFERENCED_TABLE_SCHEMA = ? AND REFERENCED_TABLE_NAME IN (?)'), ['shop', ['orders']]);
+      expect(queries().some(sql => sql.startsWith('RENAME TABLE') || sql.startsWith('DROP TRIGGER') || sql.startsWith('CREATE DATABASE'))).toBe(false);
+    });
+
+    it('should put the target\'s triggers back when the rename fails', async () => {
+      mockSwapQueries({ renameError: new Error('Table \'orders\' already exists') });
+
+      await expect(mysqlManager.swapTables('shop_restoring', 'shop', 'shop_old'))
+        .rejects.toThrow('Failed to swap tables into \'shop\': Table \'orders\' already exists');
+
+      const sql = queries();
+      expect(sql).toContain('CREATE TRIGGER `orders_audit` BEFORE INSERT ON orders FOR EACH ROW SET @x = 1');
+      expect(sql).not.toContain('DROP DATABASE `shop_restoring`');
+    });
+
+    it('should schedule dropping the old tables and report a stopped event scheduler', async () => {
+      mockConnection.query.mockImplementation((async (sql: string) =>
+        [sql.includes('event_scheduler') ? [{ scheduler: 'OFF' }] : [], []]) as any);
+
+      await expect(mysqlManager.scheduleDatabaseDrop('shop_old', 'shop', 24)).resolves.toBe(false);
+
+      expect(queries()).toEqual([
+        'DROP EVENT IF EXISTS `shop`.`drop_replaced_tables`',
+        'CREATE EVENT `shop`.`drop_replaced_tables` ON SCHEDULE AT CURRENT_TIMESTAMP + INTERVAL 1440 MINUTE ' +
+          'ON COMPLETION NOT PRESERVE DO DROP DATABASE IF EXISTS `shop_old`',
+        'SELECT @@GLOBAL.event_scheduler AS scheduler'
+      ]);
+    });
+  });
+
   describe('restoreBackup edge cases', () => {
     let mockMysql: any;
     let mockGunzip: any;
@@ -0,0 +1,200 @@
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import { MySQLManager } from '../modules/mysql';
+import { createNativeBackupStream } from '../modules/nativedump';
+import { analyzeBackup } from '../modules/sqldump';
+import { ServerSnapshot } from '../types';
+
+describe('createNativeBackupStream', () => {
+  const table = (schema: string, name: string) => ({ schema, name, approxRows: 0, dataSize: 0, indexSize: 0 });
+  const snapshot: ServerSnapshot = {
+    serverVersion: '8.0.36',
+    schemas: ['shop'],
+    tables: [table('shop', 'orders'), table('shop', 'users')],
+    hasReloadPrivilege: true
+  };
+  const rows: Record<string, unknown[][]> = {
+    users: [[1, 'Ann'], [2, 'it\'s']],
+    orders: [[10, 1]],
+    contacts: []
+  };
+
+  let connection: { end: jest.Mock };
+  let mockMySQLManager: jest.Mocked<MySQLManager>;
+
+  const readAll = async (stream: Readable): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return zlib.gunzipSync(Buffer.concat(chunks)).toString('utf8');
+  };
+
+  beforeEach(() => {
+    connection = { end: jest.fn().mockResolvedValue(undefined) };
+    mockMySQLManager = {
+      openSnapshotConnections: jest.fn().mockResolvedValue({
+        connections: [connection],
+        binlog: { file: 'binlog.000042', position: 157, exact: true }
+      }),
+      getCreateStatement: jest.fn(async (_connection, object) => ({
+        statement: `CREATE ${object.type} \`${object.name}\` (x)`,
+        sqlMode: object.type === 'EVENT' ? 'STRICT_TRANS_TABLES' : undefined,
+        timeZone: object.type === 'EVENT' ? 'SYSTEM' : undefined
+      })),
+      getTableColumns: jest.fn().mockResolvedValue([
+        { name: 'id', dataType: 'int', generated: false },
+        { name: 'name', dataType: 'varchar', generated: false }
+      ]),
+      listSchemaObjects: jest.fn().mockResolvedValue([{ type: 'EVENT', schema: 'shop', name: 'nightly' }]),
+      streamTableRows: jest.fn((_connection, _schema, name: string) => Readable.from(rows[name]))
+    } as any;
+  });
+
+  it('should write one mysqldump-style dump of every table and schema object', async () => {
+    const onDumpData = jest.fn();
+    const onPosition = jest.fn();
+
+    const sql = await readAll(createNativeBackupStream(mockMySQLManager, snapshot, {
+      compression: { codec: 'gzip' },
+      onDumpData,
+      binlog: { serverVersion: '8.0.36', onPosition }
+    }));
+
+    expect(mockMySQLManager.openSnapshotConnections).toHaveBeenCalledWith(1, { lock: true });
+    expect(onPosition).toHaveBeenCalledWith({ file: 'binlog.000042', position: 157, exact: true });
+    expect(sql.match(/SET NAMES utf8mb4/g)).toHaveLength(1);
+    expect(sql).not.toContain('USE `shop`');
+    expect(sql.indexOf('CREATE TABLE `orders`')).toBeLessThan(sql.indexOf('CREATE TABLE `users`'));
+    expect(sql).toContain('INSERT INTO `users` VALUES (1,\'Ann\'),(2,\'it\\\'s\');');
+    expect(sql).toContain('/*!50003 SET TIME_ZONE=\'SYSTEM\' */;\nDELIMITER ;;\nCREATE EVENT `nightly` (x) ;;');
+    expect(onDumpData.mock.calls.reduce((sum, [bytes]) => sum + bytes, 0)).toBe(Buffer.byteLength(sql));
+    expect(connection.end).toHaveBeenCalled();
+
+    const analysis = await analyzeBackup(Readable.from([zlib.gzipSync(sql)]), { compression: 'gzip' });
+    expect(analysis.tables).toEqual({ orders: 1, users: 2 });
+    expect(analysis.complete).toBe(true);
+  });
+
+  it('should switch schemas when the snapshot has several', async () => {
+    const sql = await readAll(createNativeBackupStream(mockMySQLManager, {
+      ...snapshot,
+      schemas: ['crm', 'shop'],
+      tables: [table('crm', 'contacts'), table('shop', 'users')]
+    }, { compression: { codec: 'gzip' } }));
+
+    expect(sql.indexOf('USE `crm`')).toBeLessThan(sql.indexOf('CREATE TABLE `contacts`'));
+    expect(sql.indexOf('USE `shop`')).toBeLessThan(sql.indexOf('CREATE TABLE `users`'));
+    expect(sql.indexOf('CREATE TABLE `contacts`')).toBeLessThan(sql.indexOf('USE `shop`'));
+  });
+
+  it('should dump schema-only tables without rows and leave out triggers on excluded tables', async () => {
+    mockMySQLManager.listSchemaObjects.mockResolvedValue([
+      { type: 'TRIGGER', schema: 'shop', name: 'orders_audit', table: 'orders' },
+      { type: 'TRIGGER', schema: 'shop', name: 'sessions_touch', table: 'sessions' }
+    ]);
+
+    const sql = await readAll(createNativeBackupStream(mockMySQLManager, {
+      ...snapshot,
+      tables: [table('shop', 'orders'), { ...table('shop', 'users'), schemaOnly: true }],
+      excludedTables: [{ schema: 'shop', name: 'sessions' }]
+    }, { compression: { codec: 'gzip' } }));
+
+    expect(sql).toContain('CREATE TABLE `users`');
+    expect(sql).not.toContain('INSERT INTO `users`');
+    expect(mockMySQLManager.streamTableRows).not.toHaveBeenCalledWith(connection, 'shop', 'users', expect.anything());
+    expect(sql).toContain('CREATE TRIGGER `orders_audit`');
+    expect(sql).not.toContain('sessions_touch');
+  });
+
+  it('should only read the rows matching a table\'s filter', async () => {
+    await readAll(createNativeBackupStream(mockMySQLManager, {
+      ...snapshot,
+      tables: [{ ...table('shop', 'orders'), where: 'id > 5' }]
+    }, { compression: { codec: 'gzip' } }));
+
+    expect(mockMySQLManager.streamTableRows).toHaveBeenCalledWith(connection, 'shop', 'orders', ['id', 'name'], 'id > 5');
+  });
+
+  it('should pick a subset in the dump\'s snapshot and only read the rows it selected', async () => {
+    const connectionWithRows = Object.assign(connection, { query: jest.fn().mockResolvedValue([[[10]]]) });
+    mockMySQLManager.listForeignKeys = jest.fn().mockResolvedValue([]);
+    mockMySQLManager.listPrimaryKeys = jest.fn().mockResolvedValue([{ schema: 'shop', name: 'orders', columns: ['id'] }]);
+    const onSelected = jest.fn();
+
+    const sql = await readAll(createNativeBackupStream(mockMySQLManager, snapshot, {
+      compression: { codec: 'gzip' },
+      subset: { plan: { profile: 'dev', roots: { orders: 'id = 10' }, referencing: false, maxRows: 1000000 }, onSelected }
+    }));
+
+    expect(connectionWithRows.query).toHaveBeenCalledWith({ sql: 'SELECT `id` FROM `shop`.`orders` WHERE (id = 10)', rowsAsArray: true });
+    expect(onSelected).toHaveBeenCalledWith({ 'shop.orders': 1 });
+    expect(mockMySQLManager.streamTableRows).toHaveBeenCalledWith(connection, 'shop', 'orders', ['id', 'name'], '`id` IN (10)');
+    expect(mockMySQLManager.streamTableRows).toHaveBeenCalledTimes(1);
+    expect(sql).toContain('CREATE TABLE `users`');
+  });
+
+  it('should read a large subset\'s rows a batch of keys at a time', async () => {
+    Object.assign(connection, { query: jest.fn().mockResolvedValue([Array.from({ length: 501 }, (_, i) => [i + 1])]) });
+    mockMySQLManager.listForeignKeys = jest.fn().mockResolvedValue([]);
+    mockMySQLManager.listPrimaryKeys = jest.fn().mockResolvedValue([{ schema: 'shop', name: 'orders', columns: ['id'] }]);
+
+    const sql = await readAll(createNativeBackupStream(mockMySQLManager, snapshot, {
+      compression: { codec: 'gzip' },
+      subset: { plan: { profile: 'dev', roots: { orders: 'id > 0' }, referencing: false, maxRows: 1000000 } }
+    }));
+
+    expect(mockMySQLManager.streamTableRows).toHaveBeenCalledTimes(2);
+    expect(mockMySQLManager.streamTableRows).toHaveBeenLastCalledWith(connection, 'shop', 'orders', ['id', 'name'], '`id` IN (501)');
+    expect(sql).toContain('INSERT INTO `orders` VALUES (10,1),(10,1);');
+  });
+
+  it('should leave out rows in schema mode and definitions and schema objects in data mode', async () => {
+    const schemaSql = await readAll(createNativeBackupStream(mockMySQLManager, snapshot, { compression: { codec: 'gzip' }, mode: 'schema' }));
+    expect(schemaSql).toContain('CREATE TABLE `users`');
+    expect(schemaSql).toContain('CREATE EVENT `nightly`');
+    expect(schemaSql).not.toContain('INSERT INTO');
+
+    const dataSql = await readAll(createNativeBackupStream(mockMySQLManager, snapshot, { compression: { codec: 'gzip' }, mode: 'data' }));
+    expect(dataSql).not.toContain('CREATE TABLE');
+    expect(dataSql).not.toContain('CREATE EVENT');
+    expect(dataSql).toContain('INSERT INTO `users` VALUES');
+  });
+
+  it('should mask rows as they are dumped, naming the columns of data-only dumps', async () => {
+    const masking = { profile: 'staging', columns: [{ key: 'users.name', table: 'users', column: 'name', rule: { strategy: 'fixed' as const, value: 'Jane' } }] };
+    const onDumpData = jest.fn();
+
+    const sql = await readAll(createNativeBackupStream(mockMySQLManager, snapshot, { compression: { codec: 'gzip' }, mode: 'data', masking, onDumpData }));
+
+    expect(sql).toContain('INSERT INTO `users` (`id`,`name`) VALUES (1,\'Jane\'),(2,\'Jane\');');
+    expect(sql).toContain('INSERT INTO `orders` (`id`,`name`) VALUES (10,1);');
+    expect(onDumpData.mock.calls.reduce((sum, [bytes]) => sum + bytes, 0)).toBe(Buffer.byteLength(sql));
+  });
+
+  it('should dump without the global read lock when RELOAD is missing', async () => {
+    mockMySQLManager.openSnapshotConnections.mockResolvedValue({ connections: [connection] as any });
+    const onPosition = jest.fn();
+
+    await readAll(createNativeBackupStream(mockMySQLManager, { ...snapshot, hasReloadPrivilege: false }, {
+      compression: { codec: 'gzip' },
+      binlog: { serverVersion: '8.0.36', onPosition }
+    }));
+
+    expect(mockMySQLManager.openSnapshotConnections).toHaveBeenCalledWith(1, { lock: false });
+    expect(onPosition).not.toHaveBeenCalled();
+  });
+
+  it('should fail the stream and close the connection when a table cannot be read', async () => {
+    mockMySQLManager.streamTableRows.mockImplementation(() => new Readable({
+      objectMode: true,
+      read() {
+        this.destroy(new Error('Lost connection to MySQL server during query'));
+      }
+    }));
+
+    await expect(readAll(createNativeBackupStream(mockMySQLManager, snapshot, { compression: { codec: 'gzip' } })))
+      .rejects.toThrow('Lost connection to MySQL server during query');
+    expect(connection.end).toHaveBeenCalled();
+  });
+});
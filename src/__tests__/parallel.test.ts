@@ -0,0 +1,269 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import { MySQLManager } from '../modules/mysql';
+import { createParallelBackup, restoreParallelBackup, verifyParallelChunks } from '../modules/parallel';
+import { S3Manager } from '../modules/s3';
+import { BackupManifest, ManifestChunk, ServerSnapshot } from '../types';
+
+describe('parallel engine', () => {
+  const readAll = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  describe('createParallelBackup', () => {
+    const table = (schema: string, name: string, dataSize: number) => ({ schema, name, approxRows: 0, dataSize, indexSize: 0 });
+    const snapshot: ServerSnapshot = {
+      serverVersion: '8.0.36',
+      schemas: ['shop'],
+      tables: [table('shop', 'orders', 100), table('shop', 'users', 500)],
+      hasReloadPrivilege: true
+    };
+    const binlog = { file: 'binlog.000042', position: 157, exact: true };
+    const rows: Record<string, unknown[][]> = {
+      users: [[1, 'Ann'], [2, 'Bob']],
+      orders: [[10, 1]]
+    };
+
+    let connections: { end: jest.Mock }[];
+    let mockMySQLManager: jest.Mocked<MySQLManager>;
+    let mockS3Manager: jest.Mocked<S3Manager>;
+    let uploads: Record<string, Buffer>;
+
+    beforeEach(() => {
+      uploads = {};
+      connections = [{ end: jest.fn().mockResolvedValue(undefined) }, { end: jest.fn().mockResolvedValue(undefined) }];
+      mockMySQLManager = {
+        openSnapshotConnections: jest.fn().mockResolvedValue({ connections, binlog }),
+        getCreateStatement: jest.fn(async (_connection, object) => ({
+          statement: `CREATE ${object.type} \`${object.name}\` (x)`,
+          sqlMode: object.type === 'TABLE' || object.type === 'VIEW' ? undefined : 'STRICT_TRANS_TABLES'
+        })),
+        getTableColumns: jest.fn().mockResolvedValue([
+          { name: 'id', dataType: 'int', generated: false },
+          { name: 'name', dataType: 'varchar', generated: false }
+        ]),
+        listSchemaObjects: jest.fn().mockResolvedValue([{ type: 'VIEW', schema: 'shop', name: 'active_users' }]),
+        streamTableRows: jest.fn((_connection, _schema, name: string) => Readable.from(rows[name]))
+      } as any;
+      mockS3Manager = {
+        uploadStream: jest.fn(async (body: Readable, key: string) => {
+          const data = await readAll(body);
+          uploads[key] = data;
+          return { size: data.length, sha256: createHash('sha256').update(data).digest('hex') };
+        }),
+        deleteBackups: jest.fn().mockResolvedValue(undefined)
+      } as any;
+    });
+
+    const chunkSql = (key: string) => zlib.gunzipSync(uploads[key]).toString('utf8');
+
+    it('should dump each table and the schema objects into their own chunk', async () => {
+      const result = await createParallelBackup(mockMySQLManager, mockS3Manager, 'backups/shop-2026.parallel', snapshot, {
+        connections: 4,
+        compression: { codec: 'gzip' }
+      });
+
+      expect(mockMySQLManager.openSnapshotConnections).toHaveBeenCalledWith(3);
+      expect(result.binlog).toEqual(binlog);
+      expect(result.chunks.map(chunk => [chunk.key, chunk.table, chunk.rows])).toEqual([
+        ['backups/shop-2026.parallel/shop.sql.gz', undefined, undefined],
+        ['backups/shop-2026.parallel/shop/orders.sql.gz', 'orders', 1],
+        ['backups/shop-2026.parallel/shop/users.sql.gz', 'users', 2]
+      ]);
+      expect(result.compressedSize).toBe(Object.values(uploads).reduce((sum, data) => sum + data.length, 0));
+
+      const users = chunkSql('backups/shop-2026.parallel/shop/users.sql.gz');
+      expect(users).toContain('DROP TABLE IF EXISTS `users`;\nCREATE TABLE `users` (x);');
+      expect(users).toContain('INSERT INTO `users` VALUES (1,\'Ann\'),(2,\'Bob\');');
+      expect(users).toMatch(/-- Dump completed on .*\n$/);
+      expect(users).not.toContain('USE `shop`');
+      expect(chunkSql('backups/shop-2026.parallel/shop.sql.gz')).toContain('CREATE VIEW `active_users` (x);');
+      expect(connections.every(connection => connection.end.mock.calls.length === 1)).toBe(true);
+    });
+
+    it('should switch schemas in chunks when the snapshot has several', async () => {
+      const result = await createParallelBackup(mockMySQLManager, mockS3Manager, 'b.parallel', {
+        ...snapshot,
+        schemas: ['crm', 'shop'],
+        tables: [table('shop', 'users', 500)]
+      }, { connections: 2, compression: { codec: 'gzip' } });
+
+      expect(result.chunks.map(chunk => chunk.key)).toEqual(['b.parallel/crm.sql.gz', 'b.parallel/shop.sql.gz', 'b.parallel/shop/users.sql.gz']);
+      expect(chunkSql('b.parallel/shop/users.sql.gz')).toContain('CREATE DATABASE IF NOT EXISTS `shop`;\nUSE `shop`;');
+    });
+
+    it('should name the columns and skip generated ones', async () => {
+      mockMySQLManager.getTableColumns.mockResolvedValue([
+        { name: 'id', dataType: 'int', generated: false },
+        { name: 'name', dataType: 'varchar', generated: false },
+        { name: 'upper_name', dataType: 'varchar', generated: true }
+      ]);
+
+      await createParallelBackup(mockMySQLManager, mockS3Manager, 'b.parallel', snapshot, { connections: 1, compression: { codec: 'gzip' } });
+
+      expect(mockMySQLManager.streamTableRows).toHaveBeenCalledWith(connections[0], 'shop', 'users', ['id', 'name']);
+      expect(chunkSql('b.parallel/shop/users.sql.gz')).toContain('INSERT INTO `users` (`id`,`name`) VALUES');
+    });
+
+    it('should delete uploaded chunks and close the connections when a chunk fails', async () => {
+      mockMySQLManager.streamTableRows.mockImplementation((_connection, _schema, name) => {
+        if (name === 'orders') {
+          return new Readable({
+            objectMode: true,
+            read() {
+              this.destroy(new Error('Lost connection to MySQL server during query'));
+            }
+          });
+        }
+        return Readable.from(rows[name]);
+      });
+
+      await expect(createParallelBackup(mockMySQLManager, mockS3Manager, 'b.parallel', snapshot, {
+        connections: 1,
+        compression: { codec: 'gzip' }
+      })).rejects.toThrow('Lost connection to MySQL server during query');
+
+      expect(mockS3Manager.deleteBackups).toHaveBeenCalledWith(['b.parallel/shop/users.sql.gz']);
+      expect(connections[0].end).toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreParallelBackup', () => {
+    const chunk = (key: string, size: number, table?: string): ManifestChunk => ({
+      key, schema: 'shop', table, uncompressedSize: size * 4, size, sha256: `sha-${key}`
+    });
+    const manifest = {
+      compression: { codec: 'gzip' },
+      chunks: [chunk('b/shop.sql.gz', 5), chunk('b/shop/orders.sql.gz', 100, 'orders'), chunk('b/shop/users.sql.gz', 500, 'users')]
+    } as BackupManifest;
+
+    let mockMySQLManager: jest.Mocked<MySQLManager>;
+    let mockS3Manager: jest.Mocked<S3Manager>;
+    let restored: string[];
+
+    beforeEach(() => {
+      restored = [];
+      mockMySQLManager = {
+        trySetMaxAllowedPacket: jest.fn().mockResolvedValue(4194304),
+        restoreMaxAllowedPacket: jest.fn().mockResolvedValue(undefined),
+        restoreBackupStream: jest.fn(async (stream: { key: string }) => {
+          restored.push(stream.key);
+        })
+      } as any;
+      mockS3Manager = {
+        getBackupStream: jest.fn(async (key: string) => ({ stream: { key }, size: 0 }))
+      } as any;
+    });
+
+    it('should load tables largest first, then the schema objects', async () => {
+      const onProgress = jest.fn();
+
+      await restoreParallelBackup(mockMySQLManager, mockS3Manager, manifest, 'shop_copy', { connections: 1, verifyChecksums: true, onProgress });
+
+      expect(restored).toEqual(['b/shop/users.sql.gz', 'b/shop/orders.sql.gz', 'b/shop.sql.gz']);
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(expect.anything(), 500, 'shop_copy', expect.any(Function), {
+        compression: 'gzip',
+        encryption: undefined,
+        expectedSha256: 'sha-b/shop/users.sql.gz',
+        packetSizeRaised: true
+      });
+      expect(mockMySQLManager.trySetMaxAllowedPacket).toHaveBeenCalledTimes(1);
+      expect(mockMySQLManager.restoreMaxAllowedPacket).toHaveBeenCalledWith(4194304);
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 605, total: 605, percentage: 100 });
+    });
+
+    it('should only load the chunks of selected tables and pass the selection on', async () => {
+      const tables = { include: ['orders'], renameSuffix: '_restored' };
+
+      await restoreParallelBackup(mockMySQLManager, mockS3Manager, manifest, 'shop', { connections: 2, verifyChecksums: true, tables });
+
+      expect(restored).toEqual(['b/shop/orders.sql.gz', 'b/shop.sql.gz']);
+      expect(mockMySQLManager.restoreBackupStream.mock.calls.map(call => call[4]?.tables)).toEqual([
+        { ...tables, schema: 'shop' },
+        { ...tables, schema: 'shop' }
+      ]);
+    });
+
+    it('should skip the chunks of unselected schemas', async () => {
+      const crm = { ...manifest, chunks: [...manifest.chunks!, { ...chunk('b/crm.sql.gz', 5), schema: 'crm' }] };
+
+      await restoreParallelBackup(mockMySQLManager, mockS3Manager, crm, 'shop', {
+        connections: 1,
+        verifyChecksums: true,
+        schemas: { include: ['crm'], map: { crm: 'crm_staging' } }
+      });
+
+      expect(restored).toEqual(['b/crm.sql.gz']);
+    });
+
+    it('should skip checksums when asked to', async () => {
+      await restoreParallelBackup(mockMySQLManager, mockS3Manager, manifest, 'shop', { connections: 2, verifyChecksums: false });
+
+      expect(mockMySQLManager.restoreBackupStream.mock.calls.every(call => call[4]?.expectedSha256 === undefined)).toBe(true);
+    });
+
+    it('should stop at the first failed chunk and put max_allowed_packet back', async () => {
+      mockMySQLManager.restoreBackupStream.mockRejectedValueOnce(new Error('Checksum mismatch'));
+
+      await expect(restoreParallelBackup(mockMySQLManager, mockS3Manager, manifest, 'shop', { connections: 1, verifyChecksums: true }))
+        .rejects.toThrow('Checksum mismatch');
+
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledTimes(1);
+      expect(mockMySQLManager.restoreMaxAllowedPacket).toHaveBeenCalledWith(4194304);
+    });
+
+    it('should fail on a manifest without chunks', async () => {
+      await expect(restoreParallelBackup(mockMySQLManager, mockS3Manager, { ...manifest, chunks: [] }, 'shop', {
+        connections: 1,
+        verifyChecksums: true
+      })).rejects.toThrow('Backup manifest lists no chunks');
+    });
+  });
+
+  describe('verifyParallelChunks', () => {
+    const chunk = (key: string, size: number, table?: string): ManifestChunk => ({
+      key, schema: 'shop', table, uncompressedSize: size * 4, size, sha256: `sha-${key}`
+    });
+    const manifest = {
+      compression: { codec: 'gzip' },
+      chunks: [chunk('b/shop.sql.gz', 5), chunk('b/shop/orders.sql.gz', 100, 'orders'), chunk('b/shop/users.sql.gz', 500, 'users')]
+    } as BackupManifest;
+
+    let mockS3Manager: jest.Mocked<S3Manager>;
+
+    beforeEach(() => {
+      mockS3Manager = {
+        verifyBackupChecksum: jest.fn(async (key: string, sha256: string, onProgress?: (progress: { loaded: number }) => void) => {
+          const { size } = manifest.chunks!.find(chunk => chunk.key === key)!;
+          onProgress?.({ loaded: size });
+          return { size, sha256 };
+        })
+      } as any;
+    });
+
+    it('should check the selected chunks against the manifest', async () => {
+      const onProgress = jest.fn();
+
+      await verifyParallelChunks(mockS3Manager, manifest, { connections: 2, tables: { include: ['orders'] }, onProgress });
+
+      expect(mockS3Manager.verifyBackupChecksum.mock.calls.map(call => call.slice(0, 2))).toEqual([
+        ['b/shop.sql.gz', 'sha-b/shop.sql.gz'],
+        ['b/shop/orders.sql.gz', 'sha-b/shop/orders.sql.gz']
+      ]);
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 105, total: 105, percentage: 100 });
+    });
+
+    it('should reject the first corrupted chunk', async () => {
+      mockS3Manager.verifyBackupChecksum.mockRejectedValueOnce(new Error('Checksum mismatch'));
+
+      await expect(verifyParallelChunks(mockS3Manager, manifest, { connections: 1 })).rejects.toThrow('Checksum mismatch');
+
+      expect(mockS3Manager.verifyBackupChecksum).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { pruneCommand } from '../commands/prune';
+import { ConfigManager } from '../modules/config';
+import { pruneBackups } from '../modules/retention';
+import { S3Manager } from '../modules/s3';
+import { BackupInfo, PruneDecision } from '../types';
+
+jest.mock('../modules/config');
+jest.mock('../modules/s3');
+jest.mock('../modules/retention', () => ({
+  ...jest.requireActual('../modules/retention'),
+  pruneBackups: jest.fn()
+}));
+jest.mock('chalk', () => ({
+  blue: jest.fn((str: string) => str),
+  gray: jest.fn((str: string) => str),
+  yellow: jest.fn((str: string) => str),
+  green: jest.fn((str: string) => str),
+  red: jest.fn((str: string) => str),
+  cyan: { bold: jest.fn((str: string) => str) }
+}));
+
+describe('pruneCommand', () => {
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockS3Manager: jest.Mocked<S3Manager>;
+  let consoleLogSpy: jest.SpyInstance;
+  let consoleErrorSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const mockConfig = {
+    database: {},
+    s3: {
+      bucket: 'test-bucket',
+      accessKeyId: 'test-key',
+      secretAccessKey: 'test-secret'
+    },
+    retention: { keepLast: 1 }
+  };
+
+  const backup = (key: string, size: number): BackupInfo => ({
+    key,
+    displayName: key,
+    lastModified: new Date('2024-01-01T00:00:00Z'),
+    size
+  });
+
+  const decisions: PruneDecision[] = [
+    { backup: backup('shop-2024-01-02T00-00-00-000Z.sql.gz', 300), group: 'shop', date: new Date('2024-01-02'), keep: true, reasons: ['newest', 'last'] },
+    { backup: backup('shop-2024-01-01T00-00-00-000Z.sql.gz', 200), group: 'shop', date: new Date('2024-01-01'), keep: false, reasons: [] },
+    { backup: backup('shop-2023-12-31T00-00-00-000Z.sql.gz', 100), group: 'shop', date: new Date('2023-12-31'), keep: false, reasons: [] }
+  ];
+
+  const output = (): string => consoleLogSpy.mock.calls.map(call => call.join(' ')).join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    mockConfigManager = {
+      loadConfig: jest.fn().mockReturnValue(mockConfig)
+    } as any;
+    (ConfigManager.getInstance as jest.Mock).mockReturnValue(mockConfigManager);
+
+    mockS3Manager = {
+      formatFileSize: jest.fn((bytes: number) => `${bytes} Bytes`)
+    } as any;
+    (S3Manager as jest.Mock).mockImplementation(() => mockS3Manager);
+
+    (pruneBackups as jest.Mock).mockResolvedValue(decisions);
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    processExitSpy.mockRestore();
+  });
+
+  it('should list the backups a dry run would delete', async () => {
+    await pruneCommand({ dryRun: true, prefix: 'shop' });
+
+    expect(mockConfigManager.loadConfig).toHaveBeenCalledWith(undefined, { requireDatabase: false, requireS3: true });
+    expect(pruneBackups).toHaveBeenCalledWith(mockS3Manager, { keepLast: 1 }, { prefix: 'shop', dryRun: true });
+    expect(output()).toContain('ℹ Retention: last 1');
+    expect(output()).toContain('Dry run: 2 backups (300 Bytes) would be deleted:');
+    expect(consoleLogSpy).toHaveBeenCalledWith('shop-2024-01-01T00-00-00-000Z.sql.gz');
+    expect(consoleLogSpy).toHaveBeenCalledWith('shop-2023-12-31T00-00-00-000Z.sql.gz');
+    expect(output()).toContain('1 backup would be kept');
+  });
+
+  it('should report the deleted backups', async () => {
+    await pruneCommand({});
+
+    expect(pruneBackups).toHaveBeenCalledWith(mockS3Manager, { keepLast: 1 }, { prefix: undefined, dryRun: undefined });
+    expect(output()).toContain('✓ Deleted 2 backups (300 Bytes), kept 1');
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should print every decision with its reasons in verbose mode', async () => {
+    await pruneCommand({ verbose: true, dryRun: true });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith('shop:');
+    expect(consoleLogSpy).toHaveBeenCalledWith('  keep   shop-2024-01-02T00-00-00-000Z.sql.gz (newest, last)');
+    expect(consoleLogSpy).toHaveBeenCalledWith('  delete shop-2024-01-01T00-00-00-000Z.sql.gz');
+  });
+
+  it('should report when there is nothing to prune', async () => {
+    (pruneBackups as jest.Mock).mockResolvedValueOnce([decisions[0]]);
+
+    await pruneCommand({});
+
+    expect(output()).toContain('✓ Nothing to prune, keeping all 1 backup');
+  });
+
+  it('should fail without retention rules', async () => {
+    mockConfigManager.loadConfig.mockReturnValueOnce({ ...mockConfig, retention: undefined } as any);
+
+    await pruneCommand({});
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('✗ No retention rules configured'));
+    expect(pruneBackups).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should handle delete failures', async () => {
+    (pruneBackups as jest.Mock).mockRejectedValueOnce(new Error('Failed to delete backups from S3: AccessDenied'));
+
+    await pruneCommand({});
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Failed to prune backups:', 'Failed to delete backups from S3: AccessDenied');
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,38 @@
+import { getReplicaStart, resolveReplicationSource } from '../modules/replication';
+import { BackupManifest } from '../types';
+
+describe('replication', () => {
+  describe('resolveReplicationSource', () => {
+    const config = { sourceHost: 'db-primary', user: 'repl', password: 'secret' };
+
+    it('should let command line options override the configuration', () => {
+      expect(resolveReplicationSource(config, {})).toEqual({ host: 'db-primary', port: 3306, user: 'repl', password: 'secret' });
+      expect(resolveReplicationSource({ ...config, sourcePort: 3307 }, { sourceHost: 'db-2', sourcePort: '3310', sourceUser: 'replica' }))
+        .toEqual({ host: 'db-2', port: 3310, user: 'replica', password: 'secret' });
+    });
+
+    it('should list everything that is missing', () => {
+      expect(() => resolveReplicationSource(undefined, { sourceHost: 'db-primary' }))
+        .toThrow('Replica mode needs a replication user (--source-user or REPLICATION_USER), a replication password (REPLICATION_PASSWORD)');
+    });
+
+    it('should reject an invalid port', () => {
+      expect(() => resolveReplicationSource(config, { sourcePort: 'mysql' })).toThrow("Invalid source port 'mysql'");
+    });
+  });
+
+  describe('getReplicaStart', () => {
+    const manifest = (binlog?: BackupManifest['binlog']) => ({ binlog } as BackupManifest);
+
+    it('should accept exact coordinates or a GTID set', () => {
+      expect(getReplicaStart(manifest({ file: 'binlog.000042', position: 157, exact: true })).position).toBe(157);
+      expect(getReplicaStart(manifest({ file: 'binlog.000042', position: 157, gtidExecuted: 'uuid:1-5' })).gtidExecuted).toBe('uuid:1-5');
+    });
+
+    it('should refuse backups without a usable position', () => {
+      expect(() => getReplicaStart(undefined)).toThrow('Backup has no recorded binlog position');
+      expect(() => getReplicaStart(manifest({ file: 'binlog.000042', position: 157 })))
+        .toThrow('Backup only has an approximate binlog position and no GTIDs');
+    });
+  });
+});
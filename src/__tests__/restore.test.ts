@@ -1,17 +1,33 @@
 import { restoreCommand } from '../commands/restore';
+import { listArchivedBinlogs, replayArchivedBinlogs } from '../modules/binlog';
 import { ConfigManager } from '../modules/config';
 import { MySQLManager } from '../modules/mysql';
+import { restoreParallelBackup } from '../modules/parallel';
+import { createPreRestoreSnapshot } from '../modules/snapshot';
 import { S3Manager } from '../modules/s3';
 import { progressTracker } from '../modules/progress';
 import * as inquirer from 'inquirer';
 import * as fs from 'fs';
 import * as os from 'os';
-import { RestoreOptions, BackupInfo } from '../types';
+import { RestoreOptions, BackupInfo, BackupManifest } from '../types';
 
 jest.mock('../modules/config');
 jest.mock('../modules/mysql');
 jest.mock('../modules/s3');
 jest.mock('../modules/progress');
+jest.mock('../modules/binlog', () => ({
+  ...jest.requireActual('../modules/binlog'),
+  listArchivedBinlogs: jest.fn(),
+  replayArchivedBinlogs: jest.fn()
+}));
+jest.mock('../modules/parallel', () => ({
+  ...jest.requireActual('../modules/parallel'),
+  restoreParallelBackup: jest.fn()
+}));
+jest.mock('../modules/snapshot', () => ({
+  ...jest.requireActual('../modules/snapshot'),
+  createPreRestoreSnapshot: jest.fn()
+}));
 jest.mock('inquirer');
 jest.mock('fs', () => ({
   ...jest.requireActual('fs'),
@@ -73,6 +89,7 @@ describe('restoreCommand', () => {
   ];
 
   const mockProgressBar = jest.fn();
+  const mockBackupStream = { destroy: jest.fn() };
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -92,7 +109,8 @@ describe('restoreCommand', () => {
       listDatabases: jest.fn().mockResolvedValue(['db1', 'db2', 'testdb']),
       databaseExists: jest.fn(),
       createDatabase: jest.fn().mockResolvedValue(undefined),
-      restoreBackup: jest.fn().mockResolvedValue(undefined)
+      restoreBackup: jest.fn().mockResolvedValue(undefined),
+      restoreBackupStream: jest.fn().mockResolvedValue(undefined)
     } as any;
 
     (MySQLManager as jest.Mock).mockImplementation(() => mockMySQLManager);
@@ -101,6 +119,15 @@ describe('restoreCommand', () => {
       listBackups: jest.fn().mockResolvedValue(mockBackups),
       backupExists: jest.fn().mockResolvedValue(true),
       downloadFile: jest.fn().mockResolvedValue(undefined),
+      verifyBackupChecksum: jest.fn().mockResolvedValue({ size: 2048, sha256: 'a'.repeat(64) }),
+      getBackupStream: jest.fn().mockResolvedValue({ stream: mockBackupStream, size: 2048 }),
+      getBackupInfo: jest.fn().mockImplementation(async (key: string) => ({
+        key,
+        displayName: key,
+        lastModified: new Date('2023-12-02T10:00:00Z'),
+        size: 2048,
+        compression: 'gzip'
+      })),
       formatFileSize: jest.fn((bytes: number) => `${bytes} Bytes`)
     } as any;
 
@@ -140,18 +167,50 @@ describe('restoreCommand', () => {
       expect(mockMySQLManager.testConnection).toHaveBeenCalled();
       expect(mockS3Manager.listBackups).toHaveBeenCalled();
       expect(mockMySQLManager.listDatabases).toHaveBeenCalled();
+      expect(mockS3Manager.getBackupStream).toHaveBeenCalledWith(mockBackups[0].key);
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(
+        mockBackupStream,
+        2048,
+        'testdb',
+        mockProgressBar,
+        { compression: 'gzip' }
+      );
+      expect(mockS3Manager.downloadFile).not.toHaveBeenCalled();
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Restore completed successfully!'));
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should download to a temp file first when requested', async () => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+
+      (inquirer.prompt as unknown as jest.Mock)
+        .mockResolvedValueOnce({ backup: mockBackups[0].key })
+        .mockResolvedValueOnce({ database: 'testdb' })
+        .mockResolvedValueOnce({ proceed: true });
+
+      const options: RestoreOptions = {
+        interactive: true,
+        force: false,
+        verbose: false,
+        tempFile: true
+      };
+
+      await restoreCommand(options);
+
       expect(mockS3Manager.downloadFile).toHaveBeenCalledWith(
         mockBackups[0].key,
         expect.stringContaining('/tmp/restore-'),
-        mockProgressBar
+        mockProgressBar,
+        { expectedSha256: undefined }
       );
       expect(mockMySQLManager.restoreBackup).toHaveBeenCalledWith(
         expect.stringContaining('/tmp/restore-'),
         'testdb',
-        mockProgressBar
+        mockProgressBar,
+        { compression: 'gzip' }
       );
+      expect(mockS3Manager.getBackupStream).not.toHaveBeenCalled();
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Restore completed successfully!'));
-      expect(processExitSpy).not.toHaveBeenCalled();
     });
 
     it('should create new database if it does not exist', async () => {
@@ -173,10 +232,12 @@ describe('restoreCommand', () => {
 
       expect(mockMySQLManager.databaseExists).toHaveBeenCalledWith('newdb');
       expect(mockMySQLManager.createDatabase).toHaveBeenCalledWith('newdb');
-      expect(mockMySQLManager.restoreBackup).toHaveBeenCalledWith(
-        expect.any(String),
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(
+        mockBackupStream,
+        2048,
         'newdb',
-        expect.any(Function)
+        expect.any(Function),
+        { compression: 'gzip' }
       );
     });
 
@@ -197,8 +258,8 @@ describe('restoreCommand', () => {
       await restoreCommand(options);
 
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Restoration cancelled'));
-      expect(mockS3Manager.downloadFile).not.toHaveBeenCalled();
-      expect(mockMySQLManager.restoreBackup).not.toHaveBeenCalled();
+      expect(mockS3Manager.getBackupStream).not.toHaveBeenCalled();
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
       expect(processExitSpy).not.toHaveBeenCalled();
     });
 
@@ -218,7 +279,7 @@ describe('restoreCommand', () => {
       await restoreCommand(options);
 
       expect(inquirer.prompt).toHaveBeenCalledTimes(2); // Only backup and database prompts
-      expect(mockMySQLManager.restoreBackup).toHaveBeenCalled();
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalled();
     });
 
     it('should handle empty backup list', async () => {
@@ -238,6 +299,25 @@ describe('restoreCommand', () => {
       expect(processExitSpy).toHaveBeenCalledWith(1);
     });
 
+    it('should only offer backups matching the filters', async () => {
+      (inquirer.prompt as unknown as jest.Mock)
+        .mockResolvedValueOnce({ backup: mockBackups[1].key })
+        .mockResolvedValueOnce({ database: 'testdb' });
+
+      await restoreCommand({ interactive: true, force: true, prefix: 'backup-', until: '2023-12-01' });
+
+      expect(mockS3Manager.listBackups).toHaveBeenCalledWith('backup-');
+      const [{ choices }] = (inquirer.prompt as unknown as jest.Mock).mock.calls[0][0];
+      expect(choices.map((choice: { value: string }) => choice.value)).toEqual([mockBackups[1].key]);
+    });
+
+    it('should report when no backups match the filters', async () => {
+      await restoreCommand({ interactive: true, since: '2024-01-01' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ No backups match the filters');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
     it('should clean up temp file after restore', async () => {
       mockMySQLManager.databaseExists.mockResolvedValue(true);
       (fs.existsSync as jest.Mock).mockReturnValue(true);
@@ -250,7 +330,8 @@ describe('restoreCommand', () => {
       const options: RestoreOptions = {
         interactive: true,
         force: false,
-        verbose: false
+        verbose: false,
+        tempFile: true
       };
 
       await restoreCommand(options);
@@ -279,7 +360,8 @@ describe('restoreCommand', () => {
       const options: RestoreOptions = {
         interactive: true,
         force: false,
-        verbose: true
+        verbose: true,
+        tempFile: true
       };
 
       await restoreCommand(options);
@@ -293,6 +375,598 @@ describe('restoreCommand', () => {
     });
   });
 
+  describe('compression', () => {
+    it('should restore with the codec recorded for the backup', async () => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      mockS3Manager.getBackupInfo.mockResolvedValueOnce({
+        key: 'db-2023-12-01T10-00-00-000Z.sql.zst',
+        displayName: 'db (2023-12-01 10:00:00)',
+        lastModified: new Date('2023-12-01T10:00:00Z'),
+        size: 2048,
+        compression: 'zstd'
+      });
+
+      const options: RestoreOptions = {
+        interactive: false,
+        backup: 'db-2023-12-01T10-00-00-000Z.sql.zst',
+        database: 'targetdb',
+        force: true,
+        verbose: false
+      };
+
+      await restoreCommand(options);
+
+      expect(mockS3Manager.getBackupInfo).toHaveBeenCalledWith('db-2023-12-01T10-00-00-000Z.sql.zst');
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(
+        mockBackupStream,
+        2048,
+        'targetdb',
+        expect.any(Function),
+        { compression: 'zstd' }
+      );
+    });
+  });
+
+  describe('encryption', () => {
+    const encryptedKey = 'db-2023-12-01T10-00-00-000Z.sql.gz.enc';
+    const options: RestoreOptions = {
+      interactive: false,
+      backup: encryptedKey,
+      database: 'targetdb',
+      force: true,
+      verbose: false
+    };
+
+    beforeEach(() => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      mockS3Manager.getBackupInfo.mockResolvedValueOnce({
+        key: encryptedKey,
+        displayName: 'db (2023-12-01 10:00:00)',
+        lastModified: new Date('2023-12-01T10:00:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        encrypted: true
+      });
+    });
+
+    it('should pass the configured keys to decrypt encrypted backups', async () => {
+      const encryption = { passphrase: 'secret', previousKeys: [{ passphrase: 'old' }] };
+      mockConfigManager.loadConfig.mockReturnValue({ ...mockConfig, encryption } as any);
+
+      await restoreCommand(options);
+
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(
+        mockBackupStream,
+        2048,
+        'targetdb',
+        expect.any(Function),
+        { compression: 'gzip', encryption }
+      );
+    });
+
+    it('should fail before touching the database when no key is configured', async () => {
+      await restoreCommand(options);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Restore failed:'),
+        'Backup is encrypted but no decryption key is configured (ENCRYPTION_PASSPHRASE, ENCRYPTION_KEY_FILE or ENCRYPTION_IDENTITIES)'
+      );
+      expect(mockMySQLManager.databaseExists).not.toHaveBeenCalled();
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('checksum', () => {
+    const sha256 = 'a'.repeat(64);
+    const options: RestoreOptions = {
+      interactive: false,
+      backup: 'db-2023-12-01T10-00-00-000Z.sql.gz',
+      database: 'targetdb',
+      force: true,
+      verbose: false
+    };
+
+    beforeEach(() => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      mockS3Manager.getBackupInfo.mockResolvedValueOnce({
+        key: 'db-2023-12-01T10-00-00-000Z.sql.gz',
+        displayName: 'db (2023-12-01 10:00:00)',
+        lastModified: new Date('2023-12-01T10:00:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        sha256
+      });
+    });
+
+    it('should check a backup with a recorded checksum in a streaming pass before restoring it', async () => {
+      await restoreCommand(options);
+
+      expect(mockS3Manager.verifyBackupChecksum).toHaveBeenCalledWith('db-2023-12-01T10-00-00-000Z.sql.gz', sha256, mockProgressBar);
+      expect(mockS3Manager.verifyBackupChecksum.mock.invocationCallOrder[0]).toBeLessThan(mockS3Manager.getBackupStream.mock.invocationCallOrder[0]);
+      expect(mockS3Manager.downloadFile).not.toHaveBeenCalled();
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(
+        mockBackupStream,
+        2048,
+        'targetdb',
+        mockProgressBar,
+        { compression: 'gzip', expectedSha256: sha256 }
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith('✓ Checksum verified');
+      expect(consoleLogSpy).toHaveBeenCalledWith('  Checksum: verified');
+    });
+
+    it('should verify the recorded checksum while streaming with verifyAfterStream', async () => {
+      await restoreCommand({ ...options, verifyAfterStream: true });
+
+      expect(mockS3Manager.verifyBackupChecksum).not.toHaveBeenCalled();
+      expect(mockS3Manager.downloadFile).not.toHaveBeenCalled();
+      expect(consoleLogSpy).toHaveBeenCalledWith('⚠ The checksum is only checked after the backup has been applied (--verify-after-stream)');
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(
+        mockBackupStream,
+        2048,
+        'targetdb',
+        expect.any(Function),
+        { compression: 'gzip', expectedSha256: sha256 }
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith('  Checksum: verified');
+    });
+
+    it('should verify the download before restoring from a temp file', async () => {
+      await restoreCommand({ ...options, tempFile: true });
+
+      expect(mockS3Manager.downloadFile).toHaveBeenCalledWith(
+        'db-2023-12-01T10-00-00-000Z.sql.gz',
+        expect.stringContaining('/tmp/restore-'),
+        mockProgressBar,
+        { expectedSha256: sha256 }
+      );
+      expect(mockS3Manager.verifyBackupChecksum).not.toHaveBeenCalled();
+      expect(mockMySQLManager.restoreBackup).toHaveBeenCalledWith(
+        expect.stringContaining('/tmp/restore-'),
+        'targetdb',
+        mockProgressBar,
+        { compression: 'gzip' }
+      );
+    });
+
+    it('should skip verification with ignoreChecksum', async () => {
+      await restoreCommand({ ...options, ignoreChecksum: true });
+
+      const restoreOptions = mockMySQLManager.restoreBackupStream.mock.calls[0][4];
+      expect(restoreOptions?.expectedSha256).toBeUndefined();
+      expect(mockS3Manager.verifyBackupChecksum).not.toHaveBeenCalled();
+      expect(consoleLogSpy).toHaveBeenCalledWith('⚠ Checksum verification disabled (--ignore-checksum)');
+    });
+
+    it('should apply nothing from a corrupted object and point to the override', async () => {
+      mockS3Manager.verifyBackupChecksum.mockRejectedValueOnce(
+        new Error(`Checksum mismatch: expected SHA-256 ${sha256}, got ${'b'.repeat(64)} (the backup object is corrupted)`)
+      );
+
+      await restoreCommand(options);
+
+      expect(mockS3Manager.getBackupStream).not.toHaveBeenCalled();
+      expect(mockMySQLManager.restoreBackup).not.toHaveBeenCalled();
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Use --ignore-checksum to restore this backup anyway');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('point-in-time restore', () => {
+    const backupKey = 'shop-2023-12-01T10-00-00-000Z.sql.gz';
+    const manifest: BackupManifest = {
+      formatVersion: 1,
+      toolVersion: '1.0.0',
+      backupKey,
+      serverVersion: '8.0.36',
+      schemas: ['shop'],
+      tables: [],
+      mysqldumpFlags: [],
+      compression: { codec: 'gzip' },
+      encrypted: false,
+      uncompressedSize: 4096,
+      compressedSize: 1024,
+      sha256: 'a'.repeat(64),
+      startedAt: '2023-12-01T10:00:00.000Z',
+      finishedAt: '2023-12-01T10:05:00.000Z',
+      binlog: { file: 'binlog.000041', position: 157 }
+    };
+    const archived = (file: string, lastModified = '2023-12-02T00:00:00Z') => ({
+      file,
+      key: `binlogs/${file}`,
+      size: 100,
+      lastModified: new Date(lastModified)
+    });
+    const backupInfo = (key: string, lastModified: string, extra: Partial<BackupManifest> = {}): BackupInfo => ({
+      key,
+      displayName: key,
+      lastModified: new Date(lastModified),
+      size: 2048,
+      compression: 'gzip',
+      manifest: { ...manifest, backupKey: key, ...extra }
+    });
+    const options: RestoreOptions = {
+      interactive: false,
+      database: 'shop',
+      force: true,
+      toTime: '2023-12-01T12:00:00Z'
+    };
+
+    beforeEach(() => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      mockS3Manager.parseBackupKey = jest.fn((key: string) => ({ name: key.replace(/-\d{4}-\d{2}-\d{2}T[\d-]+Z.*$/, '') }));
+      mockS3Manager.listBackups.mockResolvedValue([backupInfo(backupKey, '2023-12-01T10:05:00Z')]);
+      mockS3Manager.getBackupInfo.mockResolvedValue(backupInfo(backupKey, '2023-12-01T10:05:00Z'));
+      (listArchivedBinlogs as jest.Mock).mockResolvedValue([
+        archived('binlog.000040'),
+        archived('binlog.000041'),
+        archived('binlog.000042')
+      ]);
+      (replayArchivedBinlogs as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should restore the nearest preceding backup and replay binlogs up to the target', async () => {
+      await restoreCommand(options);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(`ℹ Using the nearest preceding backup: ${backupKey}`);
+      expect(listArchivedBinlogs).toHaveBeenCalledWith(mockS3Manager, 'binlogs/');
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalled();
+      expect(replayArchivedBinlogs).toHaveBeenCalledWith(
+        mockS3Manager,
+        mockMySQLManager,
+        [archived('binlog.000041'), archived('binlog.000042')],
+        'shop',
+        { startPosition: 157, stopDatetime: new Date('2023-12-01T12:00:00Z'), database: 'shop', encryption: undefined }
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith('✓ Binlogs replayed');
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should pass over newer backups that are subsets, snapshots or of another database', async () => {
+      const backups = [
+        backupInfo('shop-subset-2023-12-01T11-50-00-000Z.sql.gz', '2023-12-01T11:50:00Z', { subset: { profile: 'laptop', roots: {}, referencing: false, rows: {} } }),
+        backupInfo('pre-restore/shop-2023-12-01T11-40-00-000Z.sql.gz', '2023-12-01T11:40:00Z'),
+        backupInfo('billing-2023-12-01T11-30-00-000Z.sql.gz', '2023-12-01T11:30:00Z'),
+        { ...backupInfo('shop-2023-12-01T11-20-00-000Z.schema.sql.gz', '2023-12-01T11:20:00Z', { mode: 'schema' }), mode: 'schema' as const },
+        backupInfo('shop-2023-12-01T11-10-00-000Z.sql.gz', '2023-12-01T11:10:00Z', { tables: [{ schema: 'shop', name: 'orders', approxRows: 10, dataSize: 0, indexSize: 0, where: 'id > 5' }] }),
+        backupInfo(backupKey, '2023-12-01T10:05:00Z')
+      ];
+      mockS3Manager.listBackups.mockResolvedValue(backups);
+      mockS3Manager.getBackupInfo.mockImplementation(async (key: string) => backups.find(backup => backup.key === key)!);
+
+      await restoreCommand(options);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(`ℹ Using the nearest preceding backup: ${backupKey}`);
+      expect(mockS3Manager.getBackupInfo).not.toHaveBeenCalledWith(expect.stringMatching(/^(pre-restore|billing)\//));
+      expect(mockS3Manager.getBackupInfo).not.toHaveBeenCalledWith(expect.stringMatching(/schema\.sql\.gz$/));
+      expect(replayArchivedBinlogs).toHaveBeenCalled();
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should take backups of another name with --name', async () => {
+      await restoreCommand({ ...options, database: 'shop_restored', name: 'shop' });
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(`ℹ Using the nearest preceding backup: ${backupKey}`);
+      expect(replayArchivedBinlogs).toHaveBeenCalledWith(mockS3Manager, mockMySQLManager, expect.any(Array), 'shop_restored', expect.anything());
+    });
+
+    it('should fail when only masked backups precede the target time', async () => {
+      const masked = backupInfo('shop-2023-12-01T11-00-00-000Z.sql.gz', '2023-12-01T11:00:00Z', { masking: { profile: 'staging', columns: ['shop.users.email'] } });
+      mockS3Manager.listBackups.mockResolvedValue([masked]);
+      mockS3Manager.getBackupInfo.mockResolvedValue(masked);
+
+      await restoreCommand(options);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('✗ No full backup of \'shop\' with a binlog position found before'));
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should warn when a chosen backup is incomplete', async () => {
+      mockS3Manager.getBackupInfo.mockResolvedValue(backupInfo(backupKey, '2023-12-01T10:05:00Z', { mode: 'data' }));
+
+      await restoreCommand({ ...options, backup: backupKey });
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('⚠ This backup doesn\'t hold all tables and rows as they were'));
+      expect(replayArchivedBinlogs).toHaveBeenCalled();
+    });
+
+    it('should refuse backups without a recorded binlog position', async () => {
+      mockS3Manager.getBackupInfo.mockResolvedValue({ ...(await mockS3Manager.getBackupInfo(backupKey)), manifest: undefined });
+
+      await restoreCommand({ ...options, backup: backupKey });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', expect.stringContaining('Backup has no recorded binlog position'));
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should refuse a backup taken after the target time', async () => {
+      await restoreCommand({ ...options, backup: backupKey, toTime: '2023-12-01T09:00:00Z' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', expect.stringContaining('after the --to-time target'));
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+    });
+
+    it('should warn when the archive ends before the target time', async () => {
+      (listArchivedBinlogs as jest.Mock).mockResolvedValue([archived('binlog.000041', '2023-12-01T11:00:00Z')]);
+
+      await restoreCommand(options);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('⚠ Binlogs are only archived up to'));
+      expect(replayArchivedBinlogs).toHaveBeenCalled();
+    });
+
+    it('should fail when no backup precedes the target time', async () => {
+      await restoreCommand({ ...options, toTime: '2023-11-01T00:00:00Z' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('✗ No full backup of \'shop\' with a binlog position found before'));
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should narrow the base backup with the picker filters', async () => {
+      await restoreCommand({ ...options, until: '2023-11-30' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('✗ No full backup of \'shop\' with a binlog position found before'));
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should only filter backups with --until, without replaying binlogs', async () => {
+      await restoreCommand({ ...options, toTime: undefined, backup: backupKey, until: '2023-12-01T12:00:00Z' });
+
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalled();
+      expect(listArchivedBinlogs).not.toHaveBeenCalled();
+      expect(replayArchivedBinlogs).not.toHaveBeenCalled();
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replica mode', () => {
+    const backupKey = 'shop-2023-12-01T10-00-00-000Z.sql.gz';
+    const manifest = (binlog: BackupManifest['binlog']): BackupManifest => ({
+      formatVersion: 1,
+      toolVersion: '1.0.0',
+      backupKey,
+      serverVersion: '8.0.36',
+      schemas: ['shop'],
+      tables: [],
+      mysqldumpFlags: [],
+      compression: { codec: 'gzip' },
+      encrypted: false,
+      uncompressedSize: 4096,
+      compressedSize: 1024,
+      sha256: 'a'.repeat(64),
+      startedAt: '2023-12-01T10:00:00.000Z',
+      finishedAt: '2023-12-01T10:05:00.000Z',
+      binlog
+    });
+    const options: RestoreOptions = {
+      interactive: false,
+      backup: backupKey,
+      database: 'shop',
+      force: true,
+      asReplica: true,
+      sourceHost: 'db-primary',
+      sourceUser: 'repl'
+    };
+
+    beforeEach(() => {
+      mockConfigManager.loadConfig.mockReturnValue({ ...mockConfig, replication: { password: 'secret' } } as any);
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      mockMySQLManager.getGtidExecuted = jest.fn().mockResolvedValue('');
+      mockMySQLManager.resetBinaryLogsAndGtids = jest.fn().mockResolvedValue(undefined);
+      mockMySQLManager.configureReplication = jest.fn().mockResolvedValue(undefined);
+    });
+
+    const withManifest = (binlog: BackupManifest['binlog']) => {
+      mockS3Manager.getBackupInfo.mockResolvedValue({
+        key: backupKey,
+        displayName: backupKey,
+        lastModified: new Date('2023-12-01T10:05:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        manifest: manifest(binlog)
+      });
+    };
+
+    it('should reset the GTID state, restore and configure auto-positioning', async () => {
+      withManifest({ file: 'binlog.000042', position: 157, gtidExecuted: 'uuid:1-5', exact: true });
+      mockMySQLManager.getGtidExecuted.mockResolvedValue('other-uuid:1-3');
+
+      await restoreCommand({ ...options, startReplica: true });
+
+      expect(mockMySQLManager.resetBinaryLogsAndGtids).toHaveBeenCalled();
+      expect(mockMySQLManager.resetBinaryLogsAndGtids.mock.invocationCallOrder[0])
+        .toBeLessThan(mockMySQLManager.restoreBackupStream.mock.invocationCallOrder[0]);
+      expect(mockMySQLManager.configureReplication).toHaveBeenCalledWith(
+        { host: 'db-primary', port: 3306, user: 'repl', password: 'secret' },
+        expect.objectContaining({ file: 'binlog.000042', position: 157 }),
+        { autoPosition: true, startReplica: true }
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith('✓ Replication configured and started');
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should start from the recorded coordinates without GTIDs', async () => {
+      withManifest({ file: 'binlog.000042', position: 157, exact: true });
+
+      await restoreCommand(options);
+
+      expect(mockMySQLManager.getGtidExecuted).not.toHaveBeenCalled();
+      expect(mockMySQLManager.configureReplication).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ file: 'binlog.000042', position: 157 }),
+        { autoPosition: false, startReplica: undefined }
+      );
+      expect(consoleLogSpy).toHaveBeenCalledWith('ℹ Seeding a replica of db-primary:3306 (binlog.000042:157)');
+    });
+
+    it('should set GTID_PURGED itself for native dumps', async () => {
+      withManifest({ file: 'binlog.000042', position: 157, gtidExecuted: 'uuid:1-5', exact: true });
+      const info = await mockS3Manager.getBackupInfo(backupKey);
+      mockS3Manager.getBackupInfo.mockResolvedValue({ ...info, manifest: { ...info.manifest!, engine: 'native' } });
+      mockMySQLManager.setGtidPurged = jest.fn().mockResolvedValue(undefined);
+
+      await restoreCommand(options);
+
+      expect(mockMySQLManager.resetBinaryLogsAndGtids.mock.invocationCallOrder[0])
+        .toBeGreaterThan(mockMySQLManager.restoreBackupStream.mock.invocationCallOrder[0]);
+      expect(mockMySQLManager.setGtidPurged).toHaveBeenCalledWith('uuid:1-5');
+    });
+
+    it('should refuse to restore a single schema under another name', async () => {
+      withManifest({ file: 'binlog.000042', position: 157, exact: true });
+
+      await restoreCommand({ ...options, database: 'shop_copy' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', 'A replica must restore shop under its own name, not as shop_copy');
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+    });
+
+    it('should need a replication password', async () => {
+      mockConfigManager.loadConfig.mockReturnValue(mockConfig as any);
+
+      await restoreCommand(options);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', expect.stringContaining('a replication password (REPLICATION_PASSWORD)'));
+      expect(mockMySQLManager.testConnection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parallel backups', () => {
+    const backupKey = 'shop-2023-12-01T10-00-00-000Z.parallel';
+    const manifest = {
+      formatVersion: 1,
+      toolVersion: '1.0.0',
+      backupKey,
+      serverVersion: '8.0.36',
+      schemas: ['shop'],
+      tables: [],
+      mysqldumpFlags: [],
+      compression: { codec: 'gzip' },
+      encrypted: false,
+      uncompressedSize: 4096,
+      compressedSize: 1024,
+      startedAt: '2023-12-01T10:00:00.000Z',
+      finishedAt: '2023-12-01T10:05:00.000Z',
+      engine: 'parallel',
+      chunks: [{ key: `${backupKey}/shop/users.sql.gz`, schema: 'shop', table: 'users', rows: 2, uncompressedSize: 4096, size: 1024, sha256: 'a'.repeat(64) }],
+      binlog: { file: 'binlog.000042', position: 157, gtidExecuted: 'uuid:1-5', exact: true }
+    } as BackupManifest;
+    const options: RestoreOptions = { interactive: false, backup: backupKey, database: 'shop', force: true };
+
+    beforeEach(() => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      mockS3Manager.getBackupInfo.mockResolvedValue({
+        key: backupKey,
+        displayName: backupKey,
+        lastModified: new Date('2023-12-01T10:05:00Z'),
+        size: 1024,
+        compression: 'gzip',
+        manifest
+      });
+      (restoreParallelBackup as jest.Mock).mockResolvedValue(undefined);
+    });
+
+    it('should load the chunks over the requested connections', async () => {
+      await restoreCommand({ ...options, parallel: '8' });
+
+      expect(restoreParallelBackup).toHaveBeenCalledWith(mockMySQLManager, mockS3Manager, manifest, 'shop', {
+        connections: 8,
+        encryption: undefined,
+        verifyChecksums: true,
+        onProgress: mockProgressBar
+      });
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(consoleLogSpy).toHaveBeenCalledWith('ℹ Streaming 1 chunks from S3 into database over 8 connections...');
+      expect(consoleLogSpy).toHaveBeenCalledWith('  Checksum: verified');
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should use 4 connections by default and honour --ignore-checksum', async () => {
+      await restoreCommand({ ...options, ignoreChecksum: true });
+
+      expect(restoreParallelBackup).toHaveBeenCalledWith(mockMySQLManager, mockS3Manager, manifest, 'shop', expect.objectContaining({
+        connections: 4,
+        verifyChecksums: false
+      }));
+      expect(mockS3Manager.verifyBackupChecksum).not.toHaveBeenCalled();
+      expect(consoleLogSpy).toHaveBeenCalledWith('  Checksum: not verified');
+    });
+
+    it('should check every chunk against its checksum before restoring any', async () => {
+      await restoreCommand(options);
+
+      expect(mockS3Manager.verifyBackupChecksum).toHaveBeenCalledWith(`${backupKey}/shop/users.sql.gz`, 'a'.repeat(64), expect.any(Function));
+      expect(mockS3Manager.verifyBackupChecksum.mock.invocationCallOrder[0]).toBeLessThan((restoreParallelBackup as jest.Mock).mock.invocationCallOrder[0]);
+      expect(consoleLogSpy).toHaveBeenCalledWith('✓ Checksums verified');
+    });
+
+    it('should leave the database untouched when a chunk is corrupted', async () => {
+      const corrupted = {
+        ...manifest,
+        chunks: [...manifest.chunks!, { key: `${backupKey}/shop/orders.sql.gz`, schema: 'shop', table: 'orders', rows: 1, uncompressedSize: 2048, size: 512, sha256: 'c'.repeat(64) }]
+      };
+      mockS3Manager.getBackupInfo.mockResolvedValue({ key: backupKey, displayName: backupKey, lastModified: new Date('2023-12-01T10:05:00Z'), size: 1536, compression: 'gzip', manifest: corrupted });
+      mockS3Manager.verifyBackupChecksum.mockImplementation(async (key: string) => {
+        if (key.endsWith('orders.sql.gz')) {
+          throw new Error(`Checksum mismatch: expected SHA-256 ${'c'.repeat(64)}, got ${'d'.repeat(64)} (the backup object is corrupted)`);
+        }
+        return { size: 1024, sha256: 'a'.repeat(64) };
+      });
+
+      await restoreCommand(options);
+
+      expect(mockS3Manager.verifyBackupChecksum).toHaveBeenCalledTimes(2);
+      expect(restoreParallelBackup).not.toHaveBeenCalled();
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Use --ignore-checksum to restore this backup anyway');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should only check the chunks while restoring with --verify-after-stream', async () => {
+      await restoreCommand({ ...options, verifyAfterStream: true });
+
+      expect(mockS3Manager.verifyBackupChecksum).not.toHaveBeenCalled();
+      expect(consoleLogSpy).toHaveBeenCalledWith('⚠ The checksum is only checked after the backup has been applied (--verify-after-stream)');
+      expect(restoreParallelBackup).toHaveBeenCalledWith(mockMySQLManager, mockS3Manager, manifest, 'shop', expect.objectContaining({
+        verifyChecksums: true
+      }));
+    });
+
+    it('should reject --temp-file', async () => {
+      await restoreCommand({ ...options, tempFile: true });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', '--temp-file cannot be used with parallel backups; their chunks are always streamed');
+      expect(restoreParallelBackup).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid connection count', async () => {
+      await restoreCommand({ ...options, parallel: 'many' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', "Invalid --parallel value 'many' (expected a number of connections)");
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should set GTID_PURGED itself when seeding a replica', async () => {
+      mockConfigManager.loadConfig.mockReturnValue({ ...mockConfig, replication: { password: 'secret' } } as any);
+      mockMySQLManager.getGtidExecuted = jest.fn().mockResolvedValue('');
+      mockMySQLManager.resetBinaryLogsAndGtids = jest.fn().mockResolvedValue(undefined);
+      mockMySQLManager.setGtidPurged = jest.fn().mockResolvedValue(undefined);
+      mockMySQLManager.configureReplication = jest.fn().mockResolvedValue(undefined);
+
+      await restoreCommand({ ...options, asReplica: true, sourceHost: 'db-primary', sourceUser: 'repl' });
+
+      expect(mockMySQLManager.resetBinaryLogsAndGtids.mock.invocationCallOrder[0])
+        .toBeGreaterThan((restoreParallelBackup as jest.Mock).mock.invocationCallOrder[0]);
+      expect(mockMySQLManager.setGtidPurged).toHaveBeenCalledWith('uuid:1-5');
+      expect(mockMySQLManager.setGtidPurged.mock.invocationCallOrder[0])
+        .toBeLessThan(mockMySQLManager.configureReplication.mock.invocationCallOrder[0]);
+    });
+  });
+
   describe('non-interactive mode', () => {
     it('should restore backup non-interactively', async () => {
       mockMySQLManager.databaseExists.mockResolvedValue(true);
@@ -308,10 +982,12 @@ describe('restoreCommand', () => {
       await restoreCommand(options);
 
       expect(mockS3Manager.backupExists).toHaveBeenCalledWith('backup-2023-12-01T10-00-00-000Z.sql.gz');
-      expect(mockMySQLManager.restoreBackup).toHaveBeenCalledWith(
-        expect.any(String),
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(
+        mockBackupStream,
+        2048,
         'targetdb',
-        expect.any(Function)
+        expect.any(Function),
+        { compression: 'gzip' }
       );
       expect(consoleLogSpy).toHaveBeenCalledWith(expect.stringContaining('Restore completed successfully!'));
     });
@@ -420,7 +1096,8 @@ describe('restoreCommand', () => {
         backup: 'backup.sql.gz',
         database: 'targetdb',
         force: true,
-        verbose: false
+        verbose: false,
+        tempFile: true
       };
 
       await restoreCommand(options);
@@ -433,9 +1110,31 @@ describe('restoreCommand', () => {
       expect(processExitSpy).toHaveBeenCalledWith(1);
     });
 
+    it('should handle streaming download failure', async () => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      mockS3Manager.getBackupStream.mockRejectedValue(new Error('S3 download failed'));
+
+      const options: RestoreOptions = {
+        interactive: false,
+        backup: 'backup.sql.gz',
+        database: 'targetdb',
+        force: true,
+        verbose: false
+      };
+
+      await restoreCommand(options);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Restore failed:'),
+        'S3 download failed'
+      );
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
     it('should handle restore failure', async () => {
       mockMySQLManager.databaseExists.mockResolvedValue(true);
-      mockMySQLManager.restoreBackup.mockRejectedValue(new Error('MySQL restore error'));
+      mockMySQLManager.restoreBackupStream.mockRejectedValue(new Error('MySQL restore error'));
 
       const options: RestoreOptions = {
         interactive: false,
@@ -534,7 +1233,8 @@ describe('restoreCommand', () => {
         backup: 'backup.sql.gz',
         database: 'targetdb',
         force: true,
-        verbose: false
+        verbose: false,
+        tempFile: true
       };
 
       await restoreCommand(options);
@@ -575,10 +1275,12 @@ describe('restoreCommand', () => {
 
       await restoreCommand(options);
 
-      expect(mockMySQLManager.restoreBackup).toHaveBeenCalledWith(
-        expect.any(String),
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(
+        mockBackupStream,
+        2048,
         'validdb',
-        expect.any(Function)
+        expect.any(Function),
+        { compression: 'gzip' }
       );
     });
   });
@@ -604,4 +1306,406 @@ describe('restoreCommand', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('table selection', () => {
+    const backupKey = 'shop-2023-12-01T10-00-00-000Z.sql.gz';
+    const table = (name: string) => ({ schema: 'shop', name, approxRows: 0, dataSize: 0, indexSize: 0 });
+    const manifest = {
+      schemas: ['shop'],
+      tables: [table('orders'), table('order_items'), table('users')],
+      compression: { codec: 'gzip' },
+      uncompressedSize: 4096,
+      binlog: { file: 'binlog.000042', position: 157 },
+      startedAt: '2023-12-01T10:00:00.000Z'
+    } as BackupManifest;
+    const options: RestoreOptions = { interactive: false, backup: backupKey, database: 'shop', force: true };
+
+    beforeEach(() => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      mockS3Manager.getBackupInfo.mockResolvedValue({
+        key: backupKey,
+        displayName: backupKey,
+        lastModified: new Date('2023-12-01T10:05:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        manifest
+      });
+    });
+
+    it('should restore only the requested tables under a suffix', async () => {
+      await restoreCommand({ ...options, tables: 'orders,order_items', tableSuffix: '_restored' });
+
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(mockBackupStream, 2048, 'shop', mockProgressBar, expect.objectContaining({
+        tables: { include: ['orders', 'order_items'], exclude: undefined, renameSuffix: '_restored', schema: 'shop' }
+      }));
+      expect(consoleLogSpy).toHaveBeenCalledWith('ℹ Restoring tables: orders, order_items (restored as <table>_restored)');
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject tables the backup does not have', async () => {
+      await restoreCommand({ ...options, excludeTables: 'oders' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', 'Backup has no table named oders');
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should accept schema-qualified names only for the backup\'s schemas', async () => {
+      await restoreCommand({ ...options, tables: 'shop.orders' });
+
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(mockBackupStream, 2048, 'shop', mockProgressBar, expect.objectContaining({
+        tables: expect.objectContaining({ include: ['shop.orders'], schema: 'shop' })
+      }));
+
+      mockMySQLManager.restoreBackupStream.mockClear();
+      await restoreCommand({ ...options, tables: 'crm.orders' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', 'Backup has no table named crm.orders');
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to combine a selection with point-in-time restore', async () => {
+      await restoreCommand({ ...options, tables: 'orders', toTime: '2023-12-01T12:00:00Z' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', expect.stringContaining('cannot be combined with --to-time or --as-replica'));
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+    });
+
+    it('should mask rows with --mask, going by the backed-up schema', async () => {
+      mockConfigManager.loadConfig.mockReturnValue({
+        ...mockConfig,
+        masking: { profiles: { staging: { columns: { 'shop.users.email': 'null' } } } }
+      } as any);
+
+      await restoreCommand({ ...options, database: 'shop_staging', mask: 'staging' });
+
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(mockBackupStream, 2048, 'shop_staging', mockProgressBar, expect.objectContaining({
+        masking: {
+          plan: { profile: 'staging', salt: undefined, columns: [{ key: 'shop.users.email', table: 'shop.users', column: 'email', rule: { strategy: 'null' } }] },
+          schema: 'shop'
+        }
+      }));
+      expect(consoleLogSpy).toHaveBeenCalledWith('ℹ Masking: staging (shop.users.email: null)');
+    });
+
+    it('should refuse to mask a point-in-time restore', async () => {
+      mockConfigManager.loadConfig.mockReturnValue({ ...mockConfig, masking: { profiles: { staging: { columns: { 'users.email': 'null' } } } } } as any);
+
+      await restoreCommand({ ...options, mask: 'staging', toTime: '2023-12-01T12:00:00Z' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', '--mask cannot be combined with --to-time or --as-replica');
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+    });
+
+    it('should offer the manifest\'s tables in the interactive picker', async () => {
+      (inquirer.prompt as unknown as jest.Mock)
+        .mockResolvedValueOnce({ backup: mockBackups[0].key })
+        .mockResolvedValueOnce({ database: 'shop' })
+        .mockResolvedValueOnce({ scope: 'selected' })
+        .mockResolvedValueOnce({ tables: ['orders'], suffix: ' _old ' });
+
+      await restoreCommand({ interactive: true, force: true });
+
+      const [[tablesPrompt]] = (inquirer.prompt as unknown as jest.Mock).mock.calls[3];
+      expect(tablesPrompt.type).toBe('checkbox');
+      expect(tablesPrompt.choices.map((choice: { value: string }) => choice.value)).toEqual(['orders', 'order_items', 'users']);
+      expect(mockS3Manager.getBackupInfo).toHaveBeenCalledTimes(1);
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(mockBackupStream, 2048, 'shop', mockProgressBar, expect.objectContaining({
+        tables: { include: ['orders'], exclude: undefined, renameSuffix: '_old', schema: 'shop' }
+      }));
+    });
+
+    it('should restore everything when all tables are chosen in the picker', async () => {
+      (inquirer.prompt as unknown as jest.Mock)
+        .mockResolvedValueOnce({ backup: mockBackups[0].key })
+        .mockResolvedValueOnce({ database: 'shop' })
+        .mockResolvedValueOnce({ scope: 'all' });
+
+      await restoreCommand({ interactive: true, force: true });
+
+      expect(inquirer.prompt).toHaveBeenCalledTimes(3);
+      expect(mockMySQLManager.restoreBackupStream.mock.calls[0][4]?.tables).toBeUndefined();
+    });
+  });
+
+  describe('schema remapping', () => {
+    const backupKey = 'app-2023-12-01T10-00-00-000Z.sql.gz';
+    const options: RestoreOptions = { interactive: false, backup: backupKey, database: 'app', force: true };
+
+    beforeEach(() => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      mockS3Manager.getBackupInfo.mockResolvedValue({
+        key: backupKey,
+        displayName: backupKey,
+        lastModified: new Date('2023-12-01T10:05:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        manifest: { schemas: ['app', 'billing'], tables: [], compression: { codec: 'gzip' }, uncompressedSize: 4096 } as unknown as BackupManifest
+      });
+    });
+
+    it('should pass the schema map to the restore', async () => {
+      await restoreCommand({ ...options, map: 'app=app_staging,billing=billing_staging' });
+
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(mockBackupStream, 2048, 'app', mockProgressBar, expect.objectContaining({
+        schemas: { include: undefined, map: { app: 'app_staging', billing: 'billing_staging' } }
+      }));
+      expect(consoleLogSpy).toHaveBeenCalledWith('ℹ Restoring schemas: app → app_staging, billing → billing_staging (other schemas unchanged)');
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject schemas the backup does not have', async () => {
+      await restoreCommand({ ...options, schemas: 'billing,crm' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', 'Backup has no schema named crm');
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+    });
+
+    it('should warn that a multi-schema backup restores into its original schemas', async () => {
+      await restoreCommand(options);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        '⚠ This backup switches schemas with USE, so it restores into app, billing rather than app (use --map to rename them)'
+      );
+      expect(mockMySQLManager.restoreBackupStream.mock.calls[0][4]?.schemas).toBeUndefined();
+    });
+  });
+
+  describe('atomic restore', () => {
+    const backupKey = 'shop-2023-12-01T10-00-00-000Z.sql.gz';
+    const table = (name: string) => ({ schema: 'shop', name, approxRows: 0, dataSize: 0, indexSize: 0 });
+    const manifest = {
+      schemas: ['shop'],
+      tables: [table('orders'), table('users')],
+      mysqldumpFlags: ['--single-transaction', 'shop'],
+      compression: { codec: 'gzip' },
+      uncompressedSize: 4096
+    } as unknown as BackupManifest;
+    const options: RestoreOptions = { interactive: false, backup: backupKey, database: 'shop', force: true, atomic: true };
+
+    beforeEach(() => {
+      mockMySQLManager.databaseExists.mockImplementation(async (name: string) => name === 'shop' || name === 'shop_old');
+      mockMySQLManager.dropDatabase = jest.fn().mockResolvedValue(undefined);
+      mockMySQLManager.listTables = jest.fn().mockResolvedValue(['orders', 'users']);
+      mockMySQLManager.swapTables = jest.fn().mockResolvedValue({ tables: 2, replaced: 2 });
+      mockMySQLManager.listReferencingForeignKeys = jest.fn().mockResolvedValue([]);
+      mockMySQLManager.scheduleDatabaseDrop = jest.fn().mockResolvedValue(true);
+      mockS3Manager.getBackupInfo.mockResolvedValue({
+        key: backupKey,
+        displayName: backupKey,
+        lastModified: new Date('2023-12-01T10:05:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        manifest
+      });
+    });
+
+    it('should restore into a shadow database and swap its tables in', async () => {
+      await restoreCommand(options);
+
+      expect(mockMySQLManager.createDatabase).toHaveBeenCalledWith('shop_restoring');
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledWith(mockBackupStream, 2048, 'shop_restoring', mockProgressBar, expect.objectContaining({
+        schemas: undefined
+      }));
+      // The previous old tables go before the swap makes new ones
+      expect(mockMySQLManager.dropDatabase).toHaveBeenCalledWith('shop_old');
+      expect(mockMySQLManager.swapTables).toHaveBeenCalledWith('shop_restoring', 'shop', 'shop_old');
+      expect(mockMySQLManager.scheduleDatabaseDrop).toHaveBeenCalledWith('shop_old', 'shop', 24);
+      expect(mockMySQLManager.dropDatabase).not.toHaveBeenCalledWith('shop_restoring');
+      expect(consoleLogSpy).toHaveBeenCalledWith('  Atomic: replaced tables are kept in shop_old for 24 hours');
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should point a dump that switches to its schema at the shadow database', async () => {
+      mockS3Manager.getBackupInfo.mockResolvedValue({
+        key: backupKey,
+        displayName: backupKey,
+        lastModified: new Date('2023-12-01T10:05:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        manifest: { ...manifest, mysqldumpFlags: ['--single-transaction', '--databases', 'shop'] }
+      });
+
+      await restoreCommand({ ...options, keepOld: '0' });
+
+      expect(mockMySQLManager.restoreBackupStream.mock.calls[0][4]?.schemas).toEqual({ map: { shop: 'shop_restoring' } });
+      expect(mockMySQLManager.scheduleDatabaseDrop).not.toHaveBeenCalled();
+      expect(mockMySQLManager.dropDatabase).toHaveBeenLastCalledWith('shop_old');
+    });
+
+    it('should leave the target alone and drop the shadow database when tables are missing', async () => {
+      mockMySQLManager.listTables.mockResolvedValue(['orders']);
+
+      await restoreCommand(options);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', 'Restored tables don\'t match the backup (users is missing); \'shop\' was left unchanged');
+      expect(mockMySQLManager.swapTables).not.toHaveBeenCalled();
+      expect(mockMySQLManager.dropDatabase).toHaveBeenCalledWith('shop_restoring');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should refuse before loading when tables left in place reference replaced ones', async () => {
+      mockMySQLManager.listReferencingForeignKeys.mockResolvedValue([{
+        name: 'fk_order',
+        table: { schema: 'billing', name: 'invoices' },
+        columns: ['order_id'],
+        referencedTable: { schema: 'shop', name: 'orders' },
+        referencedColumns: ['id']
+      }]);
+
+      await restoreCommand({ ...options, tables: 'orders' });
+
+      expect(mockMySQLManager.listReferencingForeignKeys).toHaveBeenCalledWith('shop', ['orders']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', 'billing.invoices (fk_order) references tables the swap replaces, '
+        + 'and would follow them into \'shop_old\'; restore the referencing tables too, drop the foreign key or restore without --atomic');
+      expect(mockMySQLManager.createDatabase).not.toHaveBeenCalledWith('shop_restoring');
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a shadow database that already exists', async () => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+
+      await restoreCommand(options);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', expect.stringContaining('Shadow database \'shop_restoring\' already exists'));
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(mockMySQLManager.dropDatabase).not.toHaveBeenCalled();
+    });
+
+    it('should reject --keep-old without --atomic and with a bad value', async () => {
+      await restoreCommand({ ...options, atomic: false, keepOld: '2' });
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', '--keep-old only applies to --atomic restores');
+
+      await restoreCommand({ ...options, keepOld: '-1' });
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', expect.stringContaining('Invalid --keep-old value \'-1\''));
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pre-restore snapshot', () => {
+    const backupKey = 'shop-2023-12-01T10-00-00-000Z.sql.gz';
+    const snapshotKey = 'pre-restore/shop-2023-12-02T09-00-00-000Z.sql.gz';
+    const options: RestoreOptions = { interactive: false, backup: backupKey, database: 'shop', force: true, snapshot: true };
+
+    beforeEach(() => {
+      mockMySQLManager.databaseExists.mockResolvedValue(true);
+      (createPreRestoreSnapshot as jest.Mock).mockResolvedValue(snapshotKey);
+    });
+
+    it('should snapshot the target before restoring and print its key', async () => {
+      await restoreCommand(options);
+
+      expect(createPreRestoreSnapshot).toHaveBeenCalledWith(mockConfig, mockS3Manager, 'shop', ['shop'], undefined);
+      expect((createPreRestoreSnapshot as jest.Mock).mock.invocationCallOrder[0])
+        .toBeLessThan(mockMySQLManager.restoreBackupStream.mock.invocationCallOrder[0]);
+      expect(consoleLogSpy).toHaveBeenCalledWith(`  Pre-restore snapshot: s3://test-bucket/${snapshotKey}`);
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should snapshot every schema a multi-schema backup restores into and roll them all back', async () => {
+      mockS3Manager.getBackupInfo.mockResolvedValue({
+        key: backupKey,
+        displayName: backupKey,
+        lastModified: new Date('2023-12-01T10:05:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        manifest: { schemas: ['shop', 'crm'], tables: [], mysqldumpFlags: ['--databases', 'shop', 'crm'] } as unknown as BackupManifest
+      });
+      mockMySQLManager.restoreBackupStream.mockRejectedValueOnce(new Error('MySQL restore failed at line 12: Duplicate entry'));
+
+      await restoreCommand(options);
+
+      expect(createPreRestoreSnapshot).toHaveBeenCalledWith(mockConfig, mockS3Manager, 'shop', ['shop', 'crm'], undefined);
+      expect(consoleLogSpy).toHaveBeenCalledWith(`ℹ 'shop', 'crm' were snapshotted before the restore: s3://test-bucket/${snapshotKey}`);
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        `Roll it back with: mysqldump-s3 restore --backup "${snapshotKey}" --database "shop" --non-interactive --force`
+      );
+    });
+
+    it('should snapshot the schemas a --map restore writes rather than the target', async () => {
+      mockS3Manager.getBackupInfo.mockResolvedValue({
+        key: backupKey,
+        displayName: backupKey,
+        lastModified: new Date('2023-12-01T10:05:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        manifest: { schemas: ['shop', 'crm'], tables: [], mysqldumpFlags: ['--databases', 'shop', 'crm'] } as unknown as BackupManifest
+      });
+      // shop_copy doesn't exist yet, so there is nothing of it to keep
+      mockMySQLManager.databaseExists.mockImplementation(async (name: string) => name !== 'shop_copy');
+
+      await restoreCommand({ ...options, map: 'shop=shop_copy', schemas: 'shop' });
+
+      expect(createPreRestoreSnapshot).not.toHaveBeenCalled();
+
+      await restoreCommand({ ...options, map: 'shop=shop_copy' });
+
+      expect(createPreRestoreSnapshot).toHaveBeenCalledWith(mockConfig, mockS3Manager, 'shop', ['crm'], undefined);
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a snapshot of a --map restore without the backup\'s manifest', async () => {
+      await restoreCommand({ ...options, map: 'shop=shop_copy' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', expect.stringContaining('needs the backup\'s manifest'));
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+    });
+
+    it('should take the snapshot when the configuration requires it', async () => {
+      mockConfigManager.loadConfig.mockReturnValue({ ...mockConfig, preRestoreSnapshot: true } as any);
+
+      await restoreCommand({ ...options, snapshot: undefined });
+
+      expect(createPreRestoreSnapshot).toHaveBeenCalled();
+    });
+
+    it('should not restore when the snapshot fails', async () => {
+      (createPreRestoreSnapshot as jest.Mock).mockRejectedValue(new Error('Access denied'));
+
+      await restoreCommand(options);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Restore failed:', 'Pre-restore snapshot failed, so nothing was restored: Access denied');
+      expect(mockMySQLManager.restoreBackupStream).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should print the rollback command when a non-interactive restore fails', async () => {
+      mockMySQLManager.restoreBackupStream.mockRejectedValueOnce(new Error('MySQL restore failed at line 12: Duplicate entry'));
+
+      await restoreCommand(options);
+
+      expect(consoleLogSpy).toHaveBeenCalledWith(
+        `Roll it back with: mysqldump-s3 restore --backup "${snapshotKey}" --database "shop" --non-interactive --force`
+      );
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenCalledTimes(1);
+    });
+
+    it('should roll back to the snapshot when accepted after an interactive restore fails', async () => {
+      (inquirer.prompt as unknown as jest.Mock)
+        .mockResolvedValueOnce({ backup: mockBackups[0].key })
+        .mockResolvedValueOnce({ database: 'shop' })
+        .mockResolvedValueOnce({ rollback: true });
+      mockMySQLManager.restoreBackupStream.mockRejectedValueOnce(new Error('MySQL restore failed at line 12: Duplicate entry'));
+      mockS3Manager.getBackupInfo.mockImplementation(async (key: string) => ({
+        key,
+        displayName: key,
+        lastModified: new Date('2023-12-02T10:00:00Z'),
+        size: 2048,
+        compression: 'gzip',
+        sha256: key === snapshotKey ? 'abc123' : undefined
+      }));
+
+      await restoreCommand({ interactive: true, force: true, snapshot: true });
+
+      expect(mockS3Manager.verifyBackupChecksum).toHaveBeenCalledWith(snapshotKey, 'abc123', mockProgressBar);
+      expect(mockS3Manager.downloadFile).not.toHaveBeenCalled();
+      expect(mockS3Manager.getBackupStream).toHaveBeenLastCalledWith(snapshotKey);
+      expect(mockMySQLManager.restoreBackupStream).toHaveBeenLastCalledWith(mockBackupStream, 2048, 'shop', mockProgressBar, expect.objectContaining({
+        compression: 'gzip',
+        expectedSha256: 'abc123'
+      }));
+      expect(consoleLogSpy).toHaveBeenCalledWith('✓ \'shop\' rolled back to the pre-restore snapshot');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { planPrune, validateRetentionConfig } from '../modules/retention';
+import { S3Manager } from '../modules/s3';
+import { BackupInfo, RetentionConfig } from '../types';
+
+describe('retention', () => {
+  const s3Manager = new S3Manager({ bucket: 'test-bucket', accessKeyId: 'key', secretAccessKey: 'secret' });
+  const parseKey = (key: string) => s3Manager.parseBackupKey(key);
+  const now = new Date('2024-03-31T12:00:00Z');
+
+  const backup = (name: string, iso: string): BackupInfo => ({
+    key: `${name}-${iso.replace(/[:.]/g, '-')}.sql.gz`,
+    displayName: name,
+    lastModified: new Date(iso),
+    size: 100
+  });
+
+  // One backup per day at 02:00 for the given number of days before `now`
+  const daily = (name: string, days: number): BackupInfo[] =>
+    Array.from({ length: days }, (_, i) => backup(name, new Date(Date.UTC(2024, 2, 31 - i, 2)).toISOString()));
+
+  const kept = (backups: BackupInfo[], retention: RetentionConfig): string[] =>
+    planPrune(backups, retention, parseKey, now)
+      .filter(decision => decision.keep)
+      .map(decision => decision.date.toISOString().slice(0, 10));
+
+  it('should keep the last N backups', () => {
+    expect(kept(daily('db', 10), { keepLast: 3 })).toEqual(['2024-03-31', '2024-03-30', '2024-03-29']);
+  });
+
+  it('should keep the newest backup of each of the last N days', () => {
+    const backups = [
+      backup('db', '2024-03-31T02:00:00.000Z'),
+      backup('db', '2024-03-31T14:00:00.000Z'),
+      backup('db', '2024-03-30T02:00:00.000Z'),
+      backup('db', '2024-03-29T02:00:00.000Z')
+    ];
+
+    const decisions = planPrune(backups, { keepDaily: 2 }, parseKey, now);
+
+    expect(decisions.filter(d => d.keep).map(d => d.date.toISOString())).toEqual([
+      '2024-03-31T14:00:00.000Z',
+      '2024-03-30T02:00:00.000Z'
+    ]);
+    expect(decisions[0].reasons).toEqual(['newest', 'daily']);
+  });
+
+  it('should combine daily, weekly, monthly and yearly rules', () => {
+    const backups = [
+      ...daily('db', 70),
+      backup('db', '2023-06-15T02:00:00.000Z'),
+      backup('db', '2022-06-15T02:00:00.000Z')
+    ];
+
+    const result = kept(backups, { keepDaily: 2, keepWeekly: 3, keepMonthly: 3, keepYearly: 3 });
+
+    expect(result).toEqual([
+      '2024-03-31', // newest, daily, weekly (Sunday ends ISO week 13), monthly, yearly
+      '2024-03-30', // daily
+      '2024-03-24', // weekly
+      '2024-03-17', // weekly
+      '2024-02-29', // monthly
+      '2024-01-31', // monthly
+      '2023-06-15', // yearly
+      '2022-06-15' // yearly
+    ]);
+  });
+
+  it('should delete backups older than maxAgeDays even if a rule keeps them', () => {
+    expect(kept(daily('db', 10), { keepLast: 10, maxAgeDays: 5 })).toHaveLength(5);
+  });
+
+  it('should keep everything within maxAgeDays when it is the only rule', () => {
+    expect(kept(daily('db', 10), { maxAgeDays: 3 })).toEqual(['2024-03-31', '2024-03-30', '2024-03-29']);
+  });
+
+  it('should never delete the newest backup of a name', () => {
+    const decisions = planPrune([backup('db', '2020-01-01T00:00:00.000Z')], { maxAgeDays: 1 }, parseKey, now);
+
+    expect(decisions[0]).toEqual(expect.objectContaining({ keep: true, reasons: ['newest'] }));
+  });
+
+  it('should apply the rules per backup name and directory', () => {
+    const backups = [...daily('shop', 3), ...daily('billing', 3), ...daily('staging/shop', 3)];
+
+    const decisions = planPrune(backups, { keepLast: 1 }, parseKey, now);
+
+    expect(decisions.filter(d => d.keep).map(d => d.group)).toEqual(['shop', 'billing', 'staging/shop']);
+    expect(decisions.filter(d => !d.keep)).toHaveLength(6);
+  });
+
+  it('should date custom-named backups by their last modification', () => {
+    const custom = { key: 'nightly.sql.gz', displayName: 'nightly.sql.gz', lastModified: new Date('2024-03-01T00:00:00Z'), size: 1 };
+
+    const [decision] = planPrune([custom], { keepLast: 1 }, parseKey, now);
+
+    expect(decision).toEqual(expect.objectContaining({ group: 'nightly', date: custom.lastModified, keep: true }));
+  });
+
+  it('should require at least one rule', () => {
+    expect(() => planPrune(daily('db', 1), {}, parseKey, now)).toThrow('No retention rules configured');
+  });
+
+  describe('validateRetentionConfig', () => {
+    it('should reject invalid values', () => {
+      expect(() => validateRetentionConfig({ keepLast: -1, keepDaily: 1.5, maxAgeDays: 0 })).toThrow(
+        'Retention: keepLast must be a non-negative integer\n' +
+        'Retention: keepDaily must be a non-negative integer\n' +
+        'Retention: maxAgeDays must be a positive number'
+      );
+    });
+
+    it('should require rules for autoPrune', () => {
+      expect(() => validateRetentionConfig({ autoPrune: true })).toThrow('Retention: autoPrune needs at least one keep rule or maxAgeDays');
+      expect(() => validateRetentionConfig({ autoPrune: true, keepDaily: 7 })).not.toThrow();
+    });
+  });
+});
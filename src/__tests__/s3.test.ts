@@ -1,7 +1,8 @@
-import { S3Client, ListObjectsV2Command, HeadObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, ListObjectsV2Command, HeadObjectCommand, PutObjectCommand, DeleteObjectsCommand } from '@aws-sdk/client-s3';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import { Readable, Writable } from 'stream';
-import { S3Config } from '../types';
+import { BackupManifest, S3Config } from '../types';
 
 // Store mock upload for test access
 let mockUploadInstance: { on: jest.Mock; done: jest.Mock };
@@ -159,6 +160,206 @@ describe('S3Manager', () => {
     });
   });
 
+  describe('uploadStream', () => {
+    const testKey = 'backups/stream.sql.gz';
+
+    // Upload mock that drains the body like the real multipart upload does
+    const mockDrainingUpload = (abort: jest.Mock = jest.fn().mockResolvedValue(undefined)) => {
+      const { Upload } = require('@aws-sdk/lib-storage');
+      Upload.mockImplementationOnce(({ params }: { params: { Body: Readable } }) => ({
+        on: jest.fn().mockReturnThis(),
+        abort,
+        done: jest.fn().mockImplementation(async () => {
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          for await (const _chunk of params.Body) { /* drain */ }
+          return {};
+        })
+      }));
+      return abort;
+    };
+
+    it('should upload the stream and return its size and checksum', async () => {
+      mockDrainingUpload();
+      const progressCallback = jest.fn();
+
+      const uploaded = await s3Manager.uploadStream(
+        Readable.from([Buffer.alloc(100), Buffer.alloc(50)]),
+        testKey,
+        progressCallback
+      );
+
+      expect(uploaded).toEqual({
+        size: 150,
+        sha256: createHash('sha256').update(Buffer.alloc(150)).digest('hex')
+      });
+      expect(progressCallback).toHaveBeenLastCalledWith({ loaded: 150, total: 150, percentage: 100 });
+    });
+
+    it('should pass content type and metadata to the upload', async () => {
+      mockDrainingUpload();
+      const { Upload } = require('@aws-sdk/lib-storage');
+
+      await s3Manager.uploadStream(Readable.from([Buffer.from('data')]), 'db.sql.zst', undefined, {
+        contentType: 'application/zstd',
+        metadata: { compression: 'zstd' }
+      });
+
+      expect(Upload).toHaveBeenCalledWith(expect.objectContaining({
+        params: expect.objectContaining({
+          ContentType: 'application/zstd',
+          Metadata: { compression: 'zstd' },
+          ChecksumAlgorithm: 'SHA256'
+        })
+      }));
+    });
+
+    it('should configure Upload with a part size suitable for large streams', async () => {
+      mockDrainingUpload();
+      const { Upload } = require('@aws-sdk/lib-storage');
+
+      await s3Manager.uploadStream(Readable.from([Buffer.from('data')]), testKey);
+
+      expect(Upload).toHaveBeenCalledWith(expect.objectContaining({
+        params: expect.objectContaining({
+          Bucket: 'test-bucket',
+          Key: testKey,
+          ContentType: 'application/gzip'
+        }),
+        partSize: 64 * 1024 * 1024,
+        leavePartsOnError: false
+      }));
+    });
+
+    it('should abort the multipart upload when the source stream fails', async () => {
+      const abort = mockDrainingUpload();
+      const source = new Readable({ read() {} });
+      source.push(Buffer.alloc(10));
+      setImmediate(() => source.destroy(new Error('mysqldump exited with code 2: Access denied')));
+
+      await expect(s3Manager.uploadStream(source, testKey))
+        .rejects.toThrow('Backup stream failed, multipart upload aborted: mysqldump exited with code 2: Access denied');
+      expect(abort).toHaveBeenCalled();
+    });
+
+    it('should destroy the source when the upload fails', async () => {
+      const { Upload } = require('@aws-sdk/lib-storage');
+      Upload.mockImplementationOnce(() => ({
+        on: jest.fn().mockReturnThis(),
+        abort: jest.fn().mockResolvedValue(undefined),
+        done: jest.fn().mockRejectedValue(new Error('Network error'))
+      }));
+      const source = new Readable({ read() {} });
+
+      await expect(s3Manager.uploadStream(source, testKey))
+        .rejects.toThrow('Failed to upload to S3: Error: Network error');
+      expect(source.destroyed).toBe(true);
+    });
+  });
+
+  describe('manifests', () => {
+    const backupKey = 'mydb-2023-12-01T10-30-00-000Z.sql.gz';
+    const manifest = {
+      formatVersion: 1,
+      toolVersion: '1.0.0',
+      backupKey,
+      serverVersion: '8.0.36',
+      schemas: ['mydb'],
+      tables: [{ schema: 'mydb', name: 'users', approxRows: 10, dataSize: 16384, indexSize: 0 }],
+      mysqldumpFlags: ['--single-transaction', 'mydb'],
+      compression: { codec: 'gzip', level: 6 },
+      encrypted: false,
+      uncompressedSize: 4096,
+      compressedSize: 1024,
+      sha256: 'abc123',
+      startedAt: '2023-12-01T10:30:00.000Z',
+      finishedAt: '2023-12-01T10:30:05.000Z'
+    } as BackupManifest;
+
+    it('should upload the manifest next to the backup', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({});
+
+      await s3Manager.uploadManifest(backupKey, manifest);
+
+      expect(mockS3Client.send).toHaveBeenCalledWith(expect.any(PutObjectCommand));
+      expect(PutObjectCommand).toHaveBeenCalledWith(expect.objectContaining({
+        Bucket: 'test-bucket',
+        Key: `${backupKey}.manifest.json`,
+        ContentType: 'application/json'
+      }));
+    });
+
+    it('should read and parse the manifest', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({
+        Body: { transformToString: jest.fn().mockResolvedValue(JSON.stringify(manifest)) }
+      });
+
+      await expect(s3Manager.getManifest(backupKey)).resolves.toEqual(manifest);
+    });
+
+    it('should return null for backups without a manifest', async () => {
+      (mockS3Client.send as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('missing'), { name: 'NoSuchKey' }));
+
+      await expect(s3Manager.getManifest(backupKey)).resolves.toBeNull();
+    });
+
+    it('should attach manifests when listing with withManifests', async () => {
+      (mockS3Client.send as jest.Mock)
+        .mockResolvedValueOnce({
+          Contents: [
+            { Key: backupKey, LastModified: new Date('2023-12-01'), Size: 1024 },
+            { Key: `${backupKey}.manifest.json`, LastModified: new Date('2023-12-01'), Size: 512 }
+          ]
+        })
+        .mockResolvedValueOnce({
+          Body: { transformToString: jest.fn().mockResolvedValue(JSON.stringify(manifest)) }
+        });
+
+      const backups = await s3Manager.listBackups(undefined, { withManifests: true });
+
+      expect(backups).toHaveLength(1);
+      expect(backups[0].manifest).toEqual(manifest);
+    });
+  });
+
+  describe('getBackupStream', () => {
+    it('should return the object body and its content length', async () => {
+      const body = Readable.from(['data']);
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({ Body: body, ContentLength: 4 });
+
+      const result = await s3Manager.getBackupStream('backups/test.sql.gz');
+
+      expect(result).toEqual({ stream: body, size: 4 });
+      expect(mockS3Client.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw when the response has no body', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({ ContentLength: 0 });
+
+      await expect(s3Manager.getBackupStream('backups/test.sql.gz'))
+        .rejects.toThrow('Failed to download from S3: Error: Empty response body from S3');
+    });
+  });
+
+  describe('verifyBackupChecksum', () => {
+    const content = 'backup contents';
+    const sha256 = createHash('sha256').update(content).digest('hex');
+
+    it('should read the object through a hash without writing it anywhere', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({ Body: Readable.from([Buffer.from(content)]), ContentLength: content.length });
+      const progress = jest.fn();
+
+      await expect(s3Manager.verifyBackupChecksum('backups/test.sql.gz', sha256, progress)).resolves.toEqual({ size: content.length, sha256 });
+      expect(progress).toHaveBeenLastCalledWith({ loaded: content.length, total: content.length, percentage: 100 });
+      expect(fs.createWriteStream).not.toHaveBeenCalled();
+    });
+
+    it('should reject a mismatching object', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({ Body: Readable.from([Buffer.from('corrupted')]), ContentLength: 9 });
+
+      await expect(s3Manager.verifyBackupChecksum('backups/test.sql.gz', sha256)).rejects.toThrow('Checksum mismatch');
+    });
+  });
+
   describe('downloadFile', () => {
     const testKey = 'backups/test.sql.gz';
     const outputPath = '/tmp/output.sql.gz';
@@ -226,6 +427,28 @@ describe('S3Manager', () => {
       }));
     });
 
+    it('should verify the download against the expected checksum', async () => {
+      const data = Buffer.from('backup data');
+      const sha256 = createHash('sha256').update(data).digest('hex');
+      (mockS3Client.send as jest.Mock)
+        .mockResolvedValueOnce({ ContentLength: data.length })
+        .mockResolvedValueOnce({ Body: Readable.from([data]) });
+      (fs.createWriteStream as jest.Mock).mockReturnValue(new Writable({ write(chunk, enc, cb) { cb(); } }));
+
+      await expect(s3Manager.downloadFile(testKey, outputPath, undefined, { expectedSha256: sha256 }))
+        .resolves.toEqual({ size: data.length, sha256 });
+    });
+
+    it('should reject a download that does not match the expected checksum', async () => {
+      (mockS3Client.send as jest.Mock)
+        .mockResolvedValueOnce({ ContentLength: 11 })
+        .mockResolvedValueOnce({ Body: Readable.from([Buffer.from('backup dat4')]) });
+      (fs.createWriteStream as jest.Mock).mockReturnValue(new Writable({ write(chunk, enc, cb) { cb(); } }));
+
+      await expect(s3Manager.downloadFile(testKey, outputPath, undefined, { expectedSha256: 'deadbeef' }))
+        .rejects.toThrow('Checksum mismatch: expected SHA-256 deadbeef');
+    });
+
     it('should handle missing response body', async () => {
       (mockS3Client.send as jest.Mock)
         .mockResolvedValueOnce({ ContentLength: 100 })
@@ -311,6 +534,59 @@ describe('S3Manager', () => {
       expect(mockS3Client.send as jest.Mock).toHaveBeenCalledWith(expect.any(ListObjectsV2Command));
     });
 
+    it('should include backups written with any codec', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({
+        Contents: [
+          { Key: 'db-2023-01-01T10-00-00-000Z.sql.zst', LastModified: new Date('2023-01-01'), Size: 1 },
+          { Key: 'db-2023-01-02T10-00-00-000Z.sql.br', LastModified: new Date('2023-01-02'), Size: 1 },
+          { Key: 'db-2023-01-03T10-00-00-000Z.sql', LastModified: new Date('2023-01-03'), Size: 1 },
+          { Key: 'notes.sql.txt', LastModified: new Date('2023-01-04'), Size: 1 }
+        ]
+      });
+
+      const backups = await s3Manager.listBackups();
+
+      expect(backups.map(b => [b.displayName, b.compression])).toEqual([
+        ['db (2023-01-03 10:00:00)', 'none'],
+        ['db (2023-01-02 10:00:00)', 'brotli'],
+        ['db (2023-01-01 10:00:00)', 'zstd']
+      ]);
+    });
+
+    it('should include encrypted backups', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({
+        Contents: [
+          { Key: 'db-2023-01-01T10-00-00-000Z.sql.gz.enc', LastModified: new Date('2023-01-01'), Size: 1 },
+          { Key: 'db-2023-01-02T10-00-00-000Z.sql.zst', LastModified: new Date('2023-01-02'), Size: 1 }
+        ]
+      });
+
+      const backups = await s3Manager.listBackups();
+
+      expect(backups.map(b => [b.displayName, b.compression, b.encrypted])).toEqual([
+        ['db (2023-01-02 10:00:00)', 'zstd', false],
+        ['db (2023-01-01 10:00:00)', 'gzip', true]
+      ]);
+    });
+
+    it('should read schema- and data-only backups\' mode from their keys', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({
+        Contents: [
+          { Key: 'db-2023-01-01T10-00-00-000Z.schema.sql.gz', LastModified: new Date('2023-01-01'), Size: 1 },
+          { Key: 'db-2023-01-02T10-00-00-000Z.data.sql.zst.enc', LastModified: new Date('2023-01-02'), Size: 1 },
+          { Key: 'db-2023-01-03T10-00-00-000Z.sql.gz', LastModified: new Date('2023-01-03'), Size: 1 }
+        ]
+      });
+
+      const backups = await s3Manager.listBackups();
+
+      expect(backups.map(b => [b.displayName, b.mode, b.compression])).toEqual([
+        ['db (2023-01-03 10:00:00)', undefined, 'gzip'],
+        ['db (2023-01-02 10:00:00, data only)', 'data', 'zstd'],
+        ['db (2023-01-01 10:00:00, schema only)', 'schema', 'gzip']
+      ]);
+    });
+
     it('should handle empty bucket', async () => {
       (mockS3Client.send as jest.Mock).mockResolvedValueOnce({ Contents: [] });
 
@@ -363,6 +639,72 @@ describe('S3Manager', () => {
         Prefix: 'prod/'
       });
     });
+
+    it('should follow continuation tokens past the first 1000 objects', async () => {
+      (mockS3Client.send as jest.Mock)
+        .mockResolvedValueOnce({
+          Contents: [{ Key: 'db-2023-01-02T10-00-00-000Z.sql.gz', LastModified: new Date('2023-01-02'), Size: 1 }],
+          IsTruncated: true,
+          NextContinuationToken: 'page-2'
+        })
+        .mockResolvedValueOnce({
+          Contents: [{ Key: 'db-2023-01-01T10-00-00-000Z.sql.gz', LastModified: new Date('2023-01-01'), Size: 1 }],
+          IsTruncated: false
+        });
+
+      const backups = await s3Manager.listBackups('db');
+
+      expect(backups.map(b => b.key)).toEqual([
+        'db-2023-01-02T10-00-00-000Z.sql.gz',
+        'db-2023-01-01T10-00-00-000Z.sql.gz'
+      ]);
+      expect(ListObjectsV2Command).toHaveBeenNthCalledWith(2, {
+        Bucket: 'test-bucket',
+        Prefix: 'db',
+        ContinuationToken: 'page-2'
+      });
+    });
+  });
+
+  describe('deleteBackups', () => {
+    it('should delete each backup together with its manifest', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({});
+
+      await s3Manager.deleteBackups(['a.sql.gz', 'b.sql.gz']);
+
+      expect(mockS3Client.send as jest.Mock).toHaveBeenCalledWith(expect.any(DeleteObjectsCommand));
+      expect(DeleteObjectsCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Delete: {
+          Objects: [
+            { Key: 'a.sql.gz' },
+            { Key: 'a.sql.gz.manifest.json' },
+            { Key: 'b.sql.gz' },
+            { Key: 'b.sql.gz.manifest.json' }
+          ],
+          Quiet: true
+        }
+      });
+    });
+
+    it('should delete in batches of 1000 objects', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValue({});
+      const keys = Array.from({ length: 600 }, (_, i) => `db-${i}.sql.gz`);
+
+      await s3Manager.deleteBackups(keys);
+
+      expect(mockS3Client.send as jest.Mock).toHaveBeenCalledTimes(2);
+      expect((DeleteObjectsCommand as unknown as jest.Mock).mock.calls[1][0].Delete.Objects).toHaveLength(200);
+    });
+
+    it('should throw when S3 reports objects it could not delete', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({
+        Errors: [{ Key: 'a.sql.gz', Message: 'Access Denied' }]
+      });
+
+      await expect(s3Manager.deleteBackups(['a.sql.gz']))
+        .rejects.toThrow('Failed to delete 1 object from S3: a.sql.gz: Access Denied');
+    });
   });
 
   describe('backupExists', () => {
@@ -421,8 +763,34 @@ describe('S3Manager', () => {
         key: testKey,
         lastModified: new Date('2023-12-01'),
         size: 2048,
-        displayName: 'mydb (2023-12-01 10:30:00)'
+        displayName: 'mydb (2023-12-01 10:30:00)',
+        compression: 'gzip',
+        encrypted: false
+      });
+    });
+
+    it('should take the checksum from object metadata', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({
+        LastModified: new Date('2023-12-01'),
+        ContentLength: 2048,
+        Metadata: { compression: 'gzip', sha256: 'abc123' }
       });
+
+      const info = await s3Manager.getBackupInfo(testKey);
+
+      expect(info.sha256).toBe('abc123');
+    });
+
+    it('should prefer the codec recorded in object metadata', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({
+        LastModified: new Date('2023-12-01'),
+        ContentLength: 2048,
+        Metadata: { compression: 'zstd' }
+      });
+
+      const info = await s3Manager.getBackupInfo('custom-name.sql.gz');
+
+      expect(info.compression).toBe('zstd');
     });
 
     it('should handle missing content length', async () => {
@@ -445,6 +813,121 @@ describe('S3Manager', () => {
     });
   });
 
+  describe('parallel backups', () => {
+    const backupKey = 'shop-2023-12-01T10-30-00-000Z.parallel';
+    const manifest = {
+      formatVersion: 1,
+      toolVersion: '1.0.0',
+      backupKey,
+      serverVersion: '8.0.36',
+      schemas: ['shop'],
+      tables: [],
+      mysqldumpFlags: [],
+      compression: { codec: 'zstd', level: 3 },
+      encrypted: true,
+      uncompressedSize: 4096,
+      compressedSize: 300,
+      startedAt: '2023-12-01T10:30:00.000Z',
+      finishedAt: '2023-12-01T10:31:00.000Z',
+      engine: 'parallel',
+      chunks: []
+    } as BackupManifest;
+
+    it('should list a parallel backup once, sized by its chunks', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({
+        Contents: [
+          { Key: `${backupKey}/shop/orders.sql.zst.enc`, LastModified: new Date('2023-12-01T10:30:30Z'), Size: 200 },
+          { Key: `${backupKey}/shop/users.sql.zst.enc`, LastModified: new Date('2023-12-01T10:30:40Z'), Size: 90 },
+          { Key: `${backupKey}/shop.sql.zst.enc`, LastModified: new Date('2023-12-01T10:30:50Z'), Size: 10 },
+          { Key: `${backupKey}.manifest.json`, LastModified: new Date('2023-12-01T10:31:00Z'), Size: 512 },
+          { Key: 'shop-2023-11-30T10-30-00-000Z.sql.gz', LastModified: new Date('2023-11-30'), Size: 1024 },
+          // Chunks of a backup that never finished have no manifest
+          { Key: 'shop-2023-12-02T10-30-00-000Z.parallel/shop/orders.sql.gz', LastModified: new Date('2023-12-02'), Size: 50 }
+        ]
+      });
+
+      const backups = await s3Manager.listBackups();
+
+      expect(backups).toEqual([
+        {
+          key: backupKey,
+          lastModified: new Date('2023-12-01T10:31:00Z'),
+          size: 300,
+          displayName: 'shop (2023-12-01 10:30:00)',
+          compression: 'zstd',
+          encrypted: true
+        },
+        expect.objectContaining({ key: 'shop-2023-11-30T10-30-00-000Z.sql.gz' })
+      ]);
+    });
+
+    it('should take the backup info from the manifest', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({
+        Body: { transformToString: jest.fn().mockResolvedValue(JSON.stringify(manifest)) }
+      });
+
+      const info = await s3Manager.getBackupInfo(backupKey);
+
+      expect(info).toEqual({
+        key: backupKey,
+        lastModified: new Date('2023-12-01T10:31:00.000Z'),
+        size: 300,
+        displayName: 'shop (2023-12-01 10:30:00)',
+        compression: 'zstd',
+        encrypted: true,
+        manifest
+      });
+    });
+
+    it('should fail when the manifest is missing', async () => {
+      (mockS3Client.send as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('missing'), { name: 'NoSuchKey' }));
+
+      await expect(s3Manager.getBackupInfo(backupKey))
+        .rejects.toThrow(`Failed to get backup info: parallel backup ${backupKey} has no manifest`);
+    });
+
+    it('should check for the manifest when asked whether it exists', async () => {
+      (mockS3Client.send as jest.Mock).mockResolvedValueOnce({});
+
+      await expect(s3Manager.backupExists(backupKey)).resolves.toBe(true);
+      expect(HeadObjectCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: `${backupKey}.manifest.json` });
+    });
+
+    it('should delete the chunks along with the manifest', async () => {
+      (mockS3Client.send as jest.Mock)
+        .mockResolvedValueOnce({
+          Contents: [
+            { Key: `${backupKey}/shop/orders.sql.zst.enc` },
+            { Key: `${backupKey}/shop.sql.zst.enc` }
+          ]
+        })
+        .mockResolvedValueOnce({});
+
+      await s3Manager.deleteBackups([backupKey]);
+
+      expect(ListObjectsV2Command).toHaveBeenCalledWith(expect.objectContaining({ Prefix: `${backupKey}/` }));
+      expect(DeleteObjectsCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Delete: {
+          Objects: [
+            { Key: backupKey },
+            { Key: `${backupKey}.manifest.json` },
+            { Key: `${backupKey}/shop/orders.sql.zst.enc` },
+            { Key: `${backupKey}/shop.sql.zst.enc` }
+          ],
+          Quiet: true
+        }
+      });
+    });
+
+    it('should parse the name and timestamp of a parallel backup key', () => {
+      expect(s3Manager.parseBackupKey(`prod/${backupKey}`)).toEqual({
+        name: 'prod/shop',
+        timestamp: new Date('2023-12-01T10:30:00.000Z')
+      });
+    });
+  });
+
   describe('formatFileSize', () => {
     it('should format bytes correctly', () => {
       expect(s3Manager.formatFileSize(0)).toBe('0 Bytes');
@@ -485,4 +968,25 @@ describe('S3Manager', () => {
       expect(displayName).toBe('');
     });
   });
-});
\ No newline at end of file
+
+  describe('parseBackupKey', () => {
+    it('should split a timestamped key into name and date', () => {
+      expect(s3Manager.parseBackupKey('prod/mydb-2023-12-01T10-30-00-000Z.sql.zst.enc')).toEqual({
+        name: 'prod/mydb',
+        timestamp: new Date('2023-12-01T10:30:00.000Z')
+      });
+    });
+
+    it('should use the whole stem for custom names', () => {
+      expect(s3Manager.parseBackupKey('nightly.sql.gz')).toEqual({ name: 'nightly' });
+    });
+
+    it('should keep the mode marker in the name so prune groups modes apart', () => {
+      expect(s3Manager.parseBackupKey('mydb-2023-12-01T10-30-00-000Z.schema.sql.gz')).toEqual({
+        name: 'mydb.schema',
+        timestamp: new Date('2023-12-01T10:30:00.000Z')
+      });
+      expect(s3Manager.parseBackupKey('fixtures.data.parallel')).toEqual({ name: 'fixtures.data' });
+    });
+  });
+});
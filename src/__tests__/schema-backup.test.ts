@@ -82,6 +82,7 @@ describe('Schema-specific backup functionality', () => {
       
       const mockGzip = {
         on: jest.fn(),
+        end: jest.fn(),
         pipe: jest.fn().mockReturnValue(mockOutput)
       };
       
@@ -134,6 +135,7 @@ describe('Schema-specific backup functionality', () => {
       
       const mockGzip = {
         on: jest.fn(),
+        end: jest.fn(),
         pipe: jest.fn().mockReturnValue(mockOutput)
       };
       
@@ -182,6 +184,7 @@ describe('Schema-specific backup functionality', () => {
       
       const mockGzip = {
         on: jest.fn(),
+        end: jest.fn(),
         pipe: jest.fn().mockReturnValue(mockOutput)
       };
       
@@ -228,6 +231,7 @@ describe('Schema-specific backup functionality', () => {
       
       const mockGzip = {
         on: jest.fn(),
+        end: jest.fn(),
         pipe: jest.fn().mockReturnValue(mockOutput)
       };
       
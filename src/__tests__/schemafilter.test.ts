@@ -0,0 +1,80 @@
+import { Readable } from 'stream';
+import { describeSchemaSelection, parseSchemaSelection, SqlSchemaFilter } from '../modules/schemafilter';
+import { SqlStatementSplitter } from '../modules/sqlsplitter';
+import { SchemaSelection } from '../types';
+
+describe('schema filter', () => {
+  const filterDump = async (dump: string, selection: SchemaSelection): Promise<string[]> => {
+    const statements: string[] = [];
+    const filtered = Readable.from([Buffer.from(dump)]).pipe(new SqlStatementSplitter()).pipe(new SqlSchemaFilter(selection));
+    for await (const statement of filtered) {
+      statements.push(statement.sql);
+    }
+    return statements;
+  };
+
+  // mysqldump --databases app billing
+  const dump = [
+    '/*!40101 SET NAMES utf8mb4 */;',
+    'SET @@GLOBAL.GTID_PURGED=/*!80000 \'+\'*/ \'uuid:1-5\';',
+    'CREATE DATABASE /*!32312 IF NOT EXISTS*/ `app` /*!40100 DEFAULT CHARACTER SET utf8mb4 */;',
+    'USE `app`;',
+    '/*!40101 SET @saved_cs_client = @@character_set_client */;',
+    'CREATE TABLE `users` (`id` int);',
+    'INSERT INTO `users` VALUES (1);',
+    '/*!50003 ALTER DATABASE `app` CHARACTER SET latin1 */ ;',
+    'CREATE DATABASE /*!32312 IF NOT EXISTS*/ `billing` /*!40100 DEFAULT CHARACTER SET utf8mb4 */;',
+    'USE `billing`;',
+    '/*!40101 SET @saved_cs_client = @@character_set_client */;',
+    'CREATE TABLE `invoices` (`id` int);',
+    'INSERT INTO `invoices` VALUES (7);',
+    '/*!40101 SET character_set_client = @saved_cs_client */;',
+    ''
+  ].join('\n');
+
+  it('should rewrite CREATE DATABASE, USE and ALTER DATABASE to the mapped names', async () => {
+    expect(await filterDump(dump, { map: { app: 'app_staging', billing: 'billing_staging' } })).toEqual([
+      '/*!40101 SET NAMES utf8mb4 */',
+      'CREATE DATABASE /*!32312 IF NOT EXISTS*/ `app_staging` /*!40100 DEFAULT CHARACTER SET utf8mb4 */',
+      'USE `app_staging`',
+      '/*!40101 SET @saved_cs_client = @@character_set_client */',
+      'CREATE TABLE `users` (`id` int)',
+      'INSERT INTO `users` VALUES (1)',
+      '/*!50003 ALTER DATABASE `app_staging` CHARACTER SET latin1 */',
+      'CREATE DATABASE /*!32312 IF NOT EXISTS*/ `billing_staging` /*!40100 DEFAULT CHARACTER SET utf8mb4 */',
+      'USE `billing_staging`',
+      '/*!40101 SET @saved_cs_client = @@character_set_client */',
+      'CREATE TABLE `invoices` (`id` int)',
+      'INSERT INTO `invoices` VALUES (7)',
+      '/*!40101 SET character_set_client = @saved_cs_client */'
+    ]);
+  });
+
+  it('should drop everything but session settings under unselected schemas', async () => {
+    const statements = await filterDump(dump, { include: ['billing'], map: { billing: 'billing_copy' } });
+
+    expect(statements).not.toContain('INSERT INTO `users` VALUES (1)');
+    expect(statements.some(sql => sql.includes('`app`'))).toBe(false);
+    expect(statements).toContain('/*!40101 SET @saved_cs_client = @@character_set_client */');
+    expect(statements).toContain('USE `billing_copy`');
+    expect(statements).toContain('INSERT INTO `invoices` VALUES (7)');
+  });
+
+  describe('parseSchemaSelection', () => {
+    it('should parse schemas and from=to pairs', () => {
+      const selection = parseSchemaSelection({ schemas: 'app, billing', map: 'app=app_staging, billing = billing_staging' });
+
+      expect(selection).toEqual({ include: ['app', 'billing'], map: { app: 'app_staging', billing: 'billing_staging' } });
+      expect(describeSchemaSelection(selection!)).toBe('app → app_staging, billing → billing_staging');
+      expect(describeSchemaSelection({ map: { app: 'app_staging' } })).toBe('app → app_staging (other schemas unchanged)');
+      expect(parseSchemaSelection({})).toBeUndefined();
+    });
+
+    it('should reject malformed and ambiguous maps', () => {
+      expect(() => parseSchemaSelection({ map: 'app' })).toThrow('Invalid --map entry \'app\' (expected from=to)');
+      expect(() => parseSchemaSelection({ map: 'app=a,app=b' })).toThrow('--map renames schema \'app\' twice');
+      expect(() => parseSchemaSelection({ map: 'app=x,billing=x' })).toThrow('--map restores more than one schema into \'x\'');
+      expect(() => parseSchemaSelection({ schemas: ',' })).toThrow('--schemas needs at least one schema name');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { MySQLManager } from '../modules/mysql';
+import { createNativeBackupStream } from '../modules/nativedump';
+import { S3Manager } from '../modules/s3';
+import { createPreRestoreSnapshot, getPreRestoreSnapshotKey, getRestoredSchemas } from '../modules/snapshot';
+import { AppConfig, BackupManifest } from '../types';
+
+jest.mock('../modules/mysql');
+jest.mock('../modules/nativedump');
+
+describe('pre-restore snapshot', () => {
+  const config: AppConfig = {
+    database: { host: 'localhost', port: 3306, user: 'root', password: 'secret', database: 'app', schemas: ['app', 'billing'], excludeTables: ['sessions'] },
+    s3: { accessKeyId: 'key', secretAccessKey: 'secret', bucket: 'backups' }
+  };
+  const dump = { pipe: jest.fn() };
+  let mysqlManager: jest.Mocked<MySQLManager>;
+  let s3Manager: jest.Mocked<S3Manager>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mysqlManager = {
+      getServerSnapshot: jest.fn().mockResolvedValue({
+        serverVersion: '8.0.36',
+        schemas: ['shop'],
+        tables: [{ schema: 'shop', name: 'orders', approxRows: 10, dataSize: 0, indexSize: 0 }],
+        hasReloadPrivilege: true
+      }),
+      createBackupStream: jest.fn().mockReturnValue(dump),
+      getDumpFlags: jest.fn().mockReturnValue(['--single-transaction', 'shop'])
+    } as any;
+    (MySQLManager as jest.Mock).mockImplementation(() => mysqlManager);
+    (createNativeBackupStream as jest.Mock).mockReturnValue(dump);
+    s3Manager = {
+      uploadStream: jest.fn().mockResolvedValue({ size: 512, sha256: 'abc123' }),
+      uploadManifest: jest.fn().mockResolvedValue(undefined)
+    } as any;
+  });
+
+  it('should dump only the target database under pre-restore/ with a manifest', async () => {
+    const key = await createPreRestoreSnapshot(config, s3Manager, 'shop', ['shop']);
+
+    expect(key).toMatch(/^pre-restore\/shop-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.sql\.gz$/);
+    expect(MySQLManager).toHaveBeenCalledWith(expect.objectContaining({ database: 'shop', schemas: undefined, excludeTables: undefined }));
+    expect(s3Manager.uploadStream).toHaveBeenCalledWith(dump, key, undefined, {
+      contentType: 'application/gzip',
+      metadata: { compression: 'gzip' }
+    });
+    expect(s3Manager.uploadManifest).toHaveBeenCalledWith(key, expect.objectContaining({
+      backupKey: key,
+      schemas: ['shop'],
+      sha256: 'abc123',
+      compressedSize: 512,
+      engine: 'mysqldump',
+      mysqldumpFlags: ['--single-transaction', 'shop']
+    }));
+  });
+
+  it('should dump every schema a multi-schema restore writes, switching with USE', async () => {
+    await createPreRestoreSnapshot(config, s3Manager, 'shop', ['shop', 'crm']);
+
+    expect(MySQLManager).toHaveBeenCalledWith(expect.objectContaining({ database: 'shop', schemas: ['shop', 'crm'], excludeTables: undefined }));
+  });
+
+  it('should tell which schemas a restore writes', () => {
+    const manifest = { schemas: ['shop', 'crm'], mysqldumpFlags: ['--databases', 'shop', 'crm'] } as BackupManifest;
+
+    expect(getRestoredSchemas(manifest, 'target')).toEqual(['shop', 'crm']);
+    expect(getRestoredSchemas(manifest, 'target', { include: ['crm'] })).toEqual(['crm']);
+    expect(getRestoredSchemas(manifest, 'target', { map: { shop: 'shop_copy' } })).toEqual(['shop_copy', 'crm']);
+    expect(getRestoredSchemas({ schemas: ['shop'], mysqldumpFlags: ['shop'] } as BackupManifest, 'target', { map: { shop: 'x' } })).toEqual(['target']);
+    expect(getRestoredSchemas({ schemas: ['shop'], mysqldumpFlags: ['--databases', 'shop'] } as BackupManifest, 'target', { map: { shop: 'x' } })).toEqual(['x']);
+    expect(getRestoredSchemas({ schemas: ['shop'], mysqldumpFlags: [] } as unknown as BackupManifest, 'target')).toEqual(['target']);
+  });
+
+  it('should use the native dump engine when configured', async () => {
+    await createPreRestoreSnapshot({ ...config, dumpEngine: 'native' }, s3Manager, 'shop', ['shop']);
+
+    expect(createNativeBackupStream).toHaveBeenCalledWith(mysqlManager, expect.objectContaining({ schemas: ['shop'] }), expect.anything());
+    expect(mysqlManager.createBackupStream).not.toHaveBeenCalled();
+  });
+
+  it('should skip a database without tables', async () => {
+    mysqlManager.getServerSnapshot.mockResolvedValue({ serverVersion: '8.0.36', schemas: ['shop'], tables: [], hasReloadPrivilege: true });
+
+    await expect(createPreRestoreSnapshot(config, s3Manager, 'shop', ['shop'])).resolves.toBeUndefined();
+    expect(s3Manager.uploadStream).not.toHaveBeenCalled();
+  });
+
+  it('should name snapshots after the target and the time', () => {
+    expect(getPreRestoreSnapshotKey('shop', '.sql.zst.enc', new Date('2024-01-31T14:32:00Z')))
+      .toBe('pre-restore/shop-2024-01-31T14-32-00-000Z.sql.zst.enc');
+  });
+});
@@ -0,0 +1,109 @@
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import { analyzeBackup, parseDumpBinlogPosition } from '../modules/sqldump';
+
+const dump = [
+  '-- MySQL dump 10.13  Distrib 8.0.36, for Linux (x86_64)',
+  '--',
+  '-- Host: localhost    Database: shop',
+  '',
+  'DROP TABLE IF EXISTS `users`;',
+  'CREATE TABLE `users` (',
+  '  `id` int NOT NULL,',
+  '  `name` varchar(255) DEFAULT NULL,',
+  '  PRIMARY KEY (`id`)',
+  ') ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;',
+  'LOCK TABLES `users` WRITE;',
+  'INSERT INTO `users` VALUES (1,\'Ann (admin)\'),(2,\'O\\\'Brien\'),(3,\'back\\\\slash\');',
+  'INSERT INTO `users` VALUES (4,\'),(\');',
+  'UNLOCK TABLES;',
+  'CREATE TABLE `empty` (',
+  '  `id` int NOT NULL',
+  ') ENGINE=InnoDB;',
+  'CREATE TABLE `we``ird` (',
+  '  `id` int NOT NULL',
+  ') ENGINE=InnoDB;',
+  'INSERT INTO `we``ird` (`id`) VALUES (1),(2);',
+  '',
+  '-- Dump completed on 2024-01-01 10:00:00',
+  ''
+].join('\n');
+
+// Split into tiny chunks so tokens straddle chunk boundaries
+const gzipped = (text: string, chunkSize = 7): Readable => {
+  const data = zlib.gzipSync(Buffer.from(text));
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    chunks.push(data.subarray(offset, offset + chunkSize));
+  }
+  return Readable.from(chunks);
+};
+
+describe('analyzeBackup', () => {
+  it('should count rows per table, including tables without rows', async () => {
+    const analysis = await analyzeBackup(gzipped(dump), { compression: 'gzip' });
+
+    expect(analysis).toEqual({
+      tables: { users: 4, empty: 0, 'we`ird': 2 },
+      databases: [],
+      complete: true,
+      size: Buffer.byteLength(dump)
+    });
+  });
+
+  it('should report a dump without the trailer as incomplete', async () => {
+    const truncated = dump.slice(0, dump.indexOf('UNLOCK TABLES'));
+
+    const analysis = await analyzeBackup(gzipped(truncated), { compression: 'gzip' });
+
+    expect(analysis.complete).toBe(false);
+    expect(analysis.tables.users).toBe(4);
+  });
+
+  it('should not take a trailer followed by more SQL as complete', async () => {
+    const analysis = await analyzeBackup(gzipped(`${dump}INSERT INTO \`users\` VALUES (5,'x');\n`), { compression: 'gzip' });
+
+    expect(analysis.complete).toBe(false);
+  });
+
+  it('should record databases switched to with USE', async () => {
+    const multi = `CREATE DATABASE \`a\`;\nUSE \`a\`;\n${dump}`;
+
+    const analysis = await analyzeBackup(gzipped(multi), { compression: 'gzip' });
+
+    expect(analysis.databases).toEqual(['a']);
+  });
+
+  it('should read uncompressed dumps', async () => {
+    const analysis = await analyzeBackup(Readable.from([Buffer.from(dump)]), { compression: 'none' });
+
+    expect(analysis.tables.users).toBe(4);
+  });
+
+  it('should reject a truncated gzip stream', async () => {
+    const data = zlib.gzipSync(Buffer.from(dump));
+
+    await expect(analyzeBackup(Readable.from([data.subarray(0, data.length - 10)]), { compression: 'gzip' }))
+      .rejects.toThrow('unexpected end of file');
+  });
+});
+
+describe('parseDumpBinlogPosition', () => {
+  it('should read the coordinates written by --master-data=2', () => {
+    const header = [
+      '-- MySQL dump 10.13  Distrib 5.7.44, for Linux (x86_64)',
+      '--',
+      '-- Position to start replication or point-in-time recovery from',
+      '--',
+      '',
+      "-- CHANGE MASTER TO MASTER_LOG_FILE='mysql-bin.000003', MASTER_LOG_POS=4521;",
+      ''
+    ].join('\n');
+
+    expect(parseDumpBinlogPosition(header)).toEqual({ file: 'mysql-bin.000003', position: 4521, exact: true });
+  });
+
+  it('should return undefined when the dump has no coordinates', () => {
+    expect(parseDumpBinlogPosition('-- MySQL dump 10.13\nSET NAMES utf8mb4;\n')).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { Readable } from 'stream';
+import { SqlStatementSplitter } from '../modules/sqlsplitter';
+import { SqlStatement } from '../types';
+
+describe('SqlStatementSplitter', () => {
+  const split = async (input: string | Buffer, chunkSize = Infinity): Promise<SqlStatement[]> => {
+    const data = Buffer.isBuffer(input) ? input : Buffer.from(input);
+    const chunks: Buffer[] = [];
+    for (let offset = 0; offset < data.length; offset += Math.min(chunkSize, data.length)) {
+      chunks.push(data.subarray(offset, offset + chunkSize));
+    }
+    const statements: SqlStatement[] = [];
+    for await (const statement of Readable.from(chunks).pipe(new SqlStatementSplitter())) {
+      statements.push(statement);
+    }
+    return statements;
+  };
+  const sqlOf = async (input: string, chunkSize?: number) => (await split(input, chunkSize)).map(statement => statement.sql);
+
+  it('should split on semicolons and drop comments', async () => {
+    const statements = await split(
+      '-- MySQL dump 10.13\n' +
+      '# hash comment\n' +
+      '/* block\n   comment */\n' +
+      'CREATE TABLE t (id INT); -- trailing\n' +
+      'INSERT INTO t VALUES (1),(2);\n'
+    );
+
+    expect(statements).toEqual([
+      { sql: 'CREATE TABLE t (id INT)', line: 5 },
+      { sql: 'INSERT INTO t VALUES (1),(2)', line: 6 }
+    ]);
+  });
+
+  it('should keep semicolons and comment markers inside strings and identifiers', async () => {
+    expect(await sqlOf(
+      'INSERT INTO `a;b` VALUES (\'x;y\',"-- no",\'it\\\'s; /* no */\',\'dou\'\'bled;\');\n' +
+      'SELECT 1;'
+    )).toEqual([
+      'INSERT INTO `a;b` VALUES (\'x;y\',"-- no",\'it\\\'s; /* no */\',\'dou\'\'bled;\')',
+      'SELECT 1'
+    ]);
+  });
+
+  it('should keep versioned comments and not split inside them', async () => {
+    expect(await sqlOf(
+      '/*!40101 SET @OLD_CHARACTER_SET_CLIENT=@@CHARACTER_SET_CLIENT */;\n' +
+      '/*!50003 CREATE*/ /*!50003 TRIGGER x BEFORE INSERT ON t FOR EACH ROW SET NEW.a = 1; */;\n'
+    )).toEqual([
+      '/*!40101 SET @OLD_CHARACTER_SET_CLIENT=@@CHARACTER_SET_CLIENT */',
+      '/*!50003 CREATE*/ /*!50003 TRIGGER x BEFORE INSERT ON t FOR EACH ROW SET NEW.a = 1; */'
+    ]);
+  });
+
+  it('should follow DELIMITER changes', async () => {
+    expect(await sqlOf(
+      'DELIMITER ;;\n' +
+      'CREATE PROCEDURE p()\nBEGIN\n  SELECT 1;\n  SELECT 2;\nEND ;;\n' +
+      'DELIMITER ;\n' +
+      'SELECT 3;\n'
+    )).toEqual([
+      'CREATE PROCEDURE p()\nBEGIN\n  SELECT 1;\n  SELECT 2;\nEND',
+      'SELECT 3'
+    ]);
+  });
+
+  it('should give the same statements and lines however the input is chunked', async () => {
+    const dump =
+      '-- header\n/*!40101 SET NAMES utf8mb4 */;\n' +
+      'DELIMITER ;;\nCREATE TRIGGER x BEFORE INSERT ON t FOR EACH ROW BEGIN SET NEW.a = \'a;\'\'\\\\\'; END ;;\nDELIMITER ;\n' +
+      'INSERT INTO t VALUES (1,\'two\\\'s\'),(3,"four");\n/* c */ SELECT 5';
+    const whole = await split(dump);
+
+    expect(whole.map(statement => statement.line)).toEqual([2, 4, 6, 7]);
+    for (const chunkSize of [1, 2, 3, 7]) {
+      expect(await split(dump, chunkSize)).toEqual(whole);
+    }
+  });
+
+  it('should pass the dump bytes through unchanged', async () => {
+    const bytes = Buffer.concat([Buffer.from('INSERT INTO t VALUES (\''), Buffer.from('żółw ✓', 'utf8'), Buffer.from([0xff, 0x00]), Buffer.from('\');')]);
+
+    const [statement] = await split(bytes, 5);
+
+    expect(Buffer.from(statement.sql, 'latin1')).toEqual(bytes.subarray(0, bytes.length - 1));
+  });
+});
@@ -0,0 +1,142 @@
+import { Readable } from 'stream';
+import * as zlib from 'zlib';
+import { analyzeBackup } from '../modules/sqldump';
+import {
+  escapeString,
+  formatDumpFooter,
+  formatDumpHeader,
+  formatSchemaObject,
+  formatValue,
+  InsertStatementStream,
+  quoteIdentifier
+} from '../modules/sqlwriter';
+import { TableColumn } from '../types';
+
+describe('sqlwriter', () => {
+  const column = (dataType: string): TableColumn => ({ name: 'c', dataType, generated: false });
+
+  const collect = async (stream: InsertStatementStream, rows: unknown[][]): Promise<string> => {
+    const output: Buffer[] = [];
+    stream.on('data', (chunk: Buffer) => output.push(chunk));
+    const done = new Promise(resolve => stream.on('end', resolve));
+    rows.forEach(row => stream.write(row));
+    stream.end();
+    await done;
+    return Buffer.concat(output).toString('utf8');
+  };
+
+  describe('quoteIdentifier', () => {
+    it('should wrap names in backticks and double embedded ones', () => {
+      expect(quoteIdentifier('users')).toBe('`users`');
+      expect(quoteIdentifier('we`ird')).toBe('`we``ird`');
+    });
+  });
+
+  describe('escapeString', () => {
+    it('should escape like mysqldump', () => {
+      expect(escapeString('O\'Brien "quoted"\\path\n\r\0\x1a')).toBe('\'O\\\'Brien \\"quoted\\"\\\\path\\n\\r\\0\\Z\'');
+    });
+  });
+
+  describe('formatValue', () => {
+    it('should write NULL, numbers and numeric strings unquoted', () => {
+      expect(formatValue(null, column('varchar'))).toBe('NULL');
+      expect(formatValue(42, column('int'))).toBe('42');
+      expect(formatValue(1.5, column('double'))).toBe('1.5');
+      expect(formatValue('9007199254740993', column('bigint'))).toBe('9007199254740993');
+      expect(formatValue('12.50', column('DECIMAL'))).toBe('12.50');
+    });
+
+    it('should quote strings, dates and JSON', () => {
+      expect(formatValue('2026-10-18 14:32:00', column('datetime'))).toBe('\'2026-10-18 14:32:00\'');
+      expect(formatValue('{"a": "b"}', column('json'))).toBe('\'{\\"a\\": \\"b\\"}\'');
+    });
+
+    it('should write binary data as hex', () => {
+      expect(formatValue(Buffer.from([0x00, 0xff, 0x27]), column('blob'))).toBe('0x00ff27');
+      expect(formatValue(Buffer.alloc(0), column('varbinary'))).toBe('\'\'');
+    });
+  });
+
+  describe('InsertStatementStream', () => {
+    const columns = [{ name: 'id', dataType: 'int', generated: false }, { name: 'name', dataType: 'varchar', generated: false }];
+
+    it('should write multi-row INSERTs and count the rows', async () => {
+      const stream = new InsertStatementStream('users', columns);
+
+      const sql = await collect(stream, [[1, 'Ann'], [2, null]]);
+
+      expect(sql).toBe('INSERT INTO `users` VALUES (1,\'Ann\'),(2,NULL);\n');
+      expect(stream.rows).toBe(2);
+    });
+
+    it('should start a new statement once one reaches the size limit', async () => {
+      const stream = new InsertStatementStream('users', columns, { maxSize: 50 });
+
+      const sql = await collect(stream, [[1, 'Ann'], [2, 'Bob'], [3, 'Cy']]);
+
+      expect(sql.trim().split('\n')).toEqual([
+        'INSERT INTO `users` VALUES (1,\'Ann\'),(2,\'Bob\');',
+        'INSERT INTO `users` VALUES (3,\'Cy\');'
+      ]);
+    });
+
+    it('should name the columns when asked to', async () => {
+      const sql = await collect(new InsertStatementStream('users', columns, { columnList: true }), [[1, 'Ann']]);
+
+      expect(sql).toBe('INSERT INTO `users` (`id`,`name`) VALUES (1,\'Ann\');\n');
+    });
+
+    it('should write nothing for an empty table', async () => {
+      await expect(collect(new InsertStatementStream('users', columns), [])).resolves.toBe('');
+    });
+
+    it('should produce SQL the dump analyzer reads back', async () => {
+      const stream = new InsertStatementStream('users', columns, { maxSize: 30 });
+      const rows = await collect(stream, [[1, 'a),(b'], [2, 'it\'s'], [3, 'x']]);
+      const sql = `${formatDumpHeader('Table `shop`.`users`')}CREATE TABLE \`users\` (\n) ENGINE=InnoDB;\n${rows}${formatDumpFooter()}`;
+
+      const analysis = await analyzeBackup(Readable.from([zlib.gzipSync(Buffer.from(sql))]), { compression: 'gzip' });
+
+      expect(analysis.tables).toEqual({ users: 3 });
+      expect(analysis.complete).toBe(true);
+    });
+  });
+
+  describe('formatSchemaObject', () => {
+    it('should replace a view', () => {
+      expect(formatSchemaObject(
+        { type: 'VIEW', schema: 'shop', name: 'active_users' },
+        { statement: 'CREATE VIEW `active_users` AS select 1 AS `id`' }
+      )).toBe('DROP VIEW IF EXISTS `active_users`;\nCREATE VIEW `active_users` AS select 1 AS `id`;\n\n');
+    });
+
+    it('should write routines between DELIMITER lines under their sql_mode', () => {
+      const sql = formatSchemaObject(
+        { type: 'PROCEDURE', schema: 'shop', name: 'cleanup' },
+        { statement: 'CREATE PROCEDURE `cleanup`() BEGIN DELETE FROM t; SELECT 1; END', sqlMode: 'STRICT_TRANS_TABLES' }
+      );
+
+      expect(sql).toBe([
+        'DROP PROCEDURE IF EXISTS `cleanup`;',
+        '/*!50003 SET SQL_MODE=\'STRICT_TRANS_TABLES\' */;',
+        'DELIMITER ;;',
+        'CREATE PROCEDURE `cleanup`() BEGIN DELETE FROM t; SELECT 1; END ;;',
+        'DELIMITER ;',
+        '/*!50003 SET SQL_MODE=\'NO_AUTO_VALUE_ON_ZERO\' */;',
+        '',
+        ''
+      ].join('\n'));
+    });
+
+    it('should create events in their own time zone', () => {
+      const sql = formatSchemaObject(
+        { type: 'EVENT', schema: 'shop', name: 'nightly' },
+        { statement: 'CREATE EVENT `nightly` ON SCHEDULE EVERY 1 DAY DO DELETE FROM t', sqlMode: '', timeZone: 'SYSTEM' }
+      );
+
+      expect(sql).toContain('/*!50003 SET SQL_MODE=\'\' */;\n/*!50003 SET TIME_ZONE=\'SYSTEM\' */;\nDELIMITER ;;\n');
+      expect(sql).toMatch(/DELIMITER ;\n.*SET SQL_MODE='NO_AUTO_VALUE_ON_ZERO'.*\n.*SET TIME_ZONE='\+00:00'.*\n\n$/);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { MySQLManager } from '../modules/mysql';
+import { describeSubsetPlan, resolveSubsetPlan, selectSubset, validateSubsetConfig } from '../modules/subset';
+import { DumpTable, ForeignKey, ManifestTable } from '../types';
+
+describe('subset', () => {
+  const table = (name: string): ManifestTable => ({ schema: 'shop', name, approxRows: 0, dataSize: 0, indexSize: 0 });
+  const tables = ['categories', 'customers', 'order_items', 'orders', 'products', 'settings'].map(table);
+  const data: Record<string, Record<string, unknown>[]> = {
+    categories: [{ id: 1 }, { id: 2 }],
+    // Customers 1 and 4 were referred by customer 2, from Germany
+    customers: [
+      { id: 1, country: 'CH', referred_by: 2 },
+      { id: 2, country: 'DE', referred_by: null },
+      { id: 3, country: 'DE', referred_by: null },
+      { id: 4, country: 'CH', referred_by: 2 }
+    ],
+    orders: [{ id: 10, customer_id: 1 }, { id: 11, customer_id: 3 }, { id: 12, customer_id: 4 }],
+    order_items: [
+      { order_id: 10, line: 1, product_id: 100 },
+      { order_id: 11, line: 1, product_id: 100 },
+      { order_id: 12, line: 1, product_id: 101 },
+      { order_id: 12, line: 2, product_id: 101 }
+    ],
+    products: [{ id: 100, category_id: 1 }, { id: 101, category_id: null }],
+    settings: Array.from({ length: 1200 }, (_, i) => ({ id: i + 1 }))
+  };
+  const foreignKeys: ForeignKey[] = [
+    { name: 'fk_referrer', table: { schema: 'shop', name: 'customers' }, columns: ['referred_by'], referencedTable: { schema: 'shop', name: 'customers' }, referencedColumns: ['id'] },
+    { name: 'fk_customer', table: { schema: 'shop', name: 'orders' }, columns: ['customer_id'], referencedTable: { schema: 'shop', name: 'customers' }, referencedColumns: ['id'] },
+    { name: 'fk_order', table: { schema: 'shop', name: 'order_items' }, columns: ['order_id'], referencedTable: { schema: 'shop', name: 'orders' }, referencedColumns: ['id'] },
+    { name: 'fk_product', table: { schema: 'shop', name: 'order_items' }, columns: ['product_id'], referencedTable: { schema: 'shop', name: 'products' }, referencedColumns: ['id'] },
+    { name: 'fk_category', table: { schema: 'shop', name: 'products' }, columns: ['category_id'], referencedTable: { schema: 'shop', name: 'categories' }, referencedColumns: ['id'] }
+  ];
+  // Root predicates by the SQL they are sent as
+  const predicates: Record<string, (row: Record<string, unknown>) => boolean> = {
+    '(country = \'CH\')': row => row.country === 'CH',
+    'RAND() < 0.05': row => row.id === 11,
+    '(id > 0)': () => true
+  };
+
+  let connection: { query: jest.Mock };
+  let mysqlManager: jest.Mocked<MySQLManager>;
+
+  // Answers the lookups with the rows above, the way the server would
+  const query = async ({ sql }: { sql: string }): Promise<[unknown[][]]> => {
+    const [, columns, name, where] = /^SELECT (.+) FROM `shop`\.`(\w+)` WHERE (.+)$/s.exec(sql)!;
+    const names = columns.split(', ').map(column => column.slice(1, -1));
+    const single = /^`(\w+)` IN \((.*)\)$/.exec(where);
+    const tuple = /^\(([^)]*)\) IN \((.*)\)$/.exec(where);
+    let matches: (row: Record<string, unknown>) => boolean;
+    if (single) {
+      const values: unknown[] = JSON.parse(`[${single[2]}]`);
+      matches = row => values.includes(row[single[1]]);
+    } else if (tuple) {
+      const keys = tuple[1].split(',').map(column => column.slice(1, -1));
+      const values: unknown[][] = JSON.parse(`[${tuple[2].replace(/\(/g, '[').replace(/\)/g, ']')}]`);
+      matches = row => values.some(value => keys.every((key, i) => row[key] === value[i]));
+    } else {
+      matches = predicates[where];
+    }
+    return [data[name].filter(matches).map(row => names.map(column => row[column]))];
+  };
+
+  beforeEach(() => {
+    connection = { query: jest.fn(query) };
+    mysqlManager = {
+      listForeignKeys: jest.fn().mockResolvedValue(foreignKeys),
+      listPrimaryKeys: jest.fn().mockResolvedValue([
+        ...['categories', 'customers', 'orders', 'products', 'settings'].map(name => ({ schema: 'shop', name, columns: ['id'] })),
+        { schema: 'shop', name: 'order_items', columns: ['order_id', 'line'] }
+      ]),
+      getTableColumns: jest.fn(async (_connection, _schema, name: string) => Object.keys(data[name][0]).map(column => ({
+        name: column,
+        dataType: column === 'country' ? 'varchar' : 'int',
+        generated: false
+      })))
+    } as any;
+  });
+
+  const wheres = (selected: DumpTable[]) => Object.fromEntries(selected.map(table => [table.name, table.schemaOnly ? 'no rows' : table.keyPredicates!.join(' OR ')]));
+
+  it('should take the roots\' rows and every row they reference, and nothing referencing them', async () => {
+    const plan = resolveSubsetPlan({ ch: { roots: { customers: 'country = \'CH\'' } } }, 'ch');
+    const subset = await selectSubset(mysqlManager, connection as any, tables, plan);
+
+    expect(wheres(subset.tables)).toEqual({
+      categories: 'no rows',
+      customers: '`id` IN (1,4,2)',
+      order_items: 'no rows',
+      orders: 'no rows',
+      products: 'no rows',
+      settings: 'no rows'
+    });
+    expect(subset.rows).toEqual({ 'shop.customers': 3 });
+    expect(mysqlManager.listForeignKeys).toHaveBeenCalledWith(connection, ['shop']);
+  });
+
+  it('should follow referencing rows down from the roots but not up from what they reference', async () => {
+    const plan = resolveSubsetPlan({ ch: { roots: { 'shop.customers': 'country = \'CH\'' }, referencing: true } }, 'ch');
+    const subset = await selectSubset(mysqlManager, connection as any, tables, plan);
+
+    // Customer 2 is only there as a referrer, so order 11 of customer 3 isn't, nor are its items
+    expect(wheres(subset.tables)).toEqual({
+      categories: '`id` IN (1)',
+      customers: '`id` IN (1,4,2)',
+      order_items: '(`order_id`,`line`) IN ((10,1),(12,1),(12,2))',
+      orders: '`id` IN (10,12)',
+      products: '`id` IN (100,101)',
+      settings: 'no rows'
+    });
+    expect(subset.rows).toEqual({ 'shop.categories': 1, 'shop.customers': 3, 'shop.order_items': 3, 'shop.orders': 2, 'shop.products': 2 });
+  });
+
+  it('should sample a percentage of a root\'s rows', async () => {
+    const subset = await selectSubset(mysqlManager, connection as any, tables, resolveSubsetPlan({ dev: { roots: { orders: '5%' } } }, 'dev'));
+
+    expect(connection.query).toHaveBeenCalledWith({ sql: 'SELECT `id`, `customer_id` FROM `shop`.`orders` WHERE RAND() < 0.05', rowsAsArray: true });
+    expect(subset.rows).toEqual({ 'shop.orders': 1, 'shop.customers': 1 });
+  });
+
+  it('should select the rows to dump in batches of keys', async () => {
+    const subset = await selectSubset(mysqlManager, connection as any, tables, resolveSubsetPlan({ all: { roots: { settings: 'id > 0' } } }, 'all'));
+    const predicates = subset.tables.find(t => t.name === 'settings')!.keyPredicates!;
+
+    expect(predicates).toHaveLength(3);
+    expect(predicates[0]).toBe(`\`id\` IN (${Array.from({ length: 500 }, (_, i) => i + 1).join(',')})`);
+    expect(predicates[2]).toBe(`\`id\` IN (${Array.from({ length: 200 }, (_, i) => i + 1001).join(',')})`);
+    expect(subset.rows).toEqual({ 'shop.settings': 1200 });
+  });
+
+  it('should fail once the subset selects more rows than the profile allows', async () => {
+    const plan = resolveSubsetPlan({ all: { roots: { settings: 'id > 0' }, maxRows: 1000 } }, 'all');
+
+    expect(plan.maxRows).toBe(1000);
+    await expect(selectSubset(mysqlManager, connection as any, tables, plan)).rejects.toThrow(
+      'Subset \'all\' selects more than 1000 rows; take a smaller sample, narrow the root predicates or raise maxRows'
+    );
+    expect(resolveSubsetPlan({ all: { roots: { settings: 'id > 0' } } }, 'all').maxRows).toBe(1000000);
+  });
+
+  it('should fail rather than leave references dangling', async () => {
+    const plan = resolveSubsetPlan({ ch: { roots: { orders: '5%' } } }, 'ch');
+
+    await expect(selectSubset(mysqlManager, connection as any, tables.filter(t => t.name !== 'customers'), plan)).rejects.toThrow(
+      'Cannot take a consistent subset: shop.orders references shop.customers, whose rows the backup leaves out'
+    );
+    mysqlManager.listPrimaryKeys.mockResolvedValue([]);
+    await expect(selectSubset(mysqlManager, connection as any, tables, plan)).rejects.toThrow(
+      'Cannot take a subset of shop.orders: it has no primary key to select its rows by'
+    );
+    await expect(selectSubset(mysqlManager, connection as any, tables, resolveSubsetPlan({ x: { roots: { invoices: '5%' } } }, 'x'))).rejects.toThrow(
+      'Subset root \'invoices\' matches no table the backup takes rows from'
+    );
+  });
+
+  it('should validate profiles and name the configured ones', () => {
+    expect(() => validateSubsetConfig({
+      empty: { roots: {} },
+      wide: { roots: { customers: '150%', orders: ' ' } },
+      tiny: { roots: { customers: '5%' }, maxRows: 0 }
+    })).toThrow([
+      'Subset: profile \'empty\' has no roots',
+      'Subset: root \'customers\' in profile \'wide\' must sample more than 0% and at most 100% of the rows',
+      'Subset: root \'orders\' in profile \'wide\' needs a sample like "5%" or a predicate',
+      'Subset: maxRows in profile \'tiny\' must be a positive integer'
+    ].join('\n'));
+    expect(() => resolveSubsetPlan({ laptop: { roots: { customers: '5%' } } }, 'ci')).toThrow('Unknown subset profile \'ci\' (configured: laptop)');
+    expect(() => resolveSubsetPlan(undefined, 'ci')).toThrow('no subset profiles are configured');
+    expect(describeSubsetPlan(resolveSubsetPlan({ laptop: { roots: { customers: '5%' }, referencing: true } }, 'laptop')))
+      .toBe('laptop (customers: 5%; with referencing rows)');
+  });
+});
@@ -0,0 +1,151 @@
+import { Readable } from 'stream';
+import { SqlStatementSplitter } from '../modules/sqlsplitter';
+import { describeTableSelection, isTableSelected, parseTableSelection, SqlStatementFilter } from '../modules/tablefilter';
+import { TableSelection } from '../types';
+
+describe('table filter', () => {
+  const filterDump = async (dump: string, selection: TableSelection): Promise<string[]> => {
+    const statements: string[] = [];
+    const filtered = Readable.from([Buffer.from(dump)]).pipe(new SqlStatementSplitter()).pipe(new SqlStatementFilter(selection));
+    for await (const statement of filtered) {
+      statements.push(statement.sql);
+    }
+    return statements;
+  };
+
+  const mysqldumpOutput = [
+    '/*!40101 SET NAMES utf8mb4 */;',
+    'SET @@GLOBAL.GTID_PURGED=/*!80000 \'+\'*/ \'uuid:1-5\';',
+    'DROP TABLE IF EXISTS `orders`;',
+    'CREATE TABLE `orders` (\n  `id` int NOT NULL,\n  `customer_id` int,\n  CONSTRAINT `orders_ibfk_1` FOREIGN KEY (`customer_id`) REFERENCES `customers` (`id`),\n  CONSTRAINT `orders_chk_1` CHECK ((`id` > 0))\n);',
+    'LOCK TABLES `orders` WRITE;',
+    '/*!40000 ALTER TABLE `orders` DISABLE KEYS */;',
+    'INSERT INTO `orders` VALUES (1,2);',
+    '/*!40000 ALTER TABLE `orders` ENABLE KEYS */;',
+    'UNLOCK TABLES;',
+    'DROP TABLE IF EXISTS `users`;',
+    'CREATE TABLE `users` (`id` int);',
+    'LOCK TABLES `users` WRITE;',
+    'INSERT INTO `users` VALUES (1);',
+    'UNLOCK TABLES;',
+    'DELIMITER ;;',
+    '/*!50003 CREATE*/ /*!50017 DEFINER=`root`@`localhost`*/ /*!50003 TRIGGER `orders_bi` BEFORE INSERT ON `orders` FOR EACH ROW SET NEW.id = NEW.id + 1 */;;',
+    '/*!50003 CREATE*/ /*!50017 DEFINER=`root`@`localhost`*/ /*!50003 TRIGGER `users_bi` BEFORE INSERT ON `users` FOR EACH ROW SET NEW.id = 1 */;;',
+    'DELIMITER ;',
+    '/*!50001 DROP VIEW IF EXISTS `big_orders`*/;',
+    '/*!50001 CREATE ALGORITHM=UNDEFINED */ /*!50013 DEFINER=`root`@`localhost` SQL SECURITY DEFINER */ /*!50001 VIEW `big_orders` AS select 1 AS `id` */;',
+    '/*!50003 DROP PROCEDURE IF EXISTS `cleanup` */;',
+    'DELIMITER ;;',
+    'CREATE DEFINER=`root`@`localhost` PROCEDURE `cleanup`()\nBEGIN\n  DELETE FROM orders;\nEND ;;',
+    'DELIMITER ;',
+    ''
+  ].join('\n');
+
+  it('should keep only the structure, data and triggers of the selected tables', async () => {
+    expect(await filterDump(mysqldumpOutput, { include: ['orders'] })).toEqual([
+      '/*!40101 SET NAMES utf8mb4 */',
+      'DROP TABLE IF EXISTS `orders`',
+      expect.stringContaining('CREATE TABLE `orders`'),
+      'LOCK TABLES `orders` WRITE',
+      '/*!40000 ALTER TABLE `orders` DISABLE KEYS */',
+      'INSERT INTO `orders` VALUES (1,2)',
+      '/*!40000 ALTER TABLE `orders` ENABLE KEYS */',
+      'UNLOCK TABLES',
+      'UNLOCK TABLES',
+      expect.stringContaining('TRIGGER `orders_bi` BEFORE INSERT ON `orders`')
+    ]);
+  });
+
+  it('should drop the excluded tables', async () => {
+    const statements = await filterDump(mysqldumpOutput, { exclude: ['orders'] });
+
+    expect(statements).toContain('INSERT INTO `users` VALUES (1)');
+    expect(statements.some(sql => sql.includes('`orders`'))).toBe(false);
+  });
+
+  it('should rename tables, their triggers and constraint names with a suffix', async () => {
+    const statements = await filterDump(mysqldumpOutput, { include: ['orders'], renameSuffix: '_restored' });
+
+    expect(statements).toContain('DROP TABLE IF EXISTS `orders_restored`');
+    expect(statements).toContain('INSERT INTO `orders_restored` VALUES (1,2)');
+    expect(statements).toContain('/*!40000 ALTER TABLE `orders_restored` DISABLE KEYS */');
+    const create = statements.find(sql => sql.startsWith('CREATE TABLE'))!;
+    expect(create).toContain('CREATE TABLE `orders_restored`');
+    expect(create).toContain('  FOREIGN KEY (`customer_id`) REFERENCES `customers` (`id`)');
+    expect(create).toContain('  CHECK ((`id` > 0))');
+    expect(create).not.toContain('CONSTRAINT');
+    expect(statements[statements.length - 1]).toContain('TRIGGER `orders_bi_restored` BEFORE INSERT ON `orders_restored`');
+  });
+
+  it('should keep a native dump\'s DROP TRIGGER only with its trigger', async () => {
+    const dump = [
+      'DROP TRIGGER IF EXISTS `orders_bi`;',
+      'DELIMITER ;;',
+      'CREATE DEFINER=`root`@`%` TRIGGER `orders_bi` BEFORE INSERT ON `orders` FOR EACH ROW SET NEW.id = 1 ;;',
+      'DELIMITER ;',
+      'DROP TRIGGER IF EXISTS `users_bi`;',
+      'DELIMITER ;;',
+      'CREATE DEFINER=`root`@`%` TRIGGER `users_bi` AFTER UPDATE ON `users` FOR EACH ROW SET @x = 1 ;;',
+      'DELIMITER ;',
+      ''
+    ].join('\n');
+
+    expect(await filterDump(dump, { include: ['orders'], renameSuffix: '_old' })).toEqual([
+      'DROP TRIGGER IF EXISTS `orders_bi_old`',
+      'CREATE DEFINER=`root`@`%` TRIGGER `orders_bi_old` BEFORE INSERT ON `orders_old` FOR EACH ROW SET NEW.id = 1'
+    ]);
+  });
+
+  it('should match schema-qualified names in the schema the dump last switched to', async () => {
+    const dump = [
+      'USE `app`;',
+      'INSERT INTO `orders` VALUES (1);',
+      'INSERT INTO `users` VALUES (1);',
+      'USE `archive`;',
+      'INSERT INTO `orders` VALUES (2);',
+      'INSERT INTO `app`.`orders` VALUES (3);',
+      ''
+    ].join('\n');
+
+    expect(await filterDump(dump, { include: ['app.orders'] })).toEqual([
+      'USE `app`',
+      'INSERT INTO `orders` VALUES (1)',
+      'USE `archive`',
+      'INSERT INTO `app`.`orders` VALUES (3)'
+    ]);
+    expect(await filterDump(dump, { exclude: ['archive.orders', 'users'] })).toEqual([
+      'USE `app`',
+      'INSERT INTO `orders` VALUES (1)',
+      'USE `archive`',
+      'INSERT INTO `app`.`orders` VALUES (3)'
+    ]);
+    expect(await filterDump('INSERT INTO `orders` VALUES (1);\n', { include: ['shop.orders'], schema: 'shop' })).toEqual(['INSERT INTO `orders` VALUES (1)']);
+    expect(isTableSelected({ include: ['app.orders'] }, 'orders')).toBe(false);
+  });
+
+  it('should match non-ASCII table names given on the command line', async () => {
+    const statements = await filterDump('INSERT INTO `zamówienia` VALUES (1);\nINSERT INTO `users` VALUES (2);\n', { include: ['zamówienia'] });
+
+    expect(statements.map(sql => Buffer.from(sql, 'latin1').toString('utf8'))).toEqual(['INSERT INTO `zamówienia` VALUES (1)']);
+  });
+
+  describe('parseTableSelection', () => {
+    it('should parse comma-separated lists and the suffix', () => {
+      const selection = parseTableSelection({ tables: 'orders, order_items', excludeTables: '', tableSuffix: '_restored' });
+
+      expect(selection).toEqual({ include: ['orders', 'order_items'], exclude: [], renameSuffix: '_restored' });
+      expect(isTableSelected(selection!, 'order_items')).toBe(true);
+      expect(isTableSelected(selection!, 'users')).toBe(false);
+      expect(describeTableSelection(selection!)).toBe('orders, order_items (restored as <table>_restored)');
+    });
+
+    it('should return undefined when nothing is selected', () => {
+      expect(parseTableSelection({})).toBeUndefined();
+    });
+
+    it('should reject an empty table list and an unsafe suffix', () => {
+      expect(() => parseTableSelection({ tables: ' , ' })).toThrow('--tables needs at least one table name');
+      expect(() => parseTableSelection({ tableSuffix: '`; DROP' })).toThrow('Invalid --table-suffix');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { applyTableFilters, describeTableFilters, matchesTablePattern, parseTablePatterns } from '../modules/tablepatterns';
+
+describe('backup table patterns', () => {
+  const table = (schema: string, name: string) => ({ schema, name, approxRows: 0, dataSize: 0, indexSize: 0 });
+  const tables = [table('app', 'orders'), table('app', 'sessions'), table('app', 'audit_log_2024'), table('crm', 'audit_log_2024'), table('crm', 'sessions')];
+
+  it('should match schema.table globs and bare table names in any schema', () => {
+    expect(matchesTablePattern('app.sessions', { schema: 'app', name: 'sessions' })).toBe(true);
+    expect(matchesTablePattern('app.sessions', { schema: 'crm', name: 'sessions' })).toBe(false);
+    expect(matchesTablePattern('*.audit_log_*', { schema: 'crm', name: 'audit_log_2024' })).toBe(true);
+    expect(matchesTablePattern('sessions', { schema: 'crm', name: 'sessions' })).toBe(true);
+    expect(matchesTablePattern('orders', { schema: 'app', name: 'orders_archive' })).toBe(false);
+  });
+
+  it('should keep included tables unless excluded and flag schema-only ones', () => {
+    const { tables: kept, excluded } = applyTableFilters(tables, {
+      tables: ['app.*'],
+      excludeTables: ['sessions'],
+      schemaOnlyTables: ['*.audit_log_*']
+    });
+
+    expect(kept).toEqual([table('app', 'orders'), { ...table('app', 'audit_log_2024'), schemaOnly: true }]);
+    expect(excluded).toEqual([{ schema: 'app', name: 'sessions' }, { schema: 'crm', name: 'audit_log_2024' }, { schema: 'crm', name: 'sessions' }]);
+  });
+
+  it('should keep every table without include patterns', () => {
+    expect(applyTableFilters(tables, { excludeTables: ['crm.*'] }).tables.map(t => t.name)).toEqual(['orders', 'sessions', 'audit_log_2024']);
+  });
+
+  it('should give filtered tables the predicates of every row filter they match', () => {
+    const { tables: kept } = applyTableFilters(tables, {
+      schemaOnlyTables: ['crm.*'],
+      tableFilters: { 'app.audit_log_*': 'created_at > NOW() - INTERVAL 90 DAY', 'audit_log_2024': 'level <> \'debug\'' }
+    });
+
+    expect(kept.find(t => t.schema === 'app' && t.name === 'audit_log_2024')?.where)
+      .toBe('(created_at > NOW() - INTERVAL 90 DAY) AND (level <> \'debug\')');
+    expect(kept.find(t => t.schema === 'crm' && t.name === 'audit_log_2024')).toEqual({ ...table('crm', 'audit_log_2024'), schemaOnly: true });
+    expect(kept.find(t => t.name === 'orders')?.where).toBeUndefined();
+  });
+
+  it('should parse and describe the CLI patterns', () => {
+    expect(parseTablePatterns('exclude-tables', 'app.sessions, *.audit_log_*')).toEqual(['app.sessions', '*.audit_log_*']);
+    expect(parseTablePatterns('exclude-tables', undefined)).toBeUndefined();
+    expect(() => parseTablePatterns('include-tables', ' , ')).toThrow('--include-tables needs at least one table pattern');
+    expect(describeTableFilters({ excludeTables: ['app.sessions'], schemaOnlyTables: ['*.audit_log_*'] }))
+      .toBe('except app.sessions; without rows: *.audit_log_*');
+  });
+});
@@ -0,0 +1,264 @@
+import { verifyCommand } from '../commands/verify';
+import { ConfigManager } from '../modules/config';
+import { MySQLManager } from '../modules/mysql';
+import { S3Manager } from '../modules/s3';
+import { analyzeBackup } from '../modules/sqldump';
+import { progressTracker } from '../modules/progress';
+import * as fs from 'fs';
+import * as os from 'os';
+import { BackupInfo, DumpAnalysis, VerifyOptions } from '../types';
+
+jest.mock('../modules/config');
+jest.mock('../modules/mysql');
+jest.mock('../modules/s3');
+jest.mock('../modules/progress');
+jest.mock('../modules/sqldump', () => ({
+  ...jest.requireActual('../modules/sqldump'),
+  analyzeBackup: jest.fn()
+}));
+jest.mock('fs', () => ({
+  ...jest.requireActual('fs'),
+  existsSync: jest.fn(),
+  unlinkSync: jest.fn(),
+  createReadStream: jest.fn(),
+  promises: jest.requireActual('fs').promises
+}));
+jest.mock('os');
+jest.mock('chalk', () => ({
+  blue: jest.fn((str: string) => str),
+  gray: jest.fn((str: string) => str),
+  green: Object.assign(jest.fn((str: string) => str), {
+    bold: jest.fn((str: string) => str)
+  }),
+  yellow: jest.fn((str: string) => str),
+  red: Object.assign(jest.fn((str: string) => str), {
+    bold: jest.fn((str: string) => str)
+  }),
+  cyan: Object.assign(jest.fn((str: string) => str), {
+    bold: jest.fn((str: string) => str)
+  })
+}));
+
+describe('verifyCommand', () => {
+  let mockConfigManager: jest.Mocked<ConfigManager>;
+  let mockMySQLManager: jest.Mocked<MySQLManager>;
+  let mockS3Manager: jest.Mocked<S3Manager>;
+  let consoleLogSpy: jest.SpyInstance;
+  let consoleErrorSpy: jest.SpyInstance;
+  let processExitSpy: jest.SpyInstance;
+
+  const sha256 = 'a'.repeat(64);
+  const backupKey = 'shop-2024-01-01T10-00-00-000Z.sql.gz';
+  const mockConfig = {
+    database: {
+      host: 'localhost',
+      port: 3306,
+      user: 'root',
+      password: 'password',
+      database: 'shop'
+    },
+    s3: {
+      bucket: 'test-bucket',
+      region: 'us-east-1',
+      accessKeyId: 'test-key',
+      secretAccessKey: 'test-secret'
+    }
+  };
+  const backupInfo: BackupInfo = {
+    key: backupKey,
+    displayName: 'shop (2024-01-01 10:00:00)',
+    lastModified: new Date('2024-01-01T10:00:00Z'),
+    size: 2048,
+    compression: 'gzip',
+    sha256
+  };
+  const analysis: DumpAnalysis = {
+    tables: { users: 3, orders: 0 },
+    databases: [],
+    complete: true,
+    size: 8192
+  };
+  const options: VerifyOptions = { backup: backupKey };
+  const mockProgressBar = jest.fn();
+  const mockReadStream = { pipe: jest.fn() };
+
+  const output = (): string => consoleLogSpy.mock.calls.map(call => call.join(' ')).join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    processExitSpy = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
+
+    mockConfigManager = {
+      loadConfig: jest.fn().mockReturnValue(mockConfig)
+    } as any;
+    (ConfigManager.getInstance as jest.Mock).mockReturnValue(mockConfigManager);
+
+    mockMySQLManager = {
+      testConnection: jest.fn().mockResolvedValue(undefined),
+      databaseExists: jest.fn().mockResolvedValue(false),
+      createDatabase: jest.fn().mockResolvedValue(undefined),
+      restoreBackup: jest.fn().mockResolvedValue(undefined),
+      countTableRows: jest.fn().mockResolvedValue({ users: 3, orders: 0 }),
+      dropDatabase: jest.fn().mockResolvedValue(undefined)
+    } as any;
+    (MySQLManager as jest.Mock).mockImplementation(() => mockMySQLManager);
+
+    mockS3Manager = {
+      backupExists: jest.fn().mockResolvedValue(true),
+      getBackupInfo: jest.fn().mockResolvedValue(backupInfo),
+      downloadFile: jest.fn().mockResolvedValue({ size: 2048, sha256 }),
+      formatFileSize: jest.fn((bytes: number) => `${bytes} Bytes`)
+    } as any;
+    (S3Manager as jest.Mock).mockImplementation(() => mockS3Manager);
+
+    (analyzeBackup as jest.Mock).mockResolvedValue(analysis);
+    (progressTracker.createProgressBar as jest.Mock).mockReturnValue(mockProgressBar);
+    (os.tmpdir as jest.Mock).mockReturnValue('/tmp');
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.createReadStream as jest.Mock).mockReturnValue(mockReadStream);
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    processExitSpy.mockRestore();
+  });
+
+  it('should pass a backup with a matching checksum and a complete dump', async () => {
+    await verifyCommand(options);
+
+    expect(mockConfigManager.loadConfig).toHaveBeenCalledWith(undefined, { requireDatabase: false, requireS3: true });
+    expect(mockS3Manager.downloadFile).toHaveBeenCalledWith(backupKey, expect.stringContaining('/tmp/verify-'), mockProgressBar);
+    expect(analyzeBackup).toHaveBeenCalledWith(mockReadStream, { compression: 'gzip', encryption: undefined });
+    expect(output()).toContain(`✓ Checksum   SHA-256 matches (${sha256})`);
+    expect(output()).toContain('✓ Trailer    Dump ends with "-- Dump completed"');
+    expect(output()).toContain('✓ Backup verified');
+    expect(MySQLManager).not.toHaveBeenCalled();
+    expect(fs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining('/tmp/verify-'));
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fail on a checksum mismatch', async () => {
+    mockS3Manager.downloadFile.mockResolvedValueOnce({ size: 2048, sha256: 'b'.repeat(64) });
+
+    await verifyCommand(options);
+
+    expect(output()).toContain(`✗ Checksum   Expected SHA-256 ${sha256}, got ${'b'.repeat(64)}`);
+    expect(output()).toContain('✗ Backup verification failed');
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should skip the checksum for backups without one', async () => {
+    mockS3Manager.getBackupInfo.mockResolvedValueOnce({ ...backupInfo, sha256: undefined });
+
+    await verifyCommand(options);
+
+    expect(output()).toContain('- Checksum   No checksum recorded for this backup');
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fail a dump without the completion trailer', async () => {
+    (analyzeBackup as jest.Mock).mockResolvedValueOnce({ ...analysis, complete: false });
+
+    await verifyCommand(options);
+
+    expect(output()).toContain('✗ Trailer    Missing "-- Dump completed" trailer, the dump is truncated');
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should fail a backup that cannot be decoded', async () => {
+    (analyzeBackup as jest.Mock).mockRejectedValueOnce(new Error('unexpected end of file'));
+
+    await verifyCommand({ ...options, restoreTest: true });
+
+    expect(output()).toContain('✗ Integrity     Could not decode the backup: unexpected end of file');
+    expect(output()).toContain('- Trailer       Backup could not be decoded');
+    expect(output()).toContain('- Restore test  Earlier checks failed');
+    expect(mockMySQLManager.restoreBackup).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  describe('restore test', () => {
+    it('should restore into a scratch database, compare row counts and drop it', async () => {
+      await verifyCommand({ ...options, restoreTest: true });
+
+      expect(mockConfigManager.loadConfig).toHaveBeenCalledWith(undefined, { requireDatabase: true, requireS3: true });
+      const scratchDatabase = mockMySQLManager.createDatabase.mock.calls[0][0];
+      expect(scratchDatabase).toMatch(/^verify_\d+$/);
+      expect(mockMySQLManager.restoreBackup).toHaveBeenCalledWith(
+        expect.stringContaining('/tmp/verify-'),
+        scratchDatabase,
+        mockProgressBar,
+        { compression: 'gzip', encryption: undefined }
+      );
+      expect(mockMySQLManager.countTableRows).toHaveBeenCalledWith(scratchDatabase);
+      expect(mockMySQLManager.dropDatabase).toHaveBeenCalledWith(scratchDatabase);
+      expect(output()).toContain('✓ Restore test  2 tables, 3 rows restored with matching counts');
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    it('should fail when row counts differ and still drop the scratch database', async () => {
+      mockMySQLManager.countTableRows.mockResolvedValueOnce({ users: 2 });
+
+      await verifyCommand({ ...options, restoreTest: true });
+
+      expect(output()).toContain('✗ Restore test  users has 2 rows, the dump has 3; orders is missing');
+      expect(mockMySQLManager.dropDatabase).toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should fail when the restore fails', async () => {
+      mockMySQLManager.restoreBackup.mockRejectedValueOnce(new Error('MySQL restore failed (exit code 1): syntax error'));
+
+      await verifyCommand({ ...options, restoreTest: true });
+
+      expect(output()).toContain('✗ Restore test  Restore failed: MySQL restore failed (exit code 1): syntax error');
+      expect(mockMySQLManager.dropDatabase).toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    it('should not restore multi-schema dumps into the original schemas', async () => {
+      (analyzeBackup as jest.Mock).mockResolvedValueOnce({ ...analysis, databases: ['shop', 'billing'] });
+
+      await verifyCommand({ ...options, restoreTest: true });
+
+      expect(mockMySQLManager.createDatabase).not.toHaveBeenCalled();
+      expect(output()).toContain('- Restore test  Dump switches databases (shop, billing)');
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should print a JSON report', async () => {
+    await verifyCommand({ ...options, format: 'json' });
+
+    const report = JSON.parse(consoleLogSpy.mock.calls[consoleLogSpy.mock.calls.length - 1][0]);
+    expect(report).toEqual({
+      backup: backupKey,
+      passed: true,
+      checks: [
+        { name: 'Checksum', status: 'pass', detail: `SHA-256 matches (${sha256})` },
+        { name: 'Integrity', status: 'pass', detail: 'gzip stream decoded, 8192 Bytes of SQL' },
+        { name: 'Trailer', status: 'pass', detail: 'Dump ends with "-- Dump completed"' }
+      ]
+    });
+  });
+
+  it('should require a backup key', async () => {
+    await verifyCommand({});
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith('✗ Backup key is required (--backup <key>)');
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('should report a missing backup', async () => {
+    mockS3Manager.backupExists.mockResolvedValueOnce(false);
+
+    await verifyCommand(options);
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(`✗ Backup not found: ${backupKey}`);
+    expect(mockS3Manager.downloadFile).not.toHaveBeenCalled();
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+  });
+});
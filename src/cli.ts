@@ -2,8 +2,13 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import { backupCommand } from './commands/backup';
+import { binlogCommand } from './commands/binlog';
 import { listCommand } from './commands/list';
+import { pruneCommand } from './commands/prune';
 import { restoreCommand } from './commands/restore';
+import { verifyCommand } from './commands/verify';
+import { COMPRESSION_CODECS } from './modules/compression';
+import { BACKUP_MODES, isBackupMode } from './modules/manifest';
 
 const program = new Command();
 
@@ -18,9 +23,29 @@ program
   .description('Create a database backup and upload to S3')
   .option('-c, --config <file>', 'Configuration file path (JSON or YAML)')
   .option('-s, --schemas <schemas>', 'Comma-separated list of schemas to backup')
+  .option('--include-tables <patterns>', 'Only back up these tables, e.g. app.orders,*.audit_* (comma-separated)')
+  .option('--exclude-tables <patterns>', 'Leave out these tables (comma-separated patterns)')
+  .option('--schema-only-tables <patterns>', 'Back up the definition but not the rows of these tables (comma-separated patterns)')
   .option('-n, --name <name>', 'Custom backup name (without extension)')
+  .option('--temp-file', 'Write the dump to a local temp file before uploading instead of streaming it')
+  .option('--compression <codec>', 'Compression codec (gzip|zstd|brotli|none)')
+  .option('--compression-level <level>', 'Compression level (gzip 1-9, zstd 1-19, brotli 0-11)')
+  .option('--parallel <connections>', 'Dump tables concurrently over this many connections into separate chunk objects')
+  .option('--mode <mode>', 'What to back up (full|schema|data)')
+  .option('--mask <profile>', 'Mask columns with this masking profile and store the backup under a separate -sanitized key')
+  .option('--subset <profile>', 'Back up a sample of rows with every row they reference, as this subset profile describes, under a separate -subset key')
   .option('-v, --verbose', 'Enable verbose output')
   .action(async (options) => {
+    if (options.compression && !COMPRESSION_CODECS.includes(options.compression)) {
+      console.error(chalk.red(`✗ Invalid compression codec. Use one of: ${COMPRESSION_CODECS.join(', ')}`));
+      process.exit(1);
+      return;
+    }
+    if (options.mode && !isBackupMode(options.mode)) {
+      console.error(chalk.red(`✗ Invalid backup mode. Use one of: ${BACKUP_MODES.join(', ')}`));
+      process.exit(1);
+      return;
+    }
     await backupCommand(options);
   });
 
@@ -30,6 +55,13 @@ program
   .description('List available backups in S3')
   .option('-c, --config <file>', 'Configuration file path (JSON or YAML)')
   .option('-f, --format <format>', 'Output format (table|json)', 'table')
+  .option('-p, --prefix <prefix>', 'Only include backups whose key starts with this prefix')
+  .option('--since <date>', 'Only include backups created on or after this date')
+  .option('--until <date>', 'Only include backups created on or before this date')
+  .option('--name <glob>', 'Only include backups whose name matches this glob (* and ?)')
+  .option('--limit <count>', 'Show at most this many backups')
+  .option('--sort <field>', 'Sort by name, date or size', 'date')
+  .option('--reverse', 'Reverse the sort order')
   .option('-v, --verbose', 'Enable verbose output')
   .action(async (options) => {
     if (options.format && !['table', 'json'].includes(options.format)) {
@@ -49,6 +81,32 @@ program
   .option('-d, --database <name>', 'Target database name (required for non-interactive mode)')
   .option('--non-interactive', 'Run in non-interactive mode')
   .option('--force', 'Skip confirmation prompts')
+  .option('--temp-file', 'Download the backup to a local temp file before restoring instead of streaming it')
+  .option('--ignore-checksum', 'Restore even if the backup does not match its recorded SHA-256 checksum')
+  .option('--verify-after-stream', 'Check the checksum only while streaming the backup into the database, instead of reading the backup through once beforehand')
+  .option('--to-time <time>', 'Restore to this point in time by replaying archived binlogs after the backup')
+  .option('--as-replica', 'Set the target server up as a replica, starting where the backup was taken')
+  .option('--source-host <host>', 'Replication source host for --as-replica')
+  .option('--source-port <port>', 'Replication source port for --as-replica (default: 3306)')
+  .option('--source-user <user>', 'Replication user for --as-replica (password from REPLICATION_PASSWORD)')
+  .option('--start-replica', 'Start replication once the replica is configured')
+  .option('--parallel <connections>', 'Load the chunks of a parallel backup over this many connections (default: 4)')
+  .option('--tables <names>', 'Only restore these tables (comma-separated)')
+  .option('--exclude-tables <names>', 'Restore every table except these (comma-separated)')
+  .option('--table-suffix <suffix>', 'Restore tables under their name plus this suffix, e.g. _restored')
+  .option('--schemas <names>', 'Only restore these schemas of a multi-schema backup (comma-separated)')
+  .option('--map <pairs>', 'Restore schemas under other names, e.g. app=app_staging,billing=billing_staging')
+  .option('--atomic', 'Restore into a shadow database, check it, then swap its tables into the target at once')
+  .option('--keep-old <hours>', 'With --atomic, keep the replaced tables in <database>_old this long, 0 to drop them (default: 24)')
+  .option('--snapshot', 'Dump the target database to S3 under pre-restore/ first, so a failed restore can be rolled back')
+  .option('--mask <profile>', 'Mask columns with this masking profile before the rows reach the server')
+  .option('-p, --prefix <prefix>', 'Only include backups whose key starts with this prefix')
+  .option('--since <date>', 'Only include backups created on or after this date')
+  .option('--until <date>', 'Only include backups created on or before this date')
+  .option('--name <glob>', 'Only include backups whose name matches this glob (* and ?)')
+  .option('--limit <count>', 'Offer at most this many backups')
+  .option('--sort <field>', 'Sort by name, date or size', 'date')
+  .option('--reverse', 'Reverse the sort order')
   .option('-v, --verbose', 'Enable verbose output')
   .action(async (options) => {
     await restoreCommand({
@@ -57,6 +115,49 @@ program
     });
   });
 
+// Verify command
+program
+  .command('verify')
+  .description('Check that a backup in S3 is intact and restorable')
+  .option('-c, --config <file>', 'Configuration file path (JSON or YAML)')
+  .option('-b, --backup <key>', 'S3 backup key to verify')
+  .option('--restore-test', 'Also restore into a scratch database and compare row counts')
+  .option('-f, --format <format>', 'Report format (table|json)', 'table')
+  .option('-v, --verbose', 'Enable verbose output')
+  .action(async (options) => {
+    if (options.format && !['table', 'json'].includes(options.format)) {
+      console.error(chalk.red('✗ Invalid format. Use "table" or "json"'));
+      process.exit(1);
+      return;
+    }
+    await verifyCommand(options);
+  });
+
+// Prune command
+program
+  .command('prune')
+  .description('Delete old backups according to the retention rules')
+  .option('-c, --config <file>', 'Configuration file path (JSON or YAML)')
+  .option('-p, --prefix <prefix>', 'Only prune backups whose key starts with this prefix')
+  .option('--dry-run', 'Print the backups that would be deleted without deleting them')
+  .option('-v, --verbose', 'Enable verbose output')
+  .action(async (options) => {
+    await pruneCommand(options);
+  });
+
+// Binlog command
+program
+  .command('binlog')
+  .description('Archive MySQL binary logs to S3 for point-in-time recovery')
+  .option('-c, --config <file>', 'Configuration file path (JSON or YAML)')
+  .option('--watch', 'Keep running and archive new binlogs periodically')
+  .option('--interval <seconds>', 'Seconds between archive passes with --watch', '300')
+  .option('--flush', 'Rotate the current binlog first so it is archived too (needs RELOAD)')
+  .option('-v, --verbose', 'Enable verbose output')
+  .action(async (options) => {
+    await binlogCommand(options);
+  });
+
 // Global error handler
 process.on('uncaughtException', (error) => {
   console.error(chalk.red('✗ Uncaught exception:'), error.message);
@@ -2,10 +2,28 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import chalk from 'chalk';
-import { BackupOptions } from '../types';
+import { BackupDigest, BackupManifest, BackupMode, BackupOptions, BackupStreamOptions, BinlogPosition, CompressionCodec, ManifestChunk, UploadOptions } from '../types';
+import { CHECKSUM_METADATA_KEY } from '../modules/checksum';
 import { ConfigManager } from '../modules/config';
+import { getBackupExtension, getContentType, normalizeCompressionConfig } from '../modules/compression';
+import { describeEncryption, ENCRYPTED_EXTENSION, ENCRYPTION_ALGORITHM, isEncryptionEnabled } from '../modules/encryption';
+import { describeMaskingPlan, resolveMaskingPlan, SANITIZED_LABEL } from '../modules/masking';
+import {
+  describeBackupMode,
+  describeBinlogPosition,
+  getBackupModeExtension,
+  getManifestKey,
+  MANIFEST_FORMAT_VERSION,
+  PARALLEL_SUFFIX,
+  TOOL_VERSION
+} from '../modules/manifest';
 import { MySQLManager } from '../modules/mysql';
+import { createNativeBackupStream } from '../modules/nativedump';
+import { createParallelBackup } from '../modules/parallel';
+import { pruneBackups } from '../modules/retention';
 import { S3Manager } from '../modules/s3';
+import { describeSubsetPlan, resolveSubsetPlan, SUBSET_LABEL } from '../modules/subset';
+import { describeTableFilters, hasRowFilters, hasTableFilters, parseTablePatterns } from '../modules/tablepatterns';
 import { progressTracker } from '../modules/progress';
 
 export async function backupCommand(options: BackupOptions): Promise<void> {
@@ -19,6 +37,69 @@ export async function backupCommand(options: BackupOptions): Promise<void> {
       config.database.schemas = options.schemas.split(',').map(s => s.trim());
     }
 
+    // Override table filters from CLI if provided
+    const includeTables = parseTablePatterns('include-tables', options.includeTables);
+    const excludeTables = parseTablePatterns('exclude-tables', options.excludeTables);
+    const schemaOnlyTables = parseTablePatterns('schema-only-tables', options.schemaOnlyTables);
+    if (includeTables) {
+      config.database.tables = includeTables;
+    }
+    if (excludeTables) {
+      config.database.excludeTables = excludeTables;
+    }
+    if (schemaOnlyTables) {
+      config.database.schemaOnlyTables = schemaOnlyTables;
+    }
+
+    // Override compression from CLI if provided
+    if (options.compression || options.compressionLevel) {
+      config.compression = {
+        codec: (options.compression as CompressionCodec | undefined) ?? config.compression?.codec,
+        level: options.compressionLevel !== undefined ? Number(options.compressionLevel) : config.compression?.level
+      };
+    }
+    const compression = normalizeCompressionConfig(config.compression);
+    const compressionLabel = compression.level !== undefined
+      ? `${compression.codec} (level ${compression.level})`
+      : compression.codec;
+
+    // Encrypt whenever a passphrase, key file or public-key recipients are configured
+    const encryption = isEncryptionEnabled(config.encryption) ? config.encryption : undefined;
+    const encryptionLabel = encryption ? describeEncryption(encryption) : 'none';
+
+    // --parallel dumps each table into its own chunk object instead of running mysqldump
+    const parallel = options.parallel !== undefined ? Number(options.parallel) : undefined;
+    if (parallel !== undefined && (!Number.isInteger(parallel) || parallel < 1)) {
+      throw new Error(`Invalid --parallel value '${options.parallel}' (expected a number of connections)`);
+    }
+    if (parallel !== undefined && options.tempFile) {
+      throw new Error('--temp-file cannot be combined with --parallel; chunks are always streamed');
+    }
+    // Schema-only dumps carry no rows, data-only dumps no table definitions
+    const mode: BackupMode = (options.mode as BackupMode | undefined) ?? 'full';
+    const masking = options.mask !== undefined ? resolveMaskingPlan(config.masking, options.mask) : undefined;
+    if (masking && mode === 'schema') {
+      throw new Error('--mask has nothing to mask in a schema-only backup');
+    }
+    const subset = options.subset !== undefined ? resolveSubsetPlan(config.subsets, options.subset) : undefined;
+    if (subset && mode === 'schema') {
+      throw new Error('--subset has no rows to select in a schema-only backup');
+    }
+    // A row filter could drop rows the subset's foreign keys need
+    if (subset && hasRowFilters(config.database)) {
+      throw new Error('--subset cannot be combined with tableFilters');
+    }
+
+    // mysqldump's --where applies to every table, so row filters and subsets need the native engine's single snapshot
+    const rowFilters = (hasRowFilters(config.database) || Boolean(subset)) && mode !== 'schema';
+    if (rowFilters && parallel === undefined && config.dumpEngine === 'mysqldump') {
+      console.log(chalk.yellow(`⚠ ${subset ? '--subset needs' : 'tableFilters need'} the native dump engine, so it is used instead of mysqldump`));
+    }
+    const engine = parallel !== undefined ? 'parallel' : rowFilters ? 'native' : config.dumpEngine ?? 'mysqldump';
+    const extension = getBackupModeExtension(mode) + (parallel !== undefined
+      ? PARALLEL_SUFFIX
+      : getBackupExtension(compression.codec) + (encryption ? ENCRYPTED_EXTENSION : ''));
+
     if (options.verbose) {
       console.log(chalk.blue('ℹ Configuration loaded successfully'));
       console.log(chalk.gray(`Database: ${config.database.host}:${config.database.port}`));
@@ -29,6 +110,22 @@ export async function backupCommand(options: BackupOptions): Promise<void> {
       if (config.database.schemas) {
         console.log(chalk.gray(`Schemas: ${config.database.schemas.join(', ')}`));
       }
+      if (hasTableFilters(config.database)) {
+        console.log(chalk.gray(`Tables: ${describeTableFilters(config.database)}`));
+      }
+      console.log(chalk.gray(`Compression: ${compressionLabel}`));
+      console.log(chalk.gray(`Encryption: ${encryptionLabel}`));
+      console.log(chalk.gray(`Dump engine: ${engine}`));
+      console.log(chalk.gray(`Mode: ${describeBackupMode(mode)}`));
+      if (masking) {
+        console.log(chalk.gray(`Masking: ${describeMaskingPlan(masking)}`));
+      }
+      if (subset) {
+        console.log(chalk.gray(`Subset: ${describeSubsetPlan(subset)}`));
+      }
+      if (parallel !== undefined) {
+        console.log(chalk.gray(`Parallel connections: ${parallel}`));
+      }
     }
 
     // Initialize managers
@@ -40,48 +137,203 @@ export async function backupCommand(options: BackupOptions): Promise<void> {
     await mysqlManager.testConnection();
     console.log(chalk.green('✓ Database connection successful'));
 
-    // Generate backup file paths
+    // Server and table details for the manifest, taken right before the dump starts
+    const startedAt = new Date();
+    const snapshot = await mysqlManager.getServerSnapshot();
+    if (hasTableFilters(config.database) && snapshot.tables.length === 0) {
+      throw new Error(`No tables match the table filters (${describeTableFilters(config.database)})`);
+    }
+    const schemaOnly = snapshot.tables.filter(table => table.schemaOnly);
+    if (options.verbose) {
+      console.log(chalk.gray(`MySQL server: ${snapshot.serverVersion}, ${snapshot.tables.length} tables`));
+    }
+
+    // Generate backup file paths; subset and masked backups get a name of their own, so they never pass for (or prune) the real ones
     let s3Key: string;
+    const label = (subset ? SUBSET_LABEL : '') + (masking ? SANITIZED_LABEL : '');
     
     if (options.name) {
-      // Use custom backup name provided via CLI
-      s3Key = `${options.name}.sql.gz`;
+      // Use custom backup name provided via CLI, still labelled so it can't replace a full backup of that name
+      s3Key = `${options.name}${label}${extension}`;
     } else if (config.s3.key) {
       // Use key from config with timestamp
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      s3Key = `${config.s3.key}-${timestamp}.sql.gz`;
+      s3Key = `${config.s3.key}${label}-${timestamp}${extension}`;
     } else {
       // Auto-generate key based on database/schemas
-      s3Key = configManager.generateS3Key(config.database.database, config.database.schemas);
+      s3Key = configManager.generateS3Key(config.database.database, config.database.schemas, extension, label);
     }
 
-    const tempDir = os.tmpdir();
-    const tempBackupPath = path.join(tempDir, `backup-${Date.now()}.sql.gz`);
+    // Record the codec on the object so restore can pick the decompressor without guessing
+    const uploadOptions: UploadOptions = {
+      contentType: encryption ? 'application/octet-stream' : getContentType(compression.codec),
+      metadata: { compression: compression.codec }
+    };
+    if (encryption) {
+      uploadOptions.metadata!.encryption = ENCRYPTION_ALGORITHM;
+    }
+
+    let digest: BackupDigest | undefined;
+    let uncompressedSize = 0;
+    let compressedSize = 0;
+    let chunks: ManifestChunk[] | undefined;
+    let dumpBinlog: BinlogPosition | undefined;
+    let subsetRows: Record<string, number> = {};
+    const streamOptions: BackupStreamOptions = {
+      compression,
+      encryption,
+      mode,
+      masking,
+      onDumpData: (bytes: number) => {
+        uncompressedSize += bytes;
+      }
+    };
+    // mysqldump leaves excluded tables out and dumps schema-only ones in a second run
+    if (snapshot.excludedTables?.length) {
+      streamOptions.ignoreTables = snapshot.excludedTables;
+    }
+    if (subset) {
+      streamOptions.subset = {
+        plan: subset,
+        onSelected: rows => {
+          subsetRows = rows;
+        }
+      };
+    }
+    if (schemaOnly.length > 0) {
+      streamOptions.schemaOnlyTables = schemaOnly.map(table => ({ schema: table.schema, name: table.name }));
+    }
+    // With binary logging on, have the dump record the exact position of its snapshot;
+    // schema-only dumps have no rows to replay binlogs onto
+    const recordBinlog = Boolean(snapshot.binlog) && mode !== 'schema';
+    if (recordBinlog && snapshot.hasReloadPrivilege && parallel === undefined) {
+      streamOptions.binlog = {
+        serverVersion: snapshot.serverVersion,
+        onPosition: position => {
+          dumpBinlog = position;
+        }
+      };
+    }
+    // The native engine reads the tables itself instead of running mysqldump
+    const createNativeDump = () => createNativeBackupStream(mysqlManager, snapshot, streamOptions);
+    let tempBackupPath: string | undefined;
 
     try {
-      // Create backup
-      console.log(chalk.blue('ℹ Creating database backup...'));
-      const backupProgress = progressTracker.createStreamProgressBar('Creating backup');
+      if (parallel !== undefined) {
+        if (options.verbose) {
+          console.log(chalk.gray(`Streaming chunks to: s3://${config.s3.bucket}/${s3Key}/`));
+        }
+
+        console.log(chalk.blue(`ℹ Dumping ${snapshot.tables.length} tables over ${parallel} connection${parallel === 1 ? '' : 's'} to S3...`));
+        const result = await createParallelBackup(mysqlManager, s3Manager, s3Key, snapshot, {
+          connections: parallel,
+          compression,
+          encryption,
+          mode,
+          masking,
+          subset: streamOptions.subset,
+          onProgress: progressTracker.createStreamProgressBar('Uploading chunks')
+        });
+        chunks = result.chunks;
+        dumpBinlog = result.binlog;
+        uncompressedSize = result.uncompressedSize;
+        compressedSize = result.compressedSize;
+        console.log(chalk.green(`✓ ${chunks.length} chunks streamed to S3`));
+      } else if (options.tempFile) {
+        // Fallback: buffer the whole dump on local disk before uploading
+        const tempDir = os.tmpdir();
+        tempBackupPath = path.join(tempDir, `backup-${Date.now()}${extension}`);
+
+        // Create backup
+        console.log(chalk.blue('ℹ Creating database backup...'));
+        const backupProgress = progressTracker.createStreamProgressBar('Creating backup');
+
+        digest = engine === 'native'
+          ? await mysqlManager.createBackup(tempBackupPath, backupProgress, streamOptions, createNativeDump())
+          : await mysqlManager.createBackup(tempBackupPath, backupProgress, streamOptions);
+        console.log(chalk.green('✓ Database backup created'));
+
+        if (options.verbose) {
+          console.log(chalk.gray(`Backup size: ${s3Manager.formatFileSize(digest.size)}`));
+          console.log(chalk.gray(`Uploading to: s3://${config.s3.bucket}/${s3Key}`));
+        }
+
+        // The file is complete, so its checksum can go on the object (streamed uploads only have the manifest)
+        uploadOptions.metadata![CHECKSUM_METADATA_KEY] = digest.sha256;
 
-      await mysqlManager.createBackup(tempBackupPath, backupProgress);
-      console.log(chalk.green('✓ Database backup created'));
+        // Upload to S3
+        console.log(chalk.blue('ℹ Uploading backup to S3...'));
+        const uploadProgress = progressTracker.createProgressBar('Uploading');
+
+        await s3Manager.uploadFile(tempBackupPath, s3Key, uploadProgress, uploadOptions);
+        progressTracker.stop();
+        console.log(chalk.green('✓ Backup uploaded to S3'));
+      } else {
+        if (options.verbose) {
+          console.log(chalk.gray(`Streaming to: s3://${config.s3.bucket}/${s3Key}`));
+        }
 
-      // Get backup file size
-      const stats = fs.statSync(tempBackupPath);
-      const fileSize = s3Manager.formatFileSize(stats.size);
+        // Pipe the dump straight into a multipart upload
+        console.log(chalk.blue('ℹ Streaming database backup to S3...'));
+        const streamProgress = progressTracker.createStreamProgressBar('Uploading backup');
 
-      if (options.verbose) {
-        console.log(chalk.gray(`Backup size: ${fileSize}`));
-        console.log(chalk.gray(`Uploading to: s3://${config.s3.bucket}/${s3Key}`));
+        digest = await s3Manager.uploadStream(
+          engine === 'native' ? createNativeDump() : mysqlManager.createBackupStream(streamOptions),
+          s3Key,
+          streamProgress,
+          uploadOptions
+        );
+        console.log(chalk.green('✓ Backup streamed to S3'));
+      }
+      if (digest) {
+        compressedSize = digest.size;
       }
 
-      // Upload to S3
-      console.log(chalk.blue('ℹ Uploading backup to S3...'));
-      const uploadProgress = progressTracker.createProgressBar('Uploading');
+      const manifest: BackupManifest = {
+        formatVersion: MANIFEST_FORMAT_VERSION,
+        toolVersion: TOOL_VERSION,
+        backupKey: s3Key,
+        serverVersion: snapshot.serverVersion,
+        schemas: snapshot.schemas,
+        tables: snapshot.tables,
+        mysqldumpFlags: engine === 'mysqldump' ? mysqlManager.getDumpFlags(streamOptions) : [],
+        compression,
+        encrypted: Boolean(encryption),
+        uncompressedSize,
+        compressedSize,
+        sha256: digest?.sha256,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        binlog: recordBinlog ? dumpBinlog ?? snapshot.binlog : undefined,
+        engine,
+        chunks,
+        mode,
+        excludedTables: snapshot.excludedTables?.length ? snapshot.excludedTables : undefined,
+        masking: masking ? { profile: masking.profile, columns: masking.columns.map(column => column.key) } : undefined,
+        subset: subset ? { profile: subset.profile, roots: subset.roots, referencing: subset.referencing, rows: subsetRows } : undefined
+      };
 
-      await s3Manager.uploadFile(tempBackupPath, s3Key, uploadProgress);
-      progressTracker.stop();
-      console.log(chalk.green('✓ Backup uploaded to S3'));
+      if (recordBinlog && !dumpBinlog) {
+        console.log(chalk.yellow('⚠ Recorded the binlog position from just before the dump; it may not match the dump exactly (recording it needs the RELOAD privilege)'));
+      }
+
+      // The dump itself is already stored, so a missing manifest is only worth a warning;
+      // the chunks of a parallel backup are useless without one, though
+      try {
+        await s3Manager.uploadManifest(s3Key, manifest);
+        if (options.verbose) {
+          console.log(chalk.gray(`Manifest written to: s3://${config.s3.bucket}/${getManifestKey(s3Key)}`));
+        }
+      } catch (error: unknown) {
+        if (chunks) {
+          await s3Manager.deleteBackups([s3Key]).catch(() => undefined);
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.log(chalk.yellow(`⚠ ${errorMessage}`));
+      }
+
+      const fileSize = s3Manager.formatFileSize(compressedSize);
 
       // Success message
       console.log('');
@@ -97,13 +349,55 @@ export async function backupCommand(options: BackupOptions): Promise<void> {
       }
       
       console.log(`  Database: ${backupScope}`);
-      console.log(`  Size: ${fileSize}`);
+      console.log(`  Size: ${fileSize} (${s3Manager.formatFileSize(uncompressedSize)} uncompressed)`);
+      console.log(`  Mode: ${describeBackupMode(mode)}`);
+      console.log(`  Tables: ${snapshot.tables.length}${describeFilteredTables(schemaOnly.length, snapshot.excludedTables?.length ?? 0)}`);
+      for (const table of snapshot.tables.filter(table => table.where !== undefined)) {
+        console.log(`  Filtered: ${table.schema}.${table.name} WHERE ${table.where}`);
+      }
+      if (subset) {
+        const rows = Object.values(subsetRows).reduce((sum, count) => sum + count, 0);
+        const tables = Object.keys(subsetRows).length;
+        console.log(`  Subset: ${describeSubsetPlan(subset)}, ${rows} row${rows === 1 ? '' : 's'} from ${tables} table${tables === 1 ? '' : 's'}`);
+      }
+      if (masking) {
+        console.log(`  Masked: ${describeMaskingPlan(masking)}`);
+      }
+      console.log(`  Compression: ${compressionLabel}`);
+      console.log(`  Encryption: ${encryptionLabel}`);
       console.log(`  Location: s3://${config.s3.bucket}/${s3Key}`);
+      if (chunks) {
+        console.log(`  Chunks: ${chunks.length} (${parallel} connection${parallel === 1 ? '' : 's'})`);
+      } else {
+        console.log(`  SHA-256: ${digest!.sha256}`);
+      }
+      if (manifest.binlog) {
+        console.log(`  Binlog: ${describeBinlogPosition(manifest.binlog)}`);
+      }
       console.log(`  Created: ${new Date().toLocaleString()}`);
 
+      // Apply the retention rules to this backup's name only; the new backup is its newest
+      if (config.retention?.autoPrune) {
+        try {
+          const { name } = s3Manager.parseBackupKey(s3Key);
+          // The name of a schema- or data-only backup ends in its mode, which its keys don't start with
+          const directory = s3Key.slice(0, s3Key.lastIndexOf('/') + 1);
+          const decisions = await pruneBackups(s3Manager, config.retention, { prefix: directory || undefined, group: name });
+          const deleted = decisions.filter(decision => !decision.keep);
+          console.log('');
+          console.log(chalk.green(`✓ Pruned ${deleted.length} old backup${deleted.length === 1 ? '' : 's'} of ${name}`));
+          if (options.verbose) {
+            deleted.forEach(decision => console.log(chalk.gray(`Deleted ${decision.backup.key}`)));
+          }
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.log(chalk.yellow(`⚠ Automatic prune failed: ${errorMessage}`));
+        }
+      }
+
     } finally {
       // Clean up temporary file
-      if (fs.existsSync(tempBackupPath)) {
+      if (tempBackupPath && fs.existsSync(tempBackupPath)) {
         fs.unlinkSync(tempBackupPath);
         if (options.verbose) {
           console.log(chalk.gray('Temporary backup file cleaned up'));
@@ -123,3 +417,10 @@ export async function backupCommand(options: BackupOptions): Promise<void> {
     process.exit(1);
   }
 }
+
+function describeFilteredTables(schemaOnly: number, excluded: number): string {
+  const parts: string[] = [];
+  if (schemaOnly > 0) parts.push(`${schemaOnly} without rows`);
+  if (excluded > 0) parts.push(`${excluded} excluded`);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
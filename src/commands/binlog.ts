@@ -0,0 +1,104 @@
+import chalk from 'chalk';
+import { BinlogOptions } from '../types';
+import { archiveBinlogs, getBinlogPrefix } from '../modules/binlog';
+import { ConfigManager } from '../modules/config';
+import { MySQLManager } from '../modules/mysql';
+import { S3Manager } from '../modules/s3';
+
+const DEFAULT_INTERVAL_SECONDS = 300;
+
+export async function binlogCommand(options: BinlogOptions): Promise<void> {
+  try {
+    // Load configuration - binlog command needs both database and S3 credentials
+    const configManager = ConfigManager.getInstance();
+    const config = configManager.loadConfig(options.configFile, { requireDatabase: true, requireS3: true });
+
+    const interval = options.interval !== undefined ? Number(options.interval) : DEFAULT_INTERVAL_SECONDS;
+    if (!Number.isInteger(interval) || interval < 1) {
+      console.error(chalk.red(`✗ Invalid interval '${options.interval}' (expected a number of seconds)`));
+      process.exit(1);
+      return;
+    }
+
+    if (options.verbose) {
+      console.log(chalk.blue('ℹ Configuration loaded successfully'));
+      console.log(chalk.gray(`Database: ${config.database.host}:${config.database.port}`));
+      console.log(chalk.gray(`S3 Bucket: ${config.s3.bucket}`));
+      if (config.s3.endpointUrl) {
+        console.log(chalk.gray(`S3 Endpoint: ${config.s3.endpointUrl}`));
+      }
+    }
+
+    const mysqlManager = new MySQLManager(config.database);
+    const s3Manager = new S3Manager(config.s3);
+
+    console.log(chalk.blue('ℹ Testing database connection...'));
+    await mysqlManager.testConnection();
+    console.log(chalk.green('✓ Database connection successful'));
+
+    const prefix = getBinlogPrefix(config.binlog);
+    console.log(chalk.blue(`ℹ Archiving binlogs to s3://${config.s3.bucket}/${prefix}`));
+
+    const archivePass = async () => {
+      const archived = await archiveBinlogs(mysqlManager, s3Manager, config, {
+        flush: options.flush,
+        onArchived: binlog => console.log(chalk.gray(`Archived ${binlog.file} (${s3Manager.formatFileSize(binlog.size)})`))
+      });
+      if (archived.length > 0) {
+        console.log(chalk.green(`✓ Archived ${archived.length} binlog${archived.length === 1 ? '' : 's'}`));
+      } else if (options.verbose || !options.watch) {
+        console.log(chalk.gray('No new binlogs to archive'));
+      }
+    };
+
+    if (!options.watch) {
+      await archivePass();
+      return;
+    }
+
+    console.log(chalk.blue(`ℹ Watching for new binlogs every ${interval}s (Ctrl+C to stop)`));
+    let stopped = false;
+    let wake: (() => void) | undefined;
+    const stop = () => {
+      stopped = true;
+      wake?.();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    try {
+      while (!stopped) {
+        // A failed pass is retried on the next tick; already archived binlogs are skipped
+        try {
+          await archivePass();
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error(chalk.yellow(`⚠ Archive pass failed: ${errorMessage}`));
+        }
+        if (!stopped) {
+          await new Promise<void>(resolve => {
+            const timer = setTimeout(resolve, interval * 1000);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+        }
+      }
+    } finally {
+      process.removeListener('SIGINT', stop);
+      process.removeListener('SIGTERM', stop);
+    }
+    console.log(chalk.blue('ℹ Binlog archiver stopped'));
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red('✗ Binlog archiving failed:'), errorMessage);
+
+    if (options.verbose && error instanceof Error && error.stack) {
+      console.error(chalk.gray(error.stack));
+    }
+
+    process.exit(1);
+  }
+}
@@ -1,6 +1,8 @@
 import chalk from 'chalk';
 import { ListOptions } from '../types';
 import { ConfigManager } from '../modules/config';
+import { applyBackupFilter, hasBackupFilters, parseBackupFilter } from '../modules/filter';
+import { describeBinlogPosition, describeManifest } from '../modules/manifest';
 import { S3Manager } from '../modules/s3';
 
 export async function listCommand(options: ListOptions): Promise<void> {
@@ -8,6 +10,7 @@ export async function listCommand(options: ListOptions): Promise<void> {
     // Load configuration - list command only needs S3 credentials
     const configManager = ConfigManager.getInstance();
     const config = configManager.loadConfig(options.configFile, { requireDatabase: false, requireS3: true });
+    const filter = parseBackupFilter(options);
 
     if (options.verbose) {
       console.log(chalk.blue('ℹ Configuration loaded successfully'));
@@ -22,14 +25,21 @@ export async function listCommand(options: ListOptions): Promise<void> {
 
     // List backups
     console.log(chalk.blue('ℹ Fetching list of available backups...'));
-    const backups = await s3Manager.listBackups();
+    const allBackups = await s3Manager.listBackups(filter.prefix);
+    const backups = applyBackupFilter(allBackups, filter, key => s3Manager.parseBackupKey(key));
 
     if (backups.length === 0) {
-      console.log(chalk.yellow('⚠ No backups found in the S3 bucket'));
+      console.log(chalk.yellow(hasBackupFilters(filter) ? '⚠ No backups match the filters' : '⚠ No backups found in the S3 bucket'));
       return;
     }
 
-    console.log(chalk.green(`✓ Found ${backups.length} backup${backups.length === 1 ? '' : 's'}`));
+    // Manifests cost one request per backup, so only load them for verbose output
+    if (options.verbose) {
+      await s3Manager.attachManifests(backups);
+    }
+
+    const count = `${backups.length} backup${backups.length === 1 ? '' : 's'}`;
+    console.log(chalk.green(backups.length < allBackups.length ? `✓ Showing ${count} of ${allBackups.length}` : `✓ Found ${count}`));
     console.log('');
 
     if (options.format === 'json') {
@@ -37,9 +47,11 @@ export async function listCommand(options: ListOptions): Promise<void> {
       const jsonOutput = backups.map(backup => ({
         key: backup.key,
         displayName: backup.displayName,
+        mode: backup.mode ?? 'full',
         lastModified: backup.lastModified.toISOString(),
         size: backup.size,
-        sizeFormatted: s3Manager.formatFileSize(backup.size)
+        sizeFormatted: s3Manager.formatFileSize(backup.size),
+        manifest: backup.manifest
       }));
 
       console.log(JSON.stringify(jsonOutput, null, 2));
@@ -74,6 +86,14 @@ export async function listCommand(options: ListOptions): Promise<void> {
 
         const rowColor = index % 2 === 0 ? chalk.white : chalk.gray;
         console.log(rowColor(`${nameCell} | ${sizeCell} | ${dateCell}`));
+
+        if (backup.manifest) {
+          const uncompressed = s3Manager.formatFileSize(backup.manifest.uncompressedSize);
+          console.log(chalk.gray(`  ${describeManifest(backup.manifest)}, ${uncompressed} uncompressed`));
+          if (backup.manifest.binlog) {
+            console.log(chalk.gray(`  Binlog: ${describeBinlogPosition(backup.manifest.binlog)}`));
+          }
+        }
       });
 
       console.log('');
@@ -0,0 +1,82 @@
+import chalk from 'chalk';
+import { PruneOptions } from '../types';
+import { ConfigManager } from '../modules/config';
+import { describeRetention, hasRetentionRules, pruneBackups } from '../modules/retention';
+import { S3Manager } from '../modules/s3';
+
+export async function pruneCommand(options: PruneOptions): Promise<void> {
+  try {
+    // Load configuration - prune command only needs S3 credentials
+    const configManager = ConfigManager.getInstance();
+    const config = configManager.loadConfig(options.configFile, { requireDatabase: false, requireS3: true });
+
+    if (!hasRetentionRules(config.retention)) {
+      console.error(chalk.red('✗ No retention rules configured. Add a "retention" block to the config file or set RETENTION_* variables'));
+      process.exit(1);
+      return;
+    }
+    const retention = config.retention!;
+
+    if (options.verbose) {
+      console.log(chalk.blue('ℹ Configuration loaded successfully'));
+      console.log(chalk.gray(`S3 Bucket: ${config.s3.bucket}`));
+      if (config.s3.endpointUrl) {
+        console.log(chalk.gray(`S3 Endpoint: ${config.s3.endpointUrl}`));
+      }
+    }
+    console.log(chalk.blue(`ℹ Retention: ${describeRetention(retention)}`));
+
+    const s3Manager = new S3Manager(config.s3);
+
+    console.log(chalk.blue(options.dryRun ? 'ℹ Planning prune (dry run)...' : 'ℹ Pruning backups...'));
+    const decisions = await pruneBackups(s3Manager, retention, { prefix: options.prefix, dryRun: options.dryRun });
+
+    if (decisions.length === 0) {
+      console.log(chalk.yellow('⚠ No backups found in the S3 bucket'));
+      return;
+    }
+
+    if (options.verbose) {
+      let group: string | undefined;
+      for (const decision of decisions) {
+        if (decision.group !== group) {
+          group = decision.group;
+          console.log('');
+          console.log(chalk.cyan.bold(`${group}:`));
+        }
+        const status = decision.keep ? chalk.green('keep  ') : chalk.red('delete');
+        const reasons = decision.keep ? chalk.gray(` (${decision.reasons.join(', ')})`) : '';
+        console.log(`  ${status} ${decision.backup.key}${reasons}`);
+      }
+      console.log('');
+    }
+
+    const deleted = decisions.filter(decision => !decision.keep);
+    const freed = s3Manager.formatFileSize(deleted.reduce((sum, decision) => sum + decision.backup.size, 0));
+    const kept = decisions.length - deleted.length;
+
+    if (deleted.length === 0) {
+      console.log(chalk.green(`✓ Nothing to prune, keeping all ${kept} backup${kept === 1 ? '' : 's'}`));
+      return;
+    }
+
+    if (options.dryRun) {
+      console.log(chalk.yellow(`Dry run: ${deleted.length} backup${deleted.length === 1 ? '' : 's'} (${freed}) would be deleted:`));
+      deleted.forEach(decision => console.log(decision.backup.key));
+      console.log(chalk.gray(`${kept} backup${kept === 1 ? '' : 's'} would be kept`));
+    } else {
+      deleted.forEach(decision => console.log(chalk.gray(`Deleted ${decision.backup.key}`)));
+      console.log(chalk.green(`✓ Deleted ${deleted.length} backup${deleted.length === 1 ? '' : 's'} (${freed}), kept ${kept}`));
+    }
+
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red('✗ Failed to prune backups:'), errorMessage);
+
+    if (options.verbose && error instanceof Error && error.stack) {
+      console.error(chalk.gray(error.stack));
+    }
+
+    process.exit(1);
+  }
+}
@@ -3,17 +3,67 @@ import * as path from 'path';
 import * as os from 'os';
 import chalk from 'chalk';
 import * as inquirer from 'inquirer';
-import { RestoreOptions } from '../types';
+import { AppConfig, ArchivedBinlog, BackupFilter, BackupInfo, BinlogPosition, RestoreOptions, RestoreStreamOptions } from '../types';
+import { checkShadowTables, describeReferencingForeignKeys, getAtomicDatabases, getSwappedTables, parseKeepOld } from '../modules/atomic';
 import { ConfigManager } from '../modules/config';
 import { MySQLManager } from '../modules/mysql';
 import { S3Manager } from '../modules/s3';
+import { getBinlogPrefix, listArchivedBinlogs, replayArchivedBinlogs, selectBinlogs } from '../modules/binlog';
+import { getBackupExtension, resolveCodec } from '../modules/compression';
+import { ENCRYPTED_EXTENSION, hasDecryptionKey, isEncryptedKey } from '../modules/encryption';
+import { applyBackupFilter, hasBackupFilters, parseBackupFilter, parseDate } from '../modules/filter';
+import { describeManifest, isCompleteBackup, isParallelBackupKey } from '../modules/manifest';
+import { describeMaskingPlan, resolveMaskingPlan } from '../modules/masking';
+import { DEFAULT_RESTORE_PARALLELISM, restoreParallelBackup, verifyParallelChunks } from '../modules/parallel';
 import { progressTracker } from '../modules/progress';
+import { getReplicaStart, resolveReplicationSource } from '../modules/replication';
+import { describeSchemaSelection, parseSchemaSelection } from '../modules/schemafilter';
+import { createPreRestoreSnapshot, getRestoredSchemas, PRE_RESTORE_PREFIX } from '../modules/snapshot';
+import { describeTableSelection, parseTableSelection, TABLE_SUFFIX_PATTERN } from '../modules/tablefilter';
 
 export async function restoreCommand(options: RestoreOptions): Promise<void> {
+  // Set once the target is about to change and a snapshot of it was taken
+  let offerRollback: (() => Promise<void>) | undefined;
+
   try {
     // Load configuration - restore command needs both database and S3 credentials
     const configManager = ConfigManager.getInstance();
     const config = configManager.loadConfig(options.configFile, { requireDatabase: true, requireS3: true });
+    const filter = parseBackupFilter(options);
+    const pointInTime = options.toTime ? parseDate('to-time', options.toTime, false) : undefined;
+    // Only backups taken before the point in time can be rolled forward to it
+    const backupFilter: BackupFilter = pointInTime && !(filter.until && filter.until < pointInTime)
+      ? { ...filter, until: pointInTime }
+      : filter;
+    if (options.asReplica && pointInTime) {
+      throw new Error('--as-replica cannot be combined with --to-time; the replica catches up from its source instead');
+    }
+    const replicationSource = options.asReplica ? resolveReplicationSource(config.replication, options) : undefined;
+    const connections = options.parallel !== undefined ? Number(options.parallel) : DEFAULT_RESTORE_PARALLELISM;
+    if (!Number.isInteger(connections) || connections < 1) {
+      throw new Error(`Invalid --parallel value '${options.parallel}' (expected a number of connections)`);
+    }
+    let tableSelection = parseTableSelection(options);
+    // Replayed binlogs and replication would bring back every table
+    if (tableSelection && (pointInTime || options.asReplica)) {
+      throw new Error('--tables, --exclude-tables and --table-suffix cannot be combined with --to-time or --as-replica');
+    }
+    const schemaSelection = parseSchemaSelection(options);
+    if (schemaSelection && (pointInTime || options.asReplica)) {
+      throw new Error('--schemas and --map cannot be combined with --to-time or --as-replica');
+    }
+    if (options.keepOld !== undefined && !options.atomic) {
+      throw new Error('--keep-old only applies to --atomic restores');
+    }
+    const keepOldHours = parseKeepOld(options.keepOld);
+    if (options.atomic && (pointInTime || options.asReplica || schemaSelection)) {
+      throw new Error('--atomic cannot be combined with --to-time, --as-replica, --schemas or --map');
+    }
+    const masking = options.mask !== undefined ? resolveMaskingPlan(config.masking, options.mask) : undefined;
+    // Replayed binlogs and replication would bring the real values back
+    if (masking && (pointInTime || options.asReplica)) {
+      throw new Error('--mask cannot be combined with --to-time or --as-replica');
+    }
 
     if (options.verbose) {
       console.log(chalk.blue('ℹ Configuration loaded successfully'));
@@ -35,14 +85,19 @@ export async function restoreCommand(options: RestoreOptions): Promise<void> {
 
     let selectedBackupKey: string;
     let targetDatabase: string;
+    let selectedBackupInfo: BackupInfo | undefined;
 
     if (options.interactive !== false) {
       // Interactive mode
       console.log(chalk.blue('ℹ Fetching available backups...'));
-      const backups = await s3Manager.listBackups();
+      const backups = applyBackupFilter(
+        await s3Manager.listBackups(filter.prefix),
+        backupFilter,
+        key => s3Manager.parseBackupKey(key)
+      );
 
       if (backups.length === 0) {
-        console.error(chalk.red('✗ No backups found in the S3 bucket'));
+        console.error(chalk.red(hasBackupFilters(backupFilter) ? '✗ No backups match the filters' : '✗ No backups found in the S3 bucket'));
         process.exit(1);
       }
 
@@ -96,6 +151,49 @@ export async function restoreCommand(options: RestoreOptions): Promise<void> {
         targetDatabase = databaseAnswer.database;
       }
 
+      // Offer the tables listed in the manifest, unless the command line already chose
+      if (!tableSelection && !pointInTime && !options.asReplica) {
+        selectedBackupInfo = await s3Manager.getBackupInfo(selectedBackupKey);
+        // Tables of a multi-schema backup are offered by schema, since names may repeat across them
+        const multiSchema = (selectedBackupInfo.manifest?.schemas.length ?? 0) > 1;
+        const tableNames = [...new Set(selectedBackupInfo.manifest?.tables.map(table => multiSchema ? `${table.schema}.${table.name}` : table.name) ?? [])];
+        if (tableNames.length > 1) {
+          const scopeAnswer = await inquirer.prompt([
+            {
+              type: 'list',
+              name: 'scope',
+              message: 'Restore which tables?',
+              choices: [
+                { name: 'All tables', value: 'all' },
+                { name: 'Selected tables only', value: 'selected' }
+              ]
+            }
+          ]);
+          if (scopeAnswer.scope === 'selected') {
+            const tablesAnswer = await inquirer.prompt([
+              {
+                type: 'checkbox',
+                name: 'tables',
+                message: 'Select tables to restore:',
+                choices: tableNames.map(name => ({ name, value: name })),
+                pageSize: 15,
+                validate: (answer: string[]) => answer.length > 0 || 'Select at least one table'
+              },
+              {
+                type: 'input',
+                name: 'suffix',
+                message: 'Restore under new names with this suffix (leave empty to keep the names):',
+                validate: (input: string) => input.trim() === '' || TABLE_SUFFIX_PATTERN.test(input.trim()) || 'Use letters, digits, _ and $ only'
+              }
+            ]);
+            tableSelection = parseTableSelection({
+              tables: tablesAnswer.tables.join(','),
+              tableSuffix: tablesAnswer.suffix.trim() || undefined
+            });
+          }
+        }
+      }
+
       // Confirmation
       const selectedBackup = backups.find(b => b.key === selectedBackupKey);
       console.log('');
@@ -106,6 +204,24 @@ export async function restoreCommand(options: RestoreOptions): Promise<void> {
       console.log(`  Size: ${s3Manager.formatFileSize(selectedBackup?.size || 0)}`);
       console.log(`  Target database: ${targetDatabase}`);
       console.log(`  MySQL server: ${config.database.host}:${config.database.port}`);
+      if (schemaSelection) {
+        console.log(`  Schemas: ${describeSchemaSelection(schemaSelection)}`);
+      }
+      if (tableSelection) {
+        console.log(`  Tables: ${describeTableSelection(tableSelection)}`);
+      }
+      if (options.atomic) {
+        console.log(`  Atomic: ${describeOldTables(targetDatabase, keepOldHours)}`);
+      }
+      if (masking) {
+        console.log(`  Masking: ${describeMaskingPlan(masking)}`);
+      }
+      if (options.snapshot || config.preRestoreSnapshot) {
+        console.log(`  Pre-restore snapshot: to s3://${config.s3.bucket}/pre-restore/`);
+      }
+      if (replicationSource) {
+        console.log(`  Replica of: ${replicationSource.host}:${replicationSource.port}`);
+      }
       console.log('');
 
       if (!options.force) {
@@ -126,18 +242,33 @@ export async function restoreCommand(options: RestoreOptions): Promise<void> {
 
     } else {
       // Non-interactive mode
-      if (!options.backup) {
-        console.error(chalk.red('✗ Backup key is required in non-interactive mode'));
+      if (!options.database) {
+        console.error(chalk.red('✗ Target database is required in non-interactive mode'));
         process.exit(1);
       }
+      targetDatabase = options.database;
 
-      if (!options.database) {
-        console.error(chalk.red('✗ Target database is required in non-interactive mode'));
+      let backupKey = options.backup;
+      if (!backupKey && pointInTime) {
+        // Start from the newest backup taken before the target time that binlogs can be replayed onto
+        const base = await findBaseBackup(s3Manager, backupFilter, targetDatabase);
+        if (!base) {
+          const backups = backupFilter.name ? 'full backup matching --name' : `full backup of '${targetDatabase}'`;
+          console.error(chalk.red(`✗ No ${backups} with a binlog position found before ${pointInTime.toLocaleString()}`));
+          process.exit(1);
+          return;
+        }
+        backupKey = base.key;
+        selectedBackupInfo = base;
+        console.log(chalk.blue(`ℹ Using the nearest preceding backup: ${base.key}`));
+      }
+
+      if (!backupKey) {
+        console.error(chalk.red('✗ Backup key is required in non-interactive mode'));
         process.exit(1);
       }
 
-      selectedBackupKey = options.backup;
-      targetDatabase = options.database;
+      selectedBackupKey = backupKey;
 
       // Verify backup exists
       const backupExists = await s3Manager.backupExists(selectedBackupKey);
@@ -154,6 +285,176 @@ export async function restoreCommand(options: RestoreOptions): Promise<void> {
       }
     }
 
+    // The codec and encryption recorded at backup time decide how the object is decoded
+    const backupInfo = selectedBackupInfo ?? await s3Manager.getBackupInfo(selectedBackupKey);
+    // Parallel backups are chunk objects listed in the manifest, each with its own checksum
+    const parallelBackup = isParallelBackupKey(selectedBackupKey);
+    if (parallelBackup && options.tempFile) {
+      throw new Error('--temp-file cannot be used with parallel backups; their chunks are always streamed');
+    }
+    const compression = backupInfo.compression ?? resolveCodec(selectedBackupKey);
+    const encrypted = backupInfo.encrypted ?? isEncryptedKey(selectedBackupKey);
+    if (encrypted && !hasDecryptionKey(config.encryption)) {
+      throw new Error('Backup is encrypted but no decryption key is configured (ENCRYPTION_PASSPHRASE, ENCRYPTION_KEY_FILE or ENCRYPTION_IDENTITIES)');
+    }
+    const restoreOptions: RestoreStreamOptions = {
+      compression,
+      encryption: encrypted ? config.encryption : undefined,
+      engine: config.restoreEngine,
+      tables: tableSelection,
+      schemas: schemaSelection
+    };
+    if (masking) {
+      // Rows belong to the backed-up schema until the dump switches with USE
+      const schemas = backupInfo.manifest?.schemas;
+      restoreOptions.masking = { plan: masking, schema: schemas?.length === 1 ? schemas[0] : targetDatabase };
+    }
+    // An atomic restore loads a shadow database and swaps its tables in once they check out
+    const atomic = options.atomic ? getAtomicDatabases(targetDatabase) : undefined;
+    const restoreDatabase = atomic?.shadow ?? targetDatabase;
+    if (atomic) {
+      const schemas = backupInfo.manifest?.schemas;
+      if (!schemas) {
+        throw new Error('--atomic needs the backup\'s manifest to check the restored tables against');
+      }
+      if (schemas.length > 1) {
+        throw new Error(`--atomic restores a single schema; this backup has ${schemas.join(', ')}`);
+      }
+      if (backupInfo.manifest!.mode === 'data') {
+        throw new Error('--atomic needs a backup with table definitions; data-only backups load into existing tables');
+      }
+      // A dump that switches to its schema with USE is pointed at the shadow database instead
+      const flags = backupInfo.manifest!.mysqldumpFlags;
+      if (schemas.length === 1 && (flags.includes('--databases') || flags.includes('--all-databases'))) {
+        restoreOptions.schemas = { map: { [schemas[0]]: atomic.shadow } };
+      }
+    }
+    // Older backups have no recorded checksum and restore unverified
+    const expectedSha256 = options.ignoreChecksum ? undefined : backupInfo.sha256;
+    const checksumVerified = parallelBackup ? !options.ignoreChecksum : Boolean(expectedSha256);
+    if (options.ignoreChecksum) {
+      console.log(chalk.yellow('⚠ Checksum verification disabled (--ignore-checksum)'));
+    }
+    if (options.verifyAfterStream && options.tempFile) {
+      throw new Error('--verify-after-stream cannot be combined with --temp-file');
+    }
+    // Dumps commit as they go (every DROP and CREATE TABLE does), so a checksum only protects the
+    // database if it is checked before the first statement runs: read the backup through once first
+    const checkFirst = checksumVerified && !options.verifyAfterStream;
+    if (options.verifyAfterStream && checksumVerified) {
+      console.log(chalk.yellow('⚠ The checksum is only checked after the backup has been applied (--verify-after-stream)'));
+    }
+    if (options.verbose) {
+      console.log(chalk.gray(`Compression: ${compression}`));
+      console.log(chalk.gray(`Encrypted: ${encrypted ? 'yes' : 'no'}`));
+      // Only the native engine sees individual statements, so selections need it
+      console.log(chalk.gray(`Restore engine: ${restoreOptions.tables || restoreOptions.schemas || masking ? 'native' : config.restoreEngine ?? 'mysql'}`));
+      console.log(chalk.gray(`SHA-256: ${backupInfo.sha256 ?? (parallelBackup ? 'one per chunk' : 'not recorded')}`));
+    }
+    if (backupInfo.manifest) {
+      const uncompressed = s3Manager.formatFileSize(backupInfo.manifest.uncompressedSize);
+      console.log(chalk.blue(`ℹ Backup contents: ${describeManifest(backupInfo.manifest)}, ${uncompressed} uncompressed`));
+    }
+    const backupSchemas = backupInfo.manifest?.schemas ?? [];
+    if (tableSelection) {
+      // Catch typos before streaming the whole backup for nothing; "schema.table" names one schema's table
+      const backupTables = new Set(backupInfo.manifest?.tables.flatMap(table => [table.name, `${table.schema}.${table.name}`]) ?? []);
+      const unknown = [...(tableSelection.include ?? []), ...(tableSelection.exclude ?? [])].filter(name => !backupTables.has(name));
+      if (backupTables.size > 0 && unknown.length > 0) {
+        throw new Error(`Backup has no table${unknown.length === 1 ? '' : 's'} named ${unknown.join(', ')}`);
+      }
+      // Tables belong to the backed-up schema until the dump switches with USE, as for masking
+      tableSelection.schema = backupSchemas.length === 1 ? backupSchemas[0] : targetDatabase;
+      console.log(chalk.blue(`ℹ Restoring tables: ${describeTableSelection(tableSelection)}`));
+    }
+    if (masking) {
+      console.log(chalk.blue(`ℹ Masking: ${describeMaskingPlan(masking)}`));
+    }
+    if (schemaSelection) {
+      const unknown = [...(schemaSelection.include ?? []), ...Object.keys(schemaSelection.map ?? {})].filter(name => !backupSchemas.includes(name));
+      if (backupSchemas.length > 0 && unknown.length > 0) {
+        throw new Error(`Backup has no schema${unknown.length === 1 ? '' : 's'} named ${unknown.join(', ')}`);
+      }
+      console.log(chalk.blue(`ℹ Restoring schemas: ${describeSchemaSelection(schemaSelection)}`));
+    } else if (backupSchemas.length > 1 && !pointInTime && !replicationSource && !atomic) {
+      console.log(chalk.yellow(`⚠ This backup switches schemas with USE, so it restores into ${backupSchemas.join(', ')} rather than ${targetDatabase} (use --map to rename them)`));
+    }
+
+    // Check the binlog archive before touching the database
+    let binlogs: ArchivedBinlog[] = [];
+    if (pointInTime) {
+      const binlogStart = backupInfo.manifest?.binlog;
+      if (!binlogStart) {
+        throw new Error('Backup has no recorded binlog position (its manifest is missing or binary logging was off), so it cannot be rolled forward');
+      }
+      if (!isCompleteBackup(backupInfo.manifest!)) {
+        console.log(chalk.yellow(`⚠ This backup doesn't hold all tables and rows as they were (${describeManifest(backupInfo.manifest!)}), so replaying binlogs onto it may fail or leave it inconsistent`));
+      }
+      if (new Date(backupInfo.manifest!.startedAt) > pointInTime) {
+        throw new Error(`Backup was taken at ${new Date(backupInfo.manifest!.startedAt).toLocaleString()}, after the --to-time target`);
+      }
+
+      binlogs = selectBinlogs(await listArchivedBinlogs(s3Manager, getBinlogPrefix(config.binlog)), binlogStart);
+      console.log(chalk.blue(`ℹ Point-in-time restore to ${pointInTime.toLocaleString()}: ${binlogs.length} binlog${binlogs.length === 1 ? '' : 's'} from ${binlogStart.file}:${binlogStart.position}`));
+      if (!binlogStart.exact) {
+        console.log(chalk.yellow('⚠ The backup\'s binlog position was read just before the dump, so changes made while the dump started may be replayed twice'));
+      }
+      const archivedUntil = binlogs[binlogs.length - 1].lastModified;
+      if (archivedUntil < pointInTime) {
+        console.log(chalk.yellow(`⚠ Binlogs are only archived up to ${archivedUntil.toLocaleString()}; later changes can't be replayed`));
+      }
+    }
+
+    let replicaStart: BinlogPosition | undefined;
+    if (replicationSource) {
+      replicaStart = getReplicaStart(backupInfo.manifest);
+      // Replicated statements name the source's schema, so it has to keep its name
+      const schemas = backupInfo.manifest!.schemas;
+      if (schemas.length === 1 && schemas[0] !== targetDatabase) {
+        throw new Error(`A replica must restore ${schemas[0]} under its own name, not as ${targetDatabase}`);
+      }
+      const from = replicaStart.gtidExecuted ? 'GTID auto-positioning' : `${replicaStart.file}:${replicaStart.position}`;
+      console.log(chalk.blue(`ℹ Seeding a replica of ${replicationSource.host}:${replicationSource.port} (${from})`));
+    }
+
+    // Keep a copy of what is about to be overwritten; without one, nothing is restored
+    let snapshotKey: string | undefined;
+    const snapshotSchemas: string[] = [];
+    if (options.snapshot || config.preRestoreSnapshot) {
+      if (!backupInfo.manifest && schemaSelection) {
+        throw new Error('A pre-restore snapshot needs the backup\'s manifest to tell which schemas --schemas or --map restore into');
+      }
+      // An atomic restore only swaps tables into the target; other dumps may switch schemas with USE
+      const restoredSchemas = atomic || !backupInfo.manifest
+        ? [targetDatabase]
+        : getRestoredSchemas(backupInfo.manifest, targetDatabase, schemaSelection);
+      for (const schema of restoredSchemas) {
+        if (await mysqlManager.databaseExists(schema)) {
+          snapshotSchemas.push(schema);
+        }
+      }
+    }
+    if (snapshotSchemas.length > 0) {
+      const names = snapshotSchemas.map(schema => `'${schema}'`).join(', ');
+      console.log(chalk.blue(`ℹ Taking a pre-restore snapshot of ${names}...`));
+      try {
+        snapshotKey = await createPreRestoreSnapshot(config, s3Manager, targetDatabase, snapshotSchemas, progressTracker.createStreamProgressBar('Snapshot'));
+        progressTracker.stop();
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Pre-restore snapshot failed, so nothing was restored: ${errorMessage}`);
+      }
+      console.log(snapshotKey
+        ? chalk.green(`✓ Snapshot saved to s3://${config.s3.bucket}/${snapshotKey}`)
+        : chalk.gray(`${names} ${snapshotSchemas.length === 1 ? 'has' : 'have'} no tables, so no snapshot was needed`));
+    }
+    const armRollback = (): void => {
+      if (snapshotKey) {
+        const key = snapshotKey;
+        offerRollback = () => rollBackToSnapshot(mysqlManager, s3Manager, config, key, snapshotSchemas, targetDatabase, options.interactive !== false);
+      }
+    };
+
     // Check if target database exists
     try {
       const dbExists = await mysqlManager.databaseExists(targetDatabase);
@@ -172,27 +473,159 @@ export async function restoreCommand(options: RestoreOptions): Promise<void> {
       }
       throw error;
     }
+    if (atomic) {
+      // Left behind by a restore that is still running or was killed; it may hold the only copy of something
+      if (await mysqlManager.databaseExists(atomic.shadow)) {
+        throw new Error(`Shadow database '${atomic.shadow}' already exists; drop it if no other restore is using it`);
+      }
+      // Checked again by the swap, but a restore that can't be swapped in isn't worth loading
+      const referencing = await mysqlManager.listReferencingForeignKeys(targetDatabase, getSwappedTables(backupInfo.manifest!, tableSelection));
+      if (referencing.length > 0) {
+        throw new Error(describeReferencingForeignKeys(referencing, atomic.old));
+      }
+      await mysqlManager.createDatabase(atomic.shadow);
+      console.log(chalk.blue(`ℹ Restoring into shadow database '${atomic.shadow}'; '${targetDatabase}' stays as it is until the swap`));
+    }
+    let shadowPending = Boolean(atomic);
+    // An atomic restore only touches the target when it swaps
+    if (!atomic) {
+      armRollback();
+    }
 
-    const tempDir = os.tmpdir();
-    const tempBackupPath = path.join(tempDir, `restore-${Date.now()}.sql.gz`);
+    // The dump sets GTID_PURGED, which only works on a server with no GTID history of its own
+    if (replicaStart?.gtidExecuted) {
+      const targetGtids = await mysqlManager.getGtidExecuted();
+      if (targetGtids) {
+        console.log(chalk.yellow(`⚠ Resetting the binlogs and GTID state of the target server (gtid_executed: ${targetGtids})`));
+        await mysqlManager.resetBinaryLogsAndGtids();
+      }
+    }
 
-    try {
-      // Download backup
-      console.log(chalk.blue('ℹ Downloading backup from S3...'));
-      const downloadProgress = progressTracker.createProgressBar('Downloading');
+    let tempBackupPath: string | undefined;
 
-      await s3Manager.downloadFile(selectedBackupKey, tempBackupPath, downloadProgress);
-      progressTracker.stop();
-      console.log(chalk.green('✓ Backup downloaded'));
+    try {
+      if (parallelBackup) {
+        const chunkCount = backupInfo.manifest!.chunks?.length ?? 0;
+        if (checkFirst) {
+          console.log(chalk.blue('ℹ Checking the chunks against their checksums...'));
+          await verifyParallelChunks(s3Manager, backupInfo.manifest!, {
+            connections,
+            tables: tableSelection,
+            schemas: restoreOptions.schemas,
+            onProgress: progressTracker.createProgressBar('Checking')
+          });
+          progressTracker.stop();
+          console.log(chalk.green('✓ Checksums verified'));
+        }
+        console.log(chalk.blue(`ℹ Streaming ${chunkCount} chunks from S3 into database over ${connections} connection${connections === 1 ? '' : 's'}...`));
+        const restoreProgress = progressTracker.createProgressBar('Restoring');
+
+        await restoreParallelBackup(mysqlManager, s3Manager, backupInfo.manifest!, restoreDatabase, {
+          connections,
+          encryption: restoreOptions.encryption,
+          verifyChecksums: !options.ignoreChecksum,
+          engine: restoreOptions.engine,
+          tables: tableSelection,
+          schemas: restoreOptions.schemas,
+          masking,
+          onProgress: restoreProgress
+        });
+        progressTracker.stop();
+      } else if (options.tempFile) {
+        // Fallback: download the whole backup to local disk first
+        const tempDir = os.tmpdir();
+        tempBackupPath = path.join(tempDir, `restore-${Date.now()}${getBackupExtension(compression)}${encrypted ? ENCRYPTED_EXTENSION : ''}`);
+
+        // Download backup
+        console.log(chalk.blue('ℹ Downloading backup from S3...'));
+        const downloadProgress = progressTracker.createProgressBar('Downloading');
+
+        await s3Manager.downloadFile(selectedBackupKey, tempBackupPath, downloadProgress, { expectedSha256 });
+        progressTracker.stop();
+        console.log(chalk.green(expectedSha256 ? '✓ Backup downloaded and checksum verified' : '✓ Backup downloaded'));
+
+        // Restore backup
+        console.log(chalk.blue('ℹ Restoring backup to database...'));
+        const restoreProgress = progressTracker.createProgressBar('Restoring');
+
+        await mysqlManager.restoreBackup(tempBackupPath, restoreDatabase, restoreProgress, restoreOptions);
+        progressTracker.stop();
+      } else {
+        if (checkFirst) {
+          console.log(chalk.blue('ℹ Checking the backup against its checksum...'));
+          await s3Manager.verifyBackupChecksum(selectedBackupKey, expectedSha256!, progressTracker.createProgressBar('Checking'));
+          progressTracker.stop();
+          console.log(chalk.green('✓ Checksum verified'));
+        }
 
-      // Restore backup
-      console.log(chalk.blue('ℹ Restoring backup to database...'));
-      const restoreProgress = progressTracker.createProgressBar('Restoring');
+        // Pipe the S3 object body through decryption and decompression straight into mysql
+        console.log(chalk.blue('ℹ Streaming backup from S3 into database...'));
+        const restoreProgress = progressTracker.createProgressBar('Restoring');
 
-      await mysqlManager.restoreBackup(tempBackupPath, targetDatabase, restoreProgress);
-      progressTracker.stop();
+        const { stream, size } = await s3Manager.getBackupStream(selectedBackupKey);
+        await mysqlManager.restoreBackupStream(stream, size, restoreDatabase, restoreProgress, { ...restoreOptions, expectedSha256 });
+        progressTracker.stop();
+      }
       console.log(chalk.green('✓ Backup restored to database'));
 
+      if (atomic) {
+        console.log(chalk.blue(`ℹ Checking '${atomic.shadow}' against the manifest...`));
+        // Only parallel backups record exact row counts, so only they are worth counting
+        const restored: Record<string, number | undefined> = parallelBackup
+          ? await mysqlManager.countTableRows(atomic.shadow)
+          : Object.fromEntries((await mysqlManager.listTables(atomic.shadow)).map(table => [table, undefined]));
+        const problems = checkShadowTables(backupInfo.manifest!, restored, tableSelection);
+        if (problems.length > 0) {
+          throw new Error(`Restored tables don't match the backup (${problems.join('; ')}); '${targetDatabase}' was left unchanged`);
+        }
+
+        if (await mysqlManager.databaseExists(atomic.old)) {
+          console.log(chalk.yellow(`⚠ Dropping '${atomic.old}' from an earlier atomic restore`));
+          await mysqlManager.dropDatabase(atomic.old);
+        }
+        console.log(chalk.blue(`ℹ Swapping tables into '${targetDatabase}'...`));
+        armRollback();
+        const swap = await mysqlManager.swapTables(atomic.shadow, targetDatabase, atomic.old);
+        shadowPending = false;
+        console.log(chalk.green(`✓ ${swap.tables} table${swap.tables === 1 ? '' : 's'} swapped into '${targetDatabase}'`));
+
+        if (swap.replaced > 0) {
+          if (keepOldHours === 0) {
+            await mysqlManager.dropDatabase(atomic.old);
+            console.log(chalk.green(`✓ Dropped the ${swap.replaced} replaced table${swap.replaced === 1 ? '' : 's'}`));
+          } else if (!await mysqlManager.scheduleDatabaseDrop(atomic.old, targetDatabase, keepOldHours)) {
+            console.log(chalk.yellow(`⚠ The event scheduler is off, so '${atomic.old}' is only dropped once it is turned on (or drop it yourself)`));
+          }
+        }
+      }
+
+      if (pointInTime) {
+        console.log(chalk.blue(`ℹ Replaying binlogs up to ${pointInTime.toLocaleString()}...`));
+        // A single-schema dump only rolls forward that schema, renamed to the target
+        const schemas = backupInfo.manifest!.schemas;
+        await replayArchivedBinlogs(s3Manager, mysqlManager, binlogs, targetDatabase, {
+          startPosition: backupInfo.manifest!.binlog!.position,
+          stopDatetime: pointInTime,
+          database: schemas.length === 1 ? schemas[0] : undefined,
+          encryption: config.encryption
+        });
+        console.log(chalk.green('✓ Binlogs replayed'));
+      }
+
+      if (replicationSource) {
+        // Only mysqldump output sets GTID_PURGED itself: otherwise drop the GTIDs the restore generated and set it here
+        if ((backupInfo.manifest!.engine ?? 'mysqldump') !== 'mysqldump' && replicaStart!.gtidExecuted) {
+          await mysqlManager.resetBinaryLogsAndGtids();
+          await mysqlManager.setGtidPurged(replicaStart!.gtidExecuted);
+        }
+        console.log(chalk.blue('ℹ Configuring replication...'));
+        await mysqlManager.configureReplication(replicationSource, replicaStart!, {
+          autoPosition: Boolean(replicaStart!.gtidExecuted),
+          startReplica: options.startReplica
+        });
+        console.log(chalk.green(options.startReplica ? '✓ Replication configured and started' : '✓ Replication configured (run START REPLICA to start it)'));
+      }
+
       // Success message
       console.log('');
       console.log(chalk.green.bold('🎉 Restore completed successfully!'));
@@ -201,11 +634,41 @@ export async function restoreCommand(options: RestoreOptions): Promise<void> {
       console.log(`  Backup: ${selectedBackupKey}`);
       console.log(`  Target database: ${targetDatabase}`);
       console.log(`  MySQL server: ${config.database.host}:${config.database.port}`);
+      console.log(`  Checksum: ${checksumVerified ? 'verified' : 'not verified'}`);
+      if (schemaSelection) {
+        console.log(`  Schemas: ${describeSchemaSelection(schemaSelection)}`);
+      }
+      if (tableSelection) {
+        console.log(`  Tables: ${describeTableSelection(tableSelection)}`);
+      }
+      if (atomic) {
+        console.log(`  Atomic: ${describeOldTables(targetDatabase, keepOldHours)}`);
+      }
+      if (masking) {
+        console.log(`  Masked: ${describeMaskingPlan(masking)}`);
+      }
+      if (snapshotKey) {
+        console.log(`  Pre-restore snapshot: s3://${config.s3.bucket}/${snapshotKey}`);
+      }
+      if (pointInTime) {
+        console.log(`  Point in time: ${pointInTime.toLocaleString()}`);
+      }
+      if (replicationSource) {
+        console.log(`  Replica of: ${replicationSource.host}:${replicationSource.port}`);
+      }
       console.log(`  Completed: ${new Date().toLocaleString()}`);
 
     } finally {
+      // A failed atomic restore leaves the target as it was; only the shadow database goes
+      if (atomic && shadowPending) {
+        await mysqlManager.dropDatabase(atomic.shadow).catch((error: unknown) => {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error(chalk.yellow(`⚠ Could not drop shadow database '${atomic.shadow}': ${errorMessage}`));
+        });
+      }
+
       // Clean up temporary file
-      if (fs.existsSync(tempBackupPath)) {
+      if (tempBackupPath && fs.existsSync(tempBackupPath)) {
         fs.unlinkSync(tempBackupPath);
         if (options.verbose) {
           console.log(chalk.gray('Temporary backup file cleaned up'));
@@ -217,11 +680,111 @@ export async function restoreCommand(options: RestoreOptions): Promise<void> {
     progressTracker.stop();
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(chalk.red('✗ Restore failed:'), errorMessage);
+    if (errorMessage.startsWith('Checksum mismatch')) {
+      console.error(chalk.yellow('Use --ignore-checksum to restore this backup anyway'));
+    }
 
     if (options.verbose && error instanceof Error && error.stack) {
       console.error(chalk.gray(error.stack));
     }
+    await offerRollback?.();
 
     process.exit(1);
   }
 }
+
+/**
+ * Offers to restore the pre-restore snapshot over the schemas a failure left
+ * half-restored; non-interactive runs get the command to do it instead.
+ * Tables the failed restore added that the snapshot doesn't have are kept.
+ */
+async function rollBackToSnapshot(
+  mysqlManager: MySQLManager,
+  s3Manager: S3Manager,
+  config: AppConfig,
+  snapshotKey: string,
+  schemas: string[],
+  targetDatabase: string,
+  interactive: boolean
+): Promise<void> {
+  // A snapshot of several schemas switches between them with USE
+  const database = schemas.length === 1 ? schemas[0] : targetDatabase;
+  const names = schemas.map(schema => `'${schema}'`).join(', ');
+  console.log('');
+  console.log(chalk.blue(`ℹ ${names} ${schemas.length === 1 ? 'was' : 'were'} snapshotted before the restore: s3://${config.s3.bucket}/${snapshotKey}`));
+  if (!interactive) {
+    console.log(chalk.yellow(`Roll it back with: mysqldump-s3 restore --backup "${snapshotKey}" --database "${database}" --non-interactive --force`));
+    return;
+  }
+
+  const answer = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'rollback',
+      message: `Roll ${names} back to the snapshot?`,
+      default: true
+    }
+  ]);
+  if (!answer.rollback) {
+    return;
+  }
+
+  try {
+    console.log(chalk.blue(`ℹ Restoring the snapshot into ${names}...`));
+    const snapshotInfo = await s3Manager.getBackupInfo(snapshotKey);
+    const encrypted = snapshotInfo.encrypted ?? isEncryptedKey(snapshotKey);
+    // Like any restore, checked before it is applied
+    if (snapshotInfo.sha256) {
+      await s3Manager.verifyBackupChecksum(snapshotKey, snapshotInfo.sha256, progressTracker.createProgressBar('Checking'));
+      progressTracker.stop();
+    }
+    const { stream, size } = await s3Manager.getBackupStream(snapshotKey);
+    await mysqlManager.restoreBackupStream(stream, size, database, progressTracker.createProgressBar('Rolling back'), {
+      compression: snapshotInfo.compression ?? resolveCodec(snapshotKey),
+      encryption: encrypted ? config.encryption : undefined,
+      engine: config.restoreEngine,
+      expectedSha256: snapshotInfo.sha256
+    });
+    progressTracker.stop();
+    console.log(chalk.green(`✓ ${names} rolled back to the pre-restore snapshot`));
+  } catch (error: unknown) {
+    progressTracker.stop();
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red('✗ Rollback failed:'), errorMessage);
+  }
+}
+
+/**
+ * The newest backup a point-in-time restore of targetDatabase can start from:
+ * a complete backup with a recorded binlog position, named after the database
+ * unless --name chose the names, and not a pre-restore snapshot.
+ */
+async function findBaseBackup(s3Manager: S3Manager, filter: BackupFilter, targetDatabase: string): Promise<BackupInfo | undefined> {
+  const candidates = applyBackupFilter(
+    await s3Manager.listBackups(filter.prefix),
+    { ...filter, sort: 'date', reverse: false, limit: undefined },
+    key => s3Manager.parseBackupKey(key)
+  ).filter(backup => {
+    if (backup.key.startsWith(PRE_RESTORE_PREFIX) || backup.mode) {
+      return false;
+    }
+    const { name } = s3Manager.parseBackupKey(backup.key);
+    return Boolean(filter.name) || name.slice(name.lastIndexOf('/') + 1) === targetDatabase;
+  });
+
+  // Only the manifest tells whether the backup was filtered, a subset or masked
+  for (const candidate of candidates) {
+    const info = await s3Manager.getBackupInfo(candidate.key);
+    if (info.manifest?.binlog && isCompleteBackup(info.manifest)) {
+      return info;
+    }
+  }
+  return undefined;
+}
+
+function describeOldTables(targetDatabase: string, keepOldHours: number): string {
+  const { old } = getAtomicDatabases(targetDatabase);
+  return keepOldHours === 0
+    ? 'replaced tables are dropped after the swap'
+    : `replaced tables are kept in ${old} for ${keepOldHours} hour${keepOldHours === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,326 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import chalk from 'chalk';
+import { BackupManifest, DumpAnalysis, RestoreStreamOptions, VerifyCheck, VerifyOptions } from '../types';
+import { ConfigManager } from '../modules/config';
+import { getBackupExtension, resolveCodec } from '../modules/compression';
+import { ENCRYPTED_EXTENSION, hasDecryptionKey, isEncryptedKey } from '../modules/encryption';
+import { isParallelBackupKey } from '../modules/manifest';
+import { MySQLManager } from '../modules/mysql';
+import { DEFAULT_RESTORE_PARALLELISM, restoreParallelBackup } from '../modules/parallel';
+import { S3Manager } from '../modules/s3';
+import { analyzeBackup, DUMP_COMPLETED_MARKER } from '../modules/sqldump';
+import { progressTracker } from '../modules/progress';
+
+// Row count mismatches listed individually before summarizing the rest
+const MAX_REPORTED_MISMATCHES = 5;
+
+export async function verifyCommand(options: VerifyOptions): Promise<void> {
+  try {
+    // Load configuration - the database is only needed for the restore test
+    const configManager = ConfigManager.getInstance();
+    const config = configManager.loadConfig(options.configFile, { requireDatabase: !!options.restoreTest, requireS3: true });
+
+    if (!options.backup) {
+      console.error(chalk.red('✗ Backup key is required (--backup <key>)'));
+      process.exit(1);
+      return;
+    }
+    const backupKey = options.backup;
+
+    if (options.verbose) {
+      console.log(chalk.blue('ℹ Configuration loaded successfully'));
+      console.log(chalk.gray(`S3 Bucket: ${config.s3.bucket}`));
+      if (config.s3.endpointUrl) {
+        console.log(chalk.gray(`S3 Endpoint: ${config.s3.endpointUrl}`));
+      }
+    }
+
+    const s3Manager = new S3Manager(config.s3);
+
+    if (!(await s3Manager.backupExists(backupKey))) {
+      console.error(chalk.red(`✗ Backup not found: ${backupKey}`));
+      process.exit(1);
+      return;
+    }
+
+    const backupInfo = await s3Manager.getBackupInfo(backupKey);
+    const compression = backupInfo.compression ?? resolveCodec(backupKey);
+    const encrypted = backupInfo.encrypted ?? isEncryptedKey(backupKey);
+    if (encrypted && !hasDecryptionKey(config.encryption)) {
+      throw new Error('Backup is encrypted but no decryption key is configured (ENCRYPTION_PASSPHRASE, ENCRYPTION_KEY_FILE or ENCRYPTION_IDENTITIES)');
+    }
+    const restoreOptions: RestoreStreamOptions = {
+      compression,
+      encryption: encrypted ? config.encryption : undefined,
+      engine: config.restoreEngine
+    };
+
+    const checks: VerifyCheck[] = [];
+
+    if (isParallelBackupKey(backupKey)) {
+      const manifest = backupInfo.manifest!;
+      console.log(chalk.blue(`ℹ Checking ${manifest.chunks?.length ?? 0} chunks...`));
+      const result = await checkChunks(s3Manager, manifest, restoreOptions);
+      checks.push(...result.checks);
+
+      if (options.restoreTest) {
+        if (checks.some(check => check.status === 'fail')) {
+          checks.push({ name: 'Restore test', status: 'skip', detail: 'Earlier checks failed' });
+        } else {
+          const mysqlManager = new MySQLManager(config.database);
+          // The chunk checksums were just checked
+          const restore = (scratchDatabase: string) => restoreParallelBackup(mysqlManager, s3Manager, manifest, scratchDatabase, {
+            connections: DEFAULT_RESTORE_PARALLELISM,
+            encryption: restoreOptions.encryption,
+            verifyChecksums: false,
+            engine: restoreOptions.engine,
+            onProgress: progressTracker.createProgressBar('Restoring')
+          });
+          checks.push(await runRestoreTest(mysqlManager, restore, result.analysis, manifest));
+        }
+      }
+    } else {
+      let tempBackupPath: string | undefined;
+      try {
+        console.log(chalk.blue('ℹ Downloading backup from S3...'));
+        tempBackupPath = path.join(os.tmpdir(), `verify-${Date.now()}${getBackupExtension(compression)}${encrypted ? ENCRYPTED_EXTENSION : ''}`);
+        const digest = await s3Manager.downloadFile(backupKey, tempBackupPath, progressTracker.createProgressBar('Downloading'));
+        progressTracker.stop();
+
+        if (!backupInfo.sha256) {
+          checks.push({ name: 'Checksum', status: 'skip', detail: 'No checksum recorded for this backup' });
+        } else if (backupInfo.sha256.toLowerCase() === digest.sha256) {
+          checks.push({ name: 'Checksum', status: 'pass', detail: `SHA-256 matches (${digest.sha256})` });
+        } else {
+          checks.push({ name: 'Checksum', status: 'fail', detail: `Expected SHA-256 ${backupInfo.sha256}, got ${digest.sha256}` });
+        }
+
+        console.log(chalk.blue('ℹ Checking backup contents...'));
+        let analysis: DumpAnalysis | undefined;
+        try {
+          analysis = await analyzeBackup(fs.createReadStream(tempBackupPath), restoreOptions);
+          const decoded = encrypted ? `Decrypted and ${compression}-decoded` : `${compression} stream decoded`;
+          checks.push({ name: 'Integrity', status: 'pass', detail: `${decoded}, ${s3Manager.formatFileSize(analysis.size)} of SQL` });
+        } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          checks.push({ name: 'Integrity', status: 'fail', detail: `Could not decode the backup: ${errorMessage}` });
+        }
+
+        if (!analysis) {
+          checks.push({ name: 'Trailer', status: 'skip', detail: 'Backup could not be decoded' });
+        } else if (analysis.complete) {
+          checks.push({ name: 'Trailer', status: 'pass', detail: `Dump ends with "${DUMP_COMPLETED_MARKER}"` });
+        } else {
+          checks.push({ name: 'Trailer', status: 'fail', detail: `Missing "${DUMP_COMPLETED_MARKER}" trailer, the dump is truncated` });
+        }
+
+        if (options.restoreTest) {
+          if (checks.some(check => check.status === 'fail')) {
+            checks.push({ name: 'Restore test', status: 'skip', detail: 'Earlier checks failed' });
+          } else {
+            const mysqlManager = new MySQLManager(config.database);
+            const backupPath = tempBackupPath;
+            const restore = (scratchDatabase: string) =>
+              mysqlManager.restoreBackup(backupPath, scratchDatabase, progressTracker.createProgressBar('Restoring'), restoreOptions);
+            checks.push(await runRestoreTest(mysqlManager, restore, analysis!, backupInfo.manifest));
+          }
+        }
+      } finally {
+        // Clean up temporary file
+        if (tempBackupPath && fs.existsSync(tempBackupPath)) {
+          fs.unlinkSync(tempBackupPath);
+        }
+      }
+    }
+
+    const passed = checks.every(check => check.status !== 'fail');
+    printReport(backupKey, checks, passed, options.format);
+
+    if (!passed) {
+      process.exit(1);
+    }
+  } catch (error: unknown) {
+    progressTracker.stop();
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red('✗ Verification failed:'), errorMessage);
+
+    if (options.verbose && error instanceof Error && error.stack) {
+      console.error(chalk.gray(error.stack));
+    }
+
+    process.exit(1);
+  }
+}
+
+// "a; b; c; and 4 more"
+function summarizeProblems(problems: string[]): string {
+  const shown = problems.slice(0, MAX_REPORTED_MISMATCHES);
+  if (problems.length > shown.length) {
+    shown.push(`and ${problems.length - shown.length} more`);
+  }
+  return shown.join('; ');
+}
+
+/**
+ * Streams every chunk of a parallel backup through the checksum, integrity
+ * and trailer checks. The analyses of the chunks are merged as if they were
+ * one dump.
+ */
+async function checkChunks(
+  s3Manager: S3Manager,
+  manifest: BackupManifest,
+  restoreOptions: RestoreStreamOptions
+): Promise<{ checks: VerifyCheck[]; analysis: DumpAnalysis }> {
+  const chunks = manifest.chunks ?? [];
+  const analysis: DumpAnalysis = { tables: {}, databases: [], complete: true, size: 0 };
+  const mismatched: string[] = [];
+  const undecodable: string[] = [];
+  const truncated: string[] = [];
+
+  for (const chunk of chunks) {
+    const { stream } = await s3Manager.getBackupStream(chunk.key);
+    const hash = createHash('sha256');
+    stream.on('data', data => hash.update(data));
+    try {
+      const result = await analyzeBackup(stream, restoreOptions);
+      if (hash.digest('hex') !== chunk.sha256.toLowerCase()) {
+        mismatched.push(chunk.key);
+      }
+      if (!result.complete) {
+        truncated.push(chunk.key);
+      }
+      Object.assign(analysis.tables, result.tables);
+      analysis.databases.push(...result.databases.filter(database => !analysis.databases.includes(database)));
+      analysis.size += result.size;
+    } catch (error: unknown) {
+      stream.destroy();
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      undecodable.push(`${chunk.key}: ${errorMessage}`);
+    }
+  }
+  analysis.complete = chunks.length > 0 && truncated.length === 0 && undecodable.length === 0;
+
+  const decoded = chunks.length - undecodable.length;
+  const checks: VerifyCheck[] = [];
+  if (chunks.length === 0) {
+    checks.push({ name: 'Checksum', status: 'fail', detail: 'The manifest lists no chunks' });
+  } else if (mismatched.length > 0) {
+    checks.push({ name: 'Checksum', status: 'fail', detail: `SHA-256 mismatch: ${summarizeProblems(mismatched)}` });
+  } else {
+    checks.push({ name: 'Checksum', status: 'pass', detail: `SHA-256 matches for ${decoded} of ${chunks.length} chunks` });
+  }
+
+  if (undecodable.length > 0) {
+    checks.push({ name: 'Integrity', status: 'fail', detail: `Could not decode ${summarizeProblems(undecodable)}` });
+  } else {
+    checks.push({ name: 'Integrity', status: 'pass', detail: `${decoded} chunks decoded, ${s3Manager.formatFileSize(analysis.size)} of SQL` });
+  }
+
+  if (truncated.length > 0) {
+    checks.push({ name: 'Trailer', status: 'fail', detail: `Missing "${DUMP_COMPLETED_MARKER}" trailer: ${summarizeProblems(truncated)}` });
+  } else if (decoded === 0) {
+    checks.push({ name: 'Trailer', status: 'skip', detail: 'No chunk could be decoded' });
+  } else {
+    checks.push({ name: 'Trailer', status: 'pass', detail: `Every decoded chunk ends with "${DUMP_COMPLETED_MARKER}"` });
+  }
+
+  return { checks, analysis };
+}
+
+/**
+ * Restores into a throwaway database and compares exact row counts with the
+ * dump. The scratch database is always dropped afterwards.
+ */
+async function runRestoreTest(
+  mysqlManager: MySQLManager,
+  restore: (scratchDatabase: string) => Promise<void>,
+  analysis: DumpAnalysis,
+  manifest?: BackupManifest
+): Promise<VerifyCheck> {
+  const name = 'Restore test';
+  if (manifest?.mode === 'data') {
+    return { name, status: 'skip', detail: 'Data-only backups need existing tables to restore into' };
+  }
+  // A dump with USE statements restores into its original schemas, not the scratch database
+  if (analysis.databases.length > 0) {
+    return {
+      name,
+      status: 'skip',
+      detail: `Dump switches databases (${analysis.databases.join(', ')}); restoring it would write to the original schemas`
+    };
+  }
+
+  console.log(chalk.blue('ℹ Testing database connection...'));
+  await mysqlManager.testConnection();
+
+  const scratchDatabase = `verify_${Date.now()}`;
+  if (await mysqlManager.databaseExists(scratchDatabase)) {
+    throw new Error(`Scratch database '${scratchDatabase}' already exists`);
+  }
+
+  console.log(chalk.blue(`ℹ Restoring into scratch database '${scratchDatabase}'...`));
+  await mysqlManager.createDatabase(scratchDatabase);
+
+  try {
+    await restore(scratchDatabase);
+    progressTracker.stop();
+
+    const actual = await mysqlManager.countTableRows(scratchDatabase);
+    const problems: string[] = [];
+    for (const [table, rows] of Object.entries(analysis.tables)) {
+      if (actual[table] === undefined) {
+        problems.push(`${table} is missing`);
+      } else if (actual[table] !== rows) {
+        problems.push(`${table} has ${actual[table]} rows, the dump has ${rows}`);
+      }
+    }
+    // Manifests of single-schema backups list the tables the restore must contain
+    if (manifest && manifest.schemas.length === 1) {
+      for (const table of manifest.tables) {
+        if (actual[table.name] === undefined && analysis.tables[table.name] === undefined) {
+          problems.push(`${table.name} is listed in the manifest but was not restored`);
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      return { name, status: 'fail', detail: summarizeProblems(problems) };
+    }
+
+    const tables = Object.keys(analysis.tables).length;
+    const rows = Object.values(analysis.tables).reduce((sum, count) => sum + count, 0);
+    return { name, status: 'pass', detail: `${tables} tables, ${rows.toLocaleString('en-US')} rows restored with matching counts` };
+  } catch (error: unknown) {
+    progressTracker.stop();
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { name, status: 'fail', detail: `Restore failed: ${errorMessage}` };
+  } finally {
+    try {
+      await mysqlManager.dropDatabase(scratchDatabase);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(chalk.yellow(`⚠ ${errorMessage}, drop it manually`));
+    }
+  }
+}
+
+function printReport(backupKey: string, checks: VerifyCheck[], passed: boolean, format?: 'table' | 'json'): void {
+  if (format === 'json') {
+    console.log(JSON.stringify({ backup: backupKey, passed, checks }, null, 2));
+    return;
+  }
+
+  const symbols = { pass: chalk.green('✓'), fail: chalk.red('✗'), skip: chalk.yellow('-') };
+  const nameWidth = Math.max(...checks.map(check => check.name.length));
+
+  console.log('');
+  console.log(chalk.cyan.bold(`Verification report for ${backupKey}:`));
+  for (const check of checks) {
+    console.log(`  ${symbols[check.status]} ${check.name.padEnd(nameWidth)}  ${check.detail}`);
+  }
+  console.log('');
+  console.log(passed ? chalk.green.bold('✓ Backup verified') : chalk.red.bold('✗ Backup verification failed'));
+}
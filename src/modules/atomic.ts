@@ -0,0 +1,81 @@
+import { BackupManifest, ForeignKey, TableSelection } from '../types';
+import { isTableSelected } from './tablefilter';
+
+// An atomic restore of app loads app_restoring, then moves app's replaced tables to app_old
+export const SHADOW_DATABASE_SUFFIX = '_restoring';
+export const OLD_DATABASE_SUFFIX = '_old';
+export const DEFAULT_KEEP_OLD_HOURS = 24;
+const MAX_REPORTED_PROBLEMS = 5;
+
+export function getAtomicDatabases(targetDatabase: string): { shadow: string; old: string } {
+  return { shadow: `${targetDatabase}${SHADOW_DATABASE_SUFFIX}`, old: `${targetDatabase}${OLD_DATABASE_SUFFIX}` };
+}
+
+/**
+ * Validates restore's --keep-old: hours to keep the replaced tables, where
+ * 0 drops them right after the swap.
+ */
+export function parseKeepOld(value?: string): number {
+  if (value === undefined) {
+    return DEFAULT_KEEP_OLD_HOURS;
+  }
+  const hours = Number(value);
+  if (value.trim() === '' || !Number.isFinite(hours) || hours < 0) {
+    throw new Error(`Invalid --keep-old value '${value}' (expected a number of hours, 0 to drop the old tables)`);
+  }
+  return hours;
+}
+
+// The tables an atomic restore swaps into the target, under the names they are restored as
+export function getSwappedTables(manifest: BackupManifest, selection?: TableSelection): string[] {
+  return manifest.tables
+    .filter(table => !selection || isTableSelected(selection, table.name, table.schema))
+    .map(table => `${table.name}${selection?.renameSuffix ?? ''}`);
+}
+
+// e.g. "shop.invoices (fk_order) references tables the swap replaces, ..."
+export function describeReferencingForeignKeys(foreignKeys: ForeignKey[], oldDatabase: string): string {
+  const names = foreignKeys.map(foreignKey => `${foreignKey.table.schema}.${foreignKey.table.name} (${foreignKey.name})`);
+  return `${names.join(', ')} ${foreignKeys.length === 1 ? 'references' : 'reference'} tables the swap replaces, `
+    + `and would follow them into '${oldDatabase}'; restore the referencing tables too, drop the foreign key${foreignKeys.length === 1 ? '' : 's'} or restore without --atomic`;
+}
+
+/**
+ * What is wrong with a shadow database before it is swapped in: tables the
+ * manifest lists that weren't restored, and for parallel backups, whose
+ * chunks record exact row counts, tables with other counts. Takes the
+ * restored tables with their row counts, or with undefined when not counted.
+ */
+export function checkShadowTables(
+  manifest: BackupManifest,
+  restored: Record<string, number | undefined>,
+  selection?: TableSelection
+): string[] {
+  const expected = new Map<string, number | undefined>();
+  for (const table of manifest.tables) {
+    if (!selection || isTableSelected(selection, table.name, table.schema)) {
+      expected.set(table.name, undefined);
+    }
+  }
+  for (const chunk of manifest.chunks ?? []) {
+    if (chunk.table !== undefined && chunk.rows !== undefined && expected.has(chunk.table)) {
+      expected.set(chunk.table, (expected.get(chunk.table) ?? 0) + chunk.rows);
+    }
+  }
+
+  const problems: string[] = [];
+  for (const [table, rows] of expected) {
+    const name = `${table}${selection?.renameSuffix ?? ''}`;
+    if (!(name in restored)) {
+      problems.push(`${name} is missing`);
+    } else if (rows !== undefined && restored[name] !== undefined && restored[name] !== rows) {
+      problems.push(`${name} has ${restored[name]} rows, the backup has ${rows}`);
+    }
+  }
+
+  const shown = problems.slice(0, MAX_REPORTED_PROBLEMS);
+  if (problems.length > shown.length) {
+    shown.push(`and ${problems.length - shown.length} more`);
+  }
+  return shown;
+}
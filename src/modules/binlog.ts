@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Duplex, pipeline, Readable } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import { AppConfig, ArchivedBinlog, BinlogConfig, BinlogPosition, BinlogReplayOptions, EncryptionConfig, UploadOptions } from '../types';
+import { createCompressor, createDecompressor, DEFAULT_COMPRESSION_CODEC, getContentType, normalizeCompressionConfig } from './compression';
+import { createDecryptor, createEncryptor, ENCRYPTION_ALGORITHM, hasDecryptionKey, isEncryptionEnabled } from './encryption';
+import { MySQLManager } from './mysql';
+import { S3Manager } from './s3';
+
+export const DEFAULT_BINLOG_PREFIX = 'binlogs/';
+
+// "binlog.000042" -> 42
+const BINLOG_SEQUENCE_PATTERN = /\.(\d+)$/;
+
+export function getBinlogPrefix(config?: BinlogConfig): string {
+  return config?.prefix || DEFAULT_BINLOG_PREFIX;
+}
+
+/**
+ * Archived binlogs under the prefix, oldest first. Keys are the plain binlog
+ * names; codec and encryption are recorded in the object metadata.
+ */
+export async function listArchivedBinlogs(s3Manager: S3Manager, prefix: string): Promise<ArchivedBinlog[]> {
+  const objects = await s3Manager.listObjects(prefix);
+  return objects
+    .filter(obj => obj.Key && obj.Key.length > prefix.length && !obj.Key.slice(prefix.length).includes('/'))
+    .map(obj => ({
+      file: obj.Key!.slice(prefix.length),
+      key: obj.Key!,
+      size: obj.Size || 0,
+      lastModified: obj.LastModified!
+    }))
+    .sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * The archived binlogs to replay on top of a dump taken at start: its file
+ * and every later one. Throws if the file is missing or the sequence has a gap.
+ */
+export function selectBinlogs(archived: ArchivedBinlog[], start: BinlogPosition): ArchivedBinlog[] {
+  const index = archived.findIndex(binlog => binlog.file === start.file);
+  if (index === -1) {
+    throw new Error(`Binlog ${start.file}, where the backup starts, is not in the archive`);
+  }
+
+  const selected = archived.slice(index);
+  for (let i = 1; i < selected.length; i++) {
+    const previous = selected[i - 1].file.match(BINLOG_SEQUENCE_PATTERN);
+    const current = selected[i].file.match(BINLOG_SEQUENCE_PATTERN);
+    if (previous && current && Number(current[1]) !== Number(previous[1]) + 1) {
+      throw new Error(`Binlog archive has a gap between ${selected[i - 1].file} and ${selected[i].file}`);
+    }
+  }
+  return selected;
+}
+
+function encodeBinlog(filePath: string, config: AppConfig): Readable {
+  const streams: (Readable | Duplex)[] = [fs.createReadStream(filePath), createCompressor(config.compression)];
+  if (isEncryptionEnabled(config.encryption)) {
+    streams.push(createEncryptor(config.encryption!));
+  }
+  // Errors anywhere destroy the last stream, which fails the upload
+  pipeline(streams, () => undefined);
+  return streams[streams.length - 1] as Readable;
+}
+
+/**
+ * Copies every closed binlog that isn't archived yet to S3, compressed and
+ * encrypted like the backups. The binlog the server is writing is skipped;
+ * flush rotates it first so it can be archived too.
+ */
+export async function archiveBinlogs(
+  mysqlManager: MySQLManager,
+  s3Manager: S3Manager,
+  config: AppConfig,
+  options: { flush?: boolean; onArchived?: (binlog: ArchivedBinlog) => void } = {}
+): Promise<ArchivedBinlog[]> {
+  if (options.flush) {
+    await mysqlManager.flushBinaryLogs();
+  }
+
+  const prefix = getBinlogPrefix(config.binlog);
+  const closed = (await mysqlManager.listBinaryLogs()).slice(0, -1);
+  const archived = new Set((await listArchivedBinlogs(s3Manager, prefix)).map(binlog => binlog.file));
+  const pending = closed.filter(binlog => !archived.has(binlog.name));
+  if (pending.length === 0) {
+    return [];
+  }
+
+  const { codec } = normalizeCompressionConfig(config.compression);
+  const encrypted = isEncryptionEnabled(config.encryption);
+  const uploadOptions: UploadOptions = {
+    contentType: encrypted ? 'application/octet-stream' : getContentType(codec),
+    metadata: encrypted ? { compression: codec, encryption: ENCRYPTION_ALGORITHM } : { compression: codec }
+  };
+
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'binlog-'));
+  const uploaded: ArchivedBinlog[] = [];
+  try {
+    // Oldest first, so the archive never has a gap if a pass fails halfway
+    for (const binlog of pending) {
+      const localPath = await mysqlManager.copyBinlog(binlog.name, tempDir);
+      try {
+        const key = `${prefix}${binlog.name}`;
+        const { size } = await s3Manager.uploadStream(encodeBinlog(localPath, config), key, undefined, uploadOptions);
+        const result = { file: binlog.name, key, size, lastModified: new Date() };
+        uploaded.push(result);
+        options.onArchived?.(result);
+      } finally {
+        await fs.promises.rm(localPath, { force: true });
+      }
+    }
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+  return uploaded;
+}
+
+/**
+ * Downloads and decodes archived binlogs into a temp directory and replays
+ * them into the target database.
+ */
+export async function replayArchivedBinlogs(
+  s3Manager: S3Manager,
+  mysqlManager: MySQLManager,
+  binlogs: ArchivedBinlog[],
+  targetDatabase: string,
+  options: BinlogReplayOptions & { encryption?: EncryptionConfig }
+): Promise<void> {
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'binlog-'));
+  try {
+    const files: string[] = [];
+    for (const binlog of binlogs) {
+      const info = await s3Manager.getBackupInfo(binlog.key);
+      if (info.encrypted && !hasDecryptionKey(options.encryption)) {
+        throw new Error(`Binlog ${binlog.file} is encrypted but no decryption key is configured`);
+      }
+
+      const { stream } = await s3Manager.getBackupStream(binlog.key);
+      const localPath = path.join(tempDir, binlog.file);
+      await pipelineAsync([
+        stream,
+        ...(info.encrypted ? [createDecryptor(options.encryption!)] : []),
+        createDecompressor(info.compression ?? DEFAULT_COMPRESSION_CODEC),
+        fs.createWriteStream(localPath)
+      ]);
+      files.push(localPath);
+    }
+
+    await mysqlManager.replayBinlogs(files, targetDatabase, options);
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
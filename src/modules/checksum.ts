@@ -0,0 +1,27 @@
+import { ChecksumAlgorithm } from '@aws-sdk/client-s3';
+import { BackupManifest } from '../types';
+
+// Native S3 checksum for uploads; S3 verifies each part on arrival
+export const CHECKSUM_ALGORITHM = ChecksumAlgorithm.SHA256;
+// Object metadata key holding the SHA-256 of the whole object
+export const CHECKSUM_METADATA_KEY = 'sha256';
+
+/**
+ * The SHA-256 recorded for a backup: object metadata (temp-file uploads know it
+ * before uploading) or the manifest (streamed uploads only know it at the end).
+ */
+export function getRecordedChecksum(
+  metadata?: Record<string, string>,
+  manifest?: BackupManifest
+): string | undefined {
+  return metadata?.[CHECKSUM_METADATA_KEY] ?? manifest?.sha256;
+}
+
+/**
+ * Throws if a checksum was recorded and the data doesn't match it.
+ */
+export function verifyChecksum(expected: string | undefined, actual: string): void {
+  if (expected && expected.toLowerCase() !== actual) {
+    throw new Error(`Checksum mismatch: expected SHA-256 ${expected}, got ${actual} (the backup object is corrupted)`);
+  }
+}
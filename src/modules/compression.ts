@@ -0,0 +1,177 @@
+import { spawn } from 'child_process';
+import { Duplex, PassThrough } from 'stream';
+import * as zlib from 'zlib';
+import { CompressionCodec, CompressionConfig } from '../types';
+import { ENCRYPTED_EXTENSION } from './encryption';
+
+// Use larger chunks for better performance with large data
+const CHUNK_SIZE = 4 * 1024 * 1024; // 4MB
+
+interface CodecDefinition {
+  extension: string;
+  contentType: string;
+  // Inclusive level range and default; codecs without levels leave these out
+  levels?: [number, number];
+  defaultLevel?: number;
+}
+
+const CODECS: Record<CompressionCodec, CodecDefinition> = {
+  gzip: { extension: '.sql.gz', contentType: 'application/gzip', levels: [1, 9], defaultLevel: 6 },
+  zstd: { extension: '.sql.zst', contentType: 'application/zstd', levels: [1, 19], defaultLevel: 3 },
+  brotli: { extension: '.sql.br', contentType: 'application/x-brotli', levels: [0, 11], defaultLevel: 6 },
+  none: { extension: '.sql', contentType: 'application/sql' }
+};
+
+export const COMPRESSION_CODECS = Object.keys(CODECS) as CompressionCodec[];
+export const DEFAULT_COMPRESSION_CODEC: CompressionCodec = 'gzip';
+
+export function isCompressionCodec(value: unknown): value is CompressionCodec {
+  return typeof value === 'string' && value in CODECS;
+}
+
+/**
+ * Validates a compression config and fills in the codec's default level.
+ * Throws if the codec is unknown or the level is out of range.
+ */
+export function normalizeCompressionConfig(config?: CompressionConfig): { codec: CompressionCodec; level?: number } {
+  const codec = config?.codec ?? DEFAULT_COMPRESSION_CODEC;
+  if (!isCompressionCodec(codec)) {
+    throw new Error(`Invalid compression codec '${codec}' (expected one of: ${COMPRESSION_CODECS.join(', ')})`);
+  }
+
+  const { levels, defaultLevel } = CODECS[codec];
+  if (!levels) {
+    return { codec };
+  }
+
+  const level = config?.level ?? defaultLevel;
+  if (typeof level !== 'number' || !Number.isInteger(level) || level < levels[0] || level > levels[1]) {
+    throw new Error(`Invalid ${codec} compression level '${config?.level}' (expected ${levels[0]}-${levels[1]})`);
+  }
+
+  return { codec, level };
+}
+
+export function getBackupExtension(codec: CompressionCodec): string {
+  return CODECS[codec].extension;
+}
+
+export function getContentType(codec: CompressionCodec): string {
+  return CODECS[codec].contentType;
+}
+
+/**
+ * Detects the codec from a backup key's extension, or null if the key
+ * is not a backup file. Encrypted keys carry an extra '.enc' suffix.
+ */
+export function detectCodecFromKey(key: string): CompressionCodec | null {
+  const name = key.endsWith(ENCRYPTED_EXTENSION) ? key.slice(0, -ENCRYPTED_EXTENSION.length) : key;
+
+  // Check the longest extensions first so '.sql.gz' isn't mistaken for '.sql'
+  const match = COMPRESSION_CODECS
+    .filter(codec => name.endsWith(CODECS[codec].extension))
+    .sort((a, b) => CODECS[b].extension.length - CODECS[a].extension.length);
+
+  return match.length > 0 ? match[0] : null;
+}
+
+export function isBackupKey(key: string): boolean {
+  return detectCodecFromKey(key) !== null;
+}
+
+/**
+ * Resolves the codec of a stored backup. Object metadata written at backup
+ * time wins over the key extension; legacy backups without either are gzip.
+ */
+export function resolveCodec(key: string, metadata?: Record<string, string>): CompressionCodec {
+  if (metadata && isCompressionCodec(metadata.compression)) {
+    return metadata.compression;
+  }
+  return detectCodecFromKey(key) ?? DEFAULT_COMPRESSION_CODEC;
+}
+
+export function createCompressor(config?: CompressionConfig): Duplex {
+  const { codec, level } = normalizeCompressionConfig(config);
+
+  switch (codec) {
+    case 'gzip':
+      return zlib.createGzip({ chunkSize: CHUNK_SIZE, level });
+    case 'brotli':
+      return zlib.createBrotliCompress({
+        chunkSize: CHUNK_SIZE,
+        params: {
+          [zlib.constants.BROTLI_PARAM_QUALITY]: level as number,
+          [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT
+        }
+      });
+    case 'zstd':
+      // Native zstd support landed in Node.js 22.15; fall back to the zstd binary
+      if (typeof zlib.createZstdCompress === 'function') {
+        return zlib.createZstdCompress({
+          chunkSize: CHUNK_SIZE,
+          params: { [zlib.constants.ZSTD_c_compressionLevel]: level as number }
+        });
+      }
+      return spawnCodecProcess('zstd', [`-${level}`, '-T0', '-q', '-c']);
+    case 'none':
+      return new PassThrough();
+  }
+}
+
+export function createDecompressor(codec: CompressionCodec): Duplex {
+  switch (codec) {
+    case 'gzip':
+      return zlib.createGunzip({ chunkSize: CHUNK_SIZE });
+    case 'brotli':
+      return zlib.createBrotliDecompress({ chunkSize: CHUNK_SIZE });
+    case 'zstd':
+      if (typeof zlib.createZstdDecompress === 'function') {
+        return zlib.createZstdDecompress({ chunkSize: CHUNK_SIZE });
+      }
+      return spawnCodecProcess('zstd', ['-d', '-q', '-c']);
+    case 'none':
+      return new PassThrough();
+  }
+}
+
+/**
+ * Wraps an external filter process (stdin -> stdout) as a duplex stream.
+ * Like the mysqldump stream, the readable side only ends after the process
+ * exited successfully, so a failing codec can't produce a silently truncated result.
+ */
+function spawnCodecProcess(command: string, args: string[]): Duplex {
+  const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+  const output = new PassThrough();
+  const duplex = Duplex.from({ writable: child.stdin, readable: output });
+
+  let error = '';
+  let exited = false;
+
+  child.stderr.on('data', (data) => {
+    error += data.toString();
+  });
+
+  child.on('error', (err) => {
+    exited = true;
+    duplex.destroy(new Error(`Failed to start ${command}: ${err.message}`));
+  });
+
+  child.on('close', (code) => {
+    exited = true;
+    if (code !== 0) {
+      duplex.destroy(new Error(`${command} exited with code ${code}: ${error.trim()}`));
+    } else {
+      output.end();
+    }
+  });
+
+  duplex.on('close', () => {
+    if (!exited) {
+      child.kill('SIGTERM');
+    }
+  });
+
+  child.stdout.pipe(output, { end: false });
+
+  return duplex;
+}
@@ -1,7 +1,27 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
-import { AppConfig, DatabaseConfig, S3Config } from '../types';
+import {
+  AppConfig,
+  BinlogConfig,
+  CompressionCodec,
+  CompressionConfig,
+  DatabaseConfig,
+  EncryptionConfig,
+  MaskingConfig,
+  ReplicationConfig,
+  RetentionConfig,
+  S3Config
+} from '../types';
+import { normalizeCompressionConfig } from './compression';
+import { validateEncryptionConfig } from './encryption';
+import { validateMaskingConfig } from './masking';
+import { validateRetentionConfig } from './retention';
+import { validateSubsetConfig } from './subset';
+
+// Engines that write single-object backups; parallel is chosen per backup with --parallel
+const DUMP_ENGINES: string[] = ['mysqldump', 'native'];
+const RESTORE_ENGINES: string[] = ['mysql', 'native'];
 
 export class ConfigManager {
   private static instance: ConfigManager;
@@ -57,6 +77,12 @@ export class ConfigManager {
   private loadFromEnvironment(): Partial<AppConfig> {
     const database: Partial<DatabaseConfig> = {};
     const s3: Partial<S3Config> = {};
+    const compression: CompressionConfig = {};
+    const encryption: EncryptionConfig = {};
+    const retention: RetentionConfig = {};
+    const binlog: BinlogConfig = {};
+    const replication: ReplicationConfig = {};
+    const masking: MaskingConfig = {};
 
     // Database configuration - support both DB_ and MYSQL_ prefixes
     if (process.env.DB_HOST || process.env.MYSQL_HOST) {
@@ -80,6 +106,15 @@ export class ConfigManager {
         database.schemas = schemas.split(',').map(s => s.trim());
       }
     }
+    if (process.env.DB_TABLES) {
+      database.tables = process.env.DB_TABLES.split(',').map(s => s.trim());
+    }
+    if (process.env.DB_EXCLUDE_TABLES) {
+      database.excludeTables = process.env.DB_EXCLUDE_TABLES.split(',').map(s => s.trim());
+    }
+    if (process.env.DB_SCHEMA_ONLY_TABLES) {
+      database.schemaOnlyTables = process.env.DB_SCHEMA_ONLY_TABLES.split(',').map(s => s.trim());
+    }
 
     // S3 configuration - support both S3_ and AWS_ prefixes
     if (process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID) {
@@ -95,9 +130,58 @@ export class ConfigManager {
     if (process.env.S3_KEY) s3.key = process.env.S3_KEY;
     if (process.env.S3_ENDPOINT_URL) s3.endpointUrl = process.env.S3_ENDPOINT_URL;
 
+    // Compression configuration
+    if (process.env.COMPRESSION_CODEC) compression.codec = process.env.COMPRESSION_CODEC as CompressionCodec;
+    if (process.env.COMPRESSION_LEVEL) compression.level = parseInt(process.env.COMPRESSION_LEVEL, 10);
+
+    // Encryption configuration
+    if (process.env.ENCRYPTION_PASSPHRASE) encryption.passphrase = process.env.ENCRYPTION_PASSPHRASE;
+    if (process.env.ENCRYPTION_KEY_FILE) encryption.keyFile = process.env.ENCRYPTION_KEY_FILE;
+    if (process.env.ENCRYPTION_RECIPIENTS) {
+      encryption.recipients = process.env.ENCRYPTION_RECIPIENTS.split(',').map(r => r.trim());
+    }
+    if (process.env.ENCRYPTION_IDENTITIES) {
+      encryption.identities = process.env.ENCRYPTION_IDENTITIES.split(',').map(i => i.trim());
+    }
+
+    // Retention configuration
+    if (process.env.RETENTION_KEEP_LAST) retention.keepLast = parseInt(process.env.RETENTION_KEEP_LAST, 10);
+    if (process.env.RETENTION_KEEP_DAILY) retention.keepDaily = parseInt(process.env.RETENTION_KEEP_DAILY, 10);
+    if (process.env.RETENTION_KEEP_WEEKLY) retention.keepWeekly = parseInt(process.env.RETENTION_KEEP_WEEKLY, 10);
+    if (process.env.RETENTION_KEEP_MONTHLY) retention.keepMonthly = parseInt(process.env.RETENTION_KEEP_MONTHLY, 10);
+    if (process.env.RETENTION_KEEP_YEARLY) retention.keepYearly = parseInt(process.env.RETENTION_KEEP_YEARLY, 10);
+    if (process.env.RETENTION_MAX_AGE_DAYS) retention.maxAgeDays = parseFloat(process.env.RETENTION_MAX_AGE_DAYS);
+    if (process.env.RETENTION_AUTO_PRUNE) retention.autoPrune = process.env.RETENTION_AUTO_PRUNE === 'true';
+
+    // Binlog archive configuration
+    if (process.env.BINLOG_PREFIX) binlog.prefix = process.env.BINLOG_PREFIX;
+
+    // Dump engine for single-object backups
+    const dumpEngine = process.env.DUMP_ENGINE as AppConfig['dumpEngine'];
+    const restoreEngine = process.env.RESTORE_ENGINE as AppConfig['restoreEngine'];
+    const preRestoreSnapshot = process.env.PRE_RESTORE_SNAPSHOT ? process.env.PRE_RESTORE_SNAPSHOT === 'true' : undefined;
+
+    // Replication source for restore --as-replica
+    if (process.env.REPLICATION_SOURCE_HOST) replication.sourceHost = process.env.REPLICATION_SOURCE_HOST;
+    if (process.env.REPLICATION_SOURCE_PORT) replication.sourcePort = parseInt(process.env.REPLICATION_SOURCE_PORT, 10);
+    if (process.env.REPLICATION_USER) replication.user = process.env.REPLICATION_USER;
+    if (process.env.REPLICATION_PASSWORD) replication.password = process.env.REPLICATION_PASSWORD;
+
+    // Masking profiles only come from the config file, their salt may not
+    if (process.env.MASKING_SALT) masking.salt = process.env.MASKING_SALT;
+
     return {
       database: database as DatabaseConfig,
-      s3: s3 as S3Config
+      s3: s3 as S3Config,
+      compression,
+      encryption,
+      retention,
+      binlog,
+      replication,
+      masking,
+      dumpEngine,
+      restoreEngine,
+      preRestoreSnapshot
     };
   }
 
@@ -105,6 +189,11 @@ export class ConfigManager {
     // For database name specifically, prefer file config if explicitly set
     // This allows tests and scripts to override the database via config file
     const database = fileConfig.database?.database || envConfig.database?.database;
+
+    // An encryption key from the environment replaces the file's key as a whole,
+    // so a passphrase and a key file from different sources never end up combined
+    const envKey = envConfig.encryption?.passphrase || envConfig.encryption?.keyFile || envConfig.encryption?.recipients;
+    const encryptionKey = envKey ? envConfig.encryption : fileConfig.encryption;
     
     return {
       database: {
@@ -113,7 +202,11 @@ export class ConfigManager {
         user: envConfig.database?.user || fileConfig.database?.user || '',
         password: envConfig.database?.password || fileConfig.database?.password || '',
         database: database,
-        schemas: fileConfig.database?.schemas || envConfig.database?.schemas
+        schemas: fileConfig.database?.schemas || envConfig.database?.schemas,
+        tables: fileConfig.database?.tables || envConfig.database?.tables,
+        excludeTables: fileConfig.database?.excludeTables || envConfig.database?.excludeTables,
+        schemaOnlyTables: fileConfig.database?.schemaOnlyTables || envConfig.database?.schemaOnlyTables,
+        tableFilters: fileConfig.database?.tableFilters
       },
       s3: {
         accessKeyId: envConfig.s3?.accessKeyId || fileConfig.s3?.accessKeyId || '',
@@ -123,6 +216,43 @@ export class ConfigManager {
         key: envConfig.s3?.key || fileConfig.s3?.key,
         endpointUrl: envConfig.s3?.endpointUrl || fileConfig.s3?.endpointUrl
       },
+      compression: {
+        codec: envConfig.compression?.codec || fileConfig.compression?.codec,
+        level: envConfig.compression?.level ?? fileConfig.compression?.level
+      },
+      encryption: {
+        passphrase: encryptionKey?.passphrase,
+        keyFile: encryptionKey?.keyFile,
+        recipients: encryptionKey?.recipients,
+        identities: envConfig.encryption?.identities || fileConfig.encryption?.identities,
+        previousKeys: fileConfig.encryption?.previousKeys
+      },
+      retention: {
+        keepLast: envConfig.retention?.keepLast ?? fileConfig.retention?.keepLast,
+        keepDaily: envConfig.retention?.keepDaily ?? fileConfig.retention?.keepDaily,
+        keepWeekly: envConfig.retention?.keepWeekly ?? fileConfig.retention?.keepWeekly,
+        keepMonthly: envConfig.retention?.keepMonthly ?? fileConfig.retention?.keepMonthly,
+        keepYearly: envConfig.retention?.keepYearly ?? fileConfig.retention?.keepYearly,
+        maxAgeDays: envConfig.retention?.maxAgeDays ?? fileConfig.retention?.maxAgeDays,
+        autoPrune: envConfig.retention?.autoPrune ?? fileConfig.retention?.autoPrune
+      },
+      binlog: {
+        prefix: envConfig.binlog?.prefix || fileConfig.binlog?.prefix
+      },
+      replication: {
+        sourceHost: envConfig.replication?.sourceHost || fileConfig.replication?.sourceHost,
+        sourcePort: envConfig.replication?.sourcePort || fileConfig.replication?.sourcePort,
+        user: envConfig.replication?.user || fileConfig.replication?.user,
+        password: envConfig.replication?.password || fileConfig.replication?.password
+      },
+      dumpEngine: envConfig.dumpEngine || fileConfig.dumpEngine,
+      restoreEngine: envConfig.restoreEngine || fileConfig.restoreEngine,
+      preRestoreSnapshot: envConfig.preRestoreSnapshot ?? fileConfig.preRestoreSnapshot,
+      masking: {
+        salt: envConfig.masking?.salt || fileConfig.masking?.salt,
+        profiles: fileConfig.masking?.profiles
+      },
+      subsets: fileConfig.subsets,
       verbose: envConfig.verbose || fileConfig.verbose || false
     };
   }
@@ -148,12 +278,45 @@ export class ConfigManager {
       if (!config.s3.bucket) errors.push('S3 bucket is required (S3_BUCKET)');
     }
 
+    // Compression, encryption, retention, masking and subset settings apply to every command, so always validate them
+    try {
+      normalizeCompressionConfig(config.compression);
+    } catch (error: unknown) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    try {
+      validateEncryptionConfig(config.encryption);
+    } catch (error: unknown) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    try {
+      validateRetentionConfig(config.retention);
+    } catch (error: unknown) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    try {
+      validateMaskingConfig(config.masking);
+    } catch (error: unknown) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    try {
+      validateSubsetConfig(config.subsets);
+    } catch (error: unknown) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+    if (config.dumpEngine !== undefined && !DUMP_ENGINES.includes(config.dumpEngine)) {
+      errors.push(`Invalid dump engine '${config.dumpEngine}' (expected ${DUMP_ENGINES.join(' or ')})`);
+    }
+    if (config.restoreEngine !== undefined && !RESTORE_ENGINES.includes(config.restoreEngine)) {
+      errors.push(`Invalid restore engine '${config.restoreEngine}' (expected ${RESTORE_ENGINES.join(' or ')})`);
+    }
+
     if (errors.length > 0) {
       throw new Error(`Configuration validation failed:\n${errors.join('\n')}`);
     }
   }
 
-  public generateS3Key(database?: string, schemas?: string[]): string {
+  public generateS3Key(database?: string, schemas?: string[], extension = '.sql.gz', label = ''): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     let prefix = 'all';
     
@@ -163,7 +326,7 @@ export class ConfigManager {
       prefix = database;
     }
     
-    return `${prefix}-${timestamp}.sql.gz`;
+    return `${prefix}${label}-${timestamp}${extension}`;
   }
 
   public reset(): void {
@@ -0,0 +1,534 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Transform, TransformCallback } from 'stream';
+import { EncryptionConfig, EncryptionKeySource } from '../types';
+
+/*
+ * Encrypted backup format:
+ *
+ *   MAGIC (7 bytes) | version (1 byte) | header length (uint32 BE) | JSON header
+ *   followed by chunks of `chunkSize` plaintext bytes, each sealed with AES-256-GCM
+ *   (ciphertext + 16 byte tag). The last chunk may be shorter or empty.
+ *
+ * The header carries everything needed to derive the key again (KDF name and
+ * parameters, salt), so backups stay restorable after the configured key changes.
+ * In public-key mode the data key is random and the header holds a copy of it
+ * wrapped for every recipient (X25519 + HKDF + AES-256-GCM, like age), so only
+ * the holder of a matching private key can decrypt.
+ * Each chunk's nonce is the random nonce prefix, the chunk counter and a
+ * "last chunk" flag, and the raw header is authenticated as AAD, so reordered,
+ * truncated or tampered data fails authentication.
+ */
+const MAGIC = Buffer.from('MDS3ENC', 'ascii');
+const FORMAT_VERSION = 1;
+const PREAMBLE_LENGTH = MAGIC.length + 1 + 4;
+const MAX_HEADER_LENGTH = 64 * 1024;
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const KEY_CHECK_LENGTH = 16;
+const SALT_LENGTH = 16;
+const NONCE_PREFIX_LENGTH = 7;
+const TAG_LENGTH = 16;
+const CHUNK_SIZE = 1024 * 1024; // 1MB of plaintext per authenticated chunk
+const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+const MAX_CHUNKS = 2 ** 32;
+
+// scrypt cost for passphrases (~32MB of memory); stored in the header so it can be raised later
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+const MAX_SCRYPT_N = 2 ** 20;
+const HKDF_INFO = 'mysqldump-s3 backup encryption';
+const RECIPIENT_HKDF_INFO = 'mysqldump-s3 x25519 recipient';
+const FILE_KEY_LENGTH = 32;
+const MAX_RECIPIENTS = 64;
+// Key files shorter than this are almost certainly not random key material
+const MIN_KEY_FILE_LENGTH = 32;
+
+export const ENCRYPTION_ALGORITHM = CIPHER;
+export const ENCRYPTED_EXTENSION = '.enc';
+
+interface RecipientStanza {
+  // Raw X25519 public keys, base64url
+  recipient: string;
+  ephemeral: string;
+  wrappedKey: string;
+}
+
+type KdfParams =
+  | { name: 'scrypt'; N: number; r: number; p: number }
+  | { name: 'hkdf-sha256' }
+  | { name: 'x25519'; recipients: RecipientStanza[] };
+
+interface EncryptionHeader {
+  cipher: typeof CIPHER;
+  kdf: KdfParams;
+  salt: string;
+  noncePrefix: string;
+  chunkSize: number;
+  keyCheck: string;
+}
+
+type KeySecret =
+  | { kind: 'passphrase' | 'keyFile'; secret: Buffer }
+  | { kind: 'identity'; privateKey: crypto.KeyObject; publicKey: string };
+
+const KEY_KIND_LABELS: Record<KeySecret['kind'], string> = {
+  passphrase: 'passphrase',
+  keyFile: 'key file',
+  identity: 'private key'
+};
+
+/**
+ * Whether backups get encrypted: a passphrase, a key file or public-key recipients are configured.
+ */
+export function isEncryptionEnabled(config?: EncryptionConfig): boolean {
+  return Boolean(config?.passphrase || config?.keyFile || config?.recipients?.length);
+}
+
+/**
+ * Whether any key that can decrypt backups is configured, including previous keys.
+ */
+export function hasDecryptionKey(config?: EncryptionConfig): boolean {
+  return [config, ...(config?.previousKeys ?? [])].some(source => hasKeySource(source));
+}
+
+export function describeEncryption(config: EncryptionConfig): string {
+  if (config.recipients?.length) {
+    const count = config.recipients.length;
+    return `${ENCRYPTION_ALGORITHM} (${count} X25519 recipient${count === 1 ? '' : 's'})`;
+  }
+  return `${ENCRYPTION_ALGORITHM} (${config.passphrase ? 'passphrase' : 'key file'})`;
+}
+
+/**
+ * Checks that at most one encryption mode is configured and every previous key names exactly one source.
+ */
+export function validateEncryptionConfig(config?: EncryptionConfig): void {
+  const modes = [config?.passphrase, config?.keyFile, config?.recipients?.length].filter(Boolean);
+  if (modes.length > 1) {
+    throw new Error('Encryption: configure only one of passphrase, key file or recipients');
+  }
+
+  (config?.previousKeys ?? []).forEach((source, index) => {
+    const sources = [source?.passphrase, source?.keyFile, source?.identities?.length].filter(Boolean);
+    if (sources.length !== 1) {
+      throw new Error(`Encryption: previousKeys[${index}] must have exactly one of passphrase, key file or identities`);
+    }
+  });
+}
+
+export function isEncryptedKey(key: string): boolean {
+  return key.endsWith(ENCRYPTED_EXTENSION);
+}
+
+/**
+ * Whether a stored backup is encrypted. Object metadata written at backup
+ * time wins over the key extension.
+ */
+export function isEncryptedBackup(key: string, metadata?: Record<string, string>): boolean {
+  if (metadata?.encryption) {
+    return metadata.encryption === ENCRYPTION_ALGORITHM;
+  }
+  return isEncryptedKey(key);
+}
+
+export function createEncryptor(config: EncryptionConfig): Transform {
+  let secret: Buffer;
+  let kdf: KdfParams;
+
+  if (config.recipients?.length) {
+    // Public-key mode: a random data key, wrapped for each recipient
+    secret = crypto.randomBytes(FILE_KEY_LENGTH);
+    kdf = { name: 'x25519', recipients: config.recipients.map(recipient => wrapFileKey(secret, loadX25519Key(recipient, 'public'))) };
+  } else {
+    const [source] = readKeySources(config);
+    if (!source || source.kind === 'identity') {
+      throw new Error('No encryption passphrase, key file or recipients configured');
+    }
+    secret = source.secret;
+    kdf = source.kind === 'passphrase' ? { name: 'scrypt', ...SCRYPT_PARAMS } : { name: 'hkdf-sha256' };
+  }
+
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const { key, keyCheck } = deriveKey(secret, kdf, salt);
+
+  const header: EncryptionHeader = {
+    cipher: CIPHER,
+    kdf,
+    salt: salt.toString('base64'),
+    noncePrefix: crypto.randomBytes(NONCE_PREFIX_LENGTH).toString('base64'),
+    chunkSize: CHUNK_SIZE,
+    keyCheck: keyCheck.toString('base64')
+  };
+
+  return new EncryptStream(key, header);
+}
+
+/**
+ * Creates a stream that decrypts a backup with the configured key or private
+ * keys, falling back to previousKeys for backups written before a key rotation.
+ */
+export function createDecryptor(config: EncryptionConfig): Transform {
+  const sources = [config, ...(config.previousKeys ?? [])].flatMap(source => readKeySources(source));
+
+  if (sources.length === 0) {
+    throw new Error('No encryption passphrase, key file or identities configured to decrypt the backup');
+  }
+
+  return new DecryptStream(sources);
+}
+
+class EncryptStream extends Transform {
+  private readonly rawHeader: Buffer;
+  private readonly noncePrefix: Buffer;
+  private pending: Buffer = Buffer.alloc(0);
+  private counter = 0;
+
+  constructor(private readonly key: Buffer, header: EncryptionHeader) {
+    super();
+    this.rawHeader = encodeHeader(header);
+    this.noncePrefix = Buffer.from(header.noncePrefix, 'base64');
+    this.push(this.rawHeader);
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+
+    try {
+      // Keep at least one byte back so the final chunk is always sealed in _flush
+      while (this.pending.length > CHUNK_SIZE) {
+        this.push(this.seal(this.pending.subarray(0, CHUNK_SIZE), false));
+        this.pending = this.pending.subarray(CHUNK_SIZE);
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.push(this.seal(this.pending, true));
+      this.pending = Buffer.alloc(0);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private seal(plaintext: Buffer, last: boolean): Buffer {
+    if (this.counter >= MAX_CHUNKS) {
+      throw new Error('Encryption: backup exceeds the maximum number of chunks');
+    }
+
+    const cipher = crypto.createCipheriv(CIPHER, this.key, chunkNonce(this.noncePrefix, this.counter++, last), {
+      authTagLength: TAG_LENGTH
+    });
+    cipher.setAAD(this.rawHeader);
+
+    return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  }
+}
+
+class DecryptStream extends Transform {
+  private pending: Buffer = Buffer.alloc(0);
+  private rawHeader: Buffer | null = null;
+  private noncePrefix: Buffer = Buffer.alloc(0);
+  private key: Buffer = Buffer.alloc(0);
+  private recordSize = 0;
+  private counter = 0;
+
+  constructor(private readonly sources: KeySecret[]) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+
+    try {
+      if (!this.rawHeader && !this.readHeader()) {
+        callback();
+        return;
+      }
+
+      // A record is only known not to be the last one once more data follows it
+      while (this.pending.length > this.recordSize) {
+        this.push(this.open(this.pending.subarray(0, this.recordSize), false));
+        this.pending = this.pending.subarray(this.recordSize);
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      if (!this.rawHeader && !this.readHeader()) {
+        throw new Error('encrypted backup is truncated (incomplete header)');
+      }
+      if (this.pending.length < TAG_LENGTH) {
+        throw new Error('encrypted backup is truncated');
+      }
+      this.push(this.open(this.pending, true));
+      this.pending = Buffer.alloc(0);
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  /**
+   * Parses the header once enough bytes are buffered and selects the matching key.
+   * Returns false while the header is still incomplete.
+   */
+  private readHeader(): boolean {
+    const magicLength = Math.min(this.pending.length, MAGIC.length);
+    if (!this.pending.subarray(0, magicLength).equals(MAGIC.subarray(0, magicLength))) {
+      throw new Error('backup is not encrypted (missing encryption header)');
+    }
+    if (this.pending.length < PREAMBLE_LENGTH) {
+      return false;
+    }
+
+    const version = this.pending[MAGIC.length];
+    if (version !== FORMAT_VERSION) {
+      throw new Error(`unsupported encryption format version ${version}`);
+    }
+
+    const headerLength = this.pending.readUInt32BE(MAGIC.length + 1);
+    if (headerLength > MAX_HEADER_LENGTH) {
+      throw new Error('encryption header is too large');
+    }
+    if (this.pending.length < PREAMBLE_LENGTH + headerLength) {
+      return false;
+    }
+
+    const rawHeader = this.pending.subarray(0, PREAMBLE_LENGTH + headerLength);
+    const header = parseHeader(rawHeader.subarray(PREAMBLE_LENGTH));
+
+    this.key = this.selectKey(header);
+    this.noncePrefix = Buffer.from(header.noncePrefix, 'base64');
+    this.recordSize = header.chunkSize + TAG_LENGTH;
+    this.rawHeader = Buffer.from(rawHeader);
+    this.pending = this.pending.subarray(rawHeader.length);
+    return true;
+  }
+
+  private selectKey(header: EncryptionHeader): Buffer {
+    const { kdf } = header;
+    const salt = Buffer.from(header.salt, 'base64');
+    const expected = Buffer.from(header.keyCheck, 'base64');
+    const kind: KeySecret['kind'] = kdf.name === 'scrypt' ? 'passphrase' : kdf.name === 'x25519' ? 'identity' : 'keyFile';
+
+    for (const source of this.sources.filter(candidate => candidate.kind === kind)) {
+      const secret = source.kind === 'identity'
+        ? unwrapFileKey(source, kdf.name === 'x25519' ? kdf.recipients : [])
+        : source.secret;
+      if (!secret) {
+        continue;
+      }
+
+      const { key, keyCheck } = deriveKey(secret, kdf, salt);
+      if (keyCheck.length === expected.length && crypto.timingSafeEqual(keyCheck, expected)) {
+        return key;
+      }
+    }
+
+    throw new Error(`wrong ${KEY_KIND_LABELS[kind]} (none of the configured keys match this backup)`);
+  }
+
+  private open(record: Buffer, last: boolean): Buffer {
+    const decipher = crypto.createDecipheriv(CIPHER, this.key, chunkNonce(this.noncePrefix, this.counter++, last), {
+      authTagLength: TAG_LENGTH
+    });
+    decipher.setAAD(this.rawHeader!);
+    decipher.setAuthTag(record.subarray(record.length - TAG_LENGTH));
+
+    const plaintext = decipher.update(record.subarray(0, record.length - TAG_LENGTH));
+    try {
+      return Buffer.concat([plaintext, decipher.final()]);
+    } catch {
+      throw new Error('backup data is corrupted or has been tampered with');
+    }
+  }
+}
+
+function hasKeySource(source?: EncryptionKeySource): boolean {
+  return Boolean(source?.passphrase || source?.keyFile || source?.identities?.length);
+}
+
+/**
+ * Loads every secret a key source names. Recipients are public keys and
+ * can't decrypt anything, so they're not part of it.
+ */
+function readKeySources(source: EncryptionKeySource): KeySecret[] {
+  const secrets: KeySecret[] = [];
+  if (source.passphrase) {
+    secrets.push({ kind: 'passphrase', secret: Buffer.from(source.passphrase, 'utf8') });
+  }
+  if (source.keyFile) {
+    secrets.push(readKeyFile(source.keyFile));
+  }
+  for (const identity of source.identities ?? []) {
+    const privateKey = loadX25519Key(identity, 'private');
+    secrets.push({ kind: 'identity', privateKey, publicKey: rawPublicKey(crypto.createPublicKey(privateKey)) });
+  }
+  return secrets;
+}
+
+function readKeyFile(keyFile: string): KeySecret {
+  let content: Buffer;
+  try {
+    content = fs.readFileSync(keyFile);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read encryption key file: ${errorMessage}`);
+  }
+
+  // Ignore a trailing newline so editing the file doesn't change the key
+  const secret = Buffer.from(content.toString('latin1').replace(/[\r\n]+$/, ''), 'latin1');
+  if (secret.length < MIN_KEY_FILE_LENGTH) {
+    throw new Error(`Encryption key file ${keyFile} is too short (at least ${MIN_KEY_FILE_LENGTH} bytes required)`);
+  }
+  return { kind: 'keyFile', secret };
+}
+
+/**
+ * Accepts an inline PEM key or the path of a PEM file.
+ */
+function loadX25519Key(value: string, type: 'public' | 'private'): crypto.KeyObject {
+  let pem = value;
+  if (!value.includes('-----BEGIN')) {
+    try {
+      pem = fs.readFileSync(value, 'utf8');
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read encryption ${type} key: ${errorMessage}`);
+    }
+  }
+
+  // createPublicKey() happily derives a public key from a private one; backup hosts must never hold it
+  if (type === 'public' && pem.includes('PRIVATE KEY')) {
+    throw new Error('Invalid encryption public key: got a private key, backup hosts only need the public key');
+  }
+
+  let key: crypto.KeyObject;
+  try {
+    key = type === 'public' ? crypto.createPublicKey(pem) : crypto.createPrivateKey(pem);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid encryption ${type} key: ${errorMessage}`);
+  }
+
+  if (key.asymmetricKeyType !== 'x25519') {
+    throw new Error(`Invalid encryption ${type} key: expected an X25519 key, got ${key.asymmetricKeyType}`);
+  }
+  return key;
+}
+
+function rawPublicKey(key: crypto.KeyObject): string {
+  return key.export({ format: 'jwk' }).x as string;
+}
+
+function recipientWrapKey(shared: Buffer, ephemeral: string, recipient: string): Buffer {
+  const salt = Buffer.concat([Buffer.from(ephemeral, 'base64url'), Buffer.from(recipient, 'base64url')]);
+  return Buffer.from(crypto.hkdfSync('sha256', shared, salt, RECIPIENT_HKDF_INFO, KEY_LENGTH));
+}
+
+function wrapFileKey(fileKey: Buffer, recipientKey: crypto.KeyObject): RecipientStanza {
+  const ephemeralPair = crypto.generateKeyPairSync('x25519');
+  const recipient = rawPublicKey(recipientKey);
+  const ephemeral = rawPublicKey(ephemeralPair.publicKey);
+  const shared = crypto.diffieHellman({ privateKey: ephemeralPair.privateKey, publicKey: recipientKey });
+
+  // Each wrap key is used exactly once, so a fixed nonce is safe
+  const cipher = crypto.createCipheriv(CIPHER, recipientWrapKey(shared, ephemeral, recipient), Buffer.alloc(12));
+  const wrappedKey = Buffer.concat([cipher.update(fileKey), cipher.final(), cipher.getAuthTag()]);
+
+  return { recipient, ephemeral, wrappedKey: wrappedKey.toString('base64') };
+}
+
+/**
+ * Recovers the data key from the stanza addressed to this identity, or null if there is none.
+ */
+function unwrapFileKey(identity: { privateKey: crypto.KeyObject; publicKey: string }, stanzas: RecipientStanza[]): Buffer | null {
+  const stanza = stanzas.find(candidate => candidate.recipient === identity.publicKey);
+  if (!stanza) {
+    return null;
+  }
+
+  try {
+    const ephemeralKey = crypto.createPublicKey({ key: { kty: 'OKP', crv: 'X25519', x: stanza.ephemeral }, format: 'jwk' });
+    const shared = crypto.diffieHellman({ privateKey: identity.privateKey, publicKey: ephemeralKey });
+    const wrappedKey = Buffer.from(stanza.wrappedKey, 'base64');
+
+    const decipher = crypto.createDecipheriv(CIPHER, recipientWrapKey(shared, stanza.ephemeral, stanza.recipient), Buffer.alloc(12));
+    decipher.setAuthTag(wrappedKey.subarray(wrappedKey.length - TAG_LENGTH));
+    return Buffer.concat([decipher.update(wrappedKey.subarray(0, wrappedKey.length - TAG_LENGTH)), decipher.final()]);
+  } catch {
+    throw new Error('encryption header is corrupted (recipient key does not unwrap)');
+  }
+}
+
+/**
+ * Derives the AES key plus a key check value that lets restores tell a wrong
+ * key apart from corrupted data without decrypting anything.
+ */
+function deriveKey(secret: Buffer, kdf: KdfParams, salt: Buffer): { key: Buffer; keyCheck: Buffer } {
+  const length = KEY_LENGTH + KEY_CHECK_LENGTH;
+  // The random data key of public-key mode only needs expanding, like a key file
+  const material = kdf.name === 'scrypt'
+    ? crypto.scryptSync(secret, salt, length, { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r })
+    : Buffer.from(crypto.hkdfSync('sha256', secret, salt, HKDF_INFO, length));
+
+  return { key: material.subarray(0, KEY_LENGTH), keyCheck: material.subarray(KEY_LENGTH) };
+}
+
+function chunkNonce(prefix: Buffer, counter: number, last: boolean): Buffer {
+  const nonce = Buffer.alloc(NONCE_PREFIX_LENGTH + 5);
+  prefix.copy(nonce);
+  nonce.writeUInt32BE(counter, NONCE_PREFIX_LENGTH);
+  nonce[NONCE_PREFIX_LENGTH + 4] = last ? 1 : 0;
+  return nonce;
+}
+
+function encodeHeader(header: EncryptionHeader): Buffer {
+  const json = Buffer.from(JSON.stringify(header), 'utf8');
+  const preamble = Buffer.alloc(PREAMBLE_LENGTH);
+  MAGIC.copy(preamble);
+  preamble[MAGIC.length] = FORMAT_VERSION;
+  preamble.writeUInt32BE(json.length, MAGIC.length + 1);
+  return Buffer.concat([preamble, json]);
+}
+
+function parseHeader(json: Buffer): EncryptionHeader {
+  let header: EncryptionHeader;
+  try {
+    header = JSON.parse(json.toString('utf8'));
+  } catch {
+    throw new Error('encryption header is corrupted');
+  }
+
+  const { kdf } = header;
+  const validKdf = kdf?.name === 'hkdf-sha256' || (
+    kdf?.name === 'x25519' &&
+    Array.isArray(kdf.recipients) && kdf.recipients.length > 0 && kdf.recipients.length <= MAX_RECIPIENTS &&
+    kdf.recipients.every(stanza =>
+      typeof stanza?.recipient === 'string' && typeof stanza.ephemeral === 'string' && typeof stanza.wrappedKey === 'string')
+  ) || (
+    kdf?.name === 'scrypt' &&
+    Number.isInteger(kdf.N) && kdf.N > 1 && kdf.N <= MAX_SCRYPT_N &&
+    Number.isInteger(kdf.r) && kdf.r > 0 && kdf.r <= 32 &&
+    Number.isInteger(kdf.p) && kdf.p > 0 && kdf.p <= 16
+  );
+
+  if (header.cipher !== CIPHER || !validKdf ||
+      !Number.isInteger(header.chunkSize) || header.chunkSize <= 0 || header.chunkSize > MAX_CHUNK_SIZE ||
+      Buffer.from(header.noncePrefix ?? '', 'base64').length !== NONCE_PREFIX_LENGTH ||
+      typeof header.salt !== 'string' || typeof header.keyCheck !== 'string') {
+    throw new Error('encryption header is corrupted or uses unsupported parameters');
+  }
+
+  return header;
+}
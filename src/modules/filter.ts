@@ -0,0 +1,101 @@
+import { BackupFilter, BackupFilterOptions, BackupInfo, BackupSortField, ParsedBackupKey } from '../types';
+
+export const BACKUP_SORT_FIELDS: BackupSortField[] = ['name', 'date', 'size'];
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses a date option; with endOfDay, a plain date stands for the end of that day.
+ */
+export function parseDate(option: string, value: string, endOfDay: boolean): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --${option} date '${value}' (expected e.g. 2024-01-31 or 2024-01-31T12:00:00Z)`);
+  }
+  return endOfDay && DATE_ONLY_PATTERN.test(value) ? new Date(date.getTime() + DAY_MS - 1) : date;
+}
+
+// "*" matches any run of characters, "?" a single one
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[\\^$.|+()[\]{}]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Validates list/restore selection options; throws on the first invalid one.
+ */
+export function parseBackupFilter(options: BackupFilterOptions): BackupFilter {
+  const filter: BackupFilter = {
+    prefix: options.prefix || undefined,
+    sort: 'date',
+    reverse: !!options.reverse
+  };
+
+  if (options.since) filter.since = parseDate('since', options.since, false);
+  if (options.until) filter.until = parseDate('until', options.until, true);
+  if (filter.since && filter.until && filter.since > filter.until) {
+    throw new Error('--since must be before --until');
+  }
+
+  if (options.name) filter.name = globToRegExp(options.name);
+
+  if (options.limit !== undefined) {
+    const limit = Number(options.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Invalid --limit '${options.limit}' (expected a positive integer)`);
+    }
+    filter.limit = limit;
+  }
+
+  if (options.sort) {
+    if (!BACKUP_SORT_FIELDS.includes(options.sort as BackupSortField)) {
+      throw new Error(`Invalid sort field '${options.sort}'. Use one of: ${BACKUP_SORT_FIELDS.join(', ')}`);
+    }
+    filter.sort = options.sort as BackupSortField;
+  }
+
+  return filter;
+}
+
+export function hasBackupFilters(filter: BackupFilter): boolean {
+  return !!(filter.prefix || filter.since || filter.until || filter.name || filter.limit);
+}
+
+/**
+ * Filters, sorts and limits backups. Names are matched without their directory
+ * unless the glob contains a "/". Dates are the S3 last-modified dates.
+ * Sorting is newest, alphabetical or largest first; reverse flips it.
+ */
+export function applyBackupFilter(
+  backups: BackupInfo[],
+  filter: BackupFilter,
+  parseKey: (key: string) => ParsedBackupKey
+): BackupInfo[] {
+  const matches = backups.filter(backup => {
+    if (filter.prefix && !backup.key.startsWith(filter.prefix)) return false;
+    if (filter.since && backup.lastModified < filter.since) return false;
+    if (filter.until && backup.lastModified > filter.until) return false;
+    if (filter.name) {
+      const { name } = parseKey(backup.key);
+      const subject = filter.name.source.includes('/') ? name : name.slice(name.lastIndexOf('/') + 1);
+      if (!filter.name.test(subject)) return false;
+    }
+    return true;
+  });
+
+  const compare: Record<BackupSortField, (a: BackupInfo, b: BackupInfo) => number> = {
+    name: (a, b) => a.key.localeCompare(b.key),
+    date: (a, b) => b.lastModified.getTime() - a.lastModified.getTime(),
+    size: (a, b) => b.size - a.size
+  };
+  matches.sort(compare[filter.sort]);
+  if (filter.reverse) {
+    matches.reverse();
+  }
+
+  return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+}
@@ -0,0 +1,139 @@
+import { BackupManifest, BackupMode, BinlogPosition } from '../types';
+
+export const TOOL_VERSION = '1.0.0';
+export const MANIFEST_FORMAT_VERSION = 1;
+export const MANIFEST_SUFFIX = '.manifest.json';
+// Parallel backups are a prefix of chunk objects, "<name>.parallel/...", plus the manifest
+export const PARALLEL_SUFFIX = '.parallel';
+
+export const BACKUP_MODES: BackupMode[] = ['full', 'schema', 'data'];
+// Schema- and data-only backups are marked before the extension, "<name>.schema.sql.gz"
+const BACKUP_MODE_MARKER = /\.(schema|data)$/;
+
+export function isBackupMode(value: unknown): value is BackupMode {
+  return BACKUP_MODES.includes(value as BackupMode);
+}
+
+export function getBackupModeExtension(mode: BackupMode): string {
+  return mode === 'full' ? '' : `.${mode}`;
+}
+
+/**
+ * Splits the mode marker off a key stripped of its extension; stems
+ * without one are full backups.
+ */
+export function splitBackupMode(stem: string): { stem: string; mode: BackupMode } {
+  const match = stem.match(BACKUP_MODE_MARKER);
+  return match ? { stem: stem.slice(0, match.index), mode: match[1] as BackupMode } : { stem, mode: 'full' };
+}
+
+export function describeBackupMode(mode: BackupMode): string {
+  return mode === 'full' ? 'full' : `${mode} only`;
+}
+
+/**
+ * The manifest lives next to the dump: "<backup key>.manifest.json".
+ */
+export function getManifestKey(backupKey: string): string {
+  return `${backupKey}${MANIFEST_SUFFIX}`;
+}
+
+export function isManifestKey(key: string): boolean {
+  return key.endsWith(MANIFEST_SUFFIX);
+}
+
+export function isParallelBackupKey(key: string): boolean {
+  return key.endsWith(PARALLEL_SUFFIX);
+}
+
+/**
+ * The parallel backup a chunk object belongs to, or null if the key isn't a chunk.
+ */
+export function getParallelBackupKey(chunkKey: string): string | null {
+  const index = chunkKey.indexOf(`${PARALLEL_SUFFIX}/`);
+  return index === -1 ? null : chunkKey.slice(0, index + PARALLEL_SUFFIX.length);
+}
+
+/**
+ * "<backup>/<schema>/<table><ext>" for a table, "<backup>/<schema><ext>" for
+ * the schema's views, routines and triggers. Names are URI-encoded so a slash
+ * in a table name can't nest keys.
+ */
+export function getChunkKey(backupKey: string, extension: string, schema: string, table?: string): string {
+  const schemaPath = `${backupKey}/${encodeURIComponent(schema)}`;
+  return table === undefined ? `${schemaPath}${extension}` : `${schemaPath}/${encodeURIComponent(table)}${extension}`;
+}
+
+export function parseManifest(content: string): BackupManifest {
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(content);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid backup manifest: ${errorMessage}`);
+  }
+
+  if (!manifest || typeof manifest !== 'object' || typeof manifest.formatVersion !== 'number') {
+    throw new Error('Invalid backup manifest: missing formatVersion');
+  }
+  // Newer tools may add fields, but a new format version means the layout changed
+  if (manifest.formatVersion > MANIFEST_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup manifest version ${manifest.formatVersion}`);
+  }
+
+  return manifest;
+}
+
+/**
+ * One-line summary, e.g. "MySQL 8.0.36, 2 schemas, 14 tables, ~120,000 rows".
+ */
+export function describeManifest(manifest: BackupManifest): string {
+  // Schema-only tables were backed up without their rows
+  const rows = manifest.tables.reduce((sum, table) => sum + (table.schemaOnly ? 0 : table.approxRows), 0);
+  const plural = (count: number, word: string) => `${count.toLocaleString('en-US')} ${word}${count === 1 ? '' : 's'}`;
+
+  const parts = [
+    `MySQL ${manifest.serverVersion}`,
+    plural(manifest.schemas.length, 'schema'),
+    plural(manifest.tables.length, 'table'),
+    `~${plural(rows, 'row')}`
+  ];
+  if (manifest.mode && manifest.mode !== 'full') {
+    parts.push(describeBackupMode(manifest.mode));
+  }
+  // Row filters make a partial backup; say so wherever it is described
+  const filtered = manifest.tables.filter(table => table.where !== undefined).length;
+  if (filtered > 0) {
+    parts.push(plural(filtered, 'filtered table'));
+  }
+  if (manifest.subset) {
+    parts.push(`subset (${manifest.subset.profile})`);
+  }
+  if (manifest.masking) {
+    parts.push(`masked (${manifest.masking.profile})`);
+  }
+  if (manifest.chunks) {
+    parts.push(plural(manifest.chunks.length, 'chunk'));
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Whether the backup has every table of its schemas with all their rows as
+ * they were: not schema- or data-only, filtered, a subset or masked.
+ */
+export function isCompleteBackup(manifest: BackupManifest): boolean {
+  return (manifest.mode ?? 'full') === 'full'
+    && !manifest.excludedTables?.length
+    && manifest.tables.every(table => !table.schemaOnly && table.where === undefined)
+    && !manifest.subset
+    && !manifest.masking;
+}
+
+/**
+ * e.g. "binlog.000042:157, GTID 3e11fa47-71ca-11e1-9e33-c80aa9429562:1-5".
+ */
+export function describeBinlogPosition(position: BinlogPosition): string {
+  const coordinates = `${position.file}:${position.position}${position.exact ? '' : ' (approximate)'}`;
+  return position.gtidExecuted ? `${coordinates}, GTID ${position.gtidExecuted}` : coordinates;
+}
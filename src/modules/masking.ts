@@ -0,0 +1,383 @@
+import { createHash, createHmac } from 'crypto';
+import { pipeline, Readable, Transform, TransformCallback } from 'stream';
+import { MaskingConfig, MaskingPlan, MaskingProfile, MaskingRule, MaskingStrategy, SqlStatement } from '../types';
+import { escapeString } from './sqlwriter';
+import { IDENTIFIER, identifierName, statementHead } from './tablefilter';
+import { matchesTablePattern } from './tablepatterns';
+
+// Masked backups are named apart from the real ones: "shop-sanitized-2024-01-31T14-32-00-000Z.sql.gz"
+export const SANITIZED_LABEL = '-sanitized';
+export const MASKING_STRATEGIES: MaskingStrategy[] = ['email', 'hash', 'null', 'fixed', 'partial', 'pseudonym'];
+const DEFAULT_PARTIAL_KEEP = 4;
+// Hex digits of the digest in fake emails and pseudonyms
+const DIGEST_LENGTH = 16;
+
+const QUALIFIED_TABLE = `(?:(${IDENTIFIER})\\s*\\.\\s*)?(${IDENTIFIER})`;
+// The statement up to its first row, with the table and any column list
+const INSERT_STATEMENT = new RegExp(
+  `^\\s*(?:INSERT|REPLACE)(?:\\s+(?:LOW_PRIORITY|DELAYED|HIGH_PRIORITY|IGNORE))*\\s+INTO\\s+${QUALIFIED_TABLE}\\s*(?:\\(([^)]*)\\)\\s*)?VALUES\\s*`,
+  'i'
+);
+const CREATE_TABLE = new RegExp(`^\\s*CREATE\\s+TABLE(?:\\s+IF\\s+NOT\\s+EXISTS)?\\s+${QUALIFIED_TABLE}\\s*\\(`, 'i');
+const USE_STATEMENT = new RegExp(`^\\s*USE\\s+(${IDENTIFIER})`, 'i');
+// Column definitions are the lines of a CREATE TABLE that start with a quoted name; keys don't
+const COLUMN_DEFINITION = /^\s+(`(?:[^`]|``)+`)/gm;
+const DELIMITER_LINE = /^DELIMITER\s+(\S+)/i;
+const GLOB_CHARACTERS = /[*?]/;
+// Quoted literals may carry a character set introducer, like mysqldump's _binary '...'
+const QUOTED_LITERAL = /^(?:_[A-Za-z0-9]+\s*)?(['"])/;
+const HEX_LITERAL = /^(?:0x([0-9a-f]*)|x'([0-9a-f]*)')$/i;
+const STRING_UNESCAPES: Record<string, string> = { '0': '\0', n: '\n', r: '\r', t: '\t', b: '\b', Z: '\x1a' };
+
+type MaskedColumn = MaskingPlan['columns'][number];
+
+function checkProfile(name: string, profile: MaskingProfile | undefined, sharedSalt?: string): { plan: MaskingPlan; errors: string[] } {
+  const errors: string[] = [];
+  const salt = profile?.salt ?? sharedSalt;
+  const plan: MaskingPlan = { profile: name, salt, columns: [] };
+  const columns = Object.entries(profile?.columns ?? {});
+  if (columns.length === 0) {
+    errors.push(`Masking: profile '${name}' has no columns`);
+  }
+
+  for (const [key, entry] of columns) {
+    const rule: MaskingRule = typeof entry === 'string' ? { strategy: entry } : entry ?? {};
+    const dot = key.lastIndexOf('.');
+    if (dot <= 0 || dot === key.length - 1) {
+      errors.push(`Masking: '${key}' in profile '${name}' must be table.column or schema.table.column`);
+    } else if (!MASKING_STRATEGIES.includes(rule.strategy)) {
+      errors.push(`Masking: '${key}' in profile '${name}' has unknown strategy '${rule.strategy}' (expected ${MASKING_STRATEGIES.join(', ')})`);
+    } else if (rule.strategy === 'fixed' && (rule.value === undefined || rule.value === null)) {
+      errors.push(`Masking: '${key}' in profile '${name}' needs a value for the fixed strategy`);
+    } else if (rule.strategy === 'partial' && rule.keep !== undefined && !(Number.isInteger(rule.keep) && rule.keep >= 0)) {
+      errors.push(`Masking: '${key}' in profile '${name}' must keep a non-negative integer number of characters`);
+    } else if (rule.strategy === 'pseudonym' && !salt) {
+      errors.push(`Masking: '${key}' in profile '${name}' needs a salt for pseudonyms (masking.salt or MASKING_SALT)`);
+    } else {
+      plan.columns.push({ key, table: key.slice(0, dot), column: key.slice(dot + 1), rule });
+    }
+  }
+  return { plan, errors };
+}
+
+/**
+ * Checks every masking profile; throws with every problem found.
+ */
+export function validateMaskingConfig(masking?: MaskingConfig): void {
+  const errors = Object.entries(masking?.profiles ?? {}).flatMap(([name, profile]) => checkProfile(name, profile, masking?.salt).errors);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+}
+
+/**
+ * The masking profile --mask names, ready to apply.
+ */
+export function resolveMaskingPlan(masking: MaskingConfig | undefined, name: string): MaskingPlan {
+  const names = Object.keys(masking?.profiles ?? {});
+  if (!names.includes(name)) {
+    throw new Error(names.length > 0
+      ? `Unknown masking profile '${name}' (configured: ${names.join(', ')})`
+      : `Unknown masking profile '${name}'; no masking profiles are configured`);
+  }
+  const { plan, errors } = checkProfile(name, masking!.profiles![name], masking!.salt);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return plan;
+}
+
+// e.g. "staging (users.email: email, users.phone: partial)"
+export function describeMaskingPlan(plan: MaskingPlan): string {
+  return `${plan.profile} (${plan.columns.map(column => `${column.key}: ${column.rule.strategy}`).join(', ')})`;
+}
+
+// SHA-256 of the value, keyed with the salt when there is one
+function digest(value: Buffer, salt?: string): string {
+  return (salt ? createHmac('sha256', salt) : createHash('sha256')).update(value).digest('hex');
+}
+
+/**
+ * The replacement for a value, or null for NULL. Derived values are
+ * deterministic, so equal values mask alike and joins on them still work.
+ */
+function maskValue(value: Buffer, rule: MaskingRule, salt?: string): string | null {
+  switch (rule.strategy) {
+    case 'null':
+      return null;
+    case 'fixed':
+      return String(rule.value);
+    case 'hash':
+      return digest(value, salt);
+    case 'email':
+      return `user-${digest(value, salt).slice(0, DIGEST_LENGTH)}@example.invalid`;
+    case 'pseudonym':
+      return `anon-${digest(value, salt).slice(0, DIGEST_LENGTH)}`;
+    case 'partial': {
+      const characters = Array.from(value.toString('utf8'));
+      const keep = rule.keep ?? DEFAULT_PARTIAL_KEEP;
+      // Values no longer than what would be kept are masked whole
+      const masked = characters.length > keep ? characters.length - keep : characters.length;
+      return characters.map((character, index) => index < masked ? '*' : character).join('');
+    }
+  }
+}
+
+// The bytes a literal stands for, or null for NULL; numbers and other bare values as written
+function literalBytes(literal: string): Buffer | null {
+  const value = literal.trim();
+  if (/^NULL$/i.test(value)) {
+    return null;
+  }
+  const quoted = QUOTED_LITERAL.exec(value);
+  if (quoted) {
+    const quote = quoted[1];
+    const unescaped = value.slice(quoted[0].length, -1).replace(/\\([\s\S])|''|""/g, (_match, escaped?: string) =>
+      escaped !== undefined ? STRING_UNESCAPES[escaped] ?? escaped : quote);
+    return Buffer.from(unescaped, 'latin1');
+  }
+  const hex = HEX_LITERAL.exec(value);
+  if (hex) {
+    return Buffer.from(hex[1] ?? hex[2], 'hex');
+  }
+  return Buffer.from(value, 'latin1');
+}
+
+// Statements hold the dump's bytes as latin1, so the UTF-8 replacement is too
+function maskLiteral(literal: string, rule: MaskingRule, salt?: string): string {
+  const value = literalBytes(literal);
+  if (value === null) {
+    return literal;
+  }
+  const masked = maskValue(value, rule, salt);
+  return masked === null ? 'NULL' : Buffer.from(escapeString(masked), 'utf8').toString('latin1');
+}
+
+// Index of the closing quote of the literal starting at start
+function quotedEnd(sql: string, start: number): number {
+  const quote = sql[start];
+  for (let i = start + 1; i < sql.length; i++) {
+    if (sql[i] === '\\') {
+      i++;
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) {
+        return i;
+      }
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+// Index of the comma or parenthesis ending the value starting at start
+function valueEnd(sql: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < sql.length; i++) {
+    const char = sql[i];
+    if (char === '\'' || char === '"') {
+      i = quotedEnd(sql, i);
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      return i;
+    }
+  }
+  return sql.length;
+}
+
+// Replaces the masked columns' values in every row of the VALUES list starting at start
+function maskRows(sql: string, start: number, rules: (MaskingRule | undefined)[], salt?: string): string {
+  const parts: string[] = [];
+  let copied = 0;
+  let i = start;
+  while (sql[i] === '(') {
+    let column = 0;
+    do {
+      const valueStart = i + 1;
+      i = valueEnd(sql, valueStart);
+      const rule = rules[column++];
+      if (rule) {
+        parts.push(sql.slice(copied, valueStart), maskLiteral(sql.slice(valueStart, i), rule, salt));
+        copied = i;
+      }
+    } while (sql[i] === ',');
+    // Past the closing parenthesis and the comma before the next row
+    i++;
+    while (i < sql.length && (sql[i] === ',' || /\s/.test(sql[i]))) {
+      i++;
+    }
+  }
+  parts.push(sql.slice(copied));
+  return parts.join('');
+}
+
+const tableKey = (schema: string | undefined, table: string): string => `${schema ?? ''}.${table}`;
+// Column names are case-insensitive
+const sameName = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+const describeTable = (schema: string | undefined, table: string): string => schema ? `${schema}.${table}` : table;
+
+/**
+ * Masks the rows of INSERT and REPLACE statements, one statement at a time.
+ * Column order comes from the statement's column list, or else from the
+ * table's CREATE TABLE earlier in the dump; a table with masked columns
+ * and neither fails rather than let its values through.
+ */
+class StatementMasker {
+  private columns = new Map<string, string[]>();
+  private tableColumns = new Map<string, MaskedColumn[]>();
+
+  constructor(private readonly plan: MaskingPlan, private schema?: string) {}
+
+  mask(sql: string): string {
+    const head = statementHead(sql);
+
+    const use = USE_STATEMENT.exec(head);
+    if (use) {
+      this.schema = identifierName(use[1]);
+      return sql;
+    }
+    const create = CREATE_TABLE.exec(head);
+    if (create) {
+      const schema = create[1] !== undefined ? identifierName(create[1]) : this.schema;
+      const names = Array.from(sql.matchAll(COLUMN_DEFINITION), match => identifierName(match[1]));
+      this.columns.set(tableKey(schema, identifierName(create[2])), names);
+      return sql;
+    }
+
+    const insert = INSERT_STATEMENT.exec(head);
+    if (!insert) {
+      return sql;
+    }
+    const [prefix, schemaIdentifier, tableIdentifier, columnList] = insert;
+    const schema = schemaIdentifier !== undefined ? identifierName(schemaIdentifier) : this.schema;
+    const table = identifierName(tableIdentifier);
+    const masked = this.maskedColumns(schema, table);
+    if (masked.length === 0) {
+      return sql;
+    }
+
+    const defined = this.columns.get(tableKey(schema, table));
+    const columns = columnList !== undefined ? (columnList.match(new RegExp(IDENTIFIER, 'g')) ?? []).map(identifierName) : defined;
+    if (!columns) {
+      throw new Error(`Cannot mask ${describeTable(schema, table)}: the dump has neither its CREATE TABLE nor a column list`);
+    }
+    // A typo in a profile would let the real values through; column lists may leave columns out
+    const unknown = masked.find(column => !GLOB_CHARACTERS.test(column.table) && !defined?.some(name => sameName(name, column.column)));
+    if (defined && unknown) {
+      throw new Error(`Masking rule ${unknown.key} names a column ${describeTable(schema, table)} doesn't have`);
+    }
+    const rules = columns.map(name => masked.find(column => sameName(column.column, name))?.rule);
+    return maskRows(sql, prefix.length, rules, this.plan.salt);
+  }
+
+  private maskedColumns(schema: string | undefined, table: string): MaskedColumn[] {
+    const key = tableKey(schema, table);
+    let columns = this.tableColumns.get(key);
+    if (!columns) {
+      columns = this.plan.columns.filter(column => matchesTablePattern(column.table, { schema: schema ?? '', name: table }));
+      this.tableColumns.set(key, columns);
+    }
+    return columns;
+  }
+}
+
+/**
+ * Masks the rows of the statements a SqlStatementSplitter reads from a dump,
+ * so the values never reach the server. schema is the one the dump's rows
+ * belong to until it switches with USE.
+ */
+export class SqlMaskingFilter extends Transform {
+  private readonly masker: StatementMasker;
+
+  constructor(plan: MaskingPlan, schema?: string) {
+    super({ objectMode: true });
+    this.masker = new StatementMasker(plan, schema);
+  }
+
+  _transform(statement: SqlStatement, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      callback(null, { ...statement, sql: this.masker.mask(statement.sql) });
+    } catch (error: unknown) {
+      callback(error as Error);
+    }
+  }
+}
+
+/**
+ * Masks the rows of a dump as it is written, line by line: mysqldump and the
+ * native engine write every INSERT on one line. Everything else passes
+ * through byte for byte, including routine and trigger bodies under another
+ * DELIMITER, whose INSERTs aren't rows.
+ */
+export class SqlMaskingStream extends Transform {
+  private readonly masker: StatementMasker;
+  private pending: string[] = [];
+  private createTable: string[] | null = null;
+  private delimiter = ';';
+
+  constructor(plan: MaskingPlan, schema?: string) {
+    super();
+    this.masker = new StatementMasker(plan, schema);
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const text = chunk.toString('latin1');
+    const end = text.lastIndexOf('\n');
+    if (end === -1) {
+      this.pending.push(text);
+      callback();
+      return;
+    }
+    const lines = this.pending.join('') + text.slice(0, end + 1);
+    this.pending = [text.slice(end + 1)];
+    this.maskLines(lines, callback);
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.maskLines(this.pending.join(''), callback);
+  }
+
+  private maskLines(text: string, callback: TransformCallback): void {
+    try {
+      callback(null, text.length > 0 ? Buffer.from(text.split('\n').map(line => this.maskLine(line)).join('\n'), 'latin1') : undefined);
+    } catch (error: unknown) {
+      callback(error as Error);
+    }
+  }
+
+  private maskLine(line: string): string {
+    const delimiter = DELIMITER_LINE.exec(line);
+    if (delimiter) {
+      this.delimiter = delimiter[1];
+      return line;
+    }
+    if (this.delimiter !== ';') {
+      return line;
+    }
+    // A CREATE TABLE spans lines; it only names the table's columns
+    if (this.createTable || CREATE_TABLE.test(line)) {
+      this.createTable = [...this.createTable ?? [], line];
+      if (line.trimEnd().endsWith(';')) {
+        this.masker.mask(this.createTable.join('\n'));
+        this.createTable = null;
+      }
+      return line;
+    }
+    return this.masker.mask(line);
+  }
+}
+
+/**
+ * The parts of a native or parallel dump, masked. Errors on either side end
+ * the iteration with that error.
+ */
+export function maskSqlParts(parts: AsyncIterable<string | Buffer>, plan: MaskingPlan, schema?: string): AsyncIterable<Buffer> {
+  const masker = new SqlMaskingStream(plan, schema);
+  pipeline(Readable.from(parts), masker, () => undefined);
+  return masker;
+}
@@ -1,8 +1,40 @@
-import { spawn } from 'child_process';
-import { createConnection } from 'mysql2/promise';
-import * as zlib from 'zlib';
+import { ChildProcess, spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { Connection as CoreConnection, createConnection as createCoreConnection } from 'mysql2';
+import { Connection, createConnection } from 'mysql2/promise';
 import * as fs from 'fs';
-import { DatabaseConfig, ProgressCallback } from '../types';
+import * as path from 'path';
+import { Duplex, pipeline, Readable, Transform, Writable } from 'stream';
+import {
+  BackupDigest,
+  BackupStreamOptions,
+  BinaryLogFile,
+  BinlogPosition,
+  BinlogReplayOptions,
+  CreateStatement,
+  DatabaseConfig,
+  ForeignKey,
+  ManifestTable,
+  ProgressCallback,
+  ReplicationSource,
+  RestoreStreamOptions,
+  SchemaObject,
+  ServerSnapshot,
+  SqlStatement,
+  TableColumn,
+  TableName
+} from '../types';
+import { createCompressor, createDecompressor, DEFAULT_COMPRESSION_CODEC } from './compression';
+import { describeReferencingForeignKeys } from './atomic';
+import { verifyChecksum } from './checksum';
+import { createDecryptor, createEncryptor } from './encryption';
+import { DUMP_HEADER_LIMIT, parseDumpBinlogPosition } from './sqldump';
+import { SqlMaskingFilter, SqlMaskingStream } from './masking';
+import { SqlStatementSplitter } from './sqlsplitter';
+import { SqlSchemaFilter } from './schemafilter';
+import { SqlStatementFilter } from './tablefilter';
+import { applyTableFilters, hasTableFilters } from './tablepatterns';
+import { quoteIdentifier, sortSchemaObjects } from './sqlwriter';
 
 // Constants for large database handling (supports databases up to 400GB+)
 const MAX_ALLOWED_PACKET = '1G';
@@ -10,51 +42,1088 @@ const MAX_ALLOWED_PACKET_BYTES = 1024 * 1024 * 1024; // 1GB in bytes
 const NET_BUFFER_LENGTH = '16M'; // 16MB batches - works with MySQL 8.0 default (64MB max_allowed_packet)
 // Stream buffer sizes optimized for large data
 const STREAM_HIGH_WATER_MARK = 16 * 1024 * 1024; // 16MB chunks
-const GZIP_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB gzip chunks
 // Timeout: 1 minute per GB, minimum 30 minutes
 const TIMEOUT_PER_GB_MS = 60 * 1000;
 const MIN_TIMEOUT_MS = 30 * 60 * 1000;
+const SYSTEM_SCHEMAS = ['information_schema', 'performance_schema', 'mysql', 'sys'];
+// Rows buffered per table stream while the upload catches up
+const ROW_STREAM_HIGH_WATER_MARK = 1000;
+// Values come back as the text the server sent (no Date or JSON parsing), so they dump unchanged
+const DUMP_CONNECTION_OPTIONS = {
+  dateStrings: true,
+  supportBigNumbers: true,
+  bigNumberStrings: true,
+  jsonStrings: true
+};
+// Like mysqldump: a slow upload must not make the server give up on a paused result set
+const DUMP_NET_TIMEOUT_SECONDS = 86400;
+// One-off event that drops the tables an atomic restore replaced
+const DROP_DATABASE_EVENT = 'drop_replaced_tables';
+
+// MySQL 8.0.26 renamed --master-data to --source-data; MariaDB kept the old name
+function getSourceDataFlag(serverVersion: string): string {
+  const [major, minor, patch] = serverVersion.split(/[.-]/).map(Number);
+  const renamed = !serverVersion.includes('MariaDB') &&
+    (major > 8 || (major === 8 && (minor > 0 || patch >= 26)));
+  return renamed ? '--source-data=2' : '--master-data=2';
+}
+
+// Renamed replication statements are tried under their new name first, falling back on a syntax error
+const isSyntaxError = (error: unknown): boolean =>
+  (error as { code?: string })?.code === 'ER_PARSE_ERROR';
+
+// "2026-10-18 14:32:00" in local time, the format mysqlbinlog's --stop-datetime expects
+function formatDatetime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
 
 export class MySQLManager {
+  // The callback connections behind the snapshot connections; the promise API can't stream rows
+  private readonly coreConnections = new WeakMap<Connection, CoreConnection>();
+
   constructor(private config: DatabaseConfig) {}
 
-  public async testConnection(): Promise<void> {
+  public async testConnection(): Promise<void> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password,
+      database: this.config.database
+    });
+
+    await connection.ping();
+    await connection.end();
+  }
+
+  /**
+   * Gets the current global max_allowed_packet value.
+   */
+  public async getMaxAllowedPacket(): Promise<number> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      const [rows] = await connection.execute('SELECT @@GLOBAL.max_allowed_packet as value');
+      return (rows as { value: number }[])[0].value;
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Attempts to set max_allowed_packet to 1GB globally.
+   * Returns the original value if successful (to restore later), or null if failed.
+   */
+  public async trySetMaxAllowedPacket(): Promise<number | null> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      // Get current value first
+      const [rows] = await connection.execute('SELECT @@GLOBAL.max_allowed_packet as value');
+      const originalValue = (rows as { value: number }[])[0].value;
+
+      // Try to set global max_allowed_packet (requires SUPER or SYSTEM_VARIABLES_ADMIN privilege)
+      await connection.execute(`SET GLOBAL max_allowed_packet = ${MAX_ALLOWED_PACKET_BYTES}`);
+      console.log(`[MySQL] Set max_allowed_packet to 1GB (was ${Math.round(originalValue / 1024 / 1024)}MB)`);
+      return originalValue;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes('Access denied') || errorMessage.includes('SUPER privilege') || errorMessage.includes('SYSTEM_VARIABLES_ADMIN')) {
+        console.log('[MySQL] Cannot set max_allowed_packet globally (no admin privileges) - using default server setting');
+      } else {
+        console.log(`[MySQL] Warning: Could not set max_allowed_packet: ${errorMessage}`);
+      }
+      return null;
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Restores max_allowed_packet to its original value.
+   */
+  public async restoreMaxAllowedPacket(originalValue: number): Promise<void> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      await connection.execute(`SET GLOBAL max_allowed_packet = ${originalValue}`);
+      console.log(`[MySQL] Restored max_allowed_packet to ${Math.round(originalValue / 1024 / 1024)}MB`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.log(`[MySQL] Warning: Could not restore max_allowed_packet: ${errorMessage}`);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  public async listDatabases(): Promise<string[]> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      const [rows] = await connection.execute('SHOW DATABASES');
+      const databases = (rows as { Database: string }[])
+        .map((row) => row.Database)
+        .filter(db => !SYSTEM_SCHEMAS.includes(db));
+
+      return databases;
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Collects server version, table statistics and binlog position for the backup manifest.
+   * Row counts and sizes come from information_schema and are estimates for InnoDB.
+   */
+  public async getServerSnapshot(): Promise<ServerSnapshot> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      const [versionRows] = await connection.execute('SELECT VERSION() AS version');
+      const serverVersion = (versionRows as { version: string }[])[0].version;
+
+      const schemas = this.config.schemas && this.config.schemas.length > 0
+        ? this.config.schemas
+        : this.config.database
+          ? [this.config.database]
+          : await this.listDatabases();
+
+      let tables: ManifestTable[] = [];
+      if (schemas.length > 0) {
+        // query() rather than execute(): prepared statements can't expand the IN list
+        const [tableRows] = await connection.query(
+          `SELECT TABLE_SCHEMA AS tableSchema, TABLE_NAME AS tableName, TABLE_ROWS AS tableRows,
+                  DATA_LENGTH AS dataLength, INDEX_LENGTH AS indexLength
+           FROM information_schema.TABLES
+           WHERE TABLE_TYPE = 'BASE TABLE' AND TABLE_SCHEMA IN (?)
+           ORDER BY TABLE_SCHEMA, TABLE_NAME`,
+          [schemas]
+        );
+        tables = (tableRows as { tableSchema: string; tableName: string; tableRows: number | null; dataLength: number | null; indexLength: number | null }[])
+          .map(row => ({
+            schema: row.tableSchema,
+            name: row.tableName,
+            approxRows: Number(row.tableRows ?? 0),
+            dataSize: Number(row.dataLength ?? 0),
+            indexSize: Number(row.indexLength ?? 0)
+          }));
+      }
+
+      let excludedTables: TableName[] | undefined;
+      if (hasTableFilters(this.config)) {
+        ({ tables, excluded: excludedTables } = applyTableFilters(tables, this.config));
+      }
+
+      return {
+        serverVersion,
+        schemas,
+        tables,
+        ...(excludedTables && { excludedTables }),
+        binlog: await this.tryGetBinlogPosition(connection),
+        hasReloadPrivilege: await this.hasGlobalPrivilege(connection, 'RELOAD')
+      };
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Reads the current binlog coordinates and executed GTID set.
+   * Returns undefined if binary logging is off or the user lacks REPLICATION CLIENT.
+   */
+  private async tryGetBinlogPosition(connection: Connection): Promise<BinlogPosition | undefined> {
+    let status: { File?: string; Position?: number } | undefined;
+    try {
+      const [rows] = await connection.execute('SHOW MASTER STATUS');
+      status = (rows as { File?: string; Position?: number }[])[0];
+    } catch {
+      // MySQL 8.4 removed SHOW MASTER STATUS in favour of SHOW BINARY LOG STATUS
+      try {
+        const [rows] = await connection.execute('SHOW BINARY LOG STATUS');
+        status = (rows as { File?: string; Position?: number }[])[0];
+      } catch {
+        return undefined;
+      }
+    }
+
+    if (!status?.File) {
+      return undefined;
+    }
+
+    const position: BinlogPosition = { file: status.File, position: Number(status.Position) };
+    try {
+      const [rows] = await connection.execute('SELECT @@GLOBAL.gtid_executed AS gtidExecuted');
+      const gtidExecuted = (rows as { gtidExecuted?: string }[])[0]?.gtidExecuted;
+      if (gtidExecuted) {
+        position.gtidExecuted = gtidExecuted.replace(/\s+/g, '');
+      }
+    } catch {
+      // MariaDB has no gtid_executed
+    }
+    return position;
+  }
+
+  /**
+   * Whether the current user has a global privilege, going by SHOW GRANTS.
+   * Privileges that only come from roles aren't seen.
+   */
+  private async hasGlobalPrivilege(connection: Connection, privilege: string): Promise<boolean> {
+    try {
+      const [rows] = await connection.query('SHOW GRANTS');
+      return (rows as Record<string, string>[])
+        .map(row => Object.values(row)[0])
+        .some(grant => {
+          const match = /^GRANT (.+?) ON \*\.\* TO /.exec(grant);
+          return Boolean(match) && (match![1].includes('ALL PRIVILEGES') || match![1].split(/,\s*/).includes(privilege));
+        });
+    } catch {
+      return false;
+    }
+  }
+
+  public async listBinaryLogs(): Promise<BinaryLogFile[]> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      const [rows] = await connection.query('SHOW BINARY LOGS');
+      return (rows as { Log_name: string; File_size: number }[])
+        .map(row => ({ name: row.Log_name, size: Number(row.File_size) }));
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Closes the current binlog and starts a new one. Needs the RELOAD privilege.
+   */
+  public async flushBinaryLogs(): Promise<void> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      await connection.query('FLUSH BINARY LOGS');
+    } finally {
+      await connection.end();
+    }
+  }
+
+  public async getGtidExecuted(): Promise<string> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      const [rows] = await connection.query('SELECT @@GLOBAL.gtid_executed AS gtidExecuted');
+      return ((rows as { gtidExecuted?: string }[])[0]?.gtidExecuted ?? '').replace(/\s+/g, '');
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Deletes the server's binlogs and clears its GTID state, so a dump can set
+   * GTID_PURGED. Only meant for a server about to become a replica.
+   */
+  public async resetBinaryLogsAndGtids(): Promise<void> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      await connection.query('RESET BINARY LOGS AND GTIDS');
+    } catch (error: unknown) {
+      if (!isSyntaxError(error)) {
+        throw error;
+      }
+      await connection.query('RESET MASTER');
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Sets GTID_PURGED to the GTIDs already contained in restored data, so a
+   * replica doesn't apply them again. The server's GTID state must be empty.
+   */
+  public async setGtidPurged(gtidSet: string): Promise<void> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      await connection.query('SET @@GLOBAL.GTID_PURGED = ?', [gtidSet]);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Points the server at a replication source, by GTID auto-positioning or
+   * at the given binlog coordinates, and optionally starts replicating.
+   */
+  public async configureReplication(
+    source: ReplicationSource,
+    start: BinlogPosition,
+    options: { autoPosition: boolean; startReplica?: boolean }
+  ): Promise<void> {
+    const settings: [string, string | number][] = [
+      ['HOST', source.host],
+      ['PORT', source.port],
+      ['USER', source.user],
+      ['PASSWORD', source.password],
+      ...(options.autoPosition
+        ? [['AUTO_POSITION', 1] as [string, number]]
+        : [['LOG_FILE', start.file] as [string, string], ['LOG_POS', start.position] as [string, number]])
+    ];
+    const values = settings.map(([, value]) => value);
+    const changeSource = (command: string, prefix: string) =>
+      `${command} ${settings.map(([name]) => `${prefix}_${name} = ?`).join(', ')}`;
+
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+
+    try {
+      try {
+        await connection.query(changeSource('CHANGE REPLICATION SOURCE TO', 'SOURCE'), values);
+      } catch (error: unknown) {
+        // MariaDB and MySQL before 8.0.23
+        if (!isSyntaxError(error)) {
+          throw error;
+        }
+        await connection.query(changeSource('CHANGE MASTER TO', 'MASTER'), values);
+      }
+
+      if (options.startReplica) {
+        try {
+          await connection.query('START REPLICA');
+        } catch (error: unknown) {
+          if (!isSyntaxError(error)) {
+            throw error;
+          }
+          await connection.query('START SLAVE');
+        }
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to configure replication: ${errorMessage}`);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  /**
+   * Copies a binlog from the server into outputDir with mysqlbinlog, as a
+   * replica would read it. Needs the REPLICATION SLAVE privilege.
+   */
+  public async copyBinlog(file: string, outputDir: string): Promise<string> {
+    const args = [
+      '--read-from-remote-server',
+      '--raw',
+      `--result-file=${outputDir}${path.sep}`,
+      '-h', this.config.host,
+      '-P', this.config.port.toString(),
+      '-u', this.config.user,
+      `-p${this.config.password}`,
+      file
+    ];
+
+    await new Promise<void>((resolve, reject) => {
+      const mysqlbinlog = spawn('mysqlbinlog', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let error = '';
+
+      mysqlbinlog.stderr.on('data', (data) => {
+        const msg = data.toString();
+        if (!msg.includes('Using a password on the command line')) {
+          error += msg;
+        }
+      });
+      mysqlbinlog.on('error', (err) => reject(new Error(`Failed to start mysqlbinlog: ${err.message}`)));
+      mysqlbinlog.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`mysqlbinlog exited with code ${code} copying ${file}: ${error.trim()}`));
+        }
+      });
+    });
+
+    return path.join(outputDir, file);
+  }
+
+  /**
+   * Pipes local binlog files through mysqlbinlog into mysql. GTIDs are
+   * stripped, otherwise a server that already executed them would skip the events.
+   */
+  public async replayBinlogs(files: string[], targetDatabase: string, options: BinlogReplayOptions): Promise<void> {
+    const args = [
+      '--skip-gtids',
+      `--start-position=${options.startPosition}`,
+      `--stop-datetime=${formatDatetime(options.stopDatetime)}`
+    ];
+    if (options.database) {
+      // --database matches the rewritten name
+      if (options.database !== targetDatabase) {
+        args.push(`--rewrite-db=${options.database}->${targetDatabase}`);
+      }
+      args.push(`--database=${targetDatabase}`);
+    }
+
+    return new Promise((resolve, reject) => {
+      const mysqlbinlog = spawn('mysqlbinlog', [...args, ...files], { stdio: ['ignore', 'pipe', 'pipe'] });
+      const mysql = spawn('mysql', [
+        '-h', this.config.host,
+        '-P', this.config.port.toString(),
+        '-u', this.config.user,
+        `-p${this.config.password}`,
+        `--max_allowed_packet=${MAX_ALLOWED_PACKET}`,
+        targetDatabase
+      ], {
+        stdio: ['pipe', 'inherit', 'pipe']
+      });
+
+      const errors = { mysqlbinlog: '', mysql: '' };
+      const exitCodes: { mysqlbinlog?: number | null; mysql?: number | null } = {};
+      let isResolved = false;
+
+      const fail = (err: Error) => {
+        if (!isResolved) {
+          isResolved = true;
+          mysqlbinlog.kill('SIGTERM');
+          mysql.kill('SIGTERM');
+          reject(err);
+        }
+      };
+
+      const finish = () => {
+        if (isResolved || exitCodes.mysqlbinlog === undefined || exitCodes.mysql === undefined) {
+          return;
+        }
+        // A failed mysql gets mysqlbinlog killed, so report mysql first
+        if (exitCodes.mysql !== 0) {
+          fail(new Error(`Binlog replay failed (exit code ${exitCodes.mysql}): ${errors.mysql.trim()}`));
+        } else if (exitCodes.mysqlbinlog !== 0) {
+          fail(new Error(`mysqlbinlog exited with code ${exitCodes.mysqlbinlog}: ${errors.mysqlbinlog.trim()}`));
+        } else {
+          isResolved = true;
+          resolve();
+        }
+      };
+
+      mysqlbinlog.stderr.on('data', (data) => {
+        errors.mysqlbinlog += data.toString();
+      });
+      mysql.stderr.on('data', (data) => {
+        const msg = data.toString();
+        if (!msg.includes('Using a password on the command line')) {
+          errors.mysql += msg;
+        }
+      });
+
+      mysqlbinlog.on('error', (err) => fail(new Error(`Failed to start mysqlbinlog: ${err.message}`)));
+      mysql.on('error', (err) => fail(new Error(`Failed to start mysql: ${err.message}`)));
+      // EPIPE when mysql exits early; its exit code tells what went wrong
+      mysql.stdin.on('error', () => undefined);
+
+      mysqlbinlog.on('close', (code) => {
+        exitCodes.mysqlbinlog = code;
+        finish();
+      });
+      mysql.on('close', (code) => {
+        exitCodes.mysql = code;
+        if (code !== 0) {
+          mysqlbinlog.kill('SIGTERM');
+        }
+        finish();
+      });
+
+      mysqlbinlog.stdout.pipe(mysql.stdin);
+    });
+  }
+
+  /**
+   * Writes a dump to a local file: mysqldump's output unless another
+   * engine's stream is passed in.
+   */
+  public async createBackup(
+    outputPath: string,
+    progressCallback?: ProgressCallback,
+    options: BackupStreamOptions = {},
+    dump: Readable = this.createBackupStream(options)
+  ): Promise<BackupDigest> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha256');
+
+      const output = fs.createWriteStream(outputPath, {
+        highWaterMark: STREAM_HIGH_WATER_MARK
+      });
+
+      let totalBytes = 0;
+      let lastProgressUpdate = 0;
+
+      // Track size, checksum and progress - throttle progress updates for performance
+      dump.on('data', (chunk) => {
+        totalBytes += chunk.length;
+        hash.update(chunk);
+        const now = Date.now();
+        // Update progress every 500ms to avoid overwhelming the UI
+        if (progressCallback && now - lastProgressUpdate > 500) {
+          progressCallback({ loaded: totalBytes });
+          lastProgressUpdate = now;
+        }
+      });
+
+      dump.on('error', (err) => {
+        reject(err);
+      });
+
+      // Handle output file errors
+      output.on('error', (err) => {
+        reject(new Error(`Failed to write backup file: ${err.message}`));
+      });
+
+      output.on('finish', () => {
+        if (progressCallback) {
+          progressCallback({ loaded: totalBytes, percentage: 100 });
+        }
+        resolve({ size: totalBytes, sha256: hash.digest('hex') });
+      });
+
+      dump.pipe(output);
+    });
+  }
+
+  /**
+   * The mysqldump arguments apart from connection and credentials,
+   * as recorded in the backup manifest.
+   */
+  public getDumpFlags(options: BackupStreamOptions = {}): string[] {
+    // Build mysqldump arguments optimized for large databases (400GB+)
+    // These flags are compatible with MySQL 5.6+ and MariaDB
+    const args = [
+      // Large database optimizations
+      `--max_allowed_packet=${MAX_ALLOWED_PACKET}`,
+      `--net_buffer_length=${NET_BUFFER_LENGTH}`,
+      '--quick',                    // Stream tables row-by-row instead of buffering
+      '--single-transaction',       // Consistent backup for InnoDB without locking
+      '--lock-tables=false',        // Don't lock tables (use single-transaction instead)
+      '--verbose'
+    ];
+
+    if (options.mode === 'schema') {
+      // Definitions only, including events, and no dump date so nightly dumps can be diffed
+      args.push('--no-data', '--routines', '--triggers', '--events', '--skip-dump-date');
+    } else if (options.mode === 'data') {
+      // Rows only, to load into existing tables, which keep their triggers
+      args.push('--no-create-info', '--no-create-db', '--skip-triggers');
+      if (options.masking) {
+        // Without a CREATE TABLE, only column lists say which values to mask
+        args.push('--complete-insert');
+      }
+    } else {
+      args.push('--routines', '--triggers');
+    }
+
+    if (options.binlog) {
+      // Commented-out CHANGE MASTER/SOURCE with the coordinates of the snapshot
+      args.push(getSourceDataFlag(options.binlog.serverVersion));
+    }
+
+    if (this.config.schemas && this.config.schemas.length > 0) {
+      args.push('--databases', ...this.config.schemas);
+    } else if (this.config.database) {
+      args.push(this.config.database);
+    } else {
+      args.push('--all-databases');
+    }
+
+    // Schema-only tables are dumped without their rows by a second run, and not at all by data-only dumps
+    const schemaOnlyTables = options.mode === 'schema' ? [] : options.schemaOnlyTables ?? [];
+    for (const table of [...options.ignoreTables ?? [], ...schemaOnlyTables]) {
+      args.push(`--ignore-table=${table.schema}.${table.name}`);
+    }
+
+    return args;
+  }
+
+  /**
+   * The mysqldump runs after the main one that dump the definitions of
+   * schema-only tables, one per schema. Without --databases the main dump
+   * has no USE statements, so these don't need one either.
+   */
+  private getSchemaOnlyDumps(options: BackupStreamOptions): { header: string; flags: string[] }[] {
+    if (options.mode === 'schema' || options.mode === 'data') {
+      return [];
+    }
+    const tablesBySchema = new Map<string, string[]>();
+    for (const table of options.schemaOnlyTables ?? []) {
+      tablesBySchema.set(table.schema, [...tablesBySchema.get(table.schema) ?? [], table.name]);
+    }
+    const usesDatabases = Boolean(this.config.schemas?.length) || !this.config.database;
+
+    return [...tablesBySchema].map(([schema, tables]) => ({
+      header: usesDatabases ? `\nUSE ${quoteIdentifier(schema)};\n` : '',
+      flags: [
+        `--max_allowed_packet=${MAX_ALLOWED_PACKET}`,
+        '--single-transaction',
+        '--no-data',
+        '--triggers',
+        '--lock-tables=false',
+        schema,
+        ...tables
+      ]
+    }));
+  }
+
+  /**
+   * Starts mysqldump and returns its compressed output as a stream.
+   * The stream only ends after mysqldump has exited successfully; a non-zero
+   * exit destroys it with an error instead, so a consumer (e.g. a multipart
+   * upload) never mistakes a truncated dump for a complete one.
+   */
+  public createBackupStream(options: BackupStreamOptions = {}): Readable {
+    const connectionArgs = [
+      '-h', this.config.host,
+      '-P', this.config.port.toString(),
+      '-u', this.config.user,
+      `-p${this.config.password}`
+    ];
+    const dumps = [{ header: '', flags: this.getDumpFlags(options) }, ...this.getSchemaOnlyDumps(options)];
+
+    // Set up the encryption key first so a bad key fails before mysqldump starts
+    const encryptor = options.encryption ? createEncryptor(options.encryption) : null;
+
+    const compressor = createCompressor(options.compression);
+    // Masking rewrites the rows before they are compressed; the dumps write into it instead
+    const masker = options.masking
+      ? new SqlMaskingStream(options.masking, this.config.schemas?.length ? undefined : this.config.database)
+      : null;
+    const input: Writable = masker ?? compressor;
+    if (masker) {
+      masker.on('error', (err) => compressor.destroy(err));
+      masker.pipe(compressor);
+    }
+    let mysqldump: ChildProcess | undefined;
+    let exited = false;
+
+    // Runs the dumps one after another into the compressor
+    const startDump = (index: number) => {
+      const { header, flags } = dumps[index];
+      if (header) {
+        input.write(header);
+        if (!masker) {
+          options.onDumpData?.(Buffer.byteLength(header));
+        }
+      }
+
+      const child = spawn('mysqldump', [...connectionArgs, ...flags], {
+        // Use larger buffers for stdout
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env }
+      });
+      mysqldump = child;
+      exited = false;
+      let error = '';
+
+      // Handle mysqldump errors - filter out warnings
+      child.stderr.on('data', (data) => {
+        const msg = data.toString();
+        // Filter out common warnings that aren't actual errors
+        if (!msg.includes('Warning:') && !msg.includes('-- Dumping')) {
+          error += msg;
+        }
+      });
+
+      child.on('error', (err) => {
+        exited = true;
+        compressor.destroy(new Error(`Failed to start mysqldump: ${err.message}`));
+      });
+
+      child.on('close', (code) => {
+        exited = true;
+        if (code !== 0) {
+          compressor.destroy(new Error(`mysqldump exited with code ${code}: ${error}`));
+        } else if (index + 1 < dumps.length) {
+          startDump(index + 1);
+        } else {
+          // 'close' fires after stdout has been fully consumed, so every byte
+          // of the dump is already in the compressor (or the masker) at this point
+          input.end();
+        }
+      });
+
+      // Don't let the compressor end on its own: only a successful exit may finish the stream
+      if (options.onDumpData && !masker) {
+        const onDumpData = options.onDumpData;
+        child.stdout.on('data', (chunk: Buffer) => onDumpData(chunk.length));
+      }
+      if (options.binlog && index === 0) {
+        this.readDumpBinlogPosition(child.stdout, options.binlog.onPosition);
+      }
+      child.stdout.pipe(input, { end: false });
+    };
+
+    // A masked dump's size is what is left after masking
+    if (masker && options.onDumpData) {
+      const onDumpData = options.onDumpData;
+      masker.on('data', (chunk: Buffer) => onDumpData(chunk.length));
+    }
+
+    // Stop mysqldump if the consumer tears the stream down early
+    compressor.on('close', () => {
+      if (!exited) {
+        mysqldump?.kill('SIGTERM');
+      }
+    });
+
+    startDump(0);
+
+    if (!encryptor) {
+      return compressor;
+    }
+
+    // Encrypt after compressing; pipeline forwards errors and early teardown in both directions
+    pipeline(compressor, encryptor, () => undefined);
+    return encryptor;
+  }
+
+  /**
+   * Reads the coordinates --source-data writes from the start of the dump
+   * and reports them, if there are any.
+   */
+  private readDumpBinlogPosition(dump: Readable, onPosition: (position: BinlogPosition) => void): void {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    let done = false;
+    const parse = () => {
+      if (done) {
+        return;
+      }
+      done = true;
+      dump.removeListener('data', onData);
+      const position = parseDumpBinlogPosition(Buffer.concat(chunks).toString('utf8'));
+      if (position) {
+        onPosition(position);
+      }
+    };
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= DUMP_HEADER_LIMIT) {
+        parse();
+      }
+    };
+    dump.on('data', onData);
+    dump.once('end', parse);
+  }
+
+  /**
+   * Opens connections that all read the same snapshot, for dumping tables in
+   * parallel. A global read lock is only held while their transactions start
+   * and the binlog position is read, so the position matches the snapshot
+   * exactly. FLUSH TABLES WITH READ LOCK needs the RELOAD privilege; with
+   * lock: false a single connection can still dump, but no position is read.
+   */
+  public async openSnapshotConnections(
+    count: number,
+    options: { lock?: boolean } = {}
+  ): Promise<{ connections: Connection[]; binlog?: BinlogPosition }> {
+    const connectionOptions = {
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    };
+    const connections: Connection[] = [];
+    let lock: Connection | undefined;
+
+    try {
+      // Connect before locking so the lock is held as briefly as possible
+      for (let i = 0; i < count; i++) {
+        const core = createCoreConnection({ ...connectionOptions, ...DUMP_CONNECTION_OPTIONS });
+        const connection = core.promise();
+        this.coreConnections.set(connection, core);
+        connections.push(connection);
+        await connection.connect();
+        await connection.query(
+          `SET SESSION time_zone = '+00:00', SESSION net_read_timeout = ${DUMP_NET_TIMEOUT_SECONDS}, SESSION net_write_timeout = ${DUMP_NET_TIMEOUT_SECONDS}`
+        );
+        await connection.query('SET SESSION TRANSACTION ISOLATION LEVEL REPEATABLE READ');
+      }
+
+      if (options.lock === false) {
+        for (const connection of connections) {
+          await connection.query('START TRANSACTION WITH CONSISTENT SNAPSHOT');
+        }
+        return { connections };
+      }
+
+      lock = await createConnection(connectionOptions);
+      await lock.query('FLUSH TABLES WITH READ LOCK');
+      for (const connection of connections) {
+        await connection.query('START TRANSACTION WITH CONSISTENT SNAPSHOT');
+      }
+      const binlog = await this.tryGetBinlogPosition(lock);
+      await lock.query('UNLOCK TABLES');
+
+      return { connections, binlog: binlog && { ...binlog, exact: true } };
+    } catch (error: unknown) {
+      await Promise.all(connections.map(connection => connection.end().catch(() => undefined)));
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to open snapshot connections: ${errorMessage}`);
+    } finally {
+      // Ending the session also releases the lock if anything failed while it was held
+      await lock?.end().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Columns of a table in order. Only VIRTUAL and STORED columns are generated;
+   * DEFAULT_GENERATED just marks an expression default like CURRENT_TIMESTAMP.
+   */
+  public async getTableColumns(connection: Connection, schema: string, table: string): Promise<TableColumn[]> {
+    const [rows] = await connection.query(
+      `SELECT COLUMN_NAME AS name, DATA_TYPE AS dataType, EXTRA AS extra
+       FROM information_schema.COLUMNS
+       WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+       ORDER BY ORDINAL_POSITION`,
+      [schema, table]
+    );
+    return (rows as { name: string; dataType: string; extra: string | null }[]).map(row => ({
+      name: row.name,
+      dataType: row.dataType,
+      generated: /\b(?:VIRTUAL|STORED) GENERATED\b/i.test(row.extra ?? '')
+    }));
+  }
+
+  /**
+   * Foreign keys of the tables in the schemas. The referenced tables may be
+   * in other schemas.
+   */
+  public async listForeignKeys(connection: Connection, schemas: string[]): Promise<ForeignKey[]> {
+    return this.queryForeignKeys(connection, 'TABLE_SCHEMA IN (?)', [schemas]);
+  }
+
+  /**
+   * Foreign keys of other tables, in any schema, that reference the given
+   * tables of a schema. Renaming the tables into another schema would take
+   * these references along.
+   */
+  public async listReferencingForeignKeys(schema: string, tables: string[]): Promise<ForeignKey[]> {
     const connection = await createConnection({
       host: this.config.host,
       port: this.config.port,
       user: this.config.user,
-      password: this.config.password,
-      database: this.config.database
+      password: this.config.password
     });
 
-    await connection.ping();
-    await connection.end();
+    try {
+      return await this.findReferencingForeignKeys(connection, schema, tables);
+    } finally {
+      await connection.end();
+    }
+  }
+
+  private async findReferencingForeignKeys(connection: Connection, schema: string, tables: string[]): Promise<ForeignKey[]> {
+    if (tables.length === 0) {
+      return [];
+    }
+    const foreignKeys = await this.queryForeignKeys(connection, 'REFERENCED_TABLE_SCHEMA = ? AND REFERENCED_TABLE_NAME IN (?)', [schema, tables]);
+    return foreignKeys.filter(foreignKey => foreignKey.table.schema !== schema || !tables.includes(foreignKey.table.name));
+  }
+
+  private async queryForeignKeys(connection: Connection, condition: string, values: unknown[]): Promise<ForeignKey[]> {
+    // query() rather than execute(): prepared statements can't expand the IN list
+    const [rows] = await connection.query(
+      `SELECT CONSTRAINT_NAME AS name, TABLE_SCHEMA AS tableSchema, TABLE_NAME AS tableName, COLUMN_NAME AS columnName,
+              REFERENCED_TABLE_SCHEMA AS referencedSchema, REFERENCED_TABLE_NAME AS referencedTable, REFERENCED_COLUMN_NAME AS referencedColumn
+       FROM information_schema.KEY_COLUMN_USAGE
+       WHERE REFERENCED_TABLE_NAME IS NOT NULL AND ${condition}
+       ORDER BY TABLE_SCHEMA, TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION`,
+      values
+    );
+
+    // One row per column; constraint names are only unique within a table
+    const foreignKeys = new Map<string, ForeignKey>();
+    for (const row of rows as Record<'name' | 'tableSchema' | 'tableName' | 'columnName' | 'referencedSchema' | 'referencedTable' | 'referencedColumn', string>[]) {
+      const id = JSON.stringify([row.tableSchema, row.tableName, row.name]);
+      let foreignKey = foreignKeys.get(id);
+      if (!foreignKey) {
+        foreignKey = {
+          name: row.name,
+          table: { schema: row.tableSchema, name: row.tableName },
+          columns: [],
+          referencedTable: { schema: row.referencedSchema, name: row.referencedTable },
+          referencedColumns: []
+        };
+        foreignKeys.set(id, foreignKey);
+      }
+      foreignKey.columns.push(row.columnName);
+      foreignKey.referencedColumns.push(row.referencedColumn);
+    }
+    return [...foreignKeys.values()];
   }
 
   /**
-   * Gets the current global max_allowed_packet value.
+   * Primary key columns of the tables in the schemas, in key order. Tables
+   * without a primary key are left out.
    */
-  public async getMaxAllowedPacket(): Promise<number> {
+  public async listPrimaryKeys(connection: Connection, schemas: string[]): Promise<(TableName & { columns: string[] })[]> {
+    const [rows] = await connection.query(
+      `SELECT TABLE_SCHEMA AS tableSchema, TABLE_NAME AS tableName, COLUMN_NAME AS columnName
+       FROM information_schema.KEY_COLUMN_USAGE
+       WHERE CONSTRAINT_NAME = 'PRIMARY' AND TABLE_SCHEMA IN (?)
+       ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION`,
+      [schemas]
+    );
+
+    const keys: (TableName & { columns: string[] })[] = [];
+    for (const row of rows as Record<'tableSchema' | 'tableName' | 'columnName', string>[]) {
+      const last = keys[keys.length - 1];
+      if (last?.schema === row.tableSchema && last.name === row.tableName) {
+        last.columns.push(row.columnName);
+      } else {
+        keys.push({ schema: row.tableSchema, name: row.tableName, columns: [row.columnName] });
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Views, routines, triggers and events of a schema, in the order they're dumped.
+   */
+  public async listSchemaObjects(connection: Connection, schema: string): Promise<SchemaObject[]> {
+    const [views] = await connection.query(
+      'SELECT TABLE_NAME AS name FROM information_schema.VIEWS WHERE TABLE_SCHEMA = ? ORDER BY TABLE_NAME',
+      [schema]
+    );
+    const [routines] = await connection.query(
+      'SELECT ROUTINE_NAME AS name, ROUTINE_TYPE AS type FROM information_schema.ROUTINES WHERE ROUTINE_SCHEMA = ? ORDER BY ROUTINE_TYPE, ROUTINE_NAME',
+      [schema]
+    );
+    const [triggers] = await connection.query(
+      'SELECT TRIGGER_NAME AS name, EVENT_OBJECT_TABLE AS `table` FROM information_schema.TRIGGERS WHERE TRIGGER_SCHEMA = ? ORDER BY EVENT_OBJECT_TABLE, ACTION_ORDER',
+      [schema]
+    );
+    const [events] = await connection.query(
+      'SELECT EVENT_NAME AS name FROM information_schema.EVENTS WHERE EVENT_SCHEMA = ? ORDER BY EVENT_NAME',
+      [schema]
+    );
+
+    return [
+      ...(views as { name: string }[]).map(({ name }) => ({ type: 'VIEW' as const, schema, name })),
+      ...(routines as { name: string; type: 'PROCEDURE' | 'FUNCTION' }[]).map(({ name, type }) => ({ type, schema, name })),
+      ...(triggers as { name: string; table: string }[]).map(({ name, table }) => ({ type: 'TRIGGER' as const, schema, name, table })),
+      ...(events as { name: string }[]).map(({ name }) => ({ type: 'EVENT' as const, schema, name }))
+    ];
+  }
+
+  /**
+   * SHOW CREATE output for a table, view, routine, trigger or event. Runs in the
+   * object's schema, so the statement doesn't name it and restores under
+   * another name.
+   */
+  public async getCreateStatement(connection: Connection, object: SchemaObject): Promise<CreateStatement> {
+    await connection.query(`USE ${quoteIdentifier(object.schema)}`);
+    const [rows] = await connection.query(`SHOW CREATE ${object.type} ${quoteIdentifier(object.name)}`);
+    const row = (rows as Record<string, string | null>[])[0];
+    const column = object.type === 'TRIGGER'
+      ? 'SQL Original Statement'
+      : `Create ${object.type.charAt(0)}${object.type.slice(1).toLowerCase()}`;
+
+    // Routine bodies are NULL without the privileges to see them
+    const statement = row?.[column];
+    if (!statement) {
+      throw new Error(`Cannot read the definition of ${object.type.toLowerCase()} ${object.schema}.${object.name}`);
+    }
+    return { statement, sqlMode: row.sql_mode ?? undefined, timeZone: row.time_zone ?? undefined };
+  }
+
+  /**
+   * Streams a table's rows as arrays in column order, without buffering the
+   * table. Runs in the snapshot transaction of a connection from
+   * openSnapshotConnections; with a predicate, only the rows matching it.
+   */
+  public streamTableRows(connection: Connection, schema: string, table: string, columns: string[], where?: string): Readable {
+    const select = `SELECT ${columns.map(quoteIdentifier).join(', ')} FROM ${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
+    const sql = where !== undefined ? `${select} WHERE ${where}` : select;
+    const core = this.coreConnections.get(connection);
+    if (!core) {
+      throw new Error('Table rows can only be streamed over a snapshot connection');
+    }
+    return core.query({ sql, rowsAsArray: true }).stream({ highWaterMark: ROW_STREAM_HIGH_WATER_MARK });
+  }
+
+  public async createDatabase(databaseName: string): Promise<void> {
     const connection = await createConnection({
       host: this.config.host,
       port: this.config.port,
       user: this.config.user,
-      password: this.config.password
+      password: this.config.password,
+      multipleStatements: true
     });
 
     try {
-      const [rows] = await connection.execute('SELECT @@GLOBAL.max_allowed_packet as value');
-      return (rows as { value: number }[])[0].value;
+      // Use backticks to handle special characters in database names
+      await connection.execute(`CREATE DATABASE IF NOT EXISTS \`${databaseName}\``);
+      console.log(`Database '${databaseName}' created or already exists`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to create database '${databaseName}': ${errorMessage}`);
     } finally {
       await connection.end();
     }
   }
 
-  /**
-   * Attempts to set max_allowed_packet to 1GB globally.
-   * Returns the original value if successful (to restore later), or null if failed.
-   */
-  public async trySetMaxAllowedPacket(): Promise<number | null> {
+  public async dropDatabase(databaseName: string): Promise<void> {
     const connection = await createConnection({
       host: this.config.host,
       port: this.config.port,
@@ -63,31 +1132,20 @@ export class MySQLManager {
     });
 
     try {
-      // Get current value first
-      const [rows] = await connection.execute('SELECT @@GLOBAL.max_allowed_packet as value');
-      const originalValue = (rows as { value: number }[])[0].value;
-
-      // Try to set global max_allowed_packet (requires SUPER or SYSTEM_VARIABLES_ADMIN privilege)
-      await connection.execute(`SET GLOBAL max_allowed_packet = ${MAX_ALLOWED_PACKET_BYTES}`);
-      console.log(`[MySQL] Set max_allowed_packet to 1GB (was ${Math.round(originalValue / 1024 / 1024)}MB)`);
-      return originalValue;
+      await connection.execute(`DROP DATABASE IF EXISTS \`${databaseName}\``);
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('Access denied') || errorMessage.includes('SUPER privilege') || errorMessage.includes('SYSTEM_VARIABLES_ADMIN')) {
-        console.log('[MySQL] Cannot set max_allowed_packet globally (no admin privileges) - using default server setting');
-      } else {
-        console.log(`[MySQL] Warning: Could not set max_allowed_packet: ${errorMessage}`);
-      }
-      return null;
+      throw new Error(`Failed to drop database '${databaseName}': ${errorMessage}`);
     } finally {
       await connection.end();
     }
   }
 
   /**
-   * Restores max_allowed_packet to its original value.
+   * Exact row count of every base table in a database (SELECT COUNT(*), so
+   * only meant for small or scratch databases).
    */
-  public async restoreMaxAllowedPacket(originalValue: number): Promise<void> {
+  public async countTableRows(databaseName: string): Promise<Record<string, number>> {
     const connection = await createConnection({
       host: this.config.host,
       port: this.config.port,
@@ -96,17 +1154,24 @@ export class MySQLManager {
     });
 
     try {
-      await connection.execute(`SET GLOBAL max_allowed_packet = ${originalValue}`);
-      console.log(`[MySQL] Restored max_allowed_packet to ${Math.round(originalValue / 1024 / 1024)}MB`);
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      console.log(`[MySQL] Warning: Could not restore max_allowed_packet: ${errorMessage}`);
+      const [rows] = await connection.execute(
+        'SELECT TABLE_NAME AS tableName FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = \'BASE TABLE\' ORDER BY TABLE_NAME',
+        [databaseName]
+      );
+
+      const counts: Record<string, number> = {};
+      for (const { tableName } of rows as { tableName: string }[]) {
+        const escaped = tableName.replace(/`/g, '``');
+        const [result] = await connection.execute(`SELECT COUNT(*) AS count FROM \`${databaseName}\`.\`${escaped}\``);
+        counts[tableName] = Number((result as { count: number }[])[0].count);
+      }
+      return counts;
     } finally {
       await connection.end();
     }
   }
 
-  public async listDatabases(): Promise<string[]> {
+  public async listTables(databaseName: string): Promise<string[]> {
     const connection = await createConnection({
       host: this.config.host,
       port: this.config.port,
@@ -115,141 +1180,208 @@ export class MySQLManager {
     });
 
     try {
-      const [rows] = await connection.execute('SHOW DATABASES');
-      const databases = (rows as { Database: string }[])
-        .map((row) => row.Database)
-        .filter(db => !['information_schema', 'performance_schema', 'mysql', 'sys'].includes(db));
-
-      return databases;
+      return await this.listBaseTables(connection, databaseName);
     } finally {
       await connection.end();
     }
   }
 
-  public async createBackup(outputPath: string, progressCallback?: ProgressCallback): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // Build mysqldump arguments optimized for large databases (400GB+)
-      // These flags are compatible with MySQL 5.6+ and MariaDB
-      const args = [
-        '-h', this.config.host,
-        '-P', this.config.port.toString(),
-        '-u', this.config.user,
-        `-p${this.config.password}`,
-        // Large database optimizations
-        `--max_allowed_packet=${MAX_ALLOWED_PACKET}`,
-        `--net_buffer_length=${NET_BUFFER_LENGTH}`,
-        '--quick',                    // Stream tables row-by-row instead of buffering
-        '--single-transaction',       // Consistent backup for InnoDB without locking
-        '--routines',                 // Include stored procedures and functions
-        '--triggers',                 // Include triggers
-        '--lock-tables=false',        // Don't lock tables (use single-transaction instead)
-        '--verbose'
-      ];
-
-      if (this.config.schemas && this.config.schemas.length > 0) {
-        args.push('--databases', ...this.config.schemas);
-      } else if (this.config.database) {
-        args.push(this.config.database);
-      } else {
-        args.push('--all-databases');
-      }
-
-      const mysqldump = spawn('mysqldump', args, {
-        // Use larger buffers for stdout
-        stdio: ['ignore', 'pipe', 'pipe'],
-        env: { ...process.env }
-      });
-
-      // Use larger gzip chunks for better performance with large data
-      const gzip = zlib.createGzip({
-        chunkSize: GZIP_CHUNK_SIZE,
-        level: 6  // Balanced compression level
-      });
+  private async listBaseTables(connection: Connection, databaseName: string): Promise<string[]> {
+    const [rows] = await connection.query(
+      'SELECT TABLE_NAME AS tableName FROM information_schema.TABLES WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = \'BASE TABLE\' ORDER BY TABLE_NAME',
+      [databaseName]
+    );
+    return (rows as { tableName: string }[]).map(({ tableName }) => tableName);
+  }
 
-      const output = fs.createWriteStream(outputPath, {
-        highWaterMark: STREAM_HIGH_WATER_MARK
-      });
+  /**
+   * Moves every table of sourceDatabase into targetDatabase with a single
+   * RENAME TABLE, so clients see either the old tables or the new ones.
+   * Target tables of the same name move to oldDatabase; the others stay.
+   * Tables with triggers can't change schema, so the source's views,
+   * routines, triggers and events are recreated in the target afterwards,
+   * replacing any of the same name. The source database is dropped at the end.
+   * Refuses before changing anything when other tables have foreign keys to
+   * the replaced ones, which would follow them into oldDatabase.
+   */
+  public async swapTables(
+    sourceDatabase: string,
+    targetDatabase: string,
+    oldDatabase: string
+  ): Promise<{ tables: number; replaced: number }> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password
+    });
+    const qualify = (schema: string, table: string): string => `${quoteIdentifier(schema)}.${quoteIdentifier(table)}`;
 
-      let totalBytes = 0;
-      let error = '';
-      let lastProgressUpdate = 0;
+    try {
+      const tables = await this.listBaseTables(connection, sourceDatabase);
+      if (tables.length === 0) {
+        throw new Error(`'${sourceDatabase}' has no tables`);
+      }
+      const existing = new Set(await this.listBaseTables(connection, targetDatabase));
+      const replaced = tables.filter(table => existing.has(table));
+      const referencing = await this.findReferencingForeignKeys(connection, targetDatabase, replaced);
+      if (referencing.length > 0) {
+        throw new Error(describeReferencingForeignKeys(referencing, oldDatabase));
+      }
 
-      // Track progress if callback provided - throttle for performance
-      if (progressCallback) {
-        gzip.on('data', (chunk) => {
-          totalBytes += chunk.length;
-          const now = Date.now();
-          // Update progress every 500ms to avoid overwhelming the UI
-          if (now - lastProgressUpdate > 500) {
-            progressCallback({ loaded: totalBytes });
-            lastProgressUpdate = now;
-          }
-        });
+      const objects: { object: SchemaObject; create: CreateStatement }[] = [];
+      for (const object of await this.listSchemaObjects(connection, sourceDatabase)) {
+        objects.push({ object, create: await this.getCreateStatement(connection, object) });
       }
 
-      // Handle mysqldump errors - filter out warnings
-      mysqldump.stderr.on('data', (data) => {
-        const msg = data.toString();
-        // Filter out common warnings that aren't actual errors
-        if (!msg.includes('Warning:') && !msg.includes('-- Dumping')) {
-          error += msg;
+      if (replaced.length > 0) {
+        await connection.query(`CREATE DATABASE IF NOT EXISTS ${quoteIdentifier(oldDatabase)}`);
+      }
+      // Triggers of both the new tables and the ones they replace would block the move
+      for (const { object } of objects.filter(({ object }) => object.type === 'TRIGGER')) {
+        await connection.query(`DROP TRIGGER ${qualify(sourceDatabase, object.name)}`);
+      }
+      const replacedTriggers: { object: SchemaObject; create: CreateStatement }[] = [];
+      if (replaced.length > 0) {
+        const [triggers] = await connection.query(
+          'SELECT TRIGGER_NAME AS name FROM information_schema.TRIGGERS WHERE EVENT_OBJECT_SCHEMA = ? AND EVENT_OBJECT_TABLE IN (?)',
+          [targetDatabase, replaced]
+        );
+        for (const { name } of triggers as { name: string }[]) {
+          const object: SchemaObject = { type: 'TRIGGER', schema: targetDatabase, name };
+          replacedTriggers.push({ object, create: await this.getCreateStatement(connection, object) });
         }
-      });
-
-      mysqldump.on('error', (err) => {
-        reject(new Error(`Failed to start mysqldump: ${err.message}`));
-      });
-
-      mysqldump.on('close', (code) => {
-        if (code !== 0) {
-          reject(new Error(`mysqldump exited with code ${code}: ${error}`));
+        for (const { object } of replacedTriggers) {
+          await connection.query(`DROP TRIGGER ${qualify(targetDatabase, object.name)}`);
         }
-      });
-
-      // Handle gzip errors
-      gzip.on('error', (err) => {
-        reject(new Error(`Compression failed: ${err.message}`));
-      });
+      }
 
-      // Handle output file errors
-      output.on('error', (err) => {
-        reject(new Error(`Failed to write backup file: ${err.message}`));
-      });
+      const renames = [
+        ...replaced.map(table => `${qualify(targetDatabase, table)} TO ${qualify(oldDatabase, table)}`),
+        ...tables.map(table => `${qualify(sourceDatabase, table)} TO ${qualify(targetDatabase, table)}`)
+      ];
+      try {
+        await connection.query(`RENAME TABLE ${renames.join(', ')}`);
+      } catch (error: unknown) {
+        // Nothing was moved, so the target gets its triggers back
+        await this.createSchemaObjects(connection, targetDatabase, replacedTriggers).catch(() => undefined);
+        throw error;
+      }
 
-      output.on('finish', () => {
-        if (progressCallback) {
-          progressCallback({ loaded: totalBytes, percentage: 100 });
-        }
-        resolve();
-      });
+      await this.createSchemaObjects(connection, targetDatabase, objects);
+      await connection.query(`DROP DATABASE ${quoteIdentifier(sourceDatabase)}`);
+      return { tables: tables.length, replaced: replaced.length };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to swap tables into '${targetDatabase}': ${errorMessage}`);
+    } finally {
+      await connection.end();
+    }
+  }
 
-      // Pipe data through compression to output file
-      mysqldump.stdout.pipe(gzip).pipe(output);
-    });
+  // Creates views, routines, triggers and events in a schema, replacing any of the same name
+  private async createSchemaObjects(
+    connection: Connection,
+    schema: string,
+    objects: { object: SchemaObject; create: CreateStatement }[]
+  ): Promise<void> {
+    await connection.query(`USE ${quoteIdentifier(schema)}`);
+    for (const { object, create } of sortSchemaObjects(objects)) {
+      if (create.sqlMode !== undefined) {
+        await connection.query('SET SESSION sql_mode = ?', [create.sqlMode]);
+      }
+      if (create.timeZone !== undefined) {
+        await connection.query('SET SESSION time_zone = ?', [create.timeZone]);
+      }
+      await connection.query(`DROP ${object.type} IF EXISTS ${quoteIdentifier(object.name)}`);
+      await connection.query(create.statement);
+    }
   }
 
-  public async createDatabase(databaseName: string): Promise<void> {
+  /**
+   * Drops a database after the given number of hours with a one-off event
+   * in eventDatabase, replacing one scheduled before. Returns false when the
+   * server's event scheduler is off, so the event won't run until it is on.
+   */
+  public async scheduleDatabaseDrop(databaseName: string, eventDatabase: string, hours: number): Promise<boolean> {
     const connection = await createConnection({
       host: this.config.host,
       port: this.config.port,
       user: this.config.user,
-      password: this.config.password,
-      multipleStatements: true
+      password: this.config.password
     });
+    const event = `${quoteIdentifier(eventDatabase)}.${quoteIdentifier(DROP_DATABASE_EVENT)}`;
 
     try {
-      // Use backticks to handle special characters in database names
-      await connection.execute(`CREATE DATABASE IF NOT EXISTS \`${databaseName}\``);
-      console.log(`Database '${databaseName}' created or already exists`);
+      await connection.query(`DROP EVENT IF EXISTS ${event}`);
+      await connection.query(
+        `CREATE EVENT ${event} ON SCHEDULE AT CURRENT_TIMESTAMP + INTERVAL ${Math.round(hours * 60)} MINUTE ` +
+        `ON COMPLETION NOT PRESERVE DO DROP DATABASE IF EXISTS ${quoteIdentifier(databaseName)}`
+      );
+      const [rows] = await connection.query('SELECT @@GLOBAL.event_scheduler AS scheduler');
+      return (rows as { scheduler: string }[])[0]?.scheduler === 'ON';
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to create database '${databaseName}': ${errorMessage}`);
+      throw new Error(`Failed to schedule dropping '${databaseName}': ${errorMessage}`);
     } finally {
       await connection.end();
     }
   }
 
-  public async restoreBackup(backupPath: string, targetDatabase: string, progressCallback?: ProgressCallback): Promise<void> {
+  public async restoreBackup(
+    backupPath: string,
+    targetDatabase: string,
+    progressCallback?: ProgressCallback,
+    options: RestoreStreamOptions = {}
+  ): Promise<void> {
+    if (!fs.existsSync(backupPath)) {
+      throw new Error(`Backup file not found: ${backupPath}`);
+    }
+
+    const totalSize = fs.statSync(backupPath).size;
+
+    return this.runRestore(
+      // Use larger read buffers for better throughput
+      () => fs.createReadStream(backupPath, { highWaterMark: STREAM_HIGH_WATER_MARK }),
+      totalSize,
+      targetDatabase,
+      'Failed to read backup file',
+      progressCallback,
+      options
+    );
+  }
+
+  /**
+   * Restores a compressed dump from an arbitrary stream (e.g. an S3 object body)
+   * without touching the local disk. totalSize is the compressed size used for
+   * progress reporting; the input is destroyed if the restore fails.
+   */
+  public async restoreBackupStream(
+    input: Readable,
+    totalSize: number,
+    targetDatabase: string,
+    progressCallback?: ProgressCallback,
+    options: RestoreStreamOptions = {}
+  ): Promise<void> {
+    try {
+      return await this.runRestore(() => input, totalSize, targetDatabase, 'Failed to read backup stream', progressCallback, options);
+    } catch (error) {
+      input.destroy();
+      throw error;
+    }
+  }
+
+  private async runRestore(
+    openInput: () => Readable,
+    totalSize: number,
+    targetDatabase: string,
+    inputErrorLabel: string,
+    progressCallback?: ProgressCallback,
+    options: RestoreStreamOptions = {}
+  ): Promise<void> {
+    // Load the decryption keys first so a missing key file fails before the database is touched
+    const decryptor = options.encryption ? createDecryptor(options.encryption) : null;
+
     // Check if database exists, create if it doesn't
     try {
       const dbExists = await this.databaseExists(targetDatabase);
@@ -269,34 +1401,37 @@ export class MySQLManager {
 
     // Try to set max_allowed_packet globally for large database support
     // Returns the original value if successful, null if no admin privileges
-    const originalMaxAllowedPacket = await this.trySetMaxAllowedPacket();
+    const originalMaxAllowedPacket = options.packetSizeRaised ? null : await this.trySetMaxAllowedPacket();
 
-    return new Promise((resolve, reject) => {
-      if (!fs.existsSync(backupPath)) {
-        reject(new Error(`Backup file not found: ${backupPath}`));
-        return;
+    if (!options.packetSizeRaised) {
+      console.log(`[MySQL] Starting restore with${originalMaxAllowedPacket !== null ? '' : 'out'} admin privileges`);
+    }
+
+    if (options.engine === 'native' || options.tables || options.schemas || options.masking) {
+      try {
+        return await this.runNativeRestore(openInput, totalSize, targetDatabase, inputErrorLabel, decryptor, progressCallback, options);
+      } finally {
+        if (originalMaxAllowedPacket !== null) {
+          await this.restoreMaxAllowedPacket(originalMaxAllowedPacket);
+        }
       }
+    }
 
-      const stats = fs.statSync(backupPath);
-      const totalSize = stats.size;
+    return new Promise((resolve, reject) => {
       let processedBytes = 0;
       let lastProgressUpdate = 0;
 
-      // Calculate dynamic timeout based on file size (1 min per GB, minimum 30 min)
+      // Calculate dynamic timeout based on backup size (1 min per GB, minimum 30 min)
       const fileSizeGB = totalSize / (1024 * 1024 * 1024);
       const dynamicTimeout = Math.max(MIN_TIMEOUT_MS, fileSizeGB * TIMEOUT_PER_GB_MS);
 
-      // Use larger gunzip chunks for better performance with large data
-      const gunzip = zlib.createGunzip({
-        chunkSize: GZIP_CHUNK_SIZE
-      });
+      // Pick the decompressor matching the codec the backup was written with
+      const decompressor = createDecompressor(options.compression ?? DEFAULT_COMPRESSION_CODEC);
 
       // Init command for restore optimizations
       // Note: max_allowed_packet is set globally (if we have admin privileges), not per-session
       const initCommand = 'SET FOREIGN_KEY_CHECKS=0; SET UNIQUE_CHECKS=0; SET AUTOCOMMIT=0;';
 
-      console.log(`[MySQL] Starting restore with${originalMaxAllowedPacket !== null ? '' : 'out'} admin privileges`);
-
       // Build mysql arguments optimized for large databases
       const mysql = spawn('mysql', [
         '-h', this.config.host,
@@ -312,10 +1447,8 @@ export class MySQLManager {
         stdio: ['pipe', 'inherit', 'pipe']
       });
 
-      // Use larger read buffers for better throughput
-      const input = fs.createReadStream(backupPath, {
-        highWaterMark: STREAM_HIGH_WATER_MARK
-      });
+      const input = openInput();
+      const hash = options.expectedSha256 ? createHash('sha256') : null;
       let error = '';
       let isResolved = false;
 
@@ -331,7 +1464,8 @@ export class MySQLManager {
         if (!isResolved) {
           isResolved = true;
           input.destroy();
-          gunzip.destroy();
+          decryptor?.destroy();
+          decompressor.destroy();
           mysql.kill('SIGTERM');
           await restorePacketSize();
           const timeoutMinutes = Math.round(dynamicTimeout / 60000);
@@ -352,7 +1486,8 @@ export class MySQLManager {
           isResolved = true;
           clearTimeout(timeoutId);
           input.destroy();
-          gunzip.destroy();
+          decryptor?.destroy();
+          decompressor.destroy();
           mysql.kill('SIGTERM');
           await restorePacketSize();
           reject(new Error(`${source}: ${err.message}`));
@@ -389,6 +1524,10 @@ export class MySQLManager {
         });
       }
 
+      if (hash) {
+        input.on('data', (chunk) => hash.update(chunk));
+      }
+
       // Handle mysql process errors
       mysql.stderr.on('data', (data) => {
         const msg = data.toString();
@@ -408,6 +1547,10 @@ export class MySQLManager {
           if (code !== 0) {
             isResolved = true;
             clearTimeout(timeoutId);
+            // Tear down the input side too (closes the S3 connection when streaming)
+            input.destroy();
+            decryptor?.destroy();
+            decompressor.destroy();
             await restorePacketSize();
             reject(new Error(`MySQL restore failed (exit code ${code}): ${error}`));
           } else {
@@ -421,33 +1564,169 @@ export class MySQLManager {
         handleError(err, 'MySQL stdin pipe error');
       });
 
-      // Handle gunzip errors
-      gunzip.on('error', (err) => {
+      // Handle decompression errors
+      decompressor.on('error', (err) => {
         handleError(err as Error & { code?: string }, 'Decompression failed');
       });
 
-      // Handle input file errors
+      // Wrong keys and tampered data surface here, before anything reaches mysql
+      decryptor?.on('error', (err) => {
+        handleError(err as Error & { code?: string }, 'Decryption failed');
+      });
+
+      // Handle input errors
       input.on('error', (err) => {
-        handleError(err as Error & { code?: string }, 'Failed to read backup file');
+        handleError(err as Error & { code?: string }, inputErrorLabel);
       });
 
-      // Pipe the streams manually with better error handling
-      input.pipe(gunzip).on('error', (err: Error & { code?: string }) => {
-        handleError(err, 'Gunzip pipe error');
+      // Pipe the streams manually with better error handling (decrypt before decompressing)
+      const compressed = decryptor ? input.pipe(decryptor) : input;
+      compressed.pipe(decompressor).on('error', (err: Error & { code?: string }) => {
+        handleError(err, 'Decompression pipe error');
       });
 
-      gunzip.pipe(mysql.stdin).on('error', (err: Error & { code?: string }) => {
+      decompressor.pipe(mysql.stdin, { end: false }).on('error', (err: Error & { code?: string }) => {
         handleError(err, 'MySQL stdin pipe error');
       });
 
-      // Handle end of gunzip stream
-      gunzip.on('end', () => {
+      // Handle end of decompressed stream
+      decompressor.on('end', async () => {
+        // Only known once the dump has run, and its DROP and CREATE TABLEs committed as they went; restore
+        // checks the checksum before streaming unless asked not to (--verify-after-stream)
+        if (hash) {
+          try {
+            verifyChecksum(options.expectedSha256, hash.digest('hex'));
+          } catch (err) {
+            if (!isResolved) {
+              isResolved = true;
+              clearTimeout(timeoutId);
+              mysql.kill('SIGTERM');
+              await restorePacketSize();
+              reject(err);
+            }
+            return;
+          }
+        }
         // Close mysql stdin when decompression is complete
         mysql.stdin.end();
       });
     });
   }
 
+  /**
+   * The native restore engine: splits the dump into statements and runs them
+   * one by one over a mysql2 connection, so no mysql binary is needed and a
+   * failing statement is reported with its line in the dump. Schema and
+   * table selections filter the statements on the way, and masking rewrites
+   * their rows.
+   */
+  private async runNativeRestore(
+    openInput: () => Readable,
+    totalSize: number,
+    targetDatabase: string,
+    inputErrorLabel: string,
+    decryptor: Transform | null,
+    progressCallback: ProgressCallback | undefined,
+    options: RestoreStreamOptions
+  ): Promise<void> {
+    const connection = await createConnection({
+      host: this.config.host,
+      port: this.config.port,
+      user: this.config.user,
+      password: this.config.password,
+      database: targetDatabase,
+      // Statements go out as the dump's own bytes, whatever character set it declares
+      charset: 'BINARY',
+      // Session tracking would switch the driver to the dump's SET NAMES encoding
+      flags: ['-SESSION_TRACK']
+    });
+
+    const input = openInput();
+    const decompressor = createDecompressor(options.compression ?? DEFAULT_COMPRESSION_CODEC);
+    const splitter = new SqlStatementSplitter();
+    const filters: Transform[] = [];
+    // Masking and table selection go first, while USE statements still name the dump's own schemas
+    if (options.masking) {
+      filters.push(new SqlMaskingFilter(options.masking.plan, options.masking.schema));
+    }
+    if (options.tables) {
+      filters.push(new SqlStatementFilter(options.tables));
+    }
+    if (options.schemas) {
+      filters.push(new SqlSchemaFilter(options.schemas));
+    }
+    const hash = options.expectedSha256 ? createHash('sha256') : null;
+    // The first stream error, labelled like the mysql engine's
+    let failure: Error | undefined;
+    const fail = (label: string) => (err: Error) => {
+      failure ??= new Error(`${label}: ${err.message}`);
+    };
+    input.on('error', fail(inputErrorLabel));
+    decryptor?.on('error', fail('Decryption failed'));
+    decompressor.on('error', fail('Decompression failed'));
+
+    const dynamicTimeout = Math.max(MIN_TIMEOUT_MS, (totalSize / (1024 * 1024 * 1024)) * TIMEOUT_PER_GB_MS);
+    const timeoutId = setTimeout(() => {
+      failure ??= new Error(`Restore operation timed out after ${Math.round(dynamicTimeout / 60000)} minutes`);
+      splitter.destroy();
+      connection.destroy();
+    }, dynamicTimeout);
+
+    let processedBytes = 0;
+    let lastProgressUpdate = 0;
+    let statements = 0;
+    let tables = 0;
+    input.on('data', (chunk: Buffer) => {
+      processedBytes += chunk.length;
+      hash?.update(chunk);
+    });
+
+    try {
+      await connection.query('SET FOREIGN_KEY_CHECKS=0, UNIQUE_CHECKS=0, AUTOCOMMIT=0');
+
+      const streams: (Readable | Duplex)[] = decryptor ? [input, decryptor, decompressor, splitter] : [input, decompressor, splitter];
+      streams.push(...filters);
+      pipeline(streams, () => undefined);
+      const statementStream = streams[streams.length - 1] as AsyncIterable<SqlStatement>;
+
+      for await (const statement of statementStream) {
+        try {
+          await connection.query(statement.sql);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(`MySQL restore failed at line ${statement.line}: ${message}`);
+        }
+        statements++;
+        if (/^CREATE\s+TABLE/i.test(statement.sql)) {
+          tables++;
+        }
+
+        const now = Date.now();
+        if (progressCallback && now - lastProgressUpdate > 100) {
+          progressCallback({ loaded: processedBytes, total: totalSize, percentage: (processedBytes / totalSize) * 100, statements, tables });
+          lastProgressUpdate = now;
+        }
+      }
+
+      // Only the rows since the dump's last implicit commit (any DDL) are left out; restore checks
+      // the checksum before streaming unless asked not to (--verify-after-stream)
+      if (hash) {
+        verifyChecksum(options.expectedSha256, hash.digest('hex'));
+      }
+      await connection.query('COMMIT');
+    } catch (error) {
+      splitter.destroy();
+      filters.forEach(filter => filter.destroy());
+      connection.destroy();
+      throw failure ?? error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    await connection.end();
+    progressCallback?.({ loaded: totalSize, total: totalSize, percentage: 100, statements, tables });
+  }
+
   public async databaseExists(databaseName: string): Promise<boolean> {
     const connection = await createConnection({
       host: this.config.host,
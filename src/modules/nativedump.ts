@@ -0,0 +1,182 @@
+import { Duplex, pipeline, Readable } from 'stream';
+import { Connection } from 'mysql2/promise';
+import { BackupStreamOptions, CreateStatement, DumpTable, SchemaObject, ServerSnapshot } from '../types';
+import { createCompressor } from './compression';
+import { createEncryptor } from './encryption';
+import { maskSqlParts } from './masking';
+import { MySQLManager } from './mysql';
+import { selectSubset } from './subset';
+import {
+  formatCreateTable,
+  formatDumpFooter,
+  formatDumpHeader,
+  formatSchemaObject,
+  formatTableDataEnd,
+  formatTableDataStart,
+  formatUseDatabase,
+  InsertStatementStream,
+  quoteIdentifier,
+  sortSchemaObjects
+} from './sqlwriter';
+
+// The rows matching each predicate in turn, one query at a time on the connection
+async function* streamRowBatches(
+  mysqlManager: MySQLManager,
+  connection: Connection,
+  schema: string,
+  table: string,
+  columns: string[],
+  predicates: string[]
+): AsyncGenerator<unknown[]> {
+  for (const where of predicates) {
+    yield* mysqlManager.streamTableRows(connection, schema, table, columns, where);
+  }
+}
+
+/**
+ * A table's definition and rows, read in the connection's snapshot. Reports
+ * the number of rows dumped once the table is done; schema-only tables get
+ * their definition alone, filtered ones only the rows matching their filter,
+ * and subset ones the rows their key predicates select.
+ * Schema- and data-only modes leave out the rows or the definition.
+ */
+export async function* dumpTableSql(
+  mysqlManager: MySQLManager,
+  connection: Connection,
+  schema: string,
+  table: string,
+  onRows?: (rows: number) => void,
+  filter: Pick<DumpTable, 'schemaOnly' | 'where' | 'keyPredicates'> = {},
+  options: Pick<BackupStreamOptions, 'mode' | 'masking'> = {}
+): AsyncGenerator<string | Buffer> {
+  const mode = options.mode ?? 'full';
+  if (mode !== 'data') {
+    yield formatCreateTable(table, await mysqlManager.getCreateStatement(connection, { type: 'TABLE', schema, name: table }));
+  }
+  if (filter.schemaOnly || mode === 'schema') {
+    onRows?.(0);
+    return;
+  }
+
+  const columns = await mysqlManager.getTableColumns(connection, schema, table);
+  const stored = columns.filter(column => !column.generated);
+  // Like mysqldump, only name the columns when generated ones have to be skipped, or
+  // when masking a data-only dump, which has no CREATE TABLE to take them from
+  const columnList = stored.length < columns.length || (mode === 'data' && Boolean(options.masking));
+  const inserts = new InsertStatementStream(table, stored, { columnList });
+  const names = stored.map(column => column.name);
+  let rows: Readable;
+  if (filter.keyPredicates) {
+    rows = Readable.from(streamRowBatches(mysqlManager, connection, schema, table, names, filter.keyPredicates));
+  } else if (filter.where !== undefined) {
+    rows = mysqlManager.streamTableRows(connection, schema, table, names, filter.where);
+  } else {
+    rows = mysqlManager.streamTableRows(connection, schema, table, names);
+  }
+  // Errors on either side end the loop below with that error
+  pipeline(rows, inserts, () => undefined);
+
+  yield formatTableDataStart(table);
+  for await (const statement of inserts) {
+    yield statement;
+  }
+  yield formatTableDataEnd(table);
+  onRows?.(inserts.rows);
+}
+
+/**
+ * A schema's views, routines, triggers and events. They go after the tables,
+ * which views and triggers refer to. Triggers on excluded tables are left
+ * out, as mysqldump's --ignore-table does.
+ */
+export async function* dumpSchemaObjectsSql(
+  mysqlManager: MySQLManager,
+  connection: Connection,
+  schema: string,
+  excludedTables: string[] = []
+): AsyncGenerator<string> {
+  const objects: { object: SchemaObject; create: CreateStatement }[] = [];
+  for (const object of await mysqlManager.listSchemaObjects(connection, schema)) {
+    if (object.type === 'TRIGGER' && object.table !== undefined && excludedTables.includes(object.table)) {
+      continue;
+    }
+    objects.push({ object, create: await mysqlManager.getCreateStatement(connection, object) });
+  }
+
+  for (const { object, create } of sortSchemaObjects(objects)) {
+    yield formatSchemaObject(object, create);
+  }
+}
+
+export function getExcludedTables(snapshot: ServerSnapshot, schema: string): string[] {
+  return (snapshot.excludedTables ?? []).filter(table => table.schema === schema).map(table => table.name);
+}
+
+/**
+ * Dumps the snapshot's schemas over a single mysql2 connection, without the
+ * mysqldump binary, and returns the compressed (and optionally encrypted) SQL.
+ * The output restores like mysqldump's: with the mysql client or the native
+ * restore engine. With the RELOAD privilege the binlog position is read
+ * under a brief global read lock, so it matches the dump exactly.
+ */
+export function createNativeBackupStream(
+  mysqlManager: MySQLManager,
+  snapshot: ServerSnapshot,
+  options: BackupStreamOptions = {}
+): Readable {
+  // Set up the encryption key first so a bad key fails before the dump starts
+  const encryptor = options.encryption ? createEncryptor(options.encryption) : null;
+
+  async function* dump(): AsyncGenerator<Buffer> {
+    const { connections: [connection], binlog } = await mysqlManager.openSnapshotConnections(1, {
+      lock: snapshot.hasReloadPrivilege
+    });
+    try {
+      if (binlog) {
+        options.binlog?.onPosition(binlog);
+      }
+      let tables: DumpTable[] = snapshot.tables;
+      if (options.subset) {
+        const subset = await selectSubset(mysqlManager, connection, tables, options.subset.plan);
+        tables = subset.tables;
+        options.subset.onSelected?.(subset.rows);
+      }
+      // A single schema restores into the target database; several keep their names
+      const switchSchema = snapshot.schemas.length > 1;
+      const sql = async function* (): AsyncGenerator<string | Buffer> {
+        yield formatDumpHeader(`Dump of ${snapshot.schemas.map(quoteIdentifier).join(', ')} from MySQL ${snapshot.serverVersion}`);
+        for (const schema of snapshot.schemas) {
+          if (switchSchema) {
+            yield formatUseDatabase(schema);
+          }
+          for (const table of tables.filter(table => table.schema === schema)) {
+            yield* dumpTableSql(mysqlManager, connection, schema, table.name, undefined, table, options);
+          }
+          // Data-only dumps load into an existing schema, which has its views, routines and triggers
+          if (options.mode !== 'data') {
+            yield* dumpSchemaObjectsSql(mysqlManager, connection, schema, getExcludedTables(snapshot, schema));
+          }
+        }
+        yield formatDumpFooter();
+      };
+
+      // A single schema's dump has no USE for masking rules to go by
+      const parts = options.masking ? maskSqlParts(sql(), options.masking, snapshot.schemas[0]) : sql();
+      for await (const part of parts) {
+        const buffer = typeof part === 'string' ? Buffer.from(part, 'utf8') : part;
+        options.onDumpData?.(buffer.length);
+        yield buffer;
+      }
+    } finally {
+      await connection.end().catch(() => undefined);
+    }
+  }
+
+  const streams: (Readable | Duplex)[] = [Readable.from(dump()), createCompressor(options.compression)];
+  if (encryptor) {
+    streams.push(encryptor);
+  }
+  // Errors anywhere destroy the last stream, and tearing it down stops the dump
+  pipeline(streams, () => undefined);
+  return streams[streams.length - 1] as Readable;
+}
@@ -0,0 +1,287 @@
+import { Duplex, pipeline, Readable } from 'stream';
+import { Connection } from 'mysql2/promise';
+import {
+  BackupDigest,
+  BackupManifest,
+  DumpTable,
+  ManifestChunk,
+  ParallelBackupOptions,
+  ParallelBackupResult,
+  ParallelRestoreOptions,
+  ServerSnapshot,
+  UploadOptions
+} from '../types';
+import { createCompressor, DEFAULT_COMPRESSION_CODEC, getBackupExtension, getContentType, normalizeCompressionConfig } from './compression';
+import { createEncryptor, ENCRYPTED_EXTENSION, ENCRYPTION_ALGORITHM } from './encryption';
+import { getChunkKey } from './manifest';
+import { maskSqlParts } from './masking';
+import { MySQLManager } from './mysql';
+import { dumpSchemaObjectsSql, dumpTableSql, getExcludedTables } from './nativedump';
+import { S3Manager } from './s3';
+import { selectSubset } from './subset';
+import { formatDumpFooter, formatDumpHeader, formatUseDatabase, quoteIdentifier } from './sqlwriter';
+import { isSchemaSelected } from './schemafilter';
+import { isTableSelected } from './tablefilter';
+
+// Connections used to restore a parallel backup unless --parallel says otherwise
+export const DEFAULT_RESTORE_PARALLELISM = 4;
+
+type ChunkTask = { schema: string; table?: DumpTable };
+
+/**
+ * Runs tasks on a fixed number of workers, each task on the first free one.
+ * After a failure no new task starts; the first error is thrown once the
+ * running tasks have finished.
+ */
+async function runWorkers<T>(tasks: T[], workers: number, run: (task: T, worker: number) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  await Promise.all(Array.from({ length: Math.min(workers, tasks.length) }, async (_, worker) => {
+    while (!failure && next < tasks.length) {
+      const task = tasks[next++];
+      try {
+        await run(task, worker);
+      } catch (error: unknown) {
+        failure = failure ?? { error };
+      }
+    }
+  }));
+
+  if (failure) {
+    throw failure.error;
+  }
+}
+
+async function* tableChunkSql(
+  mysqlManager: MySQLManager,
+  connection: Connection,
+  table: DumpTable,
+  switchSchema: boolean,
+  onRows: (rows: number) => void,
+  options: ParallelBackupOptions
+): AsyncGenerator<string | Buffer> {
+  yield formatDumpHeader(`Table ${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)}`);
+  if (switchSchema) {
+    yield formatUseDatabase(table.schema);
+  }
+  yield* dumpTableSql(mysqlManager, connection, table.schema, table.name, onRows, table, options);
+  yield formatDumpFooter();
+}
+
+async function* objectsChunkSql(
+  mysqlManager: MySQLManager,
+  connection: Connection,
+  schema: string,
+  switchSchema: boolean,
+  excludedTables: string[]
+): AsyncGenerator<string> {
+  yield formatDumpHeader(`Views, routines, triggers and events of ${quoteIdentifier(schema)}`);
+  if (switchSchema) {
+    yield formatUseDatabase(schema);
+  }
+  yield* dumpSchemaObjectsSql(mysqlManager, connection, schema, excludedTables);
+  yield formatDumpFooter();
+}
+
+async function uploadChunk(
+  s3Manager: S3Manager,
+  key: string,
+  schema: string,
+  sql: AsyncIterable<string | Buffer>,
+  options: ParallelBackupOptions,
+  uploadOptions: UploadOptions,
+  onUploaded: (bytes: number) => void
+): Promise<BackupDigest & { uncompressedSize: number }> {
+  let uncompressedSize = 0;
+  async function* encode(): AsyncGenerator<Buffer> {
+    // Every chunk holds rows of one schema, whether or not it switches to it with USE
+    for await (const part of options.masking ? maskSqlParts(sql, options.masking, schema) : sql) {
+      const buffer = typeof part === 'string' ? Buffer.from(part, 'utf8') : part;
+      uncompressedSize += buffer.length;
+      yield buffer;
+    }
+  }
+
+  const streams: (Readable | Duplex)[] = [Readable.from(encode()), createCompressor(options.compression)];
+  if (options.encryption) {
+    streams.push(createEncryptor(options.encryption));
+  }
+  // Errors anywhere destroy the last stream, which aborts the upload
+  pipeline(streams, () => undefined);
+
+  const digest = await s3Manager.uploadStream(
+    streams[streams.length - 1] as Readable,
+    key,
+    progress => onUploaded(progress.loaded ?? 0),
+    uploadOptions
+  );
+  return { ...digest, uncompressedSize };
+}
+
+/**
+ * Dumps every table of the snapshot into its own chunk object under
+ * backupKey, over a pool of connections that share one consistent snapshot.
+ * Each schema's views, routines, triggers and events go into one more
+ * chunk. Chunks already uploaded are deleted again if any chunk fails.
+ */
+export async function createParallelBackup(
+  mysqlManager: MySQLManager,
+  s3Manager: S3Manager,
+  backupKey: string,
+  snapshot: ServerSnapshot,
+  options: ParallelBackupOptions
+): Promise<ParallelBackupResult> {
+  const { codec } = normalizeCompressionConfig(options.compression);
+  const extension = getBackupExtension(codec) + (options.encryption ? ENCRYPTED_EXTENSION : '');
+  const uploadOptions: UploadOptions = {
+    contentType: options.encryption ? 'application/octet-stream' : getContentType(codec),
+    metadata: options.encryption ? { compression: codec, encryption: ENCRYPTION_ALGORITHM } : { compression: codec }
+  };
+  // Chunks of a single schema restore into the target database; several schemas keep their names
+  const switchSchema = snapshot.schemas.length > 1;
+
+  // Largest tables first, so the pool isn't left waiting on one big table at the end
+  const tasks: ChunkTask[] = [
+    ...[...snapshot.tables]
+      .sort((a, b) => (b.dataSize + b.indexSize) - (a.dataSize + a.indexSize))
+      .map(table => ({ schema: table.schema, table })),
+    // Data-only backups load into an existing schema, which has its views, routines and triggers
+    ...(options.mode === 'data' ? [] : snapshot.schemas.map(schema => ({ schema })))
+  ];
+
+  const { connections, binlog } = await mysqlManager.openSnapshotConnections(Math.min(options.connections, tasks.length));
+  const chunks: ManifestChunk[] = [];
+  const uploaded = new Map<string, number>();
+  let uploadedBytes = 0;
+
+  try {
+    // All connections share the snapshot, so the rows picked on the first are the ones the others dump
+    if (options.subset) {
+      const subset = await selectSubset(mysqlManager, connections[0], snapshot.tables, options.subset.plan);
+      // In the order of the snapshot's tables
+      for (const task of tasks.filter(task => task.table !== undefined)) {
+        task.table = subset.tables[snapshot.tables.indexOf(task.table!)];
+      }
+      options.subset.onSelected?.(subset.rows);
+    }
+    await runWorkers(tasks, connections.length, async (task, worker) => {
+      const key = getChunkKey(backupKey, extension, task.schema, task.table?.name);
+      let rows: number | undefined;
+      const sql = task.table !== undefined
+        ? tableChunkSql(mysqlManager, connections[worker], task.table, switchSchema, count => {
+          rows = count;
+        }, options)
+        : objectsChunkSql(mysqlManager, connections[worker], task.schema, switchSchema, getExcludedTables(snapshot, task.schema));
+
+      const digest = await uploadChunk(s3Manager, key, task.schema, sql, options, uploadOptions, bytes => {
+        uploadedBytes += bytes - (uploaded.get(key) ?? 0);
+        uploaded.set(key, bytes);
+        options.onProgress?.({ loaded: uploadedBytes });
+      });
+      chunks.push({ key, schema: task.schema, table: task.table?.name, rows, ...digest });
+    });
+  } catch (error: unknown) {
+    // Chunks without a manifest would only be clutter
+    await s3Manager.deleteBackups(chunks.map(chunk => chunk.key)).catch(() => undefined);
+    throw error;
+  } finally {
+    await Promise.all(connections.map(connection => connection.end().catch(() => undefined)));
+  }
+
+  const compressedSize = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+  options.onProgress?.({ loaded: compressedSize, total: compressedSize, percentage: 100 });
+  return {
+    chunks: chunks.sort((a, b) => a.key.localeCompare(b.key)),
+    binlog,
+    uncompressedSize: chunks.reduce((sum, chunk) => sum + chunk.uncompressedSize, 0),
+    compressedSize
+  };
+}
+
+// Chunks of other schemas and tables are skipped whole; the schema chunks still hold the selected tables' triggers
+function selectChunks(manifest: BackupManifest, { tables, schemas }: Pick<ParallelRestoreOptions, 'tables' | 'schemas'>): ManifestChunk[] {
+  if ((manifest.chunks ?? []).length === 0) {
+    throw new Error('Backup manifest lists no chunks');
+  }
+  return manifest.chunks!.filter(chunk =>
+    (!schemas || isSchemaSelected(schemas, chunk.schema)) &&
+    (!tables || chunk.table === undefined || isTableSelected(tables, chunk.table, chunk.schema))
+  );
+}
+
+/**
+ * Reads every chunk a restore with these options would load through its
+ * SHA-256 from the manifest, without restoring anything. Chunks commit as
+ * they load, so this is the only check that runs before the database changes.
+ */
+export async function verifyParallelChunks(
+  s3Manager: S3Manager,
+  manifest: BackupManifest,
+  options: Pick<ParallelRestoreOptions, 'connections' | 'tables' | 'schemas' | 'onProgress'>
+): Promise<void> {
+  const chunks = selectChunks(manifest, options);
+  const total = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+  const read = new Map<string, number>();
+  let readBytes = 0;
+  await runWorkers(chunks, options.connections, async chunk => {
+    await s3Manager.verifyBackupChecksum(chunk.key, chunk.sha256, progress => {
+      const loaded = progress.loaded ?? 0;
+      readBytes += loaded - (read.get(chunk.key) ?? 0);
+      read.set(chunk.key, loaded);
+      options.onProgress?.({ loaded: readBytes, total, percentage: total > 0 ? (readBytes / total) * 100 : 0 });
+    });
+  });
+}
+
+/**
+ * Loads the chunks of a parallel backup over several mysql sessions at once.
+ * Tables come first, largest first; views, routines, triggers and events
+ * follow once every table is in place.
+ */
+export async function restoreParallelBackup(
+  mysqlManager: MySQLManager,
+  s3Manager: S3Manager,
+  manifest: BackupManifest,
+  targetDatabase: string,
+  options: ParallelRestoreOptions
+): Promise<void> {
+  const { tables, schemas } = options;
+  const chunks = selectChunks(manifest, options);
+
+  const total = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+  const restored = new Map<string, number>();
+  let restoredBytes = 0;
+  const restoreChunk = async (chunk: ManifestChunk) => {
+    const { stream } = await s3Manager.getBackupStream(chunk.key);
+    await mysqlManager.restoreBackupStream(stream, chunk.size, targetDatabase, progress => {
+      const loaded = progress.loaded ?? 0;
+      restoredBytes += loaded - (restored.get(chunk.key) ?? 0);
+      restored.set(chunk.key, loaded);
+      options.onProgress?.({ loaded: restoredBytes, total, percentage: total > 0 ? (restoredBytes / total) * 100 : 0 });
+    }, {
+      compression: manifest.compression.codec ?? DEFAULT_COMPRESSION_CODEC,
+      encryption: options.encryption,
+      expectedSha256: options.verifyChecksums ? chunk.sha256 : undefined,
+      packetSizeRaised: true,
+      engine: options.engine,
+      // Chunks of a single schema don't switch to it with USE
+      tables: tables && { ...tables, schema: chunk.schema },
+      schemas,
+      masking: options.masking ? { plan: options.masking, schema: chunk.schema } : undefined
+    });
+  };
+
+  // Raised once for all sessions; each restore putting it back would undo it for the others
+  const originalMaxAllowedPacket = await mysqlManager.trySetMaxAllowedPacket();
+  try {
+    const tables = chunks.filter(chunk => chunk.table !== undefined).sort((a, b) => b.size - a.size);
+    await runWorkers(tables, options.connections, restoreChunk);
+    await runWorkers(chunks.filter(chunk => chunk.table === undefined), options.connections, restoreChunk);
+  } finally {
+    if (originalMaxAllowedPacket !== null) {
+      await mysqlManager.restoreMaxAllowedPacket(originalMaxAllowedPacket);
+    }
+  }
+  options.onProgress?.({ loaded: total, total, percentage: 100 });
+}
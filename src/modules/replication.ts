@@ -0,0 +1,47 @@
+import { BackupManifest, BinlogPosition, ReplicationConfig, ReplicationSource } from '../types';
+
+const DEFAULT_SOURCE_PORT = 3306;
+
+/**
+ * The source server for restore --as-replica; command line options override
+ * the configuration. The password only comes from the configuration, so it
+ * never shows up in the process list.
+ */
+export function resolveReplicationSource(
+  config: ReplicationConfig | undefined,
+  options: { sourceHost?: string; sourcePort?: string; sourceUser?: string }
+): ReplicationSource {
+  const host = options.sourceHost || config?.sourceHost;
+  const port = options.sourcePort !== undefined ? Number(options.sourcePort) : config?.sourcePort ?? DEFAULT_SOURCE_PORT;
+  const user = options.sourceUser || config?.user;
+  const password = config?.password;
+
+  const errors: string[] = [];
+  if (!host) errors.push('a source host (--source-host or REPLICATION_SOURCE_HOST)');
+  if (!user) errors.push('a replication user (--source-user or REPLICATION_USER)');
+  if (!password) errors.push('a replication password (REPLICATION_PASSWORD)');
+  if (errors.length > 0) {
+    throw new Error(`Replica mode needs ${errors.join(', ')}`);
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid source port '${options.sourcePort ?? config?.sourcePort}'`);
+  }
+
+  return { host: host!, port, user: user!, password: password! };
+}
+
+/**
+ * Where a replica seeded from this backup starts replicating. With GTIDs the
+ * dump sets GTID_PURGED and auto-positioning takes over, so only backups
+ * without GTIDs need the exact coordinates of the dump.
+ */
+export function getReplicaStart(manifest?: BackupManifest): BinlogPosition {
+  const binlog = manifest?.binlog;
+  if (!binlog) {
+    throw new Error('Backup has no recorded binlog position (its manifest is missing or binary logging was off), so it cannot seed a replica');
+  }
+  if (!binlog.gtidExecuted && !binlog.exact) {
+    throw new Error('Backup only has an approximate binlog position and no GTIDs, so it cannot seed a replica (back up with the RELOAD privilege)');
+  }
+  return binlog;
+}
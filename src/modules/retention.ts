@@ -0,0 +1,156 @@
+import { BackupInfo, ParsedBackupKey, PruneDecision, RetentionConfig } from '../types';
+import { S3Manager } from './s3';
+
+type CountRule = 'keepLast' | 'keepDaily' | 'keepWeekly' | 'keepMonthly' | 'keepYearly';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COUNT_RULES: CountRule[] = ['keepLast', 'keepDaily', 'keepWeekly', 'keepMonthly', 'keepYearly'];
+
+// Calendar buckets are UTC, like the timestamps in backup keys
+const PERIODS: { rule: CountRule; reason: string; bucket: (date: Date) => string }[] = [
+  { rule: 'keepDaily', reason: 'daily', bucket: date => date.toISOString().slice(0, 10) },
+  { rule: 'keepWeekly', reason: 'weekly', bucket: isoWeek },
+  { rule: 'keepMonthly', reason: 'monthly', bucket: date => date.toISOString().slice(0, 7) },
+  { rule: 'keepYearly', reason: 'yearly', bucket: date => date.toISOString().slice(0, 4) }
+];
+
+// "2024-W01"; ISO weeks start on Monday and belong to the year of their Thursday
+function isoWeek(date: Date): string {
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+function hasCountRules(retention: RetentionConfig): boolean {
+  return COUNT_RULES.some(rule => (retention[rule] ?? 0) > 0);
+}
+
+/**
+ * Human-readable rules, e.g. "last 7, 4 weekly, max age 90 days".
+ */
+export function describeRetention(retention: RetentionConfig): string {
+  const rules: string[] = [];
+  if (retention.keepLast) rules.push(`last ${retention.keepLast}`);
+  if (retention.keepDaily) rules.push(`${retention.keepDaily} daily`);
+  if (retention.keepWeekly) rules.push(`${retention.keepWeekly} weekly`);
+  if (retention.keepMonthly) rules.push(`${retention.keepMonthly} monthly`);
+  if (retention.keepYearly) rules.push(`${retention.keepYearly} yearly`);
+  if (retention.maxAgeDays !== undefined) rules.push(`max age ${retention.maxAgeDays} days`);
+  return rules.join(', ');
+}
+
+export function hasRetentionRules(retention?: RetentionConfig): boolean {
+  return !!retention && (hasCountRules(retention) || retention.maxAgeDays !== undefined);
+}
+
+/**
+ * Checks rule values; throws with every problem found.
+ */
+export function validateRetentionConfig(retention?: RetentionConfig): void {
+  if (!retention) {
+    return;
+  }
+
+  const errors: string[] = [];
+  for (const rule of COUNT_RULES) {
+    const value = retention[rule];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      errors.push(`Retention: ${rule} must be a non-negative integer`);
+    }
+  }
+  if (retention.maxAgeDays !== undefined && !(typeof retention.maxAgeDays === 'number' && retention.maxAgeDays > 0)) {
+    errors.push('Retention: maxAgeDays must be a positive number');
+  }
+  if (retention.autoPrune && errors.length === 0 && !hasRetentionRules(retention)) {
+    errors.push('Retention: autoPrune needs at least one keep rule or maxAgeDays');
+  }
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+}
+
+/**
+ * Decides which backups to keep, per backup name. The newest backup of every
+ * name is always kept, whatever the rules say.
+ */
+export function planPrune(
+  backups: BackupInfo[],
+  retention: RetentionConfig,
+  parseKey: (key: string) => ParsedBackupKey,
+  now = new Date()
+): PruneDecision[] {
+  if (!hasRetentionRules(retention)) {
+    throw new Error('No retention rules configured (keepLast, keepDaily, keepWeekly, keepMonthly, keepYearly or maxAgeDays)');
+  }
+
+  const groups = new Map<string, PruneDecision[]>();
+  for (const backup of backups) {
+    const { name, timestamp } = parseKey(backup.key);
+    const decision: PruneDecision = { backup, group: name, date: timestamp ?? backup.lastModified, keep: false, reasons: [] };
+    groups.set(name, [...(groups.get(name) ?? []), decision]);
+  }
+
+  const onlyMaxAge = !hasCountRules(retention);
+  const cutoff = retention.maxAgeDays !== undefined ? now.getTime() - retention.maxAgeDays * DAY_MS : null;
+  const decisions: PruneDecision[] = [];
+
+  for (const group of groups.values()) {
+    group.sort((a, b) => b.date.getTime() - a.date.getTime());
+
+    group[0].reasons.push('newest');
+    group.slice(0, retention.keepLast ?? 0).forEach(decision => decision.reasons.push('last'));
+
+    for (const period of PERIODS) {
+      const limit = retention[period.rule] ?? 0;
+      const seen = new Set<string>();
+      for (const decision of group) {
+        if (seen.size >= limit) {
+          break;
+        }
+        // Newest first, so the first backup of a bucket is the one kept for it
+        const bucket = period.bucket(decision.date);
+        if (!seen.has(bucket)) {
+          seen.add(bucket);
+          decision.reasons.push(period.reason);
+        }
+      }
+    }
+
+    for (const [index, decision] of group.entries()) {
+      const expired = cutoff !== null && decision.date.getTime() < cutoff;
+      if (expired && index > 0) {
+        decision.reasons = [];
+      } else if (!expired && onlyMaxAge && decision.reasons.length === 0) {
+        decision.reasons.push('within max age');
+      }
+      decision.keep = decision.reasons.length > 0;
+    }
+
+    decisions.push(...group);
+  }
+
+  return decisions;
+}
+
+/**
+ * Lists backups, applies the retention rules and deletes what they don't keep
+ * (nothing with dryRun). group limits pruning to a single backup name.
+ */
+export async function pruneBackups(
+  s3Manager: S3Manager,
+  retention: RetentionConfig,
+  options: { prefix?: string; group?: string; dryRun?: boolean } = {}
+): Promise<PruneDecision[]> {
+  const backups = await s3Manager.listBackups(options.prefix);
+  const decisions = planPrune(backups, retention, key => s3Manager.parseBackupKey(key))
+    .filter(decision => options.group === undefined || decision.group === options.group);
+
+  const expired = decisions.filter(decision => !decision.keep).map(decision => decision.backup.key);
+  if (!options.dryRun && expired.length > 0) {
+    await s3Manager.deleteBackups(expired);
+  }
+  return decisions;
+}
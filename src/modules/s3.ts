@@ -1,12 +1,52 @@
 import {
   S3Client,
+  DeleteObjectsCommand,
   GetObjectCommand,
   ListObjectsV2Command,
-  HeadObjectCommand
+  HeadObjectCommand,
+  PutObjectCommand,
+  _Object
 } from '@aws-sdk/client-s3';
 import { Upload } from '@aws-sdk/lib-storage';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
-import { S3Config, BackupInfo, ProgressCallback } from '../types';
+import { Readable, Transform, pipeline } from 'stream';
+import {
+  S3Config,
+  BackupDigest,
+  BackupInfo,
+  BackupManifest,
+  DownloadOptions,
+  ListBackupsOptions,
+  ParsedBackupKey,
+  ProgressCallback,
+  UploadOptions
+} from '../types';
+import { detectCodecFromKey, getBackupExtension, isBackupKey, resolveCodec } from './compression';
+import { CHECKSUM_ALGORITHM, getRecordedChecksum, verifyChecksum } from './checksum';
+import { ENCRYPTED_EXTENSION, isEncryptedBackup, isEncryptedKey } from './encryption';
+import {
+  describeBackupMode,
+  getBackupModeExtension,
+  getManifestKey,
+  getParallelBackupKey,
+  isManifestKey,
+  isParallelBackupKey,
+  MANIFEST_SUFFIX,
+  parseManifest,
+  PARALLEL_SUFFIX,
+  splitBackupMode
+} from './manifest';
+
+// Streams have no known length up front, so the part size has to cover the
+// largest expected dump: S3 allows at most 10,000 parts (64MB -> ~640GB)
+const STREAM_PART_SIZE = 64 * 1024 * 1024;
+// Parallel manifest downloads when listing backups
+const MANIFEST_CONCURRENCY = 8;
+// DeleteObjects accepts at most 1000 keys per request
+const DELETE_BATCH_SIZE = 1000;
+// "<name>-2023-12-01T10-30-00-000Z", as written by ConfigManager.generateS3Key
+const BACKUP_TIMESTAMP_PATTERN = /^(.+)-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)$/;
 
 export class S3Manager {
   private s3Client: S3Client;
@@ -31,7 +71,8 @@ export class S3Manager {
   public async uploadFile(
     filePath: string,
     key: string,
-    progressCallback?: ProgressCallback
+    progressCallback?: ProgressCallback,
+    options: UploadOptions = {}
   ): Promise<void> {
     if (!fs.existsSync(filePath)) {
       throw new Error(`File not found: ${filePath}`);
@@ -56,7 +97,10 @@ export class S3Manager {
           Bucket: this.config.bucket,
           Key: key,
           Body: fileStream,
-          ContentType: 'application/gzip'
+          ContentType: options.contentType ?? 'application/gzip',
+          Metadata: options.metadata,
+          // S3 verifies every part against its checksum on arrival
+          ChecksumAlgorithm: CHECKSUM_ALGORITHM
         },
         // 10MB part size for better performance with large files
         partSize: 10 * 1024 * 1024,
@@ -90,11 +134,128 @@ export class S3Manager {
     }
   }
 
+  /**
+   * Uploads a stream of unknown length via multipart upload.
+   * If the source stream fails (e.g. mysqldump exits non-zero), the multipart
+   * upload is aborted so no partial object is left behind.
+   * Returns the size and SHA-256 of the uploaded object.
+   */
+  public async uploadStream(
+    body: Readable,
+    key: string,
+    progressCallback?: ProgressCallback,
+    options: UploadOptions = {}
+  ): Promise<BackupDigest> {
+    let uploadedBytes = 0;
+    let lastProgressUpdate = 0;
+    let sourceError: Error | null = null;
+    const hash = createHash('sha256');
+
+    // Count and hash bytes on their way to S3 so progress works without a known total
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        uploadedBytes += chunk.length;
+        hash.update(chunk);
+        const now = Date.now();
+        if (progressCallback && now - lastProgressUpdate > 500) {
+          progressCallback({ loaded: uploadedBytes });
+          lastProgressUpdate = now;
+        }
+        callback(null, chunk);
+      }
+    });
+
+    const upload = new Upload({
+      client: this.s3Client,
+      params: {
+        Bucket: this.config.bucket,
+        Key: key,
+        Body: counter,
+        ContentType: options.contentType ?? 'application/gzip',
+        Metadata: options.metadata,
+        ChecksumAlgorithm: CHECKSUM_ALGORITHM
+      },
+      partSize: STREAM_PART_SIZE,
+      queueSize: 4,
+      leavePartsOnError: false
+    });
+
+    pipeline(body, counter, (err) => {
+      if (err && !sourceError) {
+        sourceError = err;
+        upload.abort().catch(() => undefined);
+      }
+    });
+
+    try {
+      await upload.done();
+    } catch (error) {
+      // Tear down the producer as well, otherwise it stalls on backpressure
+      body.destroy();
+      if (sourceError) {
+        throw new Error(`Backup stream failed, multipart upload aborted: ${(sourceError as Error).message}`);
+      }
+      throw new Error(`Failed to upload to S3: ${error}`);
+    }
+
+    if (progressCallback) {
+      progressCallback({ loaded: uploadedBytes, total: uploadedBytes, percentage: 100 });
+    }
+
+    return { size: uploadedBytes, sha256: hash.digest('hex') };
+  }
+
+  /**
+   * Writes the manifest next to the backup as "<key>.manifest.json".
+   */
+  public async uploadManifest(backupKey: string, manifest: BackupManifest): Promise<void> {
+    try {
+      await this.s3Client.send(new PutObjectCommand({
+        Bucket: this.config.bucket,
+        Key: getManifestKey(backupKey),
+        Body: JSON.stringify(manifest, null, 2),
+        ContentType: 'application/json'
+      }));
+    } catch (error) {
+      throw new Error(`Failed to upload backup manifest: ${error}`);
+    }
+  }
+
+  /**
+   * Loads the manifest of a backup, or null for backups written without one.
+   */
+  public async getManifest(backupKey: string): Promise<BackupManifest | null> {
+    let content: string;
+    try {
+      const response = await this.s3Client.send(new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: getManifestKey(backupKey)
+      }));
+
+      if (!response.Body) {
+        throw new Error('Empty response body from S3');
+      }
+      content = await (response.Body as { transformToString(): Promise<string> }).transformToString();
+    } catch (error: unknown) {
+      if (this.isNotFound(error)) {
+        return null;
+      }
+      throw new Error(`Failed to download backup manifest: ${error}`);
+    }
+
+    return parseManifest(content);
+  }
+
+  /**
+   * Downloads a backup to disk, hashing it on the way. If options.expectedSha256
+   * is set, a mismatching download is rejected.
+   */
   public async downloadFile(
     key: string, 
     outputPath: string, 
-    progressCallback?: ProgressCallback
-  ): Promise<void> {
+    progressCallback?: ProgressCallback,
+    options: DownloadOptions = {}
+  ): Promise<BackupDigest> {
     try {
       // Get object size first
       const headCommand = new HeadObjectCommand({
@@ -118,6 +279,7 @@ export class S3Manager {
       }
 
       const writeStream = fs.createWriteStream(outputPath);
+      const hash = createHash('sha256');
       let downloadedBytes = 0;
 
       return new Promise((resolve, reject) => {
@@ -125,6 +287,7 @@ export class S3Manager {
 
         readableStream.on('data', (chunk) => {
           downloadedBytes += chunk.length;
+          hash.update(chunk);
           if (progressCallback && totalSize > 0) {
             const percentage = (downloadedBytes / totalSize) * 100;
             progressCallback({
@@ -144,7 +307,7 @@ export class S3Manager {
         });
 
         // Wait for the writeStream to finish, not the readableStream
-        writeStream.on('finish', () => {
+        writeStream.once('finish', () => {
           if (progressCallback) {
             progressCallback({ 
               loaded: downloadedBytes, 
@@ -152,7 +315,13 @@ export class S3Manager {
               percentage: 100 
             });
           }
-          resolve();
+          const sha256 = hash.digest('hex');
+          try {
+            verifyChecksum(options.expectedSha256, sha256);
+            resolve({ size: downloadedBytes, sha256 });
+          } catch (error) {
+            reject(error);
+          }
         });
 
         readableStream.pipe(writeStream);
@@ -162,54 +331,180 @@ export class S3Manager {
     }
   }
 
-  public async listBackups(prefix?: string): Promise<BackupInfo[]> {
+  /**
+   * Reads a backup through a hash without keeping it, so its checksum can be
+   * checked before a restore streams it a second time; a mismatch is rejected.
+   */
+  public async verifyBackupChecksum(key: string, expectedSha256: string, progressCallback?: ProgressCallback): Promise<BackupDigest> {
+    const { stream, size } = await this.getBackupStream(key);
+    const hash = createHash('sha256');
+    let readBytes = 0;
+    try {
+      for await (const chunk of stream) {
+        readBytes += chunk.length;
+        hash.update(chunk);
+        if (progressCallback && size > 0) {
+          progressCallback({ loaded: readBytes, total: size, percentage: (readBytes / size) * 100 });
+        }
+      }
+    } catch (error) {
+      throw new Error(`Failed to download from S3: ${error}`);
+    }
+
+    const sha256 = hash.digest('hex');
+    verifyChecksum(expectedSha256, sha256);
+    return { size: readBytes, sha256 };
+  }
+
+  /**
+   * Opens a backup object for streaming. The size is the object's ContentLength,
+   * which callers use as the progress total.
+   */
+  public async getBackupStream(key: string): Promise<{ stream: Readable; size: number }> {
     try {
+      const response = await this.s3Client.send(new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key
+      }));
+
+      if (!response.Body) {
+        throw new Error('Empty response body from S3');
+      }
+
+      return {
+        stream: response.Body as Readable,
+        size: response.ContentLength || 0
+      };
+    } catch (error) {
+      throw new Error(`Failed to download from S3: ${error}`);
+    }
+  }
+
+  /**
+   * Lists every object under a prefix. A listing returns at most 1000 keys,
+   * so this follows the continuation tokens for the rest.
+   */
+  public async listObjects(prefix?: string): Promise<_Object[]> {
+    const objects: _Object[] = [];
+    let continuationToken: string | undefined;
+    do {
       const listCommand = new ListObjectsV2Command({
         Bucket: this.config.bucket,
-        Prefix: prefix
+        Prefix: prefix,
+        ContinuationToken: continuationToken
       });
 
       const response = await this.s3Client.send(listCommand);
-      const objects = response.Contents || [];
+      objects.push(...(response.Contents || []));
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return objects;
+  }
+
+  public async listBackups(prefix?: string, options: ListBackupsOptions = {}): Promise<BackupInfo[]> {
+    let backups: BackupInfo[];
+    try {
+      const objects = await this.listObjects(prefix);
 
-      return objects
-        .filter(obj => obj.Key?.endsWith('.sql.gz'))
+      backups = objects
+        .filter(obj => obj.Key && isBackupKey(obj.Key) && getParallelBackupKey(obj.Key) === null)
         .map(obj => ({
           key: obj.Key!,
           lastModified: obj.LastModified!,
           size: obj.Size || 0,
-          displayName: this.extractDisplayName(obj.Key!)
-        }))
-        .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+          displayName: this.extractDisplayName(obj.Key!),
+          compression: detectCodecFromKey(obj.Key!) ?? undefined,
+          encrypted: isEncryptedKey(obj.Key!),
+          ...this.getBackupMode(obj.Key!)
+        }));
+      backups.push(...this.collectParallelBackups(objects));
+      backups.sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
     } catch (error) {
       throw new Error(`Failed to list backups from S3: ${error}`);
     }
+
+    if (options.withManifests) {
+      await this.attachManifests(backups);
+    }
+    return backups;
+  }
+
+  /**
+   * A parallel backup is listed once its manifest exists, which is written
+   * last; its size is the sum of its chunks.
+   */
+  private collectParallelBackups(objects: _Object[]): BackupInfo[] {
+    const backups = new Map<string, BackupInfo>();
+    for (const obj of objects) {
+      if (obj.Key && isManifestKey(obj.Key) && isParallelBackupKey(obj.Key.slice(0, -MANIFEST_SUFFIX.length))) {
+        const key = obj.Key.slice(0, -MANIFEST_SUFFIX.length);
+        backups.set(key, { key, lastModified: obj.LastModified!, size: 0, displayName: this.extractDisplayName(key), ...this.getBackupMode(key) });
+      }
+    }
+    for (const obj of objects) {
+      const backup = obj.Key ? backups.get(getParallelBackupKey(obj.Key) ?? '') : undefined;
+      if (backup) {
+        backup.size += obj.Size || 0;
+        backup.compression = backup.compression ?? detectCodecFromKey(obj.Key!) ?? undefined;
+        backup.encrypted = backup.encrypted || isEncryptedKey(obj.Key!);
+      }
+    }
+    return [...backups.values()];
+  }
+
+  /**
+   * Deletes backups together with their manifests, and the chunks of parallel
+   * backups. Missing manifests are fine, S3 treats deleting a missing key as success.
+   */
+  public async deleteBackups(keys: string[]): Promise<void> {
+    const objects = keys.flatMap(key => [{ Key: key }, { Key: getManifestKey(key) }]);
+    for (const key of keys.filter(isParallelBackupKey)) {
+      const chunks = await this.listObjects(`${key}/`);
+      objects.push(...chunks.map(chunk => ({ Key: chunk.Key! })));
+    }
+
+    for (let i = 0; i < objects.length; i += DELETE_BATCH_SIZE) {
+      let errors: { Key?: string; Message?: string }[];
+      try {
+        const response = await this.s3Client.send(new DeleteObjectsCommand({
+          Bucket: this.config.bucket,
+          Delete: { Objects: objects.slice(i, i + DELETE_BATCH_SIZE), Quiet: true }
+        }));
+        errors = response.Errors ?? [];
+      } catch (error) {
+        throw new Error(`Failed to delete backups from S3: ${error}`);
+      }
+
+      if (errors.length > 0) {
+        const details = errors.map(error => `${error.Key}: ${error.Message}`).join(', ');
+        throw new Error(`Failed to delete ${errors.length} object${errors.length === 1 ? '' : 's'} from S3: ${details}`);
+      }
+    }
   }
 
   public async backupExists(key: string): Promise<boolean> {
     try {
+      // A parallel backup has no object of its own; it exists once its manifest does
       const headCommand = new HeadObjectCommand({
         Bucket: this.config.bucket,
-        Key: key
+        Key: isParallelBackupKey(key) ? getManifestKey(key) : key
       });
       
       await this.s3Client.send(headCommand);
       return true;
     } catch (error: unknown) {
-      if (error && typeof error === 'object' && 'name' in error && error.name === 'NotFound') {
+      if (this.isNotFound(error)) {
         return false;
       }
-      if (error && typeof error === 'object' && '$metadata' in error) {
-        const metadata = error.$metadata as { httpStatusCode?: number };
-        if (metadata.httpStatusCode === 404) {
-          return false;
-        }
-      }
       throw new Error(`Failed to check if backup exists: ${error}`);
     }
   }
 
   public async getBackupInfo(key: string): Promise<BackupInfo> {
+    if (isParallelBackupKey(key)) {
+      return this.getParallelBackupInfo(key);
+    }
+
     try {
       const headCommand = new HeadObjectCommand({
         Bucket: this.config.bucket,
@@ -217,28 +512,127 @@ export class S3Manager {
       });
       
       const response = await this.s3Client.send(headCommand);
-      
+      const manifest = await this.tryGetManifest(key);
       return {
         key,
         lastModified: response.LastModified!,
         size: response.ContentLength || 0,
-        displayName: this.extractDisplayName(key)
+        displayName: this.extractDisplayName(key),
+        compression: resolveCodec(key, response.Metadata),
+        encrypted: isEncryptedBackup(key, response.Metadata),
+        sha256: getRecordedChecksum(response.Metadata, manifest),
+        manifest
       };
     } catch (error) {
       throw new Error(`Failed to get backup info: ${error}`);
     }
   }
 
+  /**
+   * Everything about a parallel backup is in its manifest; the chunks carry
+   * their own checksums, so there's no SHA-256 for the backup as a whole.
+   */
+  private async getParallelBackupInfo(key: string): Promise<BackupInfo> {
+    let manifest: BackupManifest | null;
+    try {
+      manifest = await this.getManifest(key);
+    } catch (error) {
+      throw new Error(`Failed to get backup info: ${error}`);
+    }
+    if (!manifest) {
+      throw new Error(`Failed to get backup info: parallel backup ${key} has no manifest`);
+    }
+
+    return {
+      key,
+      lastModified: new Date(manifest.finishedAt),
+      size: manifest.compressedSize,
+      displayName: this.extractDisplayName(key),
+      compression: manifest.compression.codec,
+      encrypted: manifest.encrypted,
+      manifest
+    };
+  }
+
+  /**
+   * A missing or unreadable manifest only means less detail, never a failed listing.
+   */
+  private async tryGetManifest(backupKey: string): Promise<BackupManifest | undefined> {
+    try {
+      return (await this.getManifest(backupKey)) ?? undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Loads the manifest of each backup into backup.manifest (undefined if it has none).
+   */
+  public async attachManifests(backups: BackupInfo[]): Promise<void> {
+    for (let i = 0; i < backups.length; i += MANIFEST_CONCURRENCY) {
+      await Promise.all(backups.slice(i, i + MANIFEST_CONCURRENCY).map(async (backup) => {
+        backup.manifest = await this.tryGetManifest(backup.key);
+      }));
+    }
+  }
+
+  private isNotFound(error: unknown): boolean {
+    if (error && typeof error === 'object' && 'name' in error && (error.name === 'NotFound' || error.name === 'NoSuchKey')) {
+      return true;
+    }
+    if (error && typeof error === 'object' && '$metadata' in error) {
+      const metadata = error.$metadata as { httpStatusCode?: number };
+      return metadata.httpStatusCode === 404;
+    }
+    return false;
+  }
+
+  /**
+   * Splits a backup key into its name and timestamp, e.g.
+   * "prod/mydb-2023-12-01T10-30-00-000Z.sql.gz" -> "prod/mydb" at 2023-12-01 10:30:00 UTC.
+   * Custom-named backups have no timestamp. Schema- and data-only backups
+   * keep their mode marker, "prod/mydb.schema", so prune keeps them apart.
+   */
+  public parseBackupKey(key: string): ParsedBackupKey {
+    const slash = key.lastIndexOf('/');
+    const directory = key.slice(0, slash + 1);
+    const { stem, mode } = splitBackupMode(this.getKeyStem(key.slice(slash + 1)));
+    const match = stem.match(BACKUP_TIMESTAMP_PATTERN);
+
+    if (!match) {
+      return { name: directory + stem + getBackupModeExtension(mode) };
+    }
+    const [, name, timestamp] = match;
+    const iso = timestamp.replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, 'T$1:$2:$3.$4Z');
+    return { name: directory + name + getBackupModeExtension(mode), timestamp: new Date(iso) };
+  }
+
+  private getKeyStem(basename: string): string {
+    if (isParallelBackupKey(basename)) {
+      return basename.slice(0, -PARALLEL_SUFFIX.length);
+    }
+    const codec = detectCodecFromKey(basename);
+    const unencrypted = isEncryptedKey(basename) ? basename.slice(0, -ENCRYPTED_EXTENSION.length) : basename;
+    return codec ? unencrypted.slice(0, -getBackupExtension(codec).length) : unencrypted;
+  }
+
+  private getBackupMode(key: string): Pick<BackupInfo, 'mode'> {
+    const { mode } = splitBackupMode(this.getKeyStem(key.split('/').pop() || key));
+    return mode === 'full' ? {} : { mode };
+  }
+
   private extractDisplayName(key: string): string {
     // Extract meaningful name from S3 key
     // e.g., "mydb-2023-12-01T10-30-00-000Z.sql.gz" -> "mydb (2023-12-01 10:30:00)"
+    // and "mydb-2023-12-01T10-30-00-000Z.schema.sql.gz" -> "mydb (2023-12-01 10:30:00, schema only)"
     const basename = key.split('/').pop() || key;
-    const match = basename.match(/^(.+)-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.sql\.gz$/);
+    const { stem, mode } = splitBackupMode(this.getKeyStem(basename));
+    const match = stem.match(BACKUP_TIMESTAMP_PATTERN);
     
     if (match) {
       const [, dbName, timestamp] = match;
       const date = timestamp.replace(/T(\d{2})-(\d{2})-(\d{2})-\d{3}Z/, ' $1:$2:$3');
-      return `${dbName} (${date})`;
+      return mode === 'full' ? `${dbName} (${date})` : `${dbName} (${date}, ${describeBackupMode(mode)})`;
     }
     
     return basename;
@@ -0,0 +1,104 @@
+import { Transform, TransformCallback } from 'stream';
+import { SchemaSelection, SqlStatement } from '../types';
+import { IDENTIFIER, identifierName, isGtidPurged, parseNameList, replaceIdentifier, statementHead } from './tablefilter';
+
+// Statements naming a schema, ending with its name
+const SCHEMA_STATEMENT = new RegExp(
+  `^(\\s*(?:(?:CREATE|ALTER|DROP)\\s+(?:DATABASE|SCHEMA)(?:\\s+IF\\s+(?:NOT\\s+)?EXISTS)?|USE)\\s+)(${IDENTIFIER})`,
+  'i'
+);
+const USE_STATEMENT = /^\s*USE\b/i;
+const SET_STATEMENT = /^\s*SET\b/i;
+
+/**
+ * Validates restore's --schemas and --map (from=to pairs); returns undefined
+ * when the dump's schemas are to be restored as they are.
+ */
+export function parseSchemaSelection(options: { schemas?: string; map?: string }): SchemaSelection | undefined {
+  const include = parseNameList(options.schemas);
+  if (include?.length === 0) {
+    throw new Error('--schemas needs at least one schema name');
+  }
+
+  let map: Record<string, string> | undefined;
+  for (const entry of parseNameList(options.map) ?? []) {
+    const [from, to, ...rest] = entry.split('=').map(name => name.trim());
+    if (!from || !to || rest.length > 0) {
+      throw new Error(`Invalid --map entry '${entry}' (expected from=to)`);
+    }
+    map ??= {};
+    if (map[from] !== undefined) {
+      throw new Error(`--map renames schema '${from}' twice`);
+    }
+    if (Object.values(map).includes(to)) {
+      throw new Error(`--map restores more than one schema into '${to}'`);
+    }
+    map[from] = to;
+  }
+
+  if (!include && !map) {
+    return undefined;
+  }
+  return { include, map };
+}
+
+export function isSchemaSelected(selection: SchemaSelection, schema: string): boolean {
+  return !selection.include || selection.include.includes(schema);
+}
+
+export function describeSchemaSelection(selection: SchemaSelection): string {
+  const schemas = selection.include ?? Object.keys(selection.map ?? {});
+  return schemas.map(schema => {
+    const target = selection.map?.[schema];
+    return target ? `${schema} → ${target}` : schema;
+  }).join(', ') + (selection.include ? '' : ' (other schemas unchanged)');
+}
+
+/**
+ * Restores a dump that switches schemas with USE into other schemas: its
+ * CREATE DATABASE and USE statements are rewritten, and everything under an
+ * unselected schema except session settings is dropped. Statements naming
+ * a schema explicitly, like cross-schema views, are left as they are.
+ */
+export class SqlSchemaFilter extends Transform {
+  private currentSchema: string | undefined;
+
+  constructor(private readonly selection: SchemaSelection) {
+    super({ objectMode: true });
+  }
+
+  _transform(statement: SqlStatement, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const kept = this.keep(statement);
+    if (kept) {
+      this.push(kept);
+    }
+    callback();
+  }
+
+  private keep(statement: SqlStatement): SqlStatement | null {
+    const head = statementHead(statement.sql);
+
+    const schemaStatement = SCHEMA_STATEMENT.exec(head);
+    if (schemaStatement) {
+      const [, before, identifier] = schemaStatement;
+      const schema = identifierName(identifier);
+      if (USE_STATEMENT.test(head)) {
+        this.currentSchema = schema;
+      }
+      if (!isSchemaSelected(this.selection, schema)) {
+        return null;
+      }
+      const target = this.selection.map?.[schema];
+      return target ? { ...statement, sql: replaceIdentifier(statement.sql, before.length, identifier, target) } : statement;
+    }
+
+    // The restored schemas aren't the server's originals, so its GTID state stays alone
+    if (isGtidPurged(head)) {
+      return null;
+    }
+    if (this.currentSchema !== undefined && !isSchemaSelected(this.selection, this.currentSchema) && !SET_STATEMENT.test(head)) {
+      return null;
+    }
+    return statement;
+  }
+}
@@ -0,0 +1,112 @@
+import { AppConfig, BackupManifest, BackupStreamOptions, ProgressCallback, SchemaSelection, UploadOptions } from '../types';
+import { getBackupExtension, getContentType, normalizeCompressionConfig } from './compression';
+import { ENCRYPTED_EXTENSION, ENCRYPTION_ALGORITHM, isEncryptionEnabled } from './encryption';
+import { MANIFEST_FORMAT_VERSION, TOOL_VERSION } from './manifest';
+import { MySQLManager } from './mysql';
+import { createNativeBackupStream } from './nativedump';
+import { S3Manager } from './s3';
+import { isSchemaSelected } from './schemafilter';
+
+export const PRE_RESTORE_PREFIX = 'pre-restore/';
+
+// pre-restore/shop-2024-01-31T14-32-00-000Z.sql.gz, which list and restore parse like any backup key
+export function getPreRestoreSnapshotKey(targetDatabase: string, extension: string, date: Date = new Date()): string {
+  return `${PRE_RESTORE_PREFIX}${targetDatabase}-${date.toISOString().replace(/[:.]/g, '-')}${extension}`;
+}
+
+/**
+ * The schemas restoring a backup writes: the target database, unless the
+ * dump switches schemas with USE, in which case the backup's own schemas
+ * as --schemas selects and --map renames them.
+ */
+export function getRestoredSchemas(manifest: BackupManifest, targetDatabase: string, selection?: SchemaSelection): string[] {
+  // Native dumps only switch between several schemas; mysqldump whenever it was given --databases
+  const switchesSchema = manifest.schemas.length > 1 || manifest.mysqldumpFlags.includes('--databases');
+  if (!switchesSchema) {
+    return [targetDatabase];
+  }
+  return manifest.schemas
+    .filter(schema => !selection || isSchemaSelected(selection, schema))
+    .map(schema => selection?.map?.[schema] ?? schema);
+}
+
+/**
+ * Dumps the schemas a restore is about to write to S3 under pre-restore/,
+ * with the configured dump engine, compression and encryption and a
+ * manifest, so it restores like any backup. A snapshot of several schemas
+ * switches between them with USE. Returns the snapshot's key, or undefined
+ * when the schemas have no tables to lose.
+ */
+export async function createPreRestoreSnapshot(
+  config: AppConfig,
+  s3Manager: S3Manager,
+  targetDatabase: string,
+  schemas: string[],
+  onProgress?: ProgressCallback
+): Promise<string | undefined> {
+  // Backups dump the configured database or schemas; the snapshot all of the schemas the restore writes
+  const mysqlManager = new MySQLManager({
+    ...config.database,
+    database: schemas[0],
+    schemas: schemas.length > 1 ? schemas : undefined,
+    tables: undefined,
+    excludeTables: undefined,
+    schemaOnlyTables: undefined,
+    tableFilters: undefined
+  });
+  const startedAt = new Date();
+  const snapshot = await mysqlManager.getServerSnapshot();
+  if (snapshot.tables.length === 0) {
+    return undefined;
+  }
+
+  const compression = normalizeCompressionConfig(config.compression);
+  const encryption = isEncryptionEnabled(config.encryption) ? config.encryption : undefined;
+  const engine = config.dumpEngine ?? 'mysqldump';
+  const key = getPreRestoreSnapshotKey(targetDatabase, getBackupExtension(compression.codec) + (encryption ? ENCRYPTED_EXTENSION : ''), startedAt);
+
+  let uncompressedSize = 0;
+  const streamOptions: BackupStreamOptions = {
+    compression,
+    encryption,
+    onDumpData: (bytes: number) => {
+      uncompressedSize += bytes;
+    }
+  };
+  const uploadOptions: UploadOptions = {
+    contentType: encryption ? 'application/octet-stream' : getContentType(compression.codec),
+    metadata: { compression: compression.codec }
+  };
+  if (encryption) {
+    uploadOptions.metadata!.encryption = ENCRYPTION_ALGORITHM;
+  }
+
+  const digest = await s3Manager.uploadStream(
+    engine === 'native' ? createNativeBackupStream(mysqlManager, snapshot, streamOptions) : mysqlManager.createBackupStream(streamOptions),
+    key,
+    onProgress,
+    uploadOptions
+  );
+
+  const manifest: BackupManifest = {
+    formatVersion: MANIFEST_FORMAT_VERSION,
+    toolVersion: TOOL_VERSION,
+    backupKey: key,
+    serverVersion: snapshot.serverVersion,
+    schemas: snapshot.schemas,
+    tables: snapshot.tables,
+    mysqldumpFlags: engine === 'mysqldump' ? mysqlManager.getDumpFlags(streamOptions) : [],
+    compression,
+    encrypted: Boolean(encryption),
+    uncompressedSize,
+    compressedSize: digest.size,
+    sha256: digest.sha256,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    binlog: snapshot.binlog,
+    engine
+  };
+  // Without the manifest a rollback couldn't check the snapshot's checksum
+  await s3Manager.uploadManifest(key, manifest);
+  return key;
+}
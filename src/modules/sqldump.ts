@@ -0,0 +1,191 @@
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { BinlogPosition, DumpAnalysis, RestoreStreamOptions } from '../types';
+import { createDecompressor, DEFAULT_COMPRESSION_CODEC } from './compression';
+import { createDecryptor } from './encryption';
+
+// mysqldump's last line; a dump without it was cut short
+export const DUMP_COMPLETED_MARKER = '-- Dump completed';
+
+// Longest line start kept to classify a line; INSERT lines are scanned without buffering
+const MAX_LINE_HEAD = 4096;
+const VALUES_KEYWORD = Buffer.from(' VALUES ');
+const INSERT_PATTERN = /^(?:INSERT(?: IGNORE)? INTO|REPLACE INTO) `((?:[^`]|``)+)`/;
+const CREATE_TABLE_PATTERN = /^CREATE TABLE `((?:[^`]|``)+)`/;
+const USE_PATTERN = /^USE `((?:[^`]|``)+)`;/;
+// Written by --source-data=2 / --master-data=2, before the first table
+const CHANGE_SOURCE_PATTERN = /^-- CHANGE (?:MASTER|REPLICATION SOURCE) TO (?:MASTER|SOURCE)_LOG_FILE='([^']+)', (?:MASTER|SOURCE)_LOG_POS=(\d+);/m;
+// Written when GTIDs are on; the set may span several lines
+const GTID_PURGED_PATTERN = /^SET @@GLOBAL\.GTID_PURGED=(?:\/\*!80000 '\+'\*\/ )?'([^']*)';/m;
+
+// How much of the dump to search for the binlog coordinates
+export const DUMP_HEADER_LIMIT = 1024 * 1024;
+
+const NEWLINE = 0x0a;
+const QUOTE = 0x27;
+const BACKSLASH = 0x5c;
+const OPEN_PAREN = 0x28;
+const CLOSE_PAREN = 0x29;
+
+const unquote = (identifier: string): string => identifier.replace(/``/g, '`');
+
+/**
+ * Reads plain mysqldump output and records the tables it creates, the rows it
+ * inserts per table, the databases it switches to and whether it is complete.
+ * Relies on mysqldump writing each INSERT on one line with escaped strings.
+ */
+class DumpAnalyzer extends Writable {
+  private tables = new Map<string, number>();
+  private databases = new Set<string>();
+  private size = 0;
+  private complete = false;
+
+  private head: number[] = [];
+  private skipLine = false;
+  // Set while inside the VALUES list of an INSERT line
+  private insertTable: string | null = null;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    this.size += chunk.length;
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+      if (this.insertTable !== null) {
+        this.scanValues(byte);
+      } else if (byte === NEWLINE) {
+        this.endLine();
+      } else if (!this.skipLine) {
+        this.head.push(byte);
+        this.checkInsertStart();
+      }
+    }
+    callback();
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    if (this.insertTable === null && this.head.length > 0) {
+      this.endLine();
+    }
+    callback();
+  }
+
+  getResult(): DumpAnalysis {
+    return {
+      tables: Object.fromEntries(this.tables),
+      databases: [...this.databases],
+      complete: this.complete,
+      size: this.size
+    };
+  }
+
+  private scanValues(byte: number): void {
+    if (this.inString) {
+      if (this.escaped) {
+        this.escaped = false;
+      } else if (byte === BACKSLASH) {
+        this.escaped = true;
+      } else if (byte === QUOTE) {
+        this.inString = false;
+      }
+    } else if (byte === QUOTE) {
+      this.inString = true;
+    } else if (byte === OPEN_PAREN) {
+      if (this.depth === 0) {
+        this.tables.set(this.insertTable!, (this.tables.get(this.insertTable!) ?? 0) + 1);
+      }
+      this.depth++;
+    } else if (byte === CLOSE_PAREN) {
+      this.depth--;
+    } else if (byte === NEWLINE) {
+      this.insertTable = null;
+      this.complete = false;
+    }
+  }
+
+  private checkInsertStart(): void {
+    const length = this.head.length;
+    if (length >= MAX_LINE_HEAD) {
+      this.skipLine = true;
+      return;
+    }
+    if (length < VALUES_KEYWORD.length || this.head[length - 1] !== VALUES_KEYWORD[VALUES_KEYWORD.length - 1]) {
+      return;
+    }
+    for (let i = 0; i < VALUES_KEYWORD.length; i++) {
+      if (this.head[length - VALUES_KEYWORD.length + i] !== VALUES_KEYWORD[i]) {
+        return;
+      }
+    }
+
+    const match = INSERT_PATTERN.exec(Buffer.from(this.head).toString('utf8'));
+    if (match) {
+      this.insertTable = unquote(match[1]);
+      this.depth = 0;
+      this.inString = false;
+      this.escaped = false;
+      this.head = [];
+    }
+  }
+
+  private endLine(): void {
+    const line = Buffer.from(this.head).toString('utf8').trim();
+    this.head = [];
+
+    if (this.skipLine) {
+      this.skipLine = false;
+      this.complete = false;
+      return;
+    }
+    if (line.length === 0) {
+      return;
+    }
+
+    const table = CREATE_TABLE_PATTERN.exec(line);
+    if (table) {
+      const name = unquote(table[1]);
+      this.tables.set(name, this.tables.get(name) ?? 0);
+    }
+    const database = USE_PATTERN.exec(line);
+    if (database) {
+      this.databases.add(unquote(database[1]));
+    }
+    this.complete = line.startsWith(DUMP_COMPLETED_MARKER);
+  }
+}
+
+/**
+ * The binlog coordinates and GTID set mysqldump wrote at the top of a dump,
+ * or undefined if it didn't write any.
+ */
+export function parseDumpBinlogPosition(header: string): BinlogPosition | undefined {
+  const coordinates = CHANGE_SOURCE_PATTERN.exec(header);
+  if (!coordinates) {
+    return undefined;
+  }
+
+  const position: BinlogPosition = { file: coordinates[1], position: Number(coordinates[2]), exact: true };
+  const gtid = GTID_PURGED_PATTERN.exec(header);
+  if (gtid && gtid[1].trim()) {
+    position.gtidExecuted = gtid[1].replace(/\s+/g, '');
+  }
+  return position;
+}
+
+/**
+ * Decrypts and decompresses a backup and analyzes the SQL inside. Rejects if
+ * the data can't be decoded, e.g. a truncated gzip stream or a wrong key.
+ */
+export async function analyzeBackup(input: Readable, options: RestoreStreamOptions = {}): Promise<DumpAnalysis> {
+  const analyzer = new DumpAnalyzer();
+  const decompressor = createDecompressor(options.compression ?? DEFAULT_COMPRESSION_CODEC);
+
+  if (options.encryption) {
+    await pipeline(input, createDecryptor(options.encryption), decompressor, analyzer);
+  } else {
+    await pipeline(input, decompressor, analyzer);
+  }
+
+  return analyzer.getResult();
+}
@@ -0,0 +1,237 @@
+import { Transform, TransformCallback } from 'stream';
+import { SqlStatement } from '../types';
+
+const DEFAULT_DELIMITER = ';';
+const DELIMITER_COMMAND = /^delimiter[ \t]+(\S+)/i;
+// "delimiter" and the blank after it
+const DELIMITER_PREFIX_LENGTH = 10;
+const BACKSLASH = 0x5c;
+
+/**
+ * Splits a SQL dump into statements the way the mysql client does: on the
+ * current delimiter (changed by DELIMITER lines), but not inside string
+ * literals, quoted identifiers or comments. Plain comments are dropped;
+ * versioned comments like \/*!40101 ... *\/ are kept for the server to run.
+ *
+ * Input is read as latin1, one character per byte, so statements are the
+ * dump's exact bytes whatever its character set; send them over a
+ * connection with the binary charset to keep it that way.
+ */
+export class SqlStatementSplitter extends Transform {
+  private buffer = '';
+  private pos = 0;
+  // Text of the current statement already scanned, without its comments
+  private parts: string[] = [];
+  private segmentStart = 0;
+  private hasContent = false;
+  private firstContentLine = 0;
+  private line = 1;
+  private lineCountedTo = 0;
+  private delimiter = DEFAULT_DELIMITER;
+  private special = specialCharacters(DEFAULT_DELIMITER);
+  private quote: number | null = null;
+  private inVersionedComment = false;
+
+  constructor() {
+    super({ readableObjectMode: true });
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.buffer += chunk.toString('latin1');
+    this.scan(false);
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.scan(true);
+    // Like the mysql client, run a last statement that has no delimiter
+    this.emitStatement(this.buffer.length, this.buffer.length);
+    callback();
+  }
+
+  private scan(final: boolean): void {
+    while (this.pos < this.buffer.length) {
+      if (this.quote !== null) {
+        if (!this.scanQuoted(final)) {
+          return;
+        }
+        continue;
+      }
+
+      const buffer = this.buffer;
+      const char = buffer[this.pos];
+
+      // Within a statement, jump over everything that can't start a token
+      if (this.hasContent && !this.inVersionedComment) {
+        this.special.lastIndex = this.pos;
+        const next = this.special.exec(buffer);
+        if (!next) {
+          this.pos = buffer.length;
+          return;
+        }
+        if (next.index > this.pos) {
+          this.pos = next.index;
+          continue;
+        }
+      }
+
+      if (char === '\'' || char === '"' || char === '`') {
+        this.markContent();
+        this.quote = buffer.charCodeAt(this.pos);
+        this.pos++;
+        continue;
+      }
+
+      if (this.inVersionedComment && buffer.startsWith('*/', this.pos)) {
+        this.inVersionedComment = false;
+        this.pos += 2;
+        continue;
+      }
+
+      // Multi-character tokens need to be seen whole before deciding
+      if (!final && this.pos + Math.max(this.delimiter.length, DELIMITER_PREFIX_LENGTH) > buffer.length) {
+        return;
+      }
+
+      if (!this.hasContent && /^delimiter[ \t]/i.test(buffer.substr(this.pos, DELIMITER_PREFIX_LENGTH))) {
+        if (!this.scanDelimiterCommand(final)) {
+          return;
+        }
+        continue;
+      }
+
+      if (buffer.startsWith('/*', this.pos)) {
+        const hint = buffer[this.pos + 2];
+        if (hint === '!' || hint === '+') {
+          // Versioned comments and optimizer hints are code to the server
+          this.markContent();
+          this.inVersionedComment = true;
+          this.pos += 3;
+          continue;
+        }
+        const end = buffer.indexOf('*/', this.pos + 2);
+        if (end === -1 && !final) {
+          return;
+        }
+        this.skip(end === -1 ? buffer.length : end + 2);
+        continue;
+      }
+
+      if (char === '#' || (buffer.startsWith('--', this.pos) && !(buffer.charCodeAt(this.pos + 2) > 0x20))) {
+        const end = buffer.indexOf('\n', this.pos);
+        if (end === -1 && !final) {
+          return;
+        }
+        // The newline stays, so statements keep their line structure
+        this.skip(end === -1 ? buffer.length : end);
+        continue;
+      }
+
+      if (!this.inVersionedComment && buffer.startsWith(this.delimiter, this.pos)) {
+        this.emitStatement(this.pos, this.pos + this.delimiter.length);
+        continue;
+      }
+
+      if (char !== ' ' && char !== '\t' && char !== '\n' && char !== '\r') {
+        this.markContent();
+      }
+      this.pos++;
+    }
+  }
+
+  // Moves past the end of a quoted string; false if more input is needed
+  private scanQuoted(final: boolean): boolean {
+    const buffer = this.buffer;
+    const quote = this.quote!;
+    // Identifiers only escape by doubling the backtick
+    const escapes = quote !== 0x60;
+
+    for (let i = this.pos; i < buffer.length; i++) {
+      const code = buffer.charCodeAt(i);
+      if (code !== quote && !(escapes && code === BACKSLASH)) {
+        continue;
+      }
+      if (i + 1 >= buffer.length && !final) {
+        // Can't tell an escape or a doubled quote from the end of the string yet
+        this.pos = i;
+        return false;
+      }
+      if (code === quote && buffer.charCodeAt(i + 1) !== quote) {
+        this.pos = i + 1;
+        this.quote = null;
+        return true;
+      }
+      // An escaped character or a doubled quote
+      i++;
+    }
+    this.pos = buffer.length;
+    return true;
+  }
+
+  // Applies a DELIMITER line, which the client handles itself; false if the line isn't complete yet
+  private scanDelimiterCommand(final: boolean): boolean {
+    let end = this.buffer.indexOf('\n', this.pos);
+    if (end === -1) {
+      if (!final) {
+        return false;
+      }
+      end = this.buffer.length;
+    }
+    const match = DELIMITER_COMMAND.exec(this.buffer.slice(this.pos, end));
+    if (match) {
+      this.delimiter = match[1];
+      this.special = specialCharacters(this.delimiter);
+    }
+    this.skip(end);
+    return true;
+  }
+
+  private markContent(): void {
+    if (!this.hasContent) {
+      this.hasContent = true;
+      this.firstContentLine = this.lineAt(this.pos);
+    }
+  }
+
+  // Drops buffer[pos, end) from the statement text
+  private skip(end: number): void {
+    this.parts.push(this.buffer.slice(this.segmentStart, this.pos));
+    this.pos = end;
+    this.segmentStart = end;
+  }
+
+  private emitStatement(end: number, next: number): void {
+    this.parts.push(this.buffer.slice(this.segmentStart, end));
+    if (this.hasContent) {
+      const sql = this.parts.join('').trim();
+      if (sql.length > 0) {
+        const statement: SqlStatement = { sql, line: this.firstContentLine };
+        this.push(statement);
+      }
+    }
+
+    this.lineAt(next);
+    this.buffer = this.buffer.slice(next);
+    this.lineCountedTo -= next;
+    this.pos = 0;
+    this.segmentStart = 0;
+    this.parts = [];
+    this.hasContent = false;
+    this.inVersionedComment = false;
+  }
+
+  // Line number of buffer[index], counting newlines incrementally
+  private lineAt(index: number): number {
+    for (let i = this.buffer.indexOf('\n', this.lineCountedTo); i !== -1 && i < index; i = this.buffer.indexOf('\n', i + 1)) {
+      this.line++;
+    }
+    this.lineCountedTo = Math.max(this.lineCountedTo, index);
+    return this.line;
+  }
+}
+
+// Characters that can start a quote, a comment or the delimiter
+function specialCharacters(delimiter: string): RegExp {
+  const first = delimiter[0].replace(/[\\^\]-]/g, '\\$&');
+  return new RegExp(`['"\`/#\\-${first}]`, 'g');
+}
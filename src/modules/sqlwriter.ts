@@ -0,0 +1,179 @@
+import { Transform, TransformCallback } from 'stream';
+import { CreateStatement, SchemaObject, TableColumn } from '../types';
+import { DUMP_COMPLETED_MARKER } from './sqldump';
+
+// Multi-row INSERTs are cut at about this size, like mysqldump's --net_buffer_length
+export const MAX_INSERT_SIZE = 1024 * 1024;
+
+// Written unquoted; mysql2 returns DECIMAL and BIGINT as strings to keep their precision
+const NUMERIC_TYPES = new Set([
+  'tinyint', 'smallint', 'mediumint', 'int', 'integer', 'bigint',
+  'decimal', 'numeric', 'float', 'double', 'real', 'year'
+]);
+
+// The escapes mysqldump writes (mysql_real_escape_string)
+const STRING_ESCAPES: Record<string, string> = {
+  '\0': '\\0',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\\': '\\\\',
+  '\'': '\\\'',
+  '"': '\\"',
+  '\x1a': '\\Z'
+};
+
+export function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, '``')}\``;
+}
+
+export function escapeString(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return `'${value.replace(/[\0\n\r\\'"\x1a]/g, char => STRING_ESCAPES[char])}'`;
+}
+
+/**
+ * A column value as a SQL literal. Binary data (BLOBs, BIT, geometry) is
+ * written as hex, like mysqldump --hex-blob.
+ */
+export function formatValue(value: unknown, column: TableColumn): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.length > 0 ? `0x${value.toString('hex')}` : '\'\'';
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return String(value);
+  }
+  if (typeof value === 'string' && NUMERIC_TYPES.has(column.dataType.toLowerCase())) {
+    return value;
+  }
+  return escapeString(String(value));
+}
+
+/**
+ * Turns rows (arrays in column order) into multi-row INSERT statements of
+ * about maxSize characters, one per line as mysqldump writes them.
+ */
+export class InsertStatementStream extends Transform {
+  private readonly prefix: string;
+  private readonly maxSize: number;
+  private tuples: string[] = [];
+  private size: number;
+  private rowCount = 0;
+
+  constructor(
+    table: string,
+    private columns: TableColumn[],
+    options: { columnList?: boolean; maxSize?: number } = {}
+  ) {
+    super({ writableObjectMode: true });
+    const columnList = options.columnList ? ` (${columns.map(column => quoteIdentifier(column.name)).join(',')})` : '';
+    this.prefix = `INSERT INTO ${quoteIdentifier(table)}${columnList} VALUES `;
+    this.maxSize = options.maxSize ?? MAX_INSERT_SIZE;
+    this.size = this.prefix.length;
+  }
+
+  get rows(): number {
+    return this.rowCount;
+  }
+
+  _transform(row: unknown[], _encoding: BufferEncoding, callback: TransformCallback): void {
+    const tuple = `(${row.map((value, i) => formatValue(value, this.columns[i])).join(',')})`;
+    if (this.tuples.length > 0 && this.size + tuple.length > this.maxSize) {
+      this.pushStatement();
+    }
+    this.tuples.push(tuple);
+    this.size += tuple.length + 1;
+    this.rowCount++;
+    callback();
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.pushStatement();
+    callback();
+  }
+
+  private pushStatement(): void {
+    if (this.tuples.length === 0) {
+      return;
+    }
+    this.push(`${this.prefix}${this.tuples.join(',')};\n`);
+    this.tuples = [];
+    this.size = this.prefix.length;
+  }
+}
+
+/**
+ * Session settings at the top of a dump, as mysqldump writes them. The time
+ * zone matches the dump connection so TIMESTAMP values restore unchanged.
+ */
+export function formatDumpHeader(title: string): string {
+  return [
+    `-- ${title}`,
+    '',
+    '/*!40101 SET NAMES utf8mb4 */;',
+    '/*!40103 SET TIME_ZONE=\'+00:00\' */;',
+    '/*!40014 SET UNIQUE_CHECKS=0 */;',
+    '/*!40014 SET FOREIGN_KEY_CHECKS=0 */;',
+    '/*!40101 SET SQL_MODE=\'NO_AUTO_VALUE_ON_ZERO\' */;',
+    '/*!40111 SET SQL_NOTES=0 */;',
+    '',
+    ''
+  ].join('\n');
+}
+
+// The trailer verify looks for; a dump without it was cut short
+export function formatDumpFooter(date: Date = new Date()): string {
+  return `\n${DUMP_COMPLETED_MARKER} on ${date.toISOString().slice(0, 19).replace('T', ' ')}\n`;
+}
+
+export function formatUseDatabase(schema: string): string {
+  return `CREATE DATABASE IF NOT EXISTS ${quoteIdentifier(schema)};\nUSE ${quoteIdentifier(schema)};\n\n`;
+}
+
+export function formatCreateTable(table: string, create: CreateStatement): string {
+  return `DROP TABLE IF EXISTS ${quoteIdentifier(table)};\n${create.statement};\n\n`;
+}
+
+// Table data goes between these, as in mysqldump; UNLOCK TABLES also commits it
+export function formatTableDataStart(table: string): string {
+  return `LOCK TABLES ${quoteIdentifier(table)} WRITE;\n/*!40000 ALTER TABLE ${quoteIdentifier(table)} DISABLE KEYS */;\n`;
+}
+
+export function formatTableDataEnd(table: string): string {
+  return `/*!40000 ALTER TABLE ${quoteIdentifier(table)} ENABLE KEYS */;\nUNLOCK TABLES;\n\n`;
+}
+
+/**
+ * A view, routine, trigger or event, replacing any existing one. All but
+ * views are written between DELIMITER lines under their own sql_mode, and
+ * events under their own time zone.
+ */
+export function formatSchemaObject(object: SchemaObject, create: CreateStatement): string {
+  const drop = `DROP ${object.type} IF EXISTS ${quoteIdentifier(object.name)};\n`;
+  if (object.type === 'VIEW' || object.type === 'TABLE') {
+    return `${drop}${create.statement};\n\n`;
+  }
+
+  let settings = create.sqlMode !== undefined ? `/*!50003 SET SQL_MODE=${escapeString(create.sqlMode)} */;\n` : '';
+  let reset = '/*!50003 SET SQL_MODE=\'NO_AUTO_VALUE_ON_ZERO\' */;\n';
+  if (create.timeZone !== undefined) {
+    settings += `/*!50003 SET TIME_ZONE=${escapeString(create.timeZone)} */;\n`;
+    reset += '/*!50003 SET TIME_ZONE=\'+00:00\' */;\n';
+  }
+  return `${drop}${settings}DELIMITER ;;\n${create.statement} ;;\nDELIMITER ;\n${reset}\n`;
+}
+
+// Views that select from other views have to be created after them; views go first
+export function sortSchemaObjects<T extends { object: SchemaObject; create: CreateStatement }>(objects: T[]): T[] {
+  const pending = objects.filter(({ object }) => object.type === 'VIEW');
+  const sorted: T[] = [];
+  while (pending.length > 0) {
+    const ready = pending.findIndex(view => !pending.some(other =>
+      other !== view && view.create.statement.includes(quoteIdentifier(other.object.name))
+    ));
+    sorted.push(...pending.splice(Math.max(ready, 0), 1));
+  }
+  return [...sorted, ...objects.filter(({ object }) => object.type !== 'VIEW')];
+}
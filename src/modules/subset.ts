@@ -0,0 +1,240 @@
+import { Connection } from 'mysql2/promise';
+import { DumpTable, ForeignKey, ManifestTable, SubsetPlan, SubsetProfile, TableColumn, TableName } from '../types';
+import { MySQLManager } from './mysql';
+import { formatValue, quoteIdentifier } from './sqlwriter';
+import { matchesTablePattern } from './tablepatterns';
+
+// Subset backups are named apart from full ones: "shop-subset-2024-01-31T14-32-00-000Z.sql.gz"
+export const SUBSET_LABEL = '-subset';
+// Key values per IN list when looking up the rows a foreign key points at, and when dumping the rows
+const LOOKUP_BATCH_SIZE = 500;
+// Every selected row's key is kept until the dump, so subsets are bounded; profiles can set their own maxRows
+export const DEFAULT_MAX_SUBSET_ROWS = 1000000;
+// "5%" or "0.5%" samples the rows; anything else is a predicate
+const SAMPLE_RULE = /^(\d+(?:\.\d+)?)\s*%$/;
+
+type SelectedRow = { values: unknown[]; referencing: boolean };
+
+interface SubsetTable {
+  table: ManifestTable;
+  // Primary key, foreign key and referenced columns, the only ones looked up
+  columns: TableColumn[];
+  key: string[];
+  rows: Map<string, SelectedRow>;
+}
+
+function checkProfile(name: string, profile: SubsetProfile | undefined): { plan: SubsetPlan; errors: string[] } {
+  const errors: string[] = [];
+  const roots = Object.entries(profile?.roots ?? {});
+  if (roots.length === 0) {
+    errors.push(`Subset: profile '${name}' has no roots`);
+  }
+  for (const [pattern, rule] of roots) {
+    const sample = typeof rule === 'string' ? SAMPLE_RULE.exec(rule.trim()) : null;
+    if (typeof rule !== 'string' || rule.trim() === '') {
+      errors.push(`Subset: root '${pattern}' in profile '${name}' needs a sample like "5%" or a predicate`);
+    } else if (sample && !(Number(sample[1]) > 0 && Number(sample[1]) <= 100)) {
+      errors.push(`Subset: root '${pattern}' in profile '${name}' must sample more than 0% and at most 100% of the rows`);
+    }
+  }
+  const maxRows = profile?.maxRows ?? DEFAULT_MAX_SUBSET_ROWS;
+  if (!Number.isInteger(maxRows) || maxRows < 1) {
+    errors.push(`Subset: maxRows in profile '${name}' must be a positive integer`);
+  }
+  return { plan: { profile: name, roots: profile?.roots ?? {}, referencing: profile?.referencing ?? false, maxRows }, errors };
+}
+
+/**
+ * Checks every subset profile; throws with every problem found.
+ */
+export function validateSubsetConfig(subsets?: Record<string, SubsetProfile>): void {
+  const errors = Object.entries(subsets ?? {}).flatMap(([name, profile]) => checkProfile(name, profile).errors);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+}
+
+/**
+ * The subset profile --subset names, ready to apply.
+ */
+export function resolveSubsetPlan(subsets: Record<string, SubsetProfile> | undefined, name: string): SubsetPlan {
+  const names = Object.keys(subsets ?? {});
+  if (!names.includes(name)) {
+    throw new Error(names.length > 0
+      ? `Unknown subset profile '${name}' (configured: ${names.join(', ')})`
+      : `Unknown subset profile '${name}'; no subset profiles are configured`);
+  }
+  const { plan, errors } = checkProfile(name, subsets![name]);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return plan;
+}
+
+// e.g. "laptop (customers: 5%; with referencing rows)"
+export function describeSubsetPlan(plan: SubsetPlan): string {
+  const roots = Object.entries(plan.roots).map(([pattern, rule]) => `${pattern}: ${rule}`).join(', ');
+  return `${plan.profile} (${roots}${plan.referencing ? '; with referencing rows' : ''})`;
+}
+
+const tableId = (table: TableName): string => `${table.schema}.${table.name}`;
+
+// `id` IN (1,2) or (`a`,`b`) IN ((1,2),(3,4)), with the values written as the dump writes them
+function formatInList(columns: TableColumn[], tuples: unknown[][]): string {
+  if (columns.length === 1) {
+    return `${quoteIdentifier(columns[0].name)} IN (${tuples.map(([value]) => formatValue(value, columns[0])).join(',')})`;
+  }
+  const values = tuples.map(tuple => `(${tuple.map((value, i) => formatValue(value, columns[i])).join(',')})`);
+  return `(${columns.map(column => quoteIdentifier(column.name)).join(',')}) IN (${values.join(',')})`;
+}
+
+/**
+ * Picks the rows of a subset backup in the connection's snapshot: the roots'
+ * samples, then, following foreign keys until nothing new turns up, every
+ * row a selected row references, and with plan.referencing every row
+ * referencing a root row or one taken that way. Rows taken only because
+ * they are referenced don't pull in what references them, or the subset
+ * would soon be the whole database. Returns the tables with predicates
+ * matching the selected rows by primary key, a batch of keys each; tables
+ * without any are flagged to be dumped without rows. Fails once more than
+ * plan.maxRows rows are selected.
+ */
+export async function selectSubset(
+  mysqlManager: MySQLManager,
+  connection: Connection,
+  tables: ManifestTable[],
+  plan: SubsetPlan
+): Promise<{ tables: DumpTable[]; rows: Record<string, number> }> {
+  const candidates = new Map(tables.filter(table => !table.schemaOnly).map(table => [tableId(table), table]));
+  const schemas = [...new Set(tables.map(table => table.schema))];
+  const foreignKeys = schemas.length > 0 ? await mysqlManager.listForeignKeys(connection, schemas) : [];
+  const primaryKeys = new Map((schemas.length > 0 ? await mysqlManager.listPrimaryKeys(connection, schemas) : [])
+    .map(key => [tableId(key), key.columns]));
+  const selected = new Map<string, SubsetTable>();
+  let selectedRows = 0;
+
+  const getTable = async (name: TableName, referencedBy?: ForeignKey): Promise<SubsetTable> => {
+    const id = tableId(name);
+    const existing = selected.get(id);
+    if (existing) {
+      return existing;
+    }
+    const table = candidates.get(id);
+    if (!table) {
+      throw new Error(referencedBy
+        ? `Cannot take a consistent subset: ${tableId(referencedBy.table)} references ${id}, whose rows the backup leaves out`
+        : `Cannot take a subset of ${id}: the backup leaves its rows out`);
+    }
+    const key = primaryKeys.get(id);
+    if (!key) {
+      throw new Error(`Cannot take a subset of ${id}: it has no primary key to select its rows by`);
+    }
+    const needed = new Set([
+      ...key,
+      ...foreignKeys.filter(foreignKey => tableId(foreignKey.table) === id).flatMap(foreignKey => foreignKey.columns),
+      ...foreignKeys.filter(foreignKey => tableId(foreignKey.referencedTable) === id).flatMap(foreignKey => foreignKey.referencedColumns)
+    ]);
+    const columns = (await mysqlManager.getTableColumns(connection, table.schema, table.name)).filter(column => needed.has(column.name));
+    const subsetTable: SubsetTable = { table, columns, key, rows: new Map() };
+    selected.set(id, subsetTable);
+    return subsetTable;
+  };
+
+  const valuesOf = (subsetTable: SubsetTable, row: unknown[], names: string[]): unknown[] =>
+    names.map(name => row[subsetTable.columns.findIndex(column => column.name === name)]);
+
+  // Adds the rows not selected yet, or only selected as referenced; returns them for following
+  const fetchRows = async (subsetTable: SubsetTable, where: string, referencing: boolean): Promise<SelectedRow[]> => {
+    const { table, columns } = subsetTable;
+    const [rows] = await connection.query({
+      sql: `SELECT ${columns.map(column => quoteIdentifier(column.name)).join(', ')} FROM ${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)} WHERE ${where}`,
+      rowsAsArray: true
+    });
+    const added: SelectedRow[] = [];
+    for (const values of rows as unknown[][]) {
+      const id = JSON.stringify(valuesOf(subsetTable, values, subsetTable.key));
+      const existing = subsetTable.rows.get(id);
+      if (!existing || (referencing && !existing.referencing)) {
+        const row = { values, referencing: referencing || Boolean(existing?.referencing) };
+        if (!existing && ++selectedRows > plan.maxRows) {
+          throw new Error(`Subset '${plan.profile}' selects more than ${plan.maxRows} rows; take a smaller sample, narrow the root predicates or raise maxRows`);
+        }
+        subsetTable.rows.set(id, row);
+        added.push(row);
+      }
+    }
+    return added;
+  };
+
+  // Rows whose columns match any of the value tuples; tuples with a NULL reference nothing
+  const lookUp = async (subsetTable: SubsetTable, names: string[], tuples: unknown[][], referencing: boolean): Promise<SelectedRow[]> => {
+    const distinct = [...new Map(tuples.filter(tuple => tuple.every(value => value !== null && value !== undefined))
+      .map(tuple => [JSON.stringify(tuple), tuple])).values()];
+    const columns = names.map(name => subsetTable.columns.find(column => column.name === name)!);
+    const added: SelectedRow[] = [];
+    for (let i = 0; i < distinct.length; i += LOOKUP_BATCH_SIZE) {
+      added.push(...await fetchRows(subsetTable, formatInList(columns, distinct.slice(i, i + LOOKUP_BATCH_SIZE)), referencing));
+    }
+    return added;
+  };
+
+  const queue: { subsetTable: SubsetTable; rows: SelectedRow[] }[] = [];
+  for (const [pattern, rule] of Object.entries(plan.roots)) {
+    const roots = [...candidates.values()].filter(table => matchesTablePattern(pattern, table));
+    if (roots.length === 0) {
+      throw new Error(`Subset root '${pattern}' matches no table the backup takes rows from`);
+    }
+    const sample = SAMPLE_RULE.exec(rule.trim());
+    for (const root of roots) {
+      const subsetTable = await getTable(root);
+      queue.push({ subsetTable, rows: await fetchRows(subsetTable, sample ? `RAND() < ${Number(sample[1]) / 100}` : `(${rule})`, true) });
+    }
+  }
+
+  while (queue.length > 0) {
+    const { subsetTable, rows } = queue.shift()!;
+    if (rows.length === 0) {
+      continue;
+    }
+    const id = tableId(subsetTable.table);
+    for (const foreignKey of foreignKeys.filter(foreignKey => tableId(foreignKey.table) === id)) {
+      const tuples = rows.map(row => valuesOf(subsetTable, row.values, foreignKey.columns));
+      if (tuples.every(tuple => tuple.some(value => value === null || value === undefined))) {
+        continue;
+      }
+      const referenced = await getTable(foreignKey.referencedTable, foreignKey);
+      queue.push({ subsetTable: referenced, rows: await lookUp(referenced, foreignKey.referencedColumns, tuples, false) });
+    }
+
+    const referencingRows = rows.filter(row => row.referencing);
+    if (!plan.referencing || referencingRows.length === 0) {
+      continue;
+    }
+    for (const foreignKey of foreignKeys.filter(foreignKey => tableId(foreignKey.referencedTable) === id)) {
+      // Tables the backup has no rows of have none to take
+      if (!candidates.has(tableId(foreignKey.table))) {
+        continue;
+      }
+      const referencing = await getTable(foreignKey.table);
+      const tuples = referencingRows.map(row => valuesOf(subsetTable, row.values, foreignKey.referencedColumns));
+      queue.push({ subsetTable: referencing, rows: await lookUp(referencing, foreignKey.columns, tuples, true) });
+    }
+  }
+
+  const counts: Record<string, number> = {};
+  const subsetTables = tables.map(table => {
+    const subsetTable = selected.get(tableId(table));
+    if (table.schemaOnly || !subsetTable || subsetTable.rows.size === 0) {
+      return { ...table, schemaOnly: true };
+    }
+    counts[tableId(table)] = subsetTable.rows.size;
+    const keyColumns = subsetTable.key.map(name => subsetTable.columns.find(column => column.name === name)!);
+    const keys = [...subsetTable.rows.values()].map(row => valuesOf(subsetTable, row.values, subsetTable.key));
+    const keyPredicates: string[] = [];
+    for (let i = 0; i < keys.length; i += LOOKUP_BATCH_SIZE) {
+      keyPredicates.push(formatInList(keyColumns, keys.slice(i, i + LOOKUP_BATCH_SIZE)));
+    }
+    return { ...table, keyPredicates };
+  });
+  return { tables: subsetTables, rows: counts };
+}
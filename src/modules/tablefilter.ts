@@ -0,0 +1,189 @@
+import { Transform, TransformCallback } from 'stream';
+import { SqlStatement, TableSelection } from '../types';
+
+export const TABLE_SUFFIX_PATTERN = /^[A-Za-z0-9_$]+$/;
+
+export const IDENTIFIER = '(?:`(?:[^`]|``)+`|[A-Za-z0-9_$]+)';
+const QUALIFIER = `(?:${IDENTIFIER}\\s*\\.\\s*)?`;
+// Statements about a single table, ending with its name
+const TABLE_STATEMENT = new RegExp(
+  '^(\\s*(?:DROP\\s+TABLE(?:\\s+IF\\s+EXISTS)?|CREATE\\s+TABLE(?:\\s+IF\\s+NOT\\s+EXISTS)?|ALTER\\s+TABLE|LOCK\\s+TABLES|' +
+  `(?:INSERT|REPLACE)(?:\\s+(?:LOW_PRIORITY|DELAYED|HIGH_PRIORITY|IGNORE))*\\s+INTO)\\s+${QUALIFIER})(${IDENTIFIER})`,
+  'i'
+);
+const CREATE_TABLE = /^\s*CREATE\s+TABLE/i;
+// Trigger name, then the table it is on
+const CREATE_TRIGGER = new RegExp(
+  `^(\\s*CREATE\\b[^(]*?\\bTRIGGER\\s+${QUALIFIER})(${IDENTIFIER})` +
+  `(\\s+(?:BEFORE|AFTER)\\s+(?:INSERT|UPDATE|DELETE)\\s+ON\\s+${QUALIFIER})(${IDENTIFIER})`,
+  'i'
+);
+const USE_STATEMENT = new RegExp(`^\\s*USE\\s+(${IDENTIFIER})`, 'i');
+// The schema a table name is qualified with, at the end of the text before the name
+const TRAILING_QUALIFIER = new RegExp(`(${IDENTIFIER})\\s*\\.\\s*$`);
+const DROP_TRIGGER = new RegExp(`^(\\s*DROP\\s+TRIGGER(?:\\s+IF\\s+EXISTS)?\\s+${QUALIFIER})(${IDENTIFIER})`, 'i');
+const SCHEMA_OBJECT = /^\s*(?:CREATE|DROP)\b[^(]*?\b(?:VIEW|PROCEDURE|FUNCTION|EVENT)\b/i;
+const GTID_PURGED = /^\s*SET\s+@@GLOBAL\.GTID_PURGED\b/i;
+// Constraint names are unique per schema, so renamed tables let the server name theirs
+const NAMED_CONSTRAINT = new RegExp(`\\bCONSTRAINT\\s+${IDENTIFIER}\\s+(?=FOREIGN\\s+KEY|CHECK\\b)`, 'gi');
+// Everything the patterns above look at is near the start of a statement
+const STATEMENT_HEAD_LENGTH = 4096;
+
+export const parseNameList = (value?: string): string[] | undefined =>
+  value === undefined ? undefined : value.split(',').map(name => name.trim()).filter(name => name.length > 0);
+
+/**
+ * Validates restore's --tables, --exclude-tables and --table-suffix; returns
+ * undefined when the whole backup is to be restored as it is.
+ */
+export function parseTableSelection(options: { tables?: string; excludeTables?: string; tableSuffix?: string }): TableSelection | undefined {
+  const include = parseNameList(options.tables);
+  const exclude = parseNameList(options.excludeTables);
+  if (include?.length === 0) {
+    throw new Error('--tables needs at least one table name');
+  }
+  if (options.tableSuffix !== undefined && !TABLE_SUFFIX_PATTERN.test(options.tableSuffix)) {
+    throw new Error(`Invalid --table-suffix '${options.tableSuffix}' (use letters, digits, _ and $ only)`);
+  }
+  if (!include && !exclude?.length && !options.tableSuffix) {
+    return undefined;
+  }
+  return { include, exclude, renameSuffix: options.tableSuffix };
+}
+
+// "orders" matches the table in any schema, "app.orders" only in app; an unknown schema matches no qualified name
+function matchesTableName(name: string, table: string, schema?: string): boolean {
+  const dot = name.indexOf('.');
+  return dot === -1 ? name === table : name.slice(dot + 1) === table && name.slice(0, dot) === schema;
+}
+
+export function isTableSelected(selection: TableSelection, table: string, schema?: string): boolean {
+  const matches = (names?: string[]) => names?.some(name => matchesTableName(name, table, schema)) ?? false;
+  return (!selection.include || matches(selection.include)) && !matches(selection.exclude);
+}
+
+export function describeTableSelection(selection: TableSelection): string {
+  const tables = selection.include ? selection.include.join(', ') : 'all';
+  const excluded = selection.exclude?.length ? ` except ${selection.exclude.join(', ')}` : '';
+  const renamed = selection.renameSuffix ? ` (restored as <table>${selection.renameSuffix})` : '';
+  return `${tables}${excluded}${renamed}`;
+}
+
+/**
+ * The start of a statement with versioned comment markers blanked out, so
+ * patterns match the code inside them at the same offsets.
+ */
+export function statementHead(sql: string): string {
+  return sql.slice(0, STATEMENT_HEAD_LENGTH).replace(/\/\*![0-9]*|\*\//g, marker => ' '.repeat(marker.length));
+}
+
+// Statements hold the dump's bytes as latin1; names on the command line are UTF-8
+export function identifierName(identifier: string): string {
+  const name = identifier.startsWith('`') ? identifier.slice(1, -1).replace(/``/g, '`') : identifier;
+  return Buffer.from(name, 'latin1').toString('utf8');
+}
+
+// Puts the quoted name in place of the identifier at offset
+export function replaceIdentifier(sql: string, offset: number, identifier: string, name: string): string {
+  const quoted = Buffer.from(name, 'utf8').toString('latin1').replace(/`/g, '``');
+  return `${sql.slice(0, offset)}\`${quoted}\`${sql.slice(offset + identifier.length)}`;
+}
+
+function renameIdentifier(sql: string, offset: number, identifier: string, suffix: string): string {
+  return replaceIdentifier(sql, offset, identifier, identifierName(identifier) + suffix);
+}
+
+export const isGtidPurged = (head: string): boolean => GTID_PURGED.test(head);
+
+/**
+ * Drops the statements of a dump that don't belong to the selected tables:
+ * their structure, data and triggers, and all views, routines and events.
+ * Session settings pass through. With a rename suffix, the kept tables and
+ * their triggers are created under new names. Tables are in the schema the
+ * statement names, or else the one the dump last switched to with USE.
+ */
+export class SqlStatementFilter extends Transform {
+  // Native dumps drop a trigger before the CREATE that says which table it is on
+  private pendingTriggerDrops = new Map<string, { statement: SqlStatement; offset: number; identifier: string }>();
+  private schema?: string;
+
+  constructor(private readonly selection: TableSelection) {
+    super({ objectMode: true });
+    this.schema = selection.schema;
+  }
+
+  _transform(statement: SqlStatement, _encoding: BufferEncoding, callback: TransformCallback): void {
+    for (const kept of this.keep(statement)) {
+      this.push(kept);
+    }
+    callback();
+  }
+
+  private keep(statement: SqlStatement): SqlStatement[] {
+    const head = statementHead(statement.sql);
+    const suffix = this.selection.renameSuffix;
+
+    const use = USE_STATEMENT.exec(head);
+    if (use) {
+      this.schema = identifierName(use[1]);
+      return [statement];
+    }
+
+    const trigger = CREATE_TRIGGER.exec(head);
+    if (trigger) {
+      const [, beforeName, name, beforeTable, table] = trigger;
+      const triggerKey = JSON.stringify([this.schemaOf(beforeName), identifierName(name)]);
+      const drop = this.pendingTriggerDrops.get(triggerKey);
+      this.pendingTriggerDrops.delete(triggerKey);
+      if (!isTableSelected(this.selection, identifierName(table), this.schemaOf(beforeTable))) {
+        return [];
+      }
+      if (!suffix) {
+        return drop ? [drop.statement, statement] : [statement];
+      }
+      // The table comes after the trigger name, so it is renamed first
+      const tableOffset = beforeName.length + name.length + beforeTable.length;
+      let sql = renameIdentifier(statement.sql, tableOffset, table, suffix);
+      sql = renameIdentifier(sql, beforeName.length, name, suffix);
+      const created = { ...statement, sql };
+      return drop
+        ? [{ ...drop.statement, sql: renameIdentifier(drop.statement.sql, drop.offset, drop.identifier, suffix) }, created]
+        : [created];
+    }
+
+    const dropTrigger = DROP_TRIGGER.exec(head);
+    if (dropTrigger) {
+      const [, before, name] = dropTrigger;
+      this.pendingTriggerDrops.set(JSON.stringify([this.schemaOf(before), identifierName(name)]), { statement, offset: before.length, identifier: name });
+      return [];
+    }
+
+    const tableStatement = TABLE_STATEMENT.exec(head);
+    if (tableStatement) {
+      const [, before, table] = tableStatement;
+      if (!isTableSelected(this.selection, identifierName(table), this.schemaOf(before))) {
+        return [];
+      }
+      if (!suffix) {
+        return [statement];
+      }
+      let sql = renameIdentifier(statement.sql, before.length, table, suffix);
+      if (CREATE_TABLE.test(head)) {
+        sql = sql.replace(NAMED_CONSTRAINT, '');
+      }
+      return [{ ...statement, sql }];
+    }
+
+    // A partial restore leaves the server's GTID state alone
+    if (SCHEMA_OBJECT.test(head) || isGtidPurged(head)) {
+      return [];
+    }
+    return [statement];
+  }
+
+  // The schema a statement qualifies its table with, or the current one
+  private schemaOf(before: string): string | undefined {
+    const qualifier = TRAILING_QUALIFIER.exec(before);
+    return qualifier ? identifierName(qualifier[1]) : this.schema;
+  }
+}
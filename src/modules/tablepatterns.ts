@@ -0,0 +1,79 @@
+import { DatabaseConfig, ManifestTable, TableName } from '../types';
+import { globToRegExp } from './filter';
+import { parseNameList } from './tablefilter';
+
+type TableFilters = Pick<DatabaseConfig, 'tables' | 'excludeTables' | 'schemaOnlyTables' | 'tableFilters'>;
+
+/**
+ * Validates backup's --include-tables, --exclude-tables and
+ * --schema-only-tables; undefined when the option wasn't given.
+ */
+export function parseTablePatterns(option: string, value?: string): string[] | undefined {
+  const patterns = parseNameList(value);
+  if (patterns?.length === 0) {
+    throw new Error(`--${option} needs at least one table pattern`);
+  }
+  return patterns;
+}
+
+// "app.sessions" and "*.audit_log_*" name the schema; a bare "sessions" matches in any schema
+export function matchesTablePattern(pattern: string, table: TableName): boolean {
+  const dot = pattern.indexOf('.');
+  if (dot === -1) {
+    return globToRegExp(pattern).test(table.name);
+  }
+  return globToRegExp(pattern.slice(0, dot)).test(table.schema) && globToRegExp(pattern.slice(dot + 1)).test(table.name);
+}
+
+export function hasTableFilters(filters: TableFilters): boolean {
+  return Boolean(filters.tables?.length || filters.excludeTables?.length || filters.schemaOnlyTables?.length || hasRowFilters(filters));
+}
+
+export function hasRowFilters(filters: TableFilters): boolean {
+  return Object.keys(filters.tableFilters ?? {}).length > 0;
+}
+
+/**
+ * Applies the table filters to the tables of the dumped schemas: a table is
+ * kept if it matches an include pattern (or there are none) and no exclude
+ * pattern. Kept tables matching a schema-only pattern are flagged to be
+ * dumped without their rows, the others get the predicates of the row
+ * filters they match.
+ */
+export function applyTableFilters(tables: ManifestTable[], filters: TableFilters): { tables: ManifestTable[]; excluded: TableName[] } {
+  const matchesAny = (patterns: string[] | undefined, table: TableName) => patterns?.some(pattern => matchesTablePattern(pattern, table)) ?? false;
+  const kept: ManifestTable[] = [];
+  const excluded: TableName[] = [];
+
+  for (const table of tables) {
+    if ((filters.tables?.length && !matchesAny(filters.tables, table)) || matchesAny(filters.excludeTables, table)) {
+      excluded.push({ schema: table.schema, name: table.name });
+    } else if (matchesAny(filters.schemaOnlyTables, table)) {
+      kept.push({ ...table, schemaOnly: true });
+    } else {
+      const where = getRowFilter(filters.tableFilters, table);
+      kept.push(where !== undefined ? { ...table, where } : table);
+    }
+  }
+  return { tables: kept, excluded };
+}
+
+// A table matching several row filters only keeps the rows matching all of them
+function getRowFilter(tableFilters: Record<string, string> | undefined, table: TableName): string | undefined {
+  const predicates = Object.entries(tableFilters ?? {})
+    .filter(([pattern]) => matchesTablePattern(pattern, table))
+    .map(([, predicate]) => predicate);
+  if (predicates.length <= 1) {
+    return predicates[0];
+  }
+  return predicates.map(predicate => `(${predicate})`).join(' AND ');
+}
+
+export function describeTableFilters(filters: TableFilters): string {
+  const parts: string[] = [];
+  if (filters.tables?.length) parts.push(`only ${filters.tables.join(', ')}`);
+  if (filters.excludeTables?.length) parts.push(`except ${filters.excludeTables.join(', ')}`);
+  if (filters.schemaOnlyTables?.length) parts.push(`without rows: ${filters.schemaOnlyTables.join(', ')}`);
+  if (hasRowFilters(filters)) parts.push(`rows of ${Object.keys(filters.tableFilters!).join(', ')} filtered`);
+  return parts.join('; ');
+}
@@ -5,6 +5,13 @@ export interface DatabaseConfig {
   password: string;
   database?: string;
   schemas?: string[];
+  // Glob patterns of schema.table, or of a table name in any schema, e.g. *.audit_log_*
+  tables?: string[];
+  excludeTables?: string[];
+  // Tables backed up with their definition but without their rows
+  schemaOnlyTables?: string[];
+  // Table pattern to SQL predicate; only matching rows are backed up
+  tableFilters?: Record<string, string>;
 }
 
 export interface S3Config {
@@ -16,9 +23,124 @@ export interface S3Config {
   endpointUrl?: string;
 }
 
+export type CompressionCodec = 'gzip' | 'zstd' | 'brotli' | 'none';
+
+export interface CompressionConfig {
+  codec?: CompressionCodec;
+  level?: number;
+}
+
+export interface EncryptionKeySource {
+  passphrase?: string;
+  keyFile?: string;
+  // X25519 private keys (PEM or PEM file paths); only needed to restore
+  identities?: string[];
+}
+
+export interface EncryptionConfig extends EncryptionKeySource {
+  // X25519 public keys (PEM or PEM file paths) to encrypt backups to
+  recipients?: string[];
+  // Keys used before a rotation; only tried when decrypting
+  previousKeys?: EncryptionKeySource[];
+}
+
+// Grandfather-father-son retention, applied per backup name. A backup is kept
+// if any rule keeps it; maxAgeDays then removes anything older regardless.
+export interface RetentionConfig {
+  keepLast?: number;
+  keepDaily?: number;
+  keepWeekly?: number;
+  keepMonthly?: number;
+  keepYearly?: number;
+  maxAgeDays?: number;
+  // Prune the backup's own name group after every successful backup
+  autoPrune?: boolean;
+}
+
+export type MaskingStrategy = 'email' | 'hash' | 'null' | 'fixed' | 'partial' | 'pseudonym';
+
+export interface MaskingRule {
+  strategy: MaskingStrategy;
+  // The replacement for fixed
+  value?: string;
+  // Trailing characters partial leaves readable, 4 by default
+  keep?: number;
+}
+
+// Columns to mask, keyed "table.column" or "schema.table.column"; table parts may use * and ?
+export interface MaskingProfile {
+  // Overrides the shared salt
+  salt?: string;
+  columns: Record<string, MaskingStrategy | MaskingRule>;
+}
+
+export interface MaskingConfig {
+  // Keys hash, email and pseudonym values, so they can't be looked up by hashing guesses
+  salt?: string;
+  profiles?: Record<string, MaskingProfile>;
+}
+
+// A profile ready to apply, its column keys split into table pattern and column
+export interface MaskingPlan {
+  profile: string;
+  salt?: string;
+  columns: { key: string; table: string; column: string; rule: MaskingRule }[];
+}
+
+// Where a subset backup starts; foreign keys decide what else it takes
+export interface SubsetProfile {
+  // Table pattern to a sample of its rows, e.g. "5%", or to an SQL predicate
+  roots: Record<string, string>;
+  // Also take the rows referencing the selected ones, e.g. a customer's orders
+  referencing?: boolean;
+  // Fail once more rows than this are selected, defaults to 1,000,000
+  maxRows?: number;
+}
+
+// A profile ready to apply
+export interface SubsetPlan {
+  profile: string;
+  roots: Record<string, string>;
+  referencing: boolean;
+  maxRows: number;
+}
+
+export interface BinlogConfig {
+  // Key prefix the binlog archive is written under, defaults to "binlogs/"
+  prefix?: string;
+}
+
+// Source server that restore --as-replica points the restored server at
+export interface ReplicationConfig {
+  sourceHost?: string;
+  sourcePort?: number;
+  user?: string;
+  password?: string;
+}
+
+export interface ReplicationSource {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+}
+
 export interface AppConfig {
   database: DatabaseConfig;
   s3: S3Config;
+  compression?: CompressionConfig;
+  encryption?: EncryptionConfig;
+  retention?: RetentionConfig;
+  binlog?: BinlogConfig;
+  replication?: ReplicationConfig;
+  // What writes single-object backups: the mysqldump binary (default) or the built-in engine
+  dumpEngine?: Exclude<DumpEngine, 'parallel'>;
+  // What loads SQL backups: the mysql client (default) or the built-in engine
+  restoreEngine?: RestoreEngine;
+  // Dump the target database to S3 before every restore
+  preRestoreSnapshot?: boolean;
+  masking?: MaskingConfig;
+  subsets?: Record<string, SubsetProfile>;
   verbose?: boolean;
 }
 
@@ -27,6 +149,137 @@ export interface BackupInfo {
   lastModified: Date;
   size: number;
   displayName: string;
+  // From the key; unset for full backups
+  mode?: BackupMode;
+  compression?: CompressionCodec;
+  encrypted?: boolean;
+  // SHA-256 of the stored object, from object metadata or the manifest
+  sha256?: string;
+  manifest?: BackupManifest;
+}
+
+export interface ManifestTable {
+  schema: string;
+  name: string;
+  // From information_schema, so only an estimate for InnoDB
+  approxRows: number;
+  dataSize: number;
+  indexSize: number;
+  // Dumped without its rows (schemaOnlyTables)
+  schemaOnly?: boolean;
+  // Only rows matching this predicate were dumped (tableFilters)
+  where?: string;
+}
+
+// A table as the dump reads it; a subset's rows are read by primary key, one predicate per batch of keys
+export interface DumpTable extends ManifestTable {
+  keyPredicates?: string[];
+}
+
+export interface TableName {
+  schema: string;
+  name: string;
+}
+
+export interface BinlogPosition {
+  file: string;
+  position: number;
+  gtidExecuted?: string;
+  // Recorded by mysqldump for its own snapshot, rather than read just before the dump
+  exact?: boolean;
+}
+
+// A binary log on the server, as listed by SHOW BINARY LOGS
+export interface BinaryLogFile {
+  name: string;
+  size: number;
+}
+
+// A binary log stored in the S3 archive
+export interface ArchivedBinlog {
+  file: string;
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface BinlogReplayOptions {
+  // Position in the first binlog to start from (the one recorded at dump time)
+  startPosition: number;
+  // Replay events up to, but not including, this time
+  stopDatetime: Date;
+  // Only replay changes to this schema of the source server
+  database?: string;
+}
+
+export interface ServerSnapshot {
+  serverVersion: string;
+  schemas: string[];
+  tables: ManifestTable[];
+  binlog?: BinlogPosition;
+  // RELOAD lets mysqldump briefly lock tables to read the binlog position of its snapshot
+  hasReloadPrivilege: boolean;
+  // Tables of the schemas left out by the table filters
+  excludedTables?: TableName[];
+}
+
+// mysqldump and native write one object; parallel dumps every table into its own chunk object
+export type DumpEngine = 'mysqldump' | 'native' | 'parallel';
+
+// What a backup holds: table definitions and rows, only the definitions, or only the rows
+export type BackupMode = 'full' | 'schema' | 'data';
+
+// mysql pipes the dump into the client binary; native runs its statements over a mysql2 connection
+export type RestoreEngine = 'mysql' | 'native';
+
+// One statement of a SQL dump, as the native restore engine runs it
+export interface SqlStatement {
+  sql: string;
+  // Line of the dump the statement starts on
+  line: number;
+}
+
+// One object of a parallel backup: a table, or the views, routines and triggers of a schema
+export interface ManifestChunk {
+  key: string;
+  schema: string;
+  // Unset for the chunk holding the schema's views, routines and triggers
+  table?: string;
+  // Exact number of rows dumped
+  rows?: number;
+  uncompressedSize: number;
+  size: number;
+  sha256: string;
+}
+
+export interface BackupManifest {
+  formatVersion: number;
+  toolVersion: string;
+  backupKey: string;
+  serverVersion: string;
+  schemas: string[];
+  tables: ManifestTable[];
+  mysqldumpFlags: string[];
+  compression: CompressionConfig;
+  encrypted: boolean;
+  uncompressedSize: number;
+  compressedSize: number;
+  // Of the stored object; parallel backups have one per chunk instead
+  sha256?: string;
+  startedAt: string;
+  finishedAt: string;
+  binlog?: BinlogPosition;
+  // Unset for mysqldump backups written before there was a choice
+  engine?: DumpEngine;
+  chunks?: ManifestChunk[];
+  // Unset for backups written before there was a choice, which are full
+  mode?: BackupMode;
+  // Tables of the backed-up schemas the table filters left out
+  excludedTables?: TableName[];
+  // Set when the rows were masked on the way to S3
+  masking?: { profile: string; columns: string[] };
+  // Set for subset backups; rows holds the number of rows taken from each "schema.table"
+  subset?: { profile: string; roots: Record<string, string>; referencing: boolean; rows: Record<string, number> };
 }
 
 export interface BackupOptions {
@@ -35,25 +288,294 @@ export interface BackupOptions {
   verbose?: boolean;
   schemas?: string;
   name?: string;
+  tempFile?: boolean;
+  compression?: string;
+  compressionLevel?: string;
+  parallel?: string;
+  mode?: string;
+  // Comma-separated table patterns
+  includeTables?: string;
+  excludeTables?: string;
+  schemaOnlyTables?: string;
+  // Masking profile to apply
+  mask?: string;
+  // Subset profile to apply
+  subset?: string;
 }
 
-export interface ListOptions {
+export type BackupSortField = 'name' | 'date' | 'size';
+
+// Backup selection options shared by list and the interactive restore picker, as given on the command line
+export interface BackupFilterOptions {
+  prefix?: string;
+  since?: string;
+  until?: string;
+  name?: string;
+  limit?: string;
+  sort?: string;
+  reverse?: boolean;
+}
+
+// BackupFilterOptions after validation
+export interface BackupFilter {
+  prefix?: string;
+  since?: Date;
+  until?: Date;
+  name?: RegExp;
+  limit?: number;
+  sort: BackupSortField;
+  reverse: boolean;
+}
+
+export interface ListOptions extends BackupFilterOptions {
   configFile?: string;
   format?: 'table' | 'json';
   verbose?: boolean;
 }
 
-export interface RestoreOptions {
+export interface RestoreOptions extends BackupFilterOptions {
   configFile?: string;
   backup?: string;
   database?: string;
   interactive?: boolean;
   force?: boolean;
   verbose?: boolean;
+  tempFile?: boolean;
+  ignoreChecksum?: boolean;
+  // Skip reading a backup with a checksum through once before streaming it; a mismatch is only found once it has been applied
+  verifyAfterStream?: boolean;
+  // Point in time to roll the backup forward to with archived binlogs
+  toTime?: string;
+  asReplica?: boolean;
+  sourceHost?: string;
+  sourcePort?: string;
+  sourceUser?: string;
+  startReplica?: boolean;
+  parallel?: string;
+  // Comma-separated table names
+  tables?: string;
+  excludeTables?: string;
+  tableSuffix?: string;
+  // Comma-separated schema names, and from=to pairs
+  schemas?: string;
+  map?: string;
+  atomic?: boolean;
+  // Hours to keep the tables an atomic restore replaced
+  keepOld?: string;
+  snapshot?: boolean;
+  mask?: string;
+}
+
+export interface PruneOptions {
+  configFile?: string;
+  prefix?: string;
+  dryRun?: boolean;
+  verbose?: boolean;
+}
+
+export interface BinlogOptions {
+  configFile?: string;
+  watch?: boolean;
+  interval?: string;
+  flush?: boolean;
+  verbose?: boolean;
+}
+
+export interface VerifyOptions {
+  configFile?: string;
+  backup?: string;
+  restoreTest?: boolean;
+  format?: 'table' | 'json';
+  verbose?: boolean;
+}
+
+export type VerifyCheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface VerifyCheck {
+  name: string;
+  status: VerifyCheckStatus;
+  detail: string;
+}
+
+export interface BackupStreamOptions {
+  compression?: CompressionConfig;
+  encryption?: EncryptionConfig;
+  // Called with the size of every chunk mysqldump writes, before compression
+  onDumpData?: (bytes: number) => void;
+  // Has mysqldump record the binlog coordinates of its snapshot and report them
+  binlog?: {
+    serverVersion: string;
+    onPosition: (position: BinlogPosition) => void;
+  };
+  // Tables mysqldump leaves out, and tables it dumps without their rows
+  ignoreTables?: TableName[];
+  schemaOnlyTables?: TableName[];
+  mode?: BackupMode;
+  // Rewrites the dump's rows before they are compressed
+  masking?: MaskingPlan;
+  // Dumps only the rows the plan selects, chosen in the dump's own snapshot
+  subset?: SubsetOptions;
+}
+
+export interface SubsetOptions {
+  plan: SubsetPlan;
+  // Called with the number of rows selected from each "schema.table" before any is dumped
+  onSelected?: (rows: Record<string, number>) => void;
+}
+
+export interface RestoreStreamOptions {
+  compression?: CompressionCodec;
+  encryption?: EncryptionConfig;
+  // Checked once the whole object has streamed through, after its statements ran; the restore then fails
+  expectedSha256?: string;
+  // The caller raised max_allowed_packet already and restores it afterwards
+  packetSizeRaised?: boolean;
+  engine?: RestoreEngine;
+  // Only restore these tables; needs the native engine, which is then used
+  tables?: TableSelection;
+  // Likewise for the schemas of a dump that switches schemas with USE
+  schemas?: SchemaSelection;
+  // Masks rows before they reach the server, likewise with the native engine; schema is
+  // the one the dump's rows belong to until it switches with USE
+  masking?: { plan: MaskingPlan; schema?: string };
+}
+
+// Schemas to restore from a dump that switches schemas with USE, and under what name
+export interface SchemaSelection {
+  // Unset restores every schema in the dump
+  include?: string[];
+  // Original schema name to the name it is restored as
+  map?: Record<string, string>;
+}
+
+// Tables to restore from a backup, by name in any of its schemas
+export interface TableSelection {
+  // Unset restores every table not excluded; "orders" names the table in every schema, "app.orders" only in app
+  include?: string[];
+  exclude?: string[];
+  // The schema the dump's tables are in until it switches with USE, for matching qualified names
+  schema?: string;
+  // Appended to the names of restored tables and their triggers, leaving the live ones untouched
+  renameSuffix?: string;
+}
+
+// A column as the native and parallel engines dump it
+export interface TableColumn {
+  name: string;
+  // information_schema DATA_TYPE, e.g. "int" or "varchar"
+  dataType: string;
+  // Generated columns are computed by the server, so they're left out of INSERTs
+  generated: boolean;
+}
+
+// A foreign key, its columns in the order they pair up with the referenced ones
+export interface ForeignKey {
+  name: string;
+  table: TableName;
+  columns: string[];
+  referencedTable: TableName;
+  referencedColumns: string[];
+}
+
+export type SchemaObjectType = 'TABLE' | 'VIEW' | 'PROCEDURE' | 'FUNCTION' | 'TRIGGER' | 'EVENT';
+
+export interface SchemaObject {
+  type: SchemaObjectType;
+  schema: string;
+  name: string;
+  // The table a trigger is on
+  table?: string;
+}
+
+// SHOW CREATE output; routines, triggers and events also need the sql_mode they were created with
+export interface CreateStatement {
+  statement: string;
+  sqlMode?: string;
+  // Events are scheduled in the time zone they were created in
+  timeZone?: string;
+}
+
+// Options for dumping with the parallel engine
+export interface ParallelBackupOptions {
+  connections: number;
+  compression: CompressionConfig;
+  encryption?: EncryptionConfig;
+  onProgress?: ProgressCallback;
+  mode?: BackupMode;
+  masking?: MaskingPlan;
+  subset?: SubsetOptions;
+}
+
+export interface ParallelBackupResult {
+  chunks: ManifestChunk[];
+  // Read while the snapshot was taken, so always exact
+  binlog?: BinlogPosition;
+  uncompressedSize: number;
+  compressedSize: number;
+}
+
+export interface ParallelRestoreOptions {
+  connections: number;
+  encryption?: EncryptionConfig;
+  // Check every chunk against the SHA-256 in the manifest
+  verifyChecksums: boolean;
+  engine?: RestoreEngine;
+  tables?: TableSelection;
+  schemas?: SchemaSelection;
+  masking?: MaskingPlan;
+  onProgress?: ProgressCallback;
+}
+
+// Size and SHA-256 of a backup object as stored (after compression and encryption)
+export interface BackupDigest {
+  size: number;
+  sha256: string;
+}
+
+// Backup key split into the backup name (including any directory) and its timestamp
+export interface ParsedBackupKey {
+  name: string;
+  timestamp?: Date;
+}
+
+export interface PruneDecision {
+  backup: BackupInfo;
+  // Backup name the retention rules are applied to
+  group: string;
+  date: Date;
+  keep: boolean;
+  // Rules that keep the backup, e.g. "newest", "daily"
+  reasons: string[];
+}
+
+// What a plain SQL dump contains, as read back by the verify command
+export interface DumpAnalysis {
+  // Rows inserted per table, including tables created without rows
+  tables: Record<string, number>;
+  // Databases switched to with USE (multi-schema dumps)
+  databases: string[];
+  // Whether the dump ends with mysqldump's "-- Dump completed" trailer
+  complete: boolean;
+  // Uncompressed size in bytes
+  size: number;
+}
+
+export interface ListBackupsOptions {
+  withManifests?: boolean;
+}
+
+export interface DownloadOptions {
+  expectedSha256?: string;
+}
+
+export interface UploadOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
 }
 
 export interface ProgressCallback {
-  (progress: { loaded?: number; total?: number; percentage?: number }): void;
+  // The native restore engine also counts the statements and tables it has run
+  (progress: { loaded?: number; total?: number; percentage?: number; statements?: number; tables?: number }): void;
 }
 
 export interface ValidationContext {